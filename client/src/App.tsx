@@ -20,6 +20,10 @@ import Subscribe from "@/pages/subscribe";
 import WelcomeTrial from "@/pages/welcome-trial";
 import ManageSubscription from "@/pages/manage-subscription";
 import EmailPreferences from "@/pages/email-preferences";
+import PaymentHandlesPage from "@/pages/payment-handles";
+import Stats from "@/pages/stats";
+import Events from "@/pages/events";
+import EventPage from "@/pages/event";
 import NotFound from "@/pages/not-found";
 import AdminPage from "@/pages/admin";
 import QRCodePage from "@/pages/qr-code";
@@ -27,6 +31,7 @@ import CompleteAccount from "@/pages/complete-account";
 import TermsOfServicePage from "@/pages/tos";
 import PrivacyPolicyPage from "@/pages/privacy";
 import AccountDeleted from "@/pages/account-deleted";
+import Live from "@/pages/live";
 
 // Guard component that wraps Home to check subscription access
 function ProtectedHome() {
@@ -87,12 +92,17 @@ function Router() {
       <Route path="/subscribe" component={Subscribe} />
       <Route path="/manage-subscription" component={ManageSubscription} />
       <Route path="/email-preferences" component={EmailPreferences} />
+      <Route path="/payment-handles" component={PaymentHandlesPage} />
+      <Route path="/stats" component={Stats} />
+      <Route path="/events" component={Events} />
+      <Route path="/events/:eventId" component={EventPage} />
       <Route path="/forgot-password" component={ForgotPassword} />
       <Route path="/reset-password" component={ResetPassword} />
       <Route path="/complete-account" component={CompleteAccount} />
       <Route path="/tos" component={TermsOfServicePage} />
       <Route path="/privacy" component={PrivacyPolicyPage} />
       <Route path="/account-deleted" component={AccountDeleted} />
+      <Route path="/live/:shareToken" component={Live} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -7,6 +7,8 @@ interface HoleSelectorProps {
   penaltyHoles?: number[];
   bonusHoles?: number[];
   totalHoles?: number;
+  /** Holes in play order; overrides totalHoles for 9/27-hole and shotgun rounds */
+  holes?: number[];
 }
 
 export function HoleSelector({ 
@@ -14,8 +16,10 @@ export function HoleSelector({
   onHoleSelect, 
   penaltyHoles = [], 
   bonusHoles = [],
-  totalHoles = 18 
+  totalHoles = 18,
+  holes
 }: HoleSelectorProps) {
+  const holeList = holes ?? Array.from({ length: totalHoles }, (_, i) => i + 1);
   const isPenaltyHole = (hole: number) => penaltyHoles.includes(hole);
   const isBonusHole = (hole: number) => bonusHoles.includes(hole);
   
@@ -35,7 +39,7 @@ export function HoleSelector({
       <CardContent className="p-4">
         <h3 className="text-lg font-semibold text-gray-800 mb-3">Select Hole</h3>
         <div className="grid grid-cols-6 gap-2">
-          {Array.from({ length: totalHoles }, (_, i) => i + 1).map(hole => (
+          {holeList.map(hole => (
             <Button 
               key={hole}
               variant={selectedHole === hole ? "default" : "outline"}
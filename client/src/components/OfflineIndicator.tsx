@@ -1,13 +1,14 @@
-import { Wifi, WifiOff, Upload, Clock } from "lucide-react";
+import { Wifi, WifiOff, Upload, Clock, AlertCircle } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useOfflineSync } from "@/hooks/useOfflineSync";
 
 export default function OfflineIndicator() {
-  const { isOnline, isSyncing, pendingCount, syncOfflineData } = useOfflineSync();
+  const { isOnline, isSyncing, pendingCount, failedOperations, operations, syncOfflineData, discardOperation, retryOperation } = useOfflineSync();
+  const pendingOperations = operations.filter(operation => operation.status === 'pending');
 
-  if (isOnline && pendingCount === 0) {
-    return null; // Don't show anything when online with no pending data
+  if (isOnline && pendingCount === 0 && failedOperations.length === 0) {
+    return null; // Don't show anything when online with nothing queued
   }
 
   return (
@@ -38,7 +39,55 @@ export default function OfflineIndicator() {
                   {pendingCount} pending
                 </Badge>
               )}
+
+              {failedOperations.length > 0 && (
+                <Badge variant="destructive" className="text-xs">
+                  <AlertCircle className="h-3 w-3 mr-1" />
+                  {failedOperations.length} failed
+                </Badge>
+              )}
             </div>
+
+            {pendingOperations.length > 0 && (
+              <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+                {pendingOperations.map(operation => (
+                  <li key={operation.opId} className="text-xs text-gray-600 truncate" data-testid={`offline-op-${operation.opId}`}>
+                    {operation.description}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {failedOperations.length > 0 && (
+              <ul className="mt-2 space-y-2 max-h-40 overflow-y-auto">
+                {failedOperations.map(operation => (
+                  <li key={operation.opId} className="text-xs" data-testid={`offline-op-failed-${operation.opId}`}>
+                    <div className="font-medium text-red-700 truncate">{operation.description}</div>
+                    <div className="text-red-600">{operation.error}</div>
+                    <div className="flex gap-2 mt-1">
+                      <Button
+                        onClick={() => retryOperation(operation)}
+                        size="sm"
+                        variant="outline"
+                        className="h-6 text-xs px-2"
+                        data-testid={`button-retry-op-${operation.opId}`}
+                      >
+                        Retry
+                      </Button>
+                      <Button
+                        onClick={() => discardOperation(operation.seq!)}
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 text-xs px-2 text-red-600"
+                        data-testid={`button-discard-op-${operation.opId}`}
+                      >
+                        Discard
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
             
             {!isOnline && (
               <p className="text-xs text-yellow-700 mt-1">
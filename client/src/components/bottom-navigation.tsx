@@ -1,9 +1,9 @@
 import { Button } from "@/components/ui/button";
-import { Users, Flag, Trophy, BookOpen } from "lucide-react";
+import { Users, Flag, Trophy, Medal, BookOpen } from "lucide-react";
 
 interface BottomNavigationProps {
-  currentTab: 'groups' | 'games' | 'scoreboard' | 'rules';
-  onTabChange: (tab: 'groups' | 'games' | 'scoreboard' | 'rules') => void;
+  currentTab: 'groups' | 'games' | 'scoreboard' | 'league' | 'rules';
+  onTabChange: (tab: 'groups' | 'games' | 'scoreboard' | 'league' | 'rules') => void;
 }
 
 export function BottomNavigation({ currentTab, onTabChange }: BottomNavigationProps) {
@@ -11,11 +11,12 @@ export function BottomNavigation({ currentTab, onTabChange }: BottomNavigationPr
     { id: 'groups' as const, label: 'Groups', icon: Users },
     { id: 'games' as const, label: 'Games', icon: Flag },
     { id: 'scoreboard' as const, label: 'Payouts', icon: Trophy },
+    { id: 'league' as const, label: 'League', icon: Medal },
     { id: 'rules' as const, label: 'Rules', icon: BookOpen },
   ];
 
   return (
-    <nav className="fixed bottom-0 left-1/2 transform -translate-x-1/2 w-full max-w-md md:max-w-2xl lg:max-w-4xl bg-white border-t border-gray-200 px-6 py-2 backdrop-blur-sm bg-opacity-95">
+    <nav className="fixed bottom-0 left-1/2 transform -translate-x-1/2 w-full max-w-md md:max-w-2xl lg:max-w-4xl bg-white border-t border-gray-200 px-2 py-2 backdrop-blur-sm bg-opacity-95">
       <div className="flex justify-around">
         {tabs.map(({ id, label, icon: Icon }) => (
           <Button
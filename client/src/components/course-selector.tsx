@@ -0,0 +1,76 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Course } from "@shared/schema";
+
+interface CourseSelectorProps {
+  gameStateId: string;
+  courseId: string | null;
+  teeName: string | null;
+}
+
+const NO_COURSE = "none";
+
+export function CourseSelector({ gameStateId, courseId, teeName }: CourseSelectorProps) {
+  const { toast } = useToast();
+
+  const { data: courses = [] } = useQuery<Course[]>({
+    queryKey: ['/api/courses'],
+  });
+
+  const attachCourseMutation = useMutation({
+    mutationFn: async (data: { courseId: string | null; teeName?: string }) => {
+      const response = await apiRequest('PUT', `/api/game-state/${gameStateId}/course`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/game-state', gameStateId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to set course",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const selectedCourse = courses.find(c => c.id === courseId);
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center">
+      <span className="text-sm text-gray-600">Course:</span>
+      <Select
+        value={courseId ?? NO_COURSE}
+        onValueChange={(value) => attachCourseMutation.mutate({ courseId: value === NO_COURSE ? null : value })}
+      >
+        <SelectTrigger className="w-56" data-testid="select-course">
+          <SelectValue placeholder="No course" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_COURSE}>No course</SelectItem>
+          {courses.map(course => (
+            <SelectItem key={course.id} value={course.id}>{course.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selectedCourse && selectedCourse.tees.length > 0 && (
+        <Select
+          value={teeName ?? selectedCourse.tees[0].name}
+          onValueChange={(value) => attachCourseMutation.mutate({ courseId: selectedCourse.id, teeName: value })}
+        >
+          <SelectTrigger className="w-32" data-testid="select-tee">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {selectedCourse.tees.map(tee => (
+              <SelectItem key={tee.name} value={tee.name}>{tee.name} tees</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -5,10 +5,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { X } from "lucide-react";
+import { X, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { InsertGroup } from "@shared/schema";
 
+// Mirrors MIN_GROUP_PLAYERS / MAX_GROUP_PLAYERS in shared/schema.ts
+const MIN_GROUP_PLAYERS = 2;
+const MAX_GROUP_PLAYERS = 6;
+
 interface CreateGroupModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -18,6 +22,7 @@ interface CreateGroupModalProps {
 export function CreateGroupModal({ open, onOpenChange, onSuccess }: CreateGroupModalProps) {
   const [groupName, setGroupName] = useState("");
   const [playerNames, setPlayerNames] = useState(["", "", "", ""]);
+  const [playerHandicaps, setPlayerHandicaps] = useState(["", "", "", ""]);
   const { toast } = useToast();
 
   const createGroupMutation = useMutation({
@@ -42,6 +47,7 @@ export function CreateGroupModal({ open, onOpenChange, onSuccess }: CreateGroupM
   const resetForm = () => {
     setGroupName("");
     setPlayerNames(["", "", "", ""]);
+    setPlayerHandicaps(["", "", "", ""]);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -54,8 +60,8 @@ export function CreateGroupModal({ open, onOpenChange, onSuccess }: CreateGroupM
       return;
     }
     
-    if (validPlayerNames.length < 2) {
-      toast({ title: "At least 2 players are required", variant: "destructive" });
+    if (validPlayerNames.length < MIN_GROUP_PLAYERS) {
+      toast({ title: `At least ${MIN_GROUP_PLAYERS} players are required`, variant: "destructive" });
       return;
     }
 
@@ -65,14 +71,21 @@ export function CreateGroupModal({ open, onOpenChange, onSuccess }: CreateGroupM
       "#10B981", // Emerald green  
       "#F59E0B", // Amber
       "#EF4444", // Red
+      "#8B5CF6", // Violet
+      "#EC4899", // Pink
     ];
 
-    const players = validPlayerNames.map((name, index) => ({
-      id: `player-${Date.now()}-${index}`,
-      name: name.trim(),
-      initials: name.trim().split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 3),
-      color: playerColors[index] || "#6B7280" // Default gray if more than 4 players
-    }));
+    const players = playerNames
+      .map((name, slot) => ({ name: name.trim(), handicap: playerHandicaps[slot].trim() }))
+      .filter(entry => entry.name !== "")
+      .map(({ name, handicap }, index) => ({
+        id: `player-${Date.now()}-${index}`,
+        name,
+        initials: name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 3),
+        color: playerColors[index] || "#6B7280", // Default gray if colors run out
+        // Optional course handicap, only used when the 2/9/16 game scores net
+        ...(handicap !== "" && !isNaN(parseFloat(handicap)) && { handicap: Math.round(parseFloat(handicap)) })
+      }));
 
     createGroupMutation.mutate({
       name: groupName.trim(),
@@ -97,6 +110,23 @@ export function CreateGroupModal({ open, onOpenChange, onSuccess }: CreateGroupM
     setPlayerNames(newPlayerNames);
   };
 
+  const handleAddPlayer = () => {
+    if (playerNames.length >= MAX_GROUP_PLAYERS) return;
+    setPlayerNames([...playerNames, ""]);
+    setPlayerHandicaps([...playerHandicaps, ""]);
+  };
+
+  const handleRemovePlayer = (index: number) => {
+    setPlayerNames(playerNames.filter((_, i) => i !== index));
+    setPlayerHandicaps(playerHandicaps.filter((_, i) => i !== index));
+  };
+
+  const handlePlayerHandicapChange = (index: number, value: string) => {
+    const newPlayerHandicaps = [...playerHandicaps];
+    newPlayerHandicaps[index] = value;
+    setPlayerHandicaps(newPlayerHandicaps);
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
@@ -126,17 +156,52 @@ export function CreateGroupModal({ open, onOpenChange, onSuccess }: CreateGroupM
             </Label>
             <div className="space-y-2">
               {playerNames.map((name, index) => (
-                <Input
-                  key={index}
-                  type="text"
-                  placeholder={`Player ${index + 1} name${index < 2 ? ' (required)' : ''}`}
-                  value={name}
-                  onChange={(e) => handlePlayerNameChange(index, e.target.value)}
-                  className="w-full"
-                  required={index < 2}
-                />
+                <div key={index} className="flex gap-2">
+                  <Input
+                    type="text"
+                    placeholder={`Player ${index + 1} name${index < 2 ? ' (required)' : ''}`}
+                    value={name}
+                    onChange={(e) => handlePlayerNameChange(index, e.target.value)}
+                    className="flex-1"
+                    required={index < 2}
+                  />
+                  <Input
+                    type="number"
+                    inputMode="numeric"
+                    placeholder="HCP"
+                    aria-label={`Player ${index + 1} handicap`}
+                    value={playerHandicaps[index]}
+                    onChange={(e) => handlePlayerHandicapChange(index, e.target.value)}
+                    className="w-20"
+                    min={-10}
+                    max={54}
+                  />
+                  {index >= 4 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemovePlayer(index)}
+                      aria-label={`Remove player ${index + 1}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
               ))}
             </div>
+            {playerNames.length < MAX_GROUP_PLAYERS && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleAddPlayer}
+                className="mt-2 w-full"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Player ({playerNames.length}/{MAX_GROUP_PLAYERS})
+              </Button>
+            )}
           </div>
           
           <div className="flex gap-3 pt-4">
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { DeckCardConfig, DeckConfig, Group } from "@shared/schema";
+
+interface DeckEditorProps {
+  groupId: string;
+  onSaved?: (group: Group) => void;
+}
+
+export function DeckEditor({ groupId, onSaved }: DeckEditorProps) {
+  const { toast } = useToast();
+  const [cards, setCards] = useState<DeckCardConfig[]>([]);
+
+  const { data: deck, isLoading } = useQuery<DeckConfig>({
+    queryKey: ['/api/groups', groupId, 'deck'],
+  });
+
+  useEffect(() => {
+    if (deck) setCards(deck.cards);
+  }, [deck]);
+
+  const saveDeckMutation = useMutation({
+    mutationFn: async (deckConfig: DeckConfig) => {
+      const response = await apiRequest('PUT', `/api/groups/${groupId}/deck`, deckConfig);
+      return response.json();
+    },
+    onSuccess: (updatedGroup: Group) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/groups'] });
+      onSaved?.(updatedGroup);
+      toast({ title: "Deck saved", description: "New games will be dealt from this deck." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save deck", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateCard = (key: string, changes: Partial<DeckCardConfig>) => {
+    setCards(cards.map(card => card.key === key ? { ...card, ...changes } : card));
+  };
+
+  const addCustomCard = () => {
+    setCards([...cards, {
+      key: `custom-${Date.now()}`,
+      name: `Card ${cards.length + 1}`,
+      emoji: '🎴',
+      value: 2,
+      quantity: 1,
+      enabled: true,
+      builtIn: false,
+    }]);
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-4 text-sm text-gray-500">Loading deck...</div>;
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Group Deck</h3>
+          <p className="text-sm text-gray-500">Choose which cards are dealt into new games, how many of each, and their rules.</p>
+        </div>
+
+        {cards.map(card => (
+          <div key={card.key} className={`p-3 rounded-lg border ${card.enabled ? 'bg-gray-50 border-gray-200' : 'bg-white border-dashed border-gray-200 opacity-60'}`}>
+            <div className="flex items-center gap-2">
+              <Input
+                value={card.emoji}
+                onChange={(e) => updateCard(card.key, { emoji: e.target.value })}
+                className="w-14 text-center text-xl"
+                data-testid={`input-deck-emoji-${card.key}`}
+              />
+              <Input
+                value={card.name}
+                onChange={(e) => updateCard(card.key, { name: e.target.value })}
+                className="flex-1"
+                data-testid={`input-deck-name-${card.key}`}
+              />
+              <Switch
+                checked={card.enabled}
+                onCheckedChange={(enabled) => updateCard(card.key, { enabled })}
+                data-testid={`switch-deck-enabled-${card.key}`}
+              />
+            </div>
+            <div className="mt-2 flex items-center gap-2">
+              <span className="text-gray-500 text-sm">$</span>
+              <Input
+                type="number"
+                min="0"
+                value={card.value}
+                onChange={(e) => updateCard(card.key, { value: parseFloat(e.target.value) || 0 })}
+                className="w-20"
+                data-testid={`input-deck-value-${card.key}`}
+              />
+              <Select value={String(card.quantity)} onValueChange={(value) => updateCard(card.key, { quantity: parseInt(value, 10) })}>
+                <SelectTrigger className="w-20" data-testid={`select-deck-quantity-${card.key}`}><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {[1, 2, 3, 4].map(quantity => <SelectItem key={quantity} value={String(quantity)}>×{quantity}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {!card.builtIn && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setCards(cards.filter(c => c.key !== card.key))}
+                  className="ml-auto p-1 h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  🗑️
+                </Button>
+              )}
+            </div>
+            <Input
+              value={card.rule ?? ''}
+              onChange={(e) => updateCard(card.key, { rule: e.target.value || undefined })}
+              placeholder="Card rule (e.g. transfers on next three-putt)"
+              className="mt-2 text-sm"
+              data-testid={`input-deck-rule-${card.key}`}
+            />
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={addCustomCard} data-testid="button-deck-add-card">
+            Add Card
+          </Button>
+          <Button
+            className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+            onClick={() => saveDeckMutation.mutate({ cards })}
+            disabled={saveDeckMutation.isPending}
+            data-testid="button-save-deck"
+          >
+            {saveDeckMutation.isPending ? 'Saving...' : 'Save Deck'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { EventGame, EventSettings } from "@shared/schema";
+
+export const DEFAULT_EVENT_SETTINGS: EventSettings = {
+  games: ['skins'],
+  skinBuyIn: 10,
+  girPointValue: 0,
+  pointValue: 0,
+};
+
+// Each cross-foursome game and the stake that goes with it
+const GAMES: Array<{ game: EventGame; label: string; stake: keyof Omit<EventSettings, 'games'>; stakeLabel: string }> = [
+  { game: 'skins', label: 'Skins pot', stake: 'skinBuyIn', stakeLabel: 'Buy-in per player' },
+  { game: 'gir', label: 'GIR totals', stake: 'girPointValue', stakeLabel: 'Per GIR point' },
+  { game: 'points', label: '2/9/16 points', stake: 'pointValue', stakeLabel: 'Per point' },
+];
+
+interface EventSettingsFormProps {
+  value: EventSettings;
+  onChange: (settings: EventSettings) => void;
+}
+
+export function EventSettingsForm({ value, onChange }: EventSettingsFormProps) {
+  const toggleGame = (game: EventGame, checked: boolean) =>
+    onChange({ ...value, games: checked ? [...value.games, game] : value.games.filter(g => g !== game) });
+
+  return (
+    <div className="space-y-2">
+      {GAMES.map(({ game, label, stake, stakeLabel }) => (
+        <div key={game} className="flex items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={value.games.includes(game)}
+              onCheckedChange={(checked) => toggleGame(game, checked === true)}
+              data-testid={`checkbox-event-game-${game}`}
+            />
+            {label}
+          </label>
+          {value.games.includes(game) && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor={`event-stake-${game}`} className="text-xs text-gray-500">{stakeLabel} $</Label>
+              <Input
+                id={`event-stake-${game}`}
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.5"
+                className="w-20 h-8"
+                value={value[stake]}
+                onChange={(e) => onChange({ ...value, [stake]: Math.max(0, parseFloat(e.target.value) || 0) })}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, getDeviceId } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { isUndoableGameEvent } from "@shared/gameLogic";
+import type { GameEventWithUser, GroupRole } from "@shared/schema";
+
+interface GameHistoryProps {
+  groupId: string;
+  gameStateId: string;
+  changeKey?: string; // Changes whenever the round's games are saved, so new edits show up
+  locked?: boolean;   // Finalized rounds can't be undone or redone until reopened
+}
+
+type Direction = 'undo' | 'redo';
+
+// Short device label from the user agent ("this device" for edits made here)
+const describeDevice = (event: GameEventWithUser) => {
+  if (event.deviceId && event.deviceId === getDeviceId()) return 'this device';
+  const userAgent = event.userAgent ?? '';
+  if (/iPhone|iPad/.test(userAgent)) return 'iOS';
+  if (/Android/.test(userAgent)) return 'Android';
+  if (/Macintosh/.test(userAgent)) return 'Mac';
+  if (/Windows/.test(userAgent)) return 'Windows';
+  return 'another device';
+};
+
+export function GameHistory({ groupId, gameStateId, changeKey, locked }: GameHistoryProps) {
+  const { toast } = useToast();
+
+  const { data: events = [] } = useQuery<GameEventWithUser[]>({
+    queryKey: ['/api/game-state', gameStateId, 'events'],
+  });
+  const { data: membership } = useQuery<{ role: GroupRole }>({
+    queryKey: ['/api/groups', groupId, 'members'],
+  });
+  const canEdit = !locked && (membership?.role === 'owner' || membership?.role === 'scorer');
+
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: ['/api/game-state', gameStateId, 'events'] });
+  }, [gameStateId, changeKey]);
+
+  // Same rule as the server: undone edits stay redoable until a newer edit is made
+  const edits = events.filter(isUndoableGameEvent);
+  const activeEdits = edits.filter(event => !event.undoneAt);
+  const latestEditAt = Math.max(...edits.map(event => new Date(event.createdAt).getTime()));
+  const redoableCount = edits.filter(event => event.undoneAt && new Date(event.undoneAt).getTime() > latestEditAt).length;
+
+  const revertMutation = useMutation({
+    mutationFn: async ({ direction, count }: { direction: Direction; count: number }) => {
+      const response = await apiRequest('POST', `/api/game-state/${gameStateId}/${direction}`, { count });
+      return response.json();
+    },
+    onSuccess: (_result, { direction, count }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/game-state', gameStateId, 'events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game-state', groupId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/points-games', groupId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/calculate-combined-games'] });
+      toast({ title: `${direction === 'undo' ? 'Undid' : 'Redid'} ${count} ${count === 1 ? 'change' : 'changes'}` });
+    },
+    onError: (error: any, { direction }) => {
+      // Part of a multi-step undo may have applied before the failure
+      queryClient.invalidateQueries({ queryKey: ['/api/game-state', gameStateId, 'events'] });
+      toast({ title: `Failed to ${direction}`, description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">History</h3>
+            <p className="text-sm text-gray-500">Every card and score change in this round.</p>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => revertMutation.mutate({ direction: 'undo', count: 1 })}
+                disabled={activeEdits.length === 0 || revertMutation.isPending}
+                data-testid="button-undo"
+              >
+                Undo
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => revertMutation.mutate({ direction: 'redo', count: 1 })}
+                disabled={redoableCount === 0 || revertMutation.isPending}
+                data-testid="button-redo"
+              >
+                Redo
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes yet.</p>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {events.map(event => {
+              const activeIndex = activeEdits.indexOf(event);
+              return (
+                <div
+                  key={event.id}
+                  className={`flex items-center justify-between gap-2 p-2 rounded-lg text-sm ${isUndoableGameEvent(event) ? 'bg-gray-50' : 'text-gray-500'}`}
+                  data-testid={`game-event-${event.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className={`font-medium truncate ${event.undoneAt ? 'line-through text-gray-400' : 'text-gray-800'}`}>
+                      {event.summary}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {event.userName ?? 'Unknown'} · {describeDevice(event)} · {new Date(event.createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    </div>
+                  </div>
+                  {canEdit && activeIndex > 0 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => revertMutation.mutate({ direction: 'undo', count: activeIndex + 1 })}
+                      disabled={revertMutation.isPending}
+                      data-testid={`button-undo-to-${event.id}`}
+                    >
+                      Undo to here
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
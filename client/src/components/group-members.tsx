@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Group, GroupInvitation, GroupMemberWithUser, GroupRole, Player } from "@shared/schema";
+
+type InviteRole = Exclude<GroupRole, 'owner'>;
+
+interface MembersData {
+  role: GroupRole;
+  owner: { userId: string; name: string; email: string | null } | null;
+  members: GroupMemberWithUser[];
+}
+
+interface GroupMembersProps {
+  groupId: string;
+  players: Player[];
+  currentUserId?: string;
+  onPlayersLinked?: (group: Group) => void;
+}
+
+const ROLE_LABELS: Record<GroupRole, string> = {
+  owner: 'Owner',
+  scorer: 'Scorer',
+  viewer: 'Viewer',
+};
+
+export function GroupMembers({ groupId, players, currentUserId, onPlayersLinked }: GroupMembersProps) {
+  const { toast } = useToast();
+  const [inviteRole, setInviteRole] = useState<InviteRole>('scorer');
+  const [inviteEmail, setInviteEmail] = useState("");
+
+  const { data, isLoading } = useQuery<MembersData>({
+    queryKey: ['/api/groups', groupId, 'members'],
+  });
+  const isOwner = data?.role === 'owner';
+
+  const { data: invitations = [] } = useQuery<GroupInvitation[]>({
+    queryKey: ['/api/groups', groupId, 'invitations'],
+    enabled: isOwner,
+  });
+
+  const invalidateMembers = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'members'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'invitations'] });
+  };
+
+  const createInviteMutation = useMutation({
+    mutationFn: async (invite: { role: InviteRole; email?: string; playerId?: string }) => {
+      const response = await apiRequest('POST', `/api/groups/${groupId}/invitations`, invite);
+      return response.json();
+    },
+    onSuccess: (invitation: GroupInvitation & { inviteLink: string; emailSent: boolean }) => {
+      invalidateMembers();
+      setInviteEmail("");
+      navigator.clipboard?.writeText(invitation.inviteLink).catch(() => {});
+      toast({
+        title: `Invite code ${invitation.code}`,
+        description: invitation.emailSent
+          ? `Invitation emailed to ${invitation.email}.`
+          : "Invite link copied - share it with your group.",
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to create invitation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: InviteRole }) => {
+      const response = await apiRequest('PATCH', `/api/groups/${groupId}/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: invalidateMembers,
+    onError: (error: any) => {
+      toast({ title: "Failed to update role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      await apiRequest('DELETE', `/api/groups/${groupId}/members/${userId}`);
+    },
+    onSuccess: invalidateMembers,
+    onError: (error: any) => {
+      toast({ title: "Failed to remove member", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      await apiRequest('DELETE', `/api/groups/${groupId}/invitations/${invitationId}`);
+    },
+    onSuccess: invalidateMembers,
+    onError: (error: any) => {
+      toast({ title: "Failed to revoke invitation", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Claim / unlink return the updated group so the selected group picks up the new links
+  const linkPlayerMutation = useMutation({
+    mutationFn: async ({ playerId, action }: { playerId: string; action: 'claim' | 'unlink' }) => {
+      const response = action === 'claim'
+        ? await apiRequest('POST', `/api/groups/${groupId}/players/${playerId}/claim`)
+        : await apiRequest('DELETE', `/api/groups/${groupId}/players/${playerId}/link`);
+      return response.json();
+    },
+    onSuccess: (updatedGroup: Group) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/groups'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/me/players'] });
+      onPlayersLinked?.(updatedGroup);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update player link", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const linkedName = (userId: string) => {
+    if (userId === data?.owner?.userId) return data.owner.name;
+    return data?.members.find(member => member.userId === userId)?.name ?? 'Linked account';
+  };
+  const hasClaimedPlayer = !!currentUserId && players.some(player => player.userId === currentUserId);
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Group Members</h3>
+          <p className="text-sm text-gray-500">
+            Scorers can enter scores and cards. Viewers can follow along. You are {ROLE_LABELS[data.role].toLowerCase()}.
+          </p>
+        </div>
+
+        {data.owner && (
+          <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+            <span className="font-medium text-gray-800">{data.owner.name}</span>
+            <span className="text-sm text-gray-500">{ROLE_LABELS.owner}</span>
+          </div>
+        )}
+
+        {data.members.map(member => (
+          <div key={member.id} className="flex items-center justify-between gap-2 p-3 bg-gray-50 rounded-lg" data-testid={`group-member-${member.userId}`}>
+            <span className="font-medium text-gray-800 truncate">{member.name}</span>
+            {isOwner ? (
+              <div className="flex items-center gap-2">
+                <Select
+                  value={member.role}
+                  onValueChange={(role) => updateRoleMutation.mutate({ userId: member.userId, role: role as InviteRole })}
+                >
+                  <SelectTrigger className="w-28" data-testid={`select-member-role-${member.userId}`}><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="scorer">Scorer</SelectItem>
+                    <SelectItem value="viewer">Viewer</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => removeMemberMutation.mutate(member.userId)}
+                  className="p-1 h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                  data-testid={`button-remove-member-${member.userId}`}
+                >
+                  🗑️
+                </Button>
+              </div>
+            ) : (
+              <span className="text-sm text-gray-500">{ROLE_LABELS[member.role]}</span>
+            )}
+          </div>
+        ))}
+
+        <div className="pt-1">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Player Accounts</h4>
+          <div className="space-y-2">
+            {players.map(player => {
+              const isMine = !!currentUserId && player.userId === currentUserId;
+              return (
+                <div key={player.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`player-link-${player.id}`}>
+                  <span className="font-medium text-gray-800">{player.name}</span>
+                  <div className="flex items-center gap-2">
+                    {player.userId ? (
+                      <>
+                        <span className="text-gray-500">{isMine ? 'You' : linkedName(player.userId)}</span>
+                        {(isMine || isOwner) && (
+                          <Button size="sm" variant="ghost" onClick={() => linkPlayerMutation.mutate({ playerId: player.id, action: 'unlink' })}>
+                            Unlink
+                          </Button>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        {isOwner && !hasClaimedPlayer && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => linkPlayerMutation.mutate({ playerId: player.id, action: 'claim' })}
+                            data-testid={`button-claim-player-${player.id}`}
+                          >
+                            This is me
+                          </Button>
+                        )}
+                        {isOwner && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => createInviteMutation.mutate({ role: inviteRole, email: inviteEmail.trim() || undefined, playerId: player.id })}
+                            disabled={createInviteMutation.isPending}
+                            data-testid={`button-invite-player-${player.id}`}
+                          >
+                            Invite
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {isOwner && (
+          <>
+            {invitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between p-3 rounded-lg border border-dashed border-gray-200" data-testid={`invitation-${invitation.code}`}>
+                <div className="text-sm">
+                  <span className="font-mono font-semibold text-gray-800">{invitation.code}</span>
+                  <span className="ml-2 text-gray-500">
+                    {invitation.email ?? 'Open link'} · {ROLE_LABELS[invitation.role]}
+                    {invitation.playerId && ` · ${players.find(p => p.id === invitation.playerId)?.name ?? 'Player'}`}
+                  </span>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => revokeInviteMutation.mutate(invitation.id)}>
+                  Revoke
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="Email (optional)"
+                className="flex-1"
+                data-testid="input-invite-email"
+              />
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as InviteRole)}>
+                <SelectTrigger className="w-28" data-testid="select-invite-role"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="scorer">Scorer</SelectItem>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+              onClick={() => createInviteMutation.mutate({ role: inviteRole, email: inviteEmail.trim() || undefined })}
+              disabled={createInviteMutation.isPending}
+              data-testid="button-create-invite"
+            >
+              {createInviteMutation.isPending ? 'Creating...' : inviteEmail.trim() ? 'Send Invitation' : 'Create Invite Link'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
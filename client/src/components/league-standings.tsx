@@ -0,0 +1,383 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { GameState, GroupRole, League, LeagueGame, LeagueScoring, LeagueStandings as Standings } from "@shared/schema";
+
+interface LeagueStandingsProps {
+  groupId: string;
+  gameState?: GameState | null; // The round on screen, which can be added to a league
+}
+
+const GAME_LABELS: Record<LeagueGame, string> = {
+  points: '2/9/16 Points',
+  gir: 'GIR',
+  cards: 'Animal Cards',
+};
+
+interface LeagueFormValues {
+  name: string;
+  countedGames: LeagueGame[];
+  scoring: LeagueScoring;
+}
+
+const DEFAULT_FORM: LeagueFormValues = {
+  name: "",
+  countedGames: ['points'],
+  scoring: { method: 'points', positionPoints: [10, 7, 5, 3, 1], bestOf: null },
+};
+
+const formatScore = (league: League, score: number) =>
+  league.scoring.method === 'money'
+    ? `${score < 0 ? '-' : score > 0 ? '+' : ''}$${Math.abs(score).toFixed(2)}`
+    : `${score} pts`;
+
+function LeagueForm({ initial, submitLabel, isPending, onSubmit, onCancel }: {
+  initial: LeagueFormValues;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (values: LeagueFormValues) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(initial.name);
+  const [countedGames, setCountedGames] = useState<LeagueGame[]>(initial.countedGames);
+  const [method, setMethod] = useState(initial.scoring.method);
+  const [positionPoints, setPositionPoints] = useState(initial.scoring.positionPoints.join(', '));
+  const [bestOf, setBestOf] = useState(initial.scoring.bestOf ? String(initial.scoring.bestOf) : "");
+
+  const toggleGame = (game: LeagueGame, checked: boolean) =>
+    setCountedGames(checked ? [...countedGames, game] : countedGames.filter(g => g !== game));
+
+  const submit = () => {
+    const points = positionPoints.split(',').map(value => parseFloat(value.trim())).filter(value => !isNaN(value));
+    onSubmit({
+      name: name.trim(),
+      countedGames,
+      scoring: {
+        method,
+        positionPoints: points.length > 0 ? points : DEFAULT_FORM.scoring.positionPoints,
+        bestOf: parseInt(bestOf, 10) > 0 ? parseInt(bestOf, 10) : null,
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="league-name">Name</Label>
+        <Input id="league-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Summer Season" data-testid="input-league-name" />
+      </div>
+      <div className="space-y-1">
+        <Label>Games that count</Label>
+        <div className="flex flex-wrap gap-4">
+          {(Object.keys(GAME_LABELS) as LeagueGame[]).map(game => (
+            <label key={game} className="flex items-center gap-2 text-sm">
+              <Checkbox checked={countedGames.includes(game)} onCheckedChange={(checked) => toggleGame(game, checked === true)} />
+              {GAME_LABELS[game]}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Scoring</Label>
+          <Select value={method} onValueChange={(value) => setMethod(value as LeagueScoring['method'])}>
+            <SelectTrigger data-testid="select-league-scoring">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="points">Points by finish</SelectItem>
+              <SelectItem value="money">Money won</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="league-best-of">Best rounds</Label>
+          <Input
+            id="league-best-of"
+            type="number"
+            inputMode="numeric"
+            min="1"
+            value={bestOf}
+            onChange={(e) => setBestOf(e.target.value)}
+            placeholder="All"
+            data-testid="input-league-best-of"
+          />
+        </div>
+      </div>
+      {method === 'points' && (
+        <div className="space-y-1">
+          <Label htmlFor="league-position-points">Points for 1st, 2nd, 3rd...</Label>
+          <Input id="league-position-points" value={positionPoints} onChange={(e) => setPositionPoints(e.target.value)} data-testid="input-league-position-points" />
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button
+          className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+          onClick={submit}
+          disabled={isPending || !name.trim() || countedGames.length === 0}
+          data-testid="button-save-league"
+        >
+          {isPending ? 'Saving...' : submitLabel}
+        </Button>
+        <Button variant="outline" onClick={onCancel}>Cancel</Button>
+      </div>
+    </div>
+  );
+}
+
+export function LeagueStandings({ groupId, gameState }: LeagueStandingsProps) {
+  const { toast } = useToast();
+  const [selectedLeagueId, setSelectedLeagueId] = useState<string | null>(null);
+  const [formMode, setFormMode] = useState<'create' | 'edit' | null>(null);
+
+  const { data: leagues = [] } = useQuery<League[]>({
+    queryKey: ['/api/groups', groupId, 'leagues'],
+  });
+  const { data: membership } = useQuery<{ role: GroupRole }>({
+    queryKey: ['/api/groups', groupId, 'members'],
+  });
+  const canEdit = membership?.role === 'owner' || membership?.role === 'scorer';
+
+  // Default to the league the current round is in, otherwise the newest
+  useEffect(() => {
+    if (selectedLeagueId && leagues.some(league => league.id === selectedLeagueId)) return;
+    const current = leagues.find(league => league.id === gameState?.leagueId) ?? leagues[0];
+    setSelectedLeagueId(current?.id ?? null);
+  }, [leagues, selectedLeagueId, gameState?.leagueId]);
+
+  const { data: standings } = useQuery<Standings>({
+    queryKey: ['/api/leagues', selectedLeagueId, 'standings'],
+    enabled: !!selectedLeagueId,
+  });
+
+  // League routes answer with fresh standings; round membership also lives on the game state
+  const onStandings = (updated: Standings) => {
+    queryClient.setQueryData(['/api/leagues', updated.league.id, 'standings'], updated);
+    queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'leagues'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/game-state', groupId] });
+  };
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: LeagueFormValues) => {
+      const response = await apiRequest('POST', `/api/groups/${groupId}/leagues`, values);
+      return response.json();
+    },
+    onSuccess: (league: League) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'leagues'] });
+      setSelectedLeagueId(league.id);
+      setFormMode(null);
+    },
+    onError: onError("Failed to create league"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (values: LeagueFormValues) => {
+      const response = await apiRequest('PATCH', `/api/leagues/${selectedLeagueId}`, values);
+      return response.json();
+    },
+    onSuccess: (updated: Standings) => {
+      onStandings(updated);
+      setFormMode(null);
+    },
+    onError: onError("Failed to update league"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/leagues/${selectedLeagueId}`);
+    },
+    onSuccess: () => {
+      setSelectedLeagueId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'leagues'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
+    },
+    onError: onError("Failed to delete league"),
+  });
+
+  const addRoundMutation = useMutation({
+    mutationFn: async (gameStateId: string) => {
+      const response = await apiRequest('POST', `/api/leagues/${selectedLeagueId}/rounds`, { gameStateId });
+      return response.json();
+    },
+    onSuccess: onStandings,
+    onError: onError("Failed to add round"),
+  });
+
+  const removeRoundMutation = useMutation({
+    mutationFn: async (gameStateId: string) => {
+      const response = await apiRequest('DELETE', `/api/leagues/${selectedLeagueId}/rounds/${gameStateId}`);
+      return response.json();
+    },
+    onSuccess: onStandings,
+    onError: onError("Failed to remove round"),
+  });
+
+  if (formMode) {
+    const league = standings?.league;
+    return (
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-800">{formMode === 'create' ? 'New League' : 'League Settings'}</h3>
+          <LeagueForm
+            initial={formMode === 'edit' && league ? { name: league.name, countedGames: league.countedGames, scoring: league.scoring } : DEFAULT_FORM}
+            submitLabel={formMode === 'create' ? 'Create League' : 'Save'}
+            isPending={createMutation.isPending || updateMutation.isPending}
+            onSubmit={(values) => formMode === 'create' ? createMutation.mutate(values) : updateMutation.mutate(values)}
+            onCancel={() => setFormMode(null)}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (leagues.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center space-y-3">
+          <p className="text-gray-500">No leagues yet. Start a season to track standings across weekly rounds.</p>
+          {canEdit && (
+            <Button className="bg-emerald-600 hover:bg-emerald-700 text-white" onClick={() => setFormMode('create')} data-testid="button-new-league">
+              Start a League
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const league = standings?.league;
+  const roundInLeague = !!gameState && standings?.rounds.some(round => round.gameStateId === gameState.id);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <Select value={selectedLeagueId ?? undefined} onValueChange={setSelectedLeagueId}>
+          <SelectTrigger className="flex-1" data-testid="select-league">
+            <SelectValue placeholder="Select a league" />
+          </SelectTrigger>
+          <SelectContent>
+            {leagues.map(l => (
+              <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canEdit && (
+          <Button variant="outline" onClick={() => setFormMode('create')} data-testid="button-new-league">New</Button>
+        )}
+      </div>
+
+      {league && standings && (
+        <>
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-800">{league.name}</h3>
+                  <p className="text-xs text-gray-500">
+                    {league.countedGames.map(game => GAME_LABELS[game]).join(', ')}
+                    {' · '}
+                    {league.scoring.method === 'money' ? 'Money won' : 'Points by finish'}
+                    {league.scoring.bestOf ? ` · Best ${league.scoring.bestOf} of ${standings.rounds.length}` : ''}
+                  </p>
+                </div>
+                {canEdit && (
+                  <Button size="sm" variant="ghost" onClick={() => setFormMode('edit')} data-testid="button-edit-league">Settings</Button>
+                )}
+              </div>
+
+              {canEdit && gameState && !roundInLeague && (
+                <Button
+                  className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+                  onClick={() => addRoundMutation.mutate(gameState.id)}
+                  disabled={addRoundMutation.isPending}
+                  data-testid="button-add-league-round"
+                >
+                  {addRoundMutation.isPending ? 'Adding...' : `Add "${gameState.name}" to ${league.name}`}
+                </Button>
+              )}
+
+              {standings.standings.length === 0 ? (
+                <p className="text-sm text-gray-500">No rounds scored yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {standings.standings.map((standing, index) => (
+                    <div key={standing.playerId} className="flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg" data-testid={`league-standing-${standing.playerId}`}>
+                      <div className="flex items-center gap-3 min-w-0">
+                        <span className="w-5 text-sm font-semibold text-gray-500">{index + 1}</span>
+                        <div
+                          className="w-8 h-8 rounded-full flex items-center justify-center text-white text-xs font-semibold shrink-0"
+                          style={{ backgroundColor: standing.color }}
+                        >
+                          {standing.initials}
+                        </div>
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-800 truncate">{standing.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {standing.roundsPlayed} {standing.roundsPlayed === 1 ? 'round' : 'rounds'}
+                            {league.scoring.bestOf && standing.countedRounds.length < standing.roundsPlayed && ` · best ${standing.countedRounds.length} count`}
+                          </div>
+                        </div>
+                      </div>
+                      <span className="font-semibold text-gray-800">{formatScore(league, standing.total)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {standings.rounds.length > 0 && (
+            <Card>
+              <CardContent className="p-4 space-y-2">
+                <h4 className="text-sm font-semibold text-gray-700">Rounds</h4>
+                {standings.rounds.map(round => (
+                  <div key={round.gameStateId} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-gray-700">
+                      {round.name} · {new Date(round.playedAt).toLocaleDateString()}
+                    </span>
+                    {canEdit && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 text-xs text-red-600"
+                        onClick={() => removeRoundMutation.mutate(round.gameStateId)}
+                        disabled={removeRoundMutation.isPending}
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {canEdit && (
+            <Button
+              variant="ghost"
+              className="w-full text-red-600 hover:text-red-700 hover:bg-red-50"
+              onClick={() => {
+                if (window.confirm(`Delete ${league.name}? Its rounds are kept.`)) deleteMutation.mutate();
+              }}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-league"
+            >
+              Delete League
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { GroupRole } from "@shared/schema";
+
+interface LiveShareProps {
+  groupId: string;
+  gameStateId: string;
+  shareToken: string | null;
+}
+
+const liveLink = (shareToken: string) => `${window.location.origin}/live/${shareToken}`;
+
+export function LiveShare({ groupId, gameStateId, shareToken }: LiveShareProps) {
+  const { toast } = useToast();
+
+  const { data: membership } = useQuery<{ role: GroupRole }>({
+    queryKey: ['/api/groups', groupId, 'members'],
+  });
+  const canShare = membership?.role === 'owner' || membership?.role === 'scorer';
+
+  const refreshGames = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/game-state', groupId] });
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/game-state/${gameStateId}/share`);
+      return response.json();
+    },
+    onSuccess: ({ shareToken: token }: { shareToken: string }) => {
+      refreshGames();
+      navigator.clipboard?.writeText(liveLink(token)).catch(() => {});
+      toast({ title: "Live link copied", description: "Anyone with the link can follow the leaderboard." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to share round", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/game-state/${gameStateId}/share`);
+    },
+    onSuccess: () => {
+      refreshGames();
+      toast({ title: "Sharing stopped", description: "The old live link no longer works." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to stop sharing", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!canShare) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Live Leaderboard</h3>
+          <p className="text-sm text-gray-500">
+            Share a read-only link so friends outside the group can follow along.
+          </p>
+        </div>
+        {shareToken ? (
+          <>
+            <div className="p-2 bg-gray-50 rounded-lg text-sm font-mono text-gray-700 break-all" data-testid="text-live-link">
+              {liveLink(shareToken)}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => shareMutation.mutate()}
+                disabled={shareMutation.isPending}
+                data-testid="button-copy-live-link"
+              >
+                Copy Link
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1 text-red-600 hover:text-red-700 hover:bg-red-50"
+                onClick={() => revokeMutation.mutate()}
+                disabled={revokeMutation.isPending}
+                data-testid="button-stop-sharing"
+              >
+                Stop Sharing
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button
+            className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+            onClick={() => shareMutation.mutate()}
+            disabled={shareMutation.isPending}
+            data-testid="button-share-live"
+          >
+            {shareMutation.isPending ? 'Creating...' : 'Share Live Leaderboard'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
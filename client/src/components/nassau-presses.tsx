@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Player, PointsGameSettings } from "@shared/schema";
+
+interface PressStatus {
+  id: string;
+  pressedBy: string;
+  opponent: string;
+  startHole: number;
+  endHole: number;
+  auto: boolean;
+  holesUp: number;
+  winner: string | null;
+  value: number;
+}
+
+interface NassauPressesProps {
+  pointsGameId: string;
+  players: Player[];
+  nassauValue: string;
+  holes: number[];
+}
+
+export function NassauPresses({ pointsGameId, players, nassauValue, holes }: NassauPressesProps) {
+  const { toast } = useToast();
+  const [pressedBy, setPressedBy] = useState<string>("");
+  const [opponent, setOpponent] = useState<string>("");
+  const [startHole, setStartHole] = useState<string>("");
+
+  const { data } = useQuery<{ presses: PressStatus[]; settings: PointsGameSettings | null }>({
+    queryKey: ['/api/points-games', pointsGameId, 'presses', nassauValue],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/points-games/${pointsGameId}/presses?nassauValue=${nassauValue}`);
+      return response.json();
+    },
+  });
+  const presses = data?.presses || [];
+  const autoPress = data?.settings?.autoPress ?? false;
+
+  const refreshPresses = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/points-games', pointsGameId, 'presses'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/calculate-combined-games'] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const autoPressMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest('PUT', `/api/points-games/${pointsGameId}/settings`, { autoPress: enabled });
+      return response.json();
+    },
+    onSuccess: refreshPresses,
+    onError: onError("Failed to update auto-press"),
+  });
+
+  const declarePressMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/points-games/${pointsGameId}/presses`, {
+        pressedBy,
+        opponent,
+        startHole: parseInt(startHole, 10)
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setStartHole("");
+      refreshPresses();
+      toast({ title: "Press declared" });
+    },
+    onError: onError("Press not allowed"),
+  });
+
+  const removePressMutation = useMutation({
+    mutationFn: async (pressId: string) => {
+      const response = await apiRequest('DELETE', `/api/points-games/${pointsGameId}/presses/${pressId}`);
+      return response.json();
+    },
+    onSuccess: refreshPresses,
+    onError: onError("Failed to remove press"),
+  });
+
+  const playerName = (id: string) => players.find(p => p.id === id)?.name || 'Unknown';
+  const formatStatus = (press: PressStatus) =>
+    press.holesUp === 0 ? 'All square' : `${playerName(press.holesUp > 0 ? press.pressedBy : press.opponent)} ${Math.abs(press.holesUp)} up`;
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-md font-semibold text-gray-800">Presses</h4>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Auto 2-down
+          <Switch
+            checked={autoPress}
+            onCheckedChange={(checked) => autoPressMutation.mutate(checked)}
+            data-testid="switch-auto-press"
+          />
+        </label>
+      </div>
+
+      {presses.length === 0 ? (
+        <p className="text-sm text-gray-500">No presses yet.</p>
+      ) : (
+        <div className="space-y-1">
+          {presses.map(press => (
+            <div key={press.id} className="flex items-center justify-between text-sm" data-testid={`press-${press.id}`}>
+              <span>
+                {playerName(press.pressedBy)} vs {playerName(press.opponent)} · holes {press.startHole}–{press.endHole}
+                {press.auto && <span className="ml-1 text-xs text-gray-500">(auto)</span>}
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="text-gray-600">{formatStatus(press)} · ${press.value.toFixed(2)}</span>
+                {!press.auto && (
+                  <Button variant="ghost" size="sm" onClick={() => removePressMutation.mutate(press.id)}>
+                    Remove
+                  </Button>
+                )}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <Select value={pressedBy} onValueChange={setPressedBy}>
+          <SelectTrigger data-testid="select-press-by"><SelectValue placeholder="Pressed by" /></SelectTrigger>
+          <SelectContent>
+            {players.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={opponent} onValueChange={setOpponent}>
+          <SelectTrigger data-testid="select-press-opponent"><SelectValue placeholder="Against" /></SelectTrigger>
+          <SelectContent>
+            {players.filter(p => p.id !== pressedBy).map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+          </SelectContent>
+        </Select>
+        <Select value={startHole} onValueChange={setStartHole}>
+          <SelectTrigger data-testid="select-press-hole"><SelectValue placeholder="From hole" /></SelectTrigger>
+          <SelectContent>
+            {holes.map(hole => <SelectItem key={hole} value={String(hole)}>Hole {hole}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        disabled={!pressedBy || !opponent || !startHole || declarePressMutation.isPending}
+        onClick={() => declarePressMutation.mutate()}
+        data-testid="button-declare-press"
+      >
+        Press
+      </Button>
+    </div>
+  );
+}
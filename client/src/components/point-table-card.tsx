@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { POINT_TABLE_PRESET_RULES, calculate2916Points, resolvePointTable, type PointTable } from "@shared/gameLogic";
+import type { PointsGame, PointsGameSettings, PointTablePreset, PointTableRounding, PointTableTies, PointTableVariant } from "@shared/schema";
+
+const PLAYER_COUNTS = [2, 3, 4, 5, 6];
+
+const PRESET_LABELS: Record<PointTablePreset, string> = {
+  standard: POINT_TABLE_PRESET_RULES.standard.label,
+  'ties-carry': POINT_TABLE_PRESET_RULES['ties-carry'].label,
+  custom: 'Custom',
+};
+
+const ROUNDING_LABELS: Record<PointTableRounding, string> = {
+  exact: 'Exact splits',
+  half: 'Half points',
+  whole: 'Whole points',
+};
+
+const formatPoints = (points: number) => Number.isInteger(points) ? String(points) : points.toFixed(2).replace(/0$/, '');
+const tableTotal = (table: number[]) => table.reduce((sum, value) => sum + value, 0);
+
+interface PointTableCardProps {
+  pointsGame: PointsGame;
+}
+
+// Picks the 2/9/16 point-table variant for a game; custom tables are checked by the server
+export function PointTableCard({ pointsGame }: PointTableCardProps) {
+  const { toast } = useToast();
+  const saved = resolvePointTable(pointsGame.settings);
+  const [preset, setPreset] = useState<PointTablePreset>(saved.preset);
+  const [tables, setTables] = useState<Record<string, string>>({});
+  const [ties, setTies] = useState<PointTableTies>(saved.ties);
+  const [rounding, setRounding] = useState<PointTableRounding>(saved.rounding);
+
+  // Load the saved variant whenever the game (or its settings) change
+  useEffect(() => {
+    const current = resolvePointTable(pointsGame.settings);
+    setPreset(current.preset);
+    setTables(Object.fromEntries(PLAYER_COUNTS.map(count => [String(count), current.tables[String(count)].join(', ')])));
+    setTies(current.ties);
+    setRounding(current.rounding);
+  }, [pointsGame.id, pointsGame.settings]);
+
+  const savePointTableMutation = useMutation({
+    mutationFn: async (pointTable: PointTableVariant) => {
+      const response = await apiRequest('PUT', `/api/points-games/${pointsGame.id}/settings`, { pointTable });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/calculate-combined-games'] });
+      toast({ title: "Point table saved", description: "Every hole has been re-scored." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save point table", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSave = () => {
+    if (preset !== 'custom') {
+      savePointTableMutation.mutate({ preset });
+      return;
+    }
+    const parsed = Object.fromEntries(
+      PLAYER_COUNTS.map(count => [String(count), (tables[String(count)] || '').split(',').map(value => parseFloat(value.trim())).filter(value => !isNaN(value))])
+    );
+    savePointTableMutation.mutate({ preset, tables: parsed, ties, rounding });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Point Table</h3>
+        <p className="text-sm text-gray-500 mb-3">How many points each finishing position earns on a hole</p>
+
+        <div className="mb-4">
+          <label className="text-sm font-medium text-gray-700 mb-2 block">Variant</label>
+          <Select value={preset} onValueChange={(v) => setPreset(v as PointTablePreset)}>
+            <SelectTrigger data-testid="select-point-table-preset"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PRESET_LABELS) as PointTablePreset[]).map(option => (
+                <SelectItem key={option} value={option}>{PRESET_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {preset === 'custom' && (
+          <div className="space-y-2 mb-4">
+            {PLAYER_COUNTS.map(count => (
+              <div key={count} className="flex items-center gap-3">
+                <label htmlFor={`point-table-${count}`} className="text-sm text-gray-700 w-24">{count} players</label>
+                <Input
+                  id={`point-table-${count}`}
+                  value={tables[String(count)] ?? ''}
+                  onChange={(e) => setTables({ ...tables, [String(count)]: e.target.value })}
+                  placeholder={resolvePointTable().tables[String(count)].join(', ')}
+                  data-testid={`input-point-table-${count}`}
+                />
+              </div>
+            ))}
+            <div className="grid grid-cols-2 gap-3 pt-2">
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Ties for low</label>
+                <Select value={ties} onValueChange={(v) => setTies(v as PointTableTies)}>
+                  <SelectTrigger data-testid="select-point-table-ties"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="split">Split</SelectItem>
+                    <SelectItem value="carry">Carry</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">Rounding</label>
+                <Select value={rounding} onValueChange={(v) => setRounding(v as PointTableRounding)}>
+                  <SelectTrigger data-testid="select-point-table-rounding"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ROUNDING_LABELS) as PointTableRounding[]).map(option => (
+                      <SelectItem key={option} value={option}>{ROUNDING_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <Button
+          onClick={handleSave}
+          disabled={savePointTableMutation.isPending}
+          className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+          data-testid="button-save-point-table"
+        >
+          {savePointTableMutation.isPending ? 'Saving...' : 'Save Point Table'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Example holes for the rules: [label, strokes by finishing position]
+const tieExamples = (count: number): Array<[string, number[]]> => {
+  const spread = Array.from({ length: count }, (_, index) => 4 + index);
+  if (count === 2) return [['Tie', [4, 4]]];
+  return [
+    ['Two tied for low', [4, ...spread.slice(0, count - 1)]],
+    ['Two tied for high', [...spread.slice(0, count - 1), spread[count - 2]]],
+    ['All tied', spread.map(() => 4)],
+  ];
+};
+
+const describeExample = (pointTable: PointTable, strokes: number[]) => {
+  const holeScores = Object.fromEntries(strokes.map((stroke, index) => [`p${index}`, stroke]));
+  const points = calculate2916Points(holeScores, pointTable);
+  const low = Math.min(...strokes);
+  if (pointTable.ties === 'carry' && strokes.filter(stroke => stroke === low).length > 1) {
+    return 'No points; the hole carries to the next one';
+  }
+  // Group the positions that scored the same into "a, b & c" style text
+  const values = strokes.map((_, index) => points[`p${index}`]);
+  const distinct = values.filter((value, index) => values.indexOf(value) === index);
+  return distinct.map(value => {
+    const shared = values.filter(other => other === value).length;
+    return shared > 1 ? `${formatPoints(value)} each (${shared})` : formatPoints(value);
+  }).join(', ');
+};
+
+interface PointTableRulesProps {
+  settings?: PointsGameSettings | null;
+}
+
+// The "How Points Are Awarded" rules for whichever point-table variant the game plays
+export function PointTableRules({ settings }: PointTableRulesProps) {
+  const pointTable = resolvePointTable(settings);
+
+  return (
+    <div className="ml-4 space-y-3">
+      <p className="text-sm">
+        Variant: <span className="font-medium text-gray-800">{PRESET_LABELS[pointTable.preset]}</span>
+        {pointTable.rounding !== 'exact' && <> · split points rounded to {ROUNDING_LABELS[pointTable.rounding].toLowerCase()}</>}
+      </p>
+      {PLAYER_COUNTS.map(count => {
+        const table = pointTable.tables[String(count)];
+        return (
+          <div key={count}>
+            <h4 className="font-medium text-gray-800">{count} Players ({formatPoints(tableTotal(table))} per hole):</h4>
+            <ul className="ml-4 space-y-1 text-sm">
+              <li>• Finishing order: {table.map(formatPoints).join(', ')} points</li>
+              {tieExamples(count).map(([label, strokes]) => (
+                <li key={label}>• {label}: {describeExample(pointTable, strokes)}</li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+      <div className="p-3 bg-yellow-50 rounded-lg border border-yellow-200">
+        <p className="text-sm text-gray-700">
+          {pointTable.ties === 'carry' ? (
+            <><strong>Carried Ties:</strong> When the low score is shared, nobody scores the hole. The next hole with an outright low score is worth its points plus one set for every hole carried.</>
+          ) : (
+            <><strong>Ties:</strong> Tied players split the points of the positions they share.</>
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { EventLeaderboard, GameState, GolfEvent, GroupRole } from "@shared/schema";
+
+interface RoundEventProps {
+  groupId: string;
+  gameState: GameState;
+}
+
+// Event links end with the event id, so either can be pasted
+const parseEventCode = (value: string) => value.trim().split('/').filter(Boolean).pop() ?? '';
+
+/** Puts this foursome's round into a multi-foursome event, or links to the event it's in */
+export function RoundEvent({ groupId, gameState }: RoundEventProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [selectedEventId, setSelectedEventId] = useState<string>("");
+  const [eventCode, setEventCode] = useState("");
+
+  const { data: membership } = useQuery<{ role: GroupRole }>({
+    queryKey: ['/api/groups', groupId, 'members'],
+  });
+  const canEdit = membership?.role === 'owner' || membership?.role === 'scorer';
+
+  const { data: events = [] } = useQuery<GolfEvent[]>({
+    queryKey: ['/api/events'],
+    enabled: canEdit || !!gameState.eventId,
+  });
+  const currentEvent = events.find(event => event.id === gameState.eventId);
+
+  const joinMutation = useMutation({
+    mutationFn: async (eventId: string) => {
+      const response = await apiRequest('POST', `/api/events/${eventId}/rounds`, { gameStateId: gameState.id });
+      return response.json();
+    },
+    onSuccess: (leaderboard: EventLeaderboard) => {
+      queryClient.setQueryData(['/api/events', leaderboard.event.id], leaderboard);
+      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game-state', groupId] });
+      setEventCode("");
+      setLocation(`/events/${leaderboard.event.id}`);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to join event", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (gameState.eventId) {
+    return (
+      <Card className="mb-4">
+        <CardContent className="p-4 flex items-center justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-800">🏌️ Event</h3>
+            <p className="text-sm text-gray-500">This foursome is part of {currentEvent?.name ?? 'an event'}.</p>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <Link href={`/events/${gameState.eventId}`} data-testid="link-round-event">Leaderboard</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!canEdit) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">🏌️ Playing With Other Foursomes?</h3>
+          <p className="text-sm text-gray-500">Join an event for a combined leaderboard and one settlement across every group.</p>
+        </div>
+        {events.length > 0 && (
+          <div className="flex gap-2">
+            <Select value={selectedEventId} onValueChange={setSelectedEventId}>
+              <SelectTrigger className="flex-1" data-testid="select-round-event">
+                <SelectValue placeholder="Choose an event" />
+              </SelectTrigger>
+              <SelectContent>
+                {events.map(event => (
+                  <SelectItem key={event.id} value={event.id}>{event.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => joinMutation.mutate(selectedEventId)} disabled={!selectedEventId || joinMutation.isPending}>
+              Join
+            </Button>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            value={eventCode}
+            onChange={(e) => setEventCode(e.target.value)}
+            placeholder="Paste an event link or code"
+            data-testid="input-event-code"
+          />
+          <Button
+            variant="outline"
+            onClick={() => joinMutation.mutate(parseEventCode(eventCode))}
+            disabled={!parseEventCode(eventCode) || joinMutation.isPending}
+          >
+            Join
+          </Button>
+        </div>
+        <Link href="/events" className="block text-sm text-emerald-600 hover:text-emerald-700" data-testid="link-create-event">
+          Organizing? Create an event →
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
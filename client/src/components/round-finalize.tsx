@@ -0,0 +1,116 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { GameState, GroupRole } from "@shared/schema";
+
+interface RoundFinalizeProps {
+  groupId: string;
+  gameState: GameState;
+}
+
+type Action = 'finalize' | 'reopen';
+
+// Locks the round once its payouts are saved; owners can reopen it
+export function RoundFinalize({ groupId, gameState }: RoundFinalizeProps) {
+  const { toast } = useToast();
+
+  const { data: membership } = useQuery<{ role: GroupRole }>({
+    queryKey: ['/api/groups', groupId, 'members'],
+  });
+  const canFinalize = membership?.role === 'owner' || membership?.role === 'scorer';
+  const canReopen = membership?.role === 'owner';
+
+  const statusMutation = useMutation({
+    mutationFn: async (action: Action) => {
+      const response = await apiRequest('POST', `/api/game-state/${gameState.id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_gameState: GameState, action) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game-state', groupId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/game-state', gameState.id, 'events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'ledger'] });
+      toast({
+        title: action === 'finalize' ? "Round finalized" : "Round reopened",
+        description: action === 'finalize' ? "Scores and cards are locked, and the payouts are in the ledger." : "Scores and cards can be edited again.",
+      });
+    },
+    onError: (error: any, action) => {
+      toast({ title: `Failed to ${action} round`, description: error.message, variant: "destructive" });
+    },
+  });
+
+  const settlement = gameState.finalSettlement;
+
+  if (gameState.finalizedAt) {
+    return (
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-800">🔒 Round Finalized</h3>
+              <p className="text-sm text-gray-500">
+                Locked {new Date(gameState.finalizedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}. Scores and cards can't be changed.
+              </p>
+            </div>
+            {canReopen && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  if (window.confirm('Reopen this round? Scores and cards become editable again.')) statusMutation.mutate('reopen');
+                }}
+                disabled={statusMutation.isPending}
+                data-testid="button-reopen-round"
+              >
+                Reopen
+              </Button>
+            )}
+          </div>
+          {settlement && (
+            settlement.transactions.length === 0 ? (
+              <p className="text-sm text-gray-500">Everyone finished even.</p>
+            ) : (
+              <div className="space-y-1">
+                {settlement.transactions.map(transaction => (
+                  <div key={`${transaction.from}-${transaction.to}`} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                    <span><span className="font-medium">{transaction.fromName}</span> owes <span className="font-medium">{transaction.toName}</span></span>
+                    <span className="font-semibold text-gray-800">${transaction.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!canFinalize) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Finalize Round</h3>
+          <p className="text-sm text-gray-500">Lock scores and cards once every hole is in and the payouts are saved.</p>
+        </div>
+        <Button
+          size="sm"
+          className="bg-emerald-600 hover:bg-emerald-700 text-white"
+          onClick={() => {
+            if (window.confirm('Finalize this round? Only a group owner can reopen it.')) statusMutation.mutate('finalize');
+          }}
+          disabled={statusMutation.isPending}
+          data-testid="button-finalize-round"
+        >
+          Finalize
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
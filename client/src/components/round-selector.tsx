@@ -0,0 +1,93 @@
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { RoundConfig } from "@shared/schema";
+
+interface RoundSelectorProps {
+  gameStateId: string;
+  roundHoles: number[];
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+const ROUND_LAYOUTS: { id: string; label: string; config: Omit<RoundConfig, 'startHole'> | null }[] = [
+  { id: '18', label: '18 holes', config: null },
+  { id: 'front9', label: 'Front 9', config: { length: 9, holes: range(1, 9) } },
+  { id: 'back9', label: 'Back 9', config: { length: 9, holes: range(10, 18) } },
+  { id: '27', label: '27 holes', config: { length: 27, holes: range(1, 27) } },
+];
+
+function detectLayout(roundHoles: number[]): string {
+  const sorted = [...roundHoles].sort((a, b) => a - b);
+  const match = ROUND_LAYOUTS.find(layout => {
+    const holes = layout.config?.holes ?? range(1, 18);
+    return holes.length === sorted.length && holes.every((hole, i) => hole === sorted[i]);
+  });
+  return match?.id ?? 'custom';
+}
+
+export function RoundSelector({ gameStateId, roundHoles }: RoundSelectorProps) {
+  const { toast } = useToast();
+
+  const updateRoundMutation = useMutation({
+    mutationFn: async (roundConfig: RoundConfig | null) => {
+      const response = await apiRequest('PUT', `/api/game-state/${gameStateId}/round`, { roundConfig });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/game-state'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update round",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  const layoutId = detectLayout(roundHoles);
+  const layout = ROUND_LAYOUTS.find(l => l.id === layoutId);
+  const sortedHoles = [...roundHoles].sort((a, b) => a - b);
+  const startHole = roundHoles[0];
+
+  const handleStartHoleChange = (value: string) => {
+    const hole = parseInt(value, 10);
+    const config = layout?.config ?? { length: 18 as const, holes: range(1, 18) };
+    updateRoundMutation.mutate({ ...config, startHole: hole === config.holes[0] ? undefined : hole });
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2 items-center">
+      <span className="text-sm text-gray-600">Round:</span>
+      <Select
+        value={layoutId}
+        onValueChange={(value) => updateRoundMutation.mutate(ROUND_LAYOUTS.find(l => l.id === value)?.config ?? null)}
+      >
+        <SelectTrigger className="w-32" data-testid="select-round-length">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ROUND_LAYOUTS.map(l => (
+            <SelectItem key={l.id} value={l.id}>{l.label}</SelectItem>
+          ))}
+          {layoutId === 'custom' && <SelectItem value="custom" disabled>Custom ({roundHoles.length})</SelectItem>}
+        </SelectContent>
+      </Select>
+      {layoutId !== 'custom' && (
+        <Select value={String(startHole)} onValueChange={handleStartHoleChange}>
+          <SelectTrigger className="w-36" data-testid="select-start-hole">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortedHoles.map(hole => (
+              <SelectItem key={hole} value={String(hole)}>Start on {hole}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { apiRequest } from "@/lib/queryClient";
+import { offlineStorage, networkUtils } from "@/lib/offlineStorage";
+import { OFFLINE_QUEUE_CHANGED, hasPendingOperations } from "@/lib/offlineQueue";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { calculateRoundStandings, settleWhoOwesWho } from "@shared/gameLogic";
+import type { GameState, Group, LiveLeaderboard, PointsGame } from "@shared/schema";
+
+interface RoundStandingsProps {
+  group: Group;
+  gameState: GameState;
+  pointsGames: PointsGame[];
+}
+
+// Last known copy of the round, kept in IndexedDB so standings survive losing signal
+interface RoundSnapshot {
+  group: Group;
+  gameState: GameState;
+  pointsGames: PointsGame[];
+}
+
+interface StandingsDiff {
+  playerId: string;
+  name: string;
+  local: number;
+  server: number;
+}
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : amount > 0 ? '+' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+// Players whose projected result differs by at least a cent
+function diffStandings(local: LiveLeaderboard, server: LiveLeaderboard): StandingsDiff[] {
+  return server.players.flatMap(player => {
+    const localPlayer = local.players.find(p => p.id === player.id);
+    const localAmount = localPlayer?.projected ?? 0;
+    return Math.abs(localAmount - player.projected) >= 0.01
+      ? [{ playerId: player.id, name: player.name, local: localAmount, server: player.projected }]
+      : [];
+  });
+}
+
+/**
+ * Provisional standings computed on the device while offline, with the same shared
+ * game logic the server uses. Once back online (and the offline queue has synced) the
+ * provisional result is checked against the server's, and any difference is shown.
+ */
+export function RoundStandings({ group, gameState, pointsGames }: RoundStandingsProps) {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [snapshot, setSnapshot] = useState<RoundSnapshot | null>(null);
+  const [provisional, setProvisional] = useState<LiveLeaderboard | null>(null);
+  const [diff, setDiff] = useState<StandingsDiff[] | null>(null);
+
+  useEffect(() => {
+    const cleanupOnline = networkUtils.onOnline(() => setIsOnline(true));
+    const cleanupOffline = networkUtils.onOffline(() => setIsOnline(false));
+    return () => {
+      cleanupOnline();
+      cleanupOffline();
+    };
+  }, []);
+
+  useEffect(() => {
+    offlineStorage.init()
+      .then(() => offlineStorage.getGameState(gameState.id))
+      .then(saved => setSnapshot(saved))
+      .catch(error => console.error('Error loading offline round:', error));
+  }, [gameState.id]);
+
+  // Points games fail to load after a reload without signal - fall back to the saved copy
+  const sessionGames = useMemo(() => {
+    const games = pointsGames.filter(game => game.gameStateId === gameState.id);
+    return games.length > 0 ? games : snapshot?.pointsGames ?? [];
+  }, [pointsGames, gameState.id, snapshot]);
+
+  useEffect(() => {
+    offlineStorage.init()
+      .then(() => offlineStorage.storeGameState(gameState.id, { group, gameState, pointsGames: sessionGames }))
+      .catch(error => console.error('Error saving offline round:', error));
+  }, [group, gameState, sessionGames]);
+
+  const local = useMemo(() => calculateRoundStandings(gameState, group, sessionGames), [gameState, group, sessionGames]);
+
+  useEffect(() => {
+    if (!isOnline) setProvisional(local);
+  }, [isOnline, local]);
+
+  // Reconcile only after queued edits have reached the server
+  const reconcile = useCallback(async () => {
+    if (!provisional || !navigator.onLine || await hasPendingOperations()) return;
+    try {
+      const response = await apiRequest('GET', `/api/game-state/${gameState.id}/standings`);
+      const server: LiveLeaderboard = await response.json();
+      const changes = diffStandings(provisional, server);
+      setDiff(changes.length > 0 ? changes : null);
+      setProvisional(null);
+    } catch (error) {
+      console.error('Error reconciling standings:', error);
+    }
+  }, [provisional, gameState.id]);
+
+  useEffect(() => {
+    if (!isOnline) return;
+    reconcile();
+    window.addEventListener(OFFLINE_QUEUE_CHANGED, reconcile);
+    return () => window.removeEventListener(OFFLINE_QUEUE_CHANGED, reconcile);
+  }, [isOnline, reconcile]);
+
+  if (!isOnline) {
+    const playerName = (id: string) => local.players.find(p => p.id === id)?.name ?? 'Player';
+    const standings = [...local.players].sort((a, b) => b.projected - a.projected);
+    const settlements = settleWhoOwesWho(Object.fromEntries(local.players.map(p => [p.id, p.projected])));
+
+    return (
+      <Card className="mb-4">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-gray-800">Provisional Standings</h3>
+            <Badge variant="secondary" className="text-xs">Offline</Badge>
+          </div>
+          <p className="text-xs text-gray-500">
+            Calculated on this device from {local.holesPlayed} of {local.roundHoles.length} holes. Final numbers come from the server once you're back online.
+          </p>
+
+          {standings.map(player => (
+            <div key={player.id} className="flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg" data-testid={`provisional-player-${player.id}`}>
+              <span className="font-medium text-gray-800 truncate">
+                {player.name}
+                {player.points !== null && <span className="text-xs text-gray-500"> · {player.points} pts</span>}
+              </span>
+              <span className={`font-semibold ${player.projected > 0 ? 'text-emerald-600' : player.projected < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                {formatMoney(player.projected)}
+              </span>
+            </div>
+          ))}
+
+          {local.nassau && (
+            <div className="space-y-1">
+              <h4 className="text-sm font-semibold text-gray-700">Nassau</h4>
+              {local.nassau.segments.map(segment => (
+                <div key={segment.label} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700">{segment.label}</span>
+                  <span className="text-gray-600">
+                    {segment.leaders.length === 0 ? 'All square' : segment.leaders.map(playerName).join(', ')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {settlements.length > 0 && (
+            <div className="space-y-1">
+              <h4 className="text-sm font-semibold text-gray-700">Who Owes Who</h4>
+              {settlements.map(({ from, to, amount }) => (
+                <div key={`${from}-${to}`} className="text-sm text-gray-600">
+                  {playerName(from)} owes {playerName(to)} ${amount.toFixed(2)}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!diff) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-4 border-yellow-200 bg-yellow-50">
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Results Changed After Syncing</h3>
+          <p className="text-sm text-gray-600">
+            The server's totals differ from what this device showed offline. The server's numbers are final.
+          </p>
+        </div>
+        <div className="space-y-1">
+          <div className="grid grid-cols-3 text-xs font-medium text-gray-500">
+            <span>Player</span>
+            <span className="text-right">This device</span>
+            <span className="text-right">Server</span>
+          </div>
+          {diff.map(row => (
+            <div key={row.playerId} className="grid grid-cols-3 text-sm" data-testid={`standings-diff-${row.playerId}`}>
+              <span className="text-gray-800 truncate">{row.name}</span>
+              <span className="text-right text-gray-500 line-through">{formatMoney(row.local)}</span>
+              <span className="text-right font-semibold text-gray-800">{formatMoney(row.server)}</span>
+            </div>
+          ))}
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setDiff(null)} data-testid="button-dismiss-standings-diff">
+          Got it
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { SettlementLegPayment } from "@/components/settlement-leg-payment";
+import type { GroupRole, LedgerEntryWithStatus, SettlementLedger as Ledger } from "@shared/schema";
+
+interface SettlementLedgerProps {
+  groupId: string;
+  gameStateId?: string; // The round on screen, which can be added to the ledger
+}
+
+const formatMoney = (amount: number) => `$${Math.abs(amount).toFixed(2)}`;
+
+const entryStatus = (entry: LedgerEntryWithStatus) =>
+  entry.outstanding <= 0 ? 'Paid' : entry.paid > 0 ? `${formatMoney(entry.outstanding)} left` : 'Unpaid';
+
+export function SettlementLedger({ groupId, gameStateId }: SettlementLedgerProps) {
+  const { toast } = useToast();
+  const [partialEntryId, setPartialEntryId] = useState<string | null>(null);
+  const [partialAmount, setPartialAmount] = useState("");
+
+  const { data: ledger } = useQuery<Ledger>({
+    queryKey: ['/api/groups', groupId, 'ledger'],
+  });
+  const { data: membership } = useQuery<{ role: GroupRole }>({
+    queryKey: ['/api/groups', groupId, 'members'],
+  });
+  const canEdit = membership?.role === 'owner' || membership?.role === 'scorer';
+
+  // Every ledger route answers with the updated ledger
+  const ledgerMutation = (title: string) => ({
+    onSuccess: (updated: Ledger) => {
+      queryClient.setQueryData(['/api/groups', groupId, 'ledger'], updated);
+    },
+    onError: (error: any) => {
+      toast({ title, description: error.message, variant: "destructive" });
+    },
+  });
+
+  const recordRoundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/groups/${groupId}/ledger/rounds`, { gameStateId });
+      return response.json();
+    },
+    ...ledgerMutation("Failed to add round"),
+  });
+
+  const removeRoundMutation = useMutation({
+    mutationFn: async (roundId: string) => {
+      const response = await apiRequest('DELETE', `/api/groups/${groupId}/ledger/rounds/${roundId}`);
+      return response.json();
+    },
+    ...ledgerMutation("Failed to remove round"),
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: async (payment: { entryId?: string; fromPlayerId?: string; toPlayerId?: string; amount?: number }) => {
+      const response = await apiRequest('POST', `/api/groups/${groupId}/ledger/payments`, payment);
+      return response.json();
+    },
+    ...ledgerMutation("Failed to record payment"),
+  });
+
+  const removePaymentMutation = useMutation({
+    mutationFn: async (paymentId: string) => {
+      const response = await apiRequest('DELETE', `/api/groups/${groupId}/ledger/payments/${paymentId}`);
+      return response.json();
+    },
+    ...ledgerMutation("Failed to remove payment"),
+  });
+
+  if (!ledger) {
+    return null;
+  }
+
+  const name = (playerId: string) => ledger.playerNames[playerId] ?? 'Unknown';
+  const roundRecorded = ledger.rounds.some(round => round.gameStateId === gameStateId);
+  const balances = Object.entries(ledger.balances).filter(([, amount]) => Math.abs(amount) >= 0.01);
+  const isBusy = paymentMutation.isPending || removePaymentMutation.isPending;
+
+  const submitPartial = (entry: LedgerEntryWithStatus) => {
+    const amount = parseFloat(partialAmount);
+    if (!(amount > 0)) return;
+    paymentMutation.mutate({ entryId: entry.id, amount }, {
+      onSuccess: () => {
+        setPartialEntryId(null);
+        setPartialAmount("");
+      },
+    });
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-4 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">📒 Settlement Ledger</h3>
+          <p className="text-sm text-gray-500">Unpaid debts carry over from round to round.</p>
+        </div>
+
+        {canEdit && gameStateId && !roundRecorded && (
+          <Button
+            className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+            onClick={() => recordRoundMutation.mutate()}
+            disabled={recordRoundMutation.isPending}
+            data-testid="button-record-round"
+          >
+            {recordRoundMutation.isPending ? 'Adding...' : 'Add This Round to the Ledger'}
+          </Button>
+        )}
+
+        {/* Running balances netted into the fewest payments */}
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-700">Settle Up</h4>
+          {ledger.settlements.length === 0 ? (
+            <p className="text-sm text-gray-500">Everyone is square.</p>
+          ) : (
+            ledger.settlements.map(leg => (
+              <div key={`${leg.from}-${leg.to}`} className="p-2 bg-gray-50 rounded-lg text-sm space-y-2" data-testid={`ledger-settlement-${leg.from}-${leg.to}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-gray-800">
+                    {leg.fromName} pays {leg.toName} <span className="font-semibold">{formatMoney(leg.amount)}</span>
+                  </span>
+                  {canEdit && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => paymentMutation.mutate({ fromPlayerId: leg.from, toPlayerId: leg.to, amount: leg.amount })}
+                      disabled={isBusy}
+                    >
+                      Mark Paid
+                    </Button>
+                  )}
+                </div>
+                <SettlementLegPayment
+                  groupId={groupId}
+                  fromPlayerId={leg.from}
+                  toPlayerId={leg.to}
+                  amount={leg.amount}
+                  memo={leg.memo}
+                  paymentOptions={leg.paymentOptions}
+                  showMarkPaid={false}
+                />
+              </div>
+            ))
+          )}
+          {balances.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {balances.map(([playerId, amount]) => (
+                <Badge key={playerId} variant="secondary" className={amount > 0 ? 'text-emerald-700' : 'text-red-700'}>
+                  {name(playerId)} {amount > 0 ? '+' : '-'}{formatMoney(amount)}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Debts by round */}
+        {ledger.rounds.map(round => (
+          <div key={round.gameStateId ?? round.recordedAt} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-semibold text-gray-700">
+                {round.roundName} · {new Date(round.recordedAt).toLocaleDateString()}
+              </h4>
+              {canEdit && round.gameStateId && round.entries.every(entry => entry.paid === 0) && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-xs text-red-600"
+                  onClick={() => removeRoundMutation.mutate(round.gameStateId!)}
+                  disabled={removeRoundMutation.isPending}
+                >
+                  Remove
+                </Button>
+              )}
+            </div>
+            {round.entries.map(entry => (
+              <div key={entry.id} className="p-2 bg-gray-50 rounded-lg text-sm space-y-2" data-testid={`ledger-entry-${entry.id}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className={entry.outstanding <= 0 ? 'text-gray-400 line-through' : 'text-gray-800'}>
+                    {entry.fromName} owes {entry.toName} {formatMoney(entry.amount)}
+                  </span>
+                  <span className="text-xs text-gray-500 shrink-0">{entryStatus(entry)}</span>
+                </div>
+                {canEdit && entry.outstanding > 0 && (
+                  partialEntryId === entry.id ? (
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        inputMode="decimal"
+                        min="0.01"
+                        step="0.01"
+                        max={entry.outstanding}
+                        value={partialAmount}
+                        onChange={(e) => setPartialAmount(e.target.value)}
+                        placeholder={entry.outstanding.toFixed(2)}
+                        className="h-8"
+                      />
+                      <Button size="sm" onClick={() => submitPartial(entry)} disabled={isBusy}>Save</Button>
+                      <Button size="sm" variant="ghost" onClick={() => setPartialEntryId(null)}>Cancel</Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" onClick={() => paymentMutation.mutate({ entryId: entry.id })} disabled={isBusy}>
+                        Paid in Full
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => { setPartialEntryId(entry.id); setPartialAmount(""); }}>
+                        Partial
+                      </Button>
+                    </div>
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+
+        {/* Most recent payments first, with a way to take back a mistake */}
+        {ledger.payments.length > 0 && (
+          <div className="space-y-1">
+            <h4 className="text-sm font-semibold text-gray-700">Payments</h4>
+            {[...ledger.payments].reverse().slice(0, 10).map(payment => (
+              <div key={payment.id} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+                <span>
+                  {name(payment.fromPlayerId)} paid {name(payment.toPlayerId)} {formatMoney(payment.amount)} · {new Date(payment.createdAt).toLocaleDateString()}
+                </span>
+                {canEdit && (
+                  <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => removePaymentMutation.mutate(payment.id)} disabled={isBusy}>
+                    Undo
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { GroupRole, PaymentOption } from "@shared/schema";
+
+interface SettlementLegPaymentProps {
+  groupId: string;
+  gameStateId?: string; // Confirmations for a round's leg are recorded against that round's ledger debt
+  fromPlayerId: string;
+  toPlayerId: string;
+  amount: number;
+  memo?: string;
+  paymentOptions?: PaymentOption[];
+  showMarkPaid?: boolean;
+}
+
+// Pay buttons for one who-owes-who leg, a QR code for paying from another phone, and a
+// "Mark as Paid" confirmation that goes on the group's settlement ledger.
+export function SettlementLegPayment({ groupId, gameStateId, fromPlayerId, toPlayerId, amount, memo, paymentOptions = [], showMarkPaid = true }: SettlementLegPaymentProps) {
+  const { toast } = useToast();
+  const [qrOption, setQrOption] = useState<PaymentOption | null>(null);
+
+  const { data: membership } = useQuery<{ role: GroupRole }>({
+    queryKey: ['/api/groups', groupId, 'members'],
+  });
+  const canConfirm = showMarkPaid && (membership?.role === 'owner' || membership?.role === 'scorer');
+
+  const markPaidMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/groups/${groupId}/ledger/payments`, { gameStateId, fromPlayerId, toPlayerId, amount });
+      return response.json();
+    },
+    onSuccess: (ledger) => {
+      queryClient.setQueryData(['/api/groups', groupId, 'ledger'], ledger);
+      toast({ title: "Payment recorded", description: `$${amount.toFixed(2)} added to the settlement ledger.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to record payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyHandle = (option: PaymentOption) => {
+    navigator.clipboard?.writeText(option.handle).catch(() => {});
+    toast({ title: `${option.label} copied`, description: `Send $${amount.toFixed(2)} to ${option.handle}${memo ? ` with the note "${memo}"` : ''}.` });
+  };
+
+  if (paymentOptions.length === 0 && !canConfirm) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {paymentOptions.map(option => (
+          option.url ? (
+            <Button key={option.app} asChild size="sm" variant="outline" className="h-7 text-xs">
+              <a href={option.url} target="_blank" rel="noopener noreferrer" data-testid={`link-pay-${option.app}-${fromPlayerId}-${toPlayerId}`}>
+                {option.label}
+              </a>
+            </Button>
+          ) : (
+            <Button key={option.app} size="sm" variant="outline" className="h-7 text-xs" onClick={() => copyHandle(option)}>
+              {option.label}: {option.handle}
+            </Button>
+          )
+        ))}
+        {paymentOptions.length > 0 && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={() => setQrOption(qrOption ? null : paymentOptions[0])}
+            data-testid={`button-pay-qr-${fromPlayerId}-${toPlayerId}`}
+          >
+            {qrOption ? 'Hide QR' : 'QR'}
+          </Button>
+        )}
+        {canConfirm && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs border-emerald-500 text-emerald-600 hover:bg-emerald-50"
+            onClick={() => markPaidMutation.mutate()}
+            disabled={markPaidMutation.isPending}
+            data-testid={`button-mark-paid-${fromPlayerId}-${toPlayerId}`}
+          >
+            {markPaidMutation.isPending ? 'Saving...' : 'Mark as Paid'}
+          </Button>
+        )}
+      </div>
+
+      {qrOption && (
+        <div className="flex flex-col items-center gap-2 p-3 bg-white rounded-lg border border-gray-200">
+          {paymentOptions.length > 1 && (
+            <div className="flex gap-1">
+              {paymentOptions.map(option => (
+                <Button
+                  key={option.app}
+                  size="sm"
+                  variant={option.app === qrOption.app ? 'default' : 'ghost'}
+                  className="h-6 text-xs"
+                  onClick={() => setQrOption(option)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          )}
+          <QRCodeSVG value={qrOption.qrPayload} size={144} level="M" />
+          <p className="text-xs text-gray-500 text-center">
+            {qrOption.label} · {qrOption.handle}
+            {memo && <><br />{memo}</>}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
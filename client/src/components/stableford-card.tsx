@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Player, PointsGame, PointsGameSettings } from "@shared/schema";
+
+interface StablefordData {
+  whoOwesWho: Array<{ fromPlayerId: string; toPlayerId: string; amount: number; fromPlayerName: string; toPlayerName: string }>;
+  payouts: Record<string, number>;
+  stableford: {
+    points: Record<number, Record<string, number>>;
+    totals: Record<string, number>;
+  };
+  table: 'standard' | 'modified';
+  settlement: 'pairwise' | 'ladder';
+  stablefordValue: number;
+  scoringMode: 'gross' | 'net';
+}
+
+interface StablefordCardProps {
+  pointsGame: PointsGame;
+  players: Player[];
+}
+
+export function StablefordCard({ pointsGame, players }: StablefordCardProps) {
+  const { toast } = useToast();
+  const settings = pointsGame.settings || {};
+  const [stablefordValue, setStablefordValue] = useState<string>((settings.stablefordValue ?? 0).toFixed(2));
+
+  useEffect(() => {
+    setStablefordValue((pointsGame.settings?.stablefordValue ?? 0).toFixed(2));
+  }, [pointsGame.id, pointsGame.settings?.stablefordValue]);
+
+  // A 400 here means no course (par) is attached yet - shown as guidance, not an error toast
+  const { data, error, isLoading } = useQuery<StablefordData>({
+    queryKey: ['/api/points-games', pointsGame.id, 'stableford', pointsGame.updatedAt],
+    queryFn: async () => {
+      const response = await fetch(`/api/points-games/${pointsGame.id}/stableford`, { credentials: 'include' });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Failed to fetch Stableford');
+      }
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (update: Partial<PointsGameSettings>) => {
+      const response = await apiRequest('PUT', `/api/points-games/${pointsGame.id}/settings`, update);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/calculate-combined-games'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save Stableford settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const totals = data?.stableford.totals || {};
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Stableford</h3>
+        <p className="text-sm text-gray-500 mb-3">
+          Points vs par from the Sacramento strokes{data?.scoringMode === 'net' ? ' (net)' : ''}
+        </p>
+
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Point Value ($)</label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={stablefordValue}
+              onChange={(e) => setStablefordValue(e.target.value)}
+              onBlur={() => saveSettingsMutation.mutate({ stablefordValue: parseFloat(stablefordValue) || 0 })}
+              data-testid="input-stableford-value"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Points Table</label>
+            <Select
+              value={settings.stablefordTable ?? 'standard'}
+              onValueChange={(value) => saveSettingsMutation.mutate({ stablefordTable: value as 'standard' | 'modified' })}
+            >
+              <SelectTrigger data-testid="select-stableford-table"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="standard">Standard</SelectItem>
+                <SelectItem value="modified">Modified</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Settlement</label>
+            <Select
+              value={settings.stablefordSettlement ?? 'pairwise'}
+              onValueChange={(value) => saveSettingsMutation.mutate({ stablefordSettlement: value as 'pairwise' | 'ladder' })}
+            >
+              <SelectTrigger data-testid="select-stableford-settlement"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pairwise">Pairwise</SelectItem>
+                <SelectItem value="ladder">Up the ladder</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="w-5 h-5 border-2 border-emerald-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+            <span className="text-sm text-gray-600">Calculating Stableford...</span>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-gray-500">{(error as Error).message}</p>
+        ) : data ? (
+          <div className="space-y-2">
+            {[...players]
+              .sort((a, b) => (totals[b.id] || 0) - (totals[a.id] || 0))
+              .map(player => {
+                const netAmount = data.payouts[player.id] || 0;
+                const isEven = Math.abs(netAmount) < 0.01;
+                return (
+                  <div key={player.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg" data-testid={`stableford-player-${player.id}`}>
+                    <div>
+                      <span className="font-medium text-gray-800">{player.name}</span>
+                      <span className="ml-2 text-xs text-gray-500">{totals[player.id] || 0} pts</span>
+                    </div>
+                    <div className={`text-lg font-bold ${isEven ? 'text-gray-800' : netAmount > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {isEven ? '$0.00' : netAmount > 0 ? `+$${netAmount.toFixed(2)}` : `-$${Math.abs(netAmount).toFixed(2)}`}
+                    </div>
+                  </div>
+                );
+              })}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import type { Player, PointsGame, TeamSettings } from "@shared/schema";
+
+interface TeamBet {
+  holes: number[];
+  sides: [string[], string[]];
+  scores: [number, number];
+  holesPlayed: number;
+  winner: 0 | 1 | null;
+}
+
+interface TeamData {
+  teams: TeamSettings | null;
+  bets: TeamBet[];
+  payouts: Record<string, number>;
+  whoOwesWho: Array<{ fromPlayerId: string; toPlayerId: string; amount: number; fromPlayerName: string; toPlayerName: string }>;
+}
+
+type SideChoice = 'A' | 'B' | 'out';
+
+interface TeamGamesCardProps {
+  pointsGame: PointsGame;
+  players: Player[];
+}
+
+export function TeamGamesCard({ pointsGame, players }: TeamGamesCardProps) {
+  const { toast } = useToast();
+  const saved = pointsGame.settings?.teams;
+  const [sideByPlayer, setSideByPlayer] = useState<Record<string, SideChoice>>({});
+  const [rotation, setRotation] = useState<TeamSettings['rotation']>('fixed');
+  const [scoring, setScoring] = useState<TeamSettings['scoring']>('bestBall');
+  const [value, setValue] = useState<string>("5.00");
+
+  // Load the saved configuration (default: first half of the group vs the rest)
+  useEffect(() => {
+    const sides: Record<string, SideChoice> = {};
+    players.forEach((player, index) => {
+      if (saved) {
+        sides[player.id] = saved.sides[0].includes(player.id) ? 'A' : saved.sides[1].includes(player.id) ? 'B' : 'out';
+      } else {
+        sides[player.id] = index < Math.floor(players.length / 2) ? 'A' : 'B';
+      }
+    });
+    setSideByPlayer(sides);
+    setRotation(saved?.rotation ?? 'fixed');
+    setScoring(saved?.scoring ?? 'bestBall');
+    setValue((saved?.value ?? 5).toFixed(2));
+  }, [pointsGame.id, saved, players]);
+
+  const { data } = useQuery<TeamData>({
+    queryKey: ['/api/points-games', pointsGame.id, 'teams', pointsGame.updatedAt],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/points-games/${pointsGame.id}/teams`);
+      return response.json();
+    },
+  });
+
+  const saveTeamsMutation = useMutation({
+    mutationFn: async (teams: TeamSettings) => {
+      const response = await apiRequest('PUT', `/api/points-games/${pointsGame.id}/settings`, { teams });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/calculate-combined-games'] });
+      toast({ title: "Teams saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save teams", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const sideA = players.filter(p => sideByPlayer[p.id] === 'A').map(p => p.id);
+  const sideB = players.filter(p => sideByPlayer[p.id] === 'B').map(p => p.id);
+  const canRotate = sideA.length === 2 && sideB.length === 2;
+  const playerName = (id: string) => players.find(p => p.id === id)?.name || 'Unknown';
+  const sideNames = (side: string[]) => side.map(playerName).join(' & ');
+
+  const handleSave = () => {
+    if (sideA.length === 0 || sideA.length !== sideB.length) {
+      toast({
+        title: "Uneven Teams",
+        description: "Both sides need the same number of players.",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveTeamsMutation.mutate({
+      sides: [sideA, sideB],
+      rotation: canRotate ? rotation : 'fixed',
+      scoring,
+      value: parseFloat(value) || 0,
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Team Bets</h3>
+        <p className="text-sm text-gray-500 mb-3">Two sides scored from the Sacramento strokes</p>
+
+        <div className="space-y-2 mb-4">
+          {players.map(player => (
+            <div key={player.id} className="flex items-center justify-between gap-3">
+              <span className="font-medium text-gray-800">{player.name}</span>
+              <div className="flex gap-1">
+                {(['A', 'B', 'out'] as SideChoice[]).map(choice => (
+                  <Button
+                    key={choice}
+                    size="sm"
+                    variant={sideByPlayer[player.id] === choice ? 'default' : 'outline'}
+                    onClick={() => setSideByPlayer({ ...sideByPlayer, [player.id]: choice })}
+                    data-testid={`button-team-${choice}-${player.id}`}
+                  >
+                    {choice === 'out' ? 'Out' : `Side ${choice}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Scoring</label>
+            <Select value={scoring} onValueChange={(v) => setScoring(v as TeamSettings['scoring'])}>
+              <SelectTrigger data-testid="select-team-scoring"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="bestBall">Best ball</SelectItem>
+                <SelectItem value="aggregate">Aggregate</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Partners</label>
+            <Select value={canRotate ? rotation : 'fixed'} onValueChange={(v) => setRotation(v as TeamSettings['rotation'])} disabled={!canRotate}>
+              <SelectTrigger data-testid="select-team-rotation"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="fixed">Fixed</SelectItem>
+                <SelectItem value="sixes">Rotate every 6</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Per Bet ($)</label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              data-testid="input-team-value"
+            />
+          </div>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={saveTeamsMutation.isPending}
+          className="w-full mb-4 bg-emerald-600 hover:bg-emerald-700 text-white"
+          data-testid="button-save-teams"
+        >
+          {saveTeamsMutation.isPending ? 'Saving...' : 'Save Teams'}
+        </Button>
+
+        {data?.teams && (
+          <>
+            <div className="space-y-1 mb-4">
+              {data.bets.map((bet, idx) => (
+                <div key={idx} className="flex justify-between text-sm" data-testid={`team-bet-${idx}`}>
+                  <span className="text-gray-600">
+                    Holes {bet.holes[0]}–{bet.holes[bet.holes.length - 1]}: {sideNames(bet.sides[0])} vs {sideNames(bet.sides[1])}
+                  </span>
+                  <span className="font-medium text-gray-800">
+                    {bet.holesPlayed === 0
+                      ? 'Not started'
+                      : `${bet.scores[0]}–${bet.scores[1]}${bet.winner === null ? ' (tied)' : ''}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {[...players]
+                .filter(player => data.payouts[player.id] !== undefined)
+                .sort((a, b) => (data.payouts[b.id] || 0) - (data.payouts[a.id] || 0))
+                .map(player => {
+                  const netAmount = data.payouts[player.id] || 0;
+                  const isEven = Math.abs(netAmount) < 0.01;
+                  return (
+                    <div key={player.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <span className="font-medium text-gray-800">{player.name}</span>
+                      <div className={`text-lg font-bold ${isEven ? 'text-gray-800' : netAmount > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                        {isEven ? '$0.00' : netAmount > 0 ? `+$${netAmount.toFixed(2)}` : `-$${Math.abs(netAmount).toFixed(2)}`}
+                      </div>
+                    </div>
+                  );
+                })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
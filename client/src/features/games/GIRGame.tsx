@@ -10,9 +10,10 @@ import { useEffect, useState } from "react";
 
 interface GIRGameProps {
   selectedGroup: Group | null;
+  roundHoles?: number[];
 }
 
-export function GIRGame({ selectedGroup }: GIRGameProps) {
+export function GIRGame({ selectedGroup, roundHoles }: GIRGameProps) {
   const { toast } = useToast();
   const {
     selectedGirGame,
@@ -217,6 +218,7 @@ export function GIRGame({ selectedGroup }: GIRGameProps) {
           onHoleSelect={isConfigMode ? handleToggleHoleConfig : (hole) => setSelectedHole(hole)}
           penaltyHoles={isConfigMode ? tempConfig.penalty : holeConfig.penalty}
           bonusHoles={isConfigMode ? tempConfig.bonus : holeConfig.bonus}
+          holes={roundHoles}
         />
 
         {/* Save Configuration Button (shown in config mode) */}
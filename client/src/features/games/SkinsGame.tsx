@@ -0,0 +1,287 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { HoleSelector } from "@/components/HoleSelector";
+import { SettlementLegPayment } from "@/components/settlement-leg-payment";
+import { useSkinsGame } from "./useSkinsGame";
+import { useToast } from "@/hooks/use-toast";
+import type { Group } from "@shared/schema";
+import { useEffect } from "react";
+
+interface SkinsGameProps {
+  selectedGroup: Group | null;
+  gameStateId?: string;
+  roundHoles?: number[];
+}
+
+export function SkinsGame({ selectedGroup, gameStateId, roundHoles }: SkinsGameProps) {
+  const { toast } = useToast();
+  const {
+    selectedSkinsGame,
+    skinsGamesLoading,
+    selectedHole,
+    setSelectedHole,
+    holeStrokes,
+    setHoleStrokes,
+    skinValue,
+    setSkinValue,
+    saveHoleStrokes,
+    saveSettings,
+    createSkinsGame,
+    payoutData,
+    payoutsLoading,
+    isSaving,
+    isCreating,
+  } = useSkinsGame(selectedGroup, gameStateId);
+
+  // Load existing strokes when the hole changes
+  useEffect(() => {
+    const existing = selectedSkinsGame?.holes?.[selectedHole] || {};
+    const strokes: Record<string, string> = {};
+    Object.entries(existing).forEach(([playerId, value]) => {
+      if (typeof value === 'number') strokes[playerId] = String(value);
+    });
+    setHoleStrokes(strokes);
+  }, [selectedHole, selectedSkinsGame, setHoleStrokes]);
+
+  if (!selectedGroup) {
+    return (
+      <div className="p-4">
+        <p className="text-gray-600">Please select a group to view Skins.</p>
+      </div>
+    );
+  }
+
+  if (skinsGamesLoading) {
+    return (
+      <div className="p-4 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-emerald-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+        <p className="text-sm text-emerald-600">Loading Skins game...</p>
+      </div>
+    );
+  }
+
+  if (!selectedSkinsGame) {
+    return (
+      <div className="p-4">
+        <Card>
+          <CardContent className="p-6 text-center space-y-3">
+            <p className="text-gray-600">No Skins game for this session yet.</p>
+            {gameStateId ? (
+              <Button onClick={createSkinsGame} disabled={isCreating} data-testid="button-add-skins">
+                {isCreating ? 'Adding...' : 'Add Skins to this round'}
+              </Button>
+            ) : (
+              <p className="text-sm text-gray-500">Start a game session to play Skins.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const players = selectedGroup.players;
+  const settings = selectedSkinsGame.settings || {};
+  const playerName = (id: string | null) => players.find(p => p.id === id)?.name || 'Unknown';
+
+  const handleSaveStrokes = () => {
+    const strokes: Record<string, number> = {};
+    for (const player of players) {
+      const value = parseInt(holeStrokes[player.id], 10);
+      if (!value || value < 1) {
+        toast({
+          title: "Incomplete Scores",
+          description: "Enter strokes for every player before saving.",
+          variant: "destructive"
+        });
+        return;
+      }
+      strokes[player.id] = value;
+    }
+    saveHoleStrokes(selectedHole, strokes);
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Game Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-emerald-600" data-testid="header-skins-title">
+          Skins
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Outright low score wins the skin - ties carry over to the next hole
+        </p>
+      </div>
+
+      <HoleSelector
+        selectedHole={selectedHole}
+        onHoleSelect={setSelectedHole}
+        holes={roundHoles}
+      />
+
+      {/* Stroke Entry */}
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-800">Hole {selectedHole} Strokes</h3>
+          {players.map(player => (
+            <div key={player.id} className="flex items-center justify-between gap-3">
+              <span className="font-medium text-gray-800">{player.name}</span>
+              <Input
+                type="number"
+                min="1"
+                max="20"
+                className="w-24"
+                value={holeStrokes[player.id] ?? ''}
+                onChange={(e) => setHoleStrokes({ ...holeStrokes, [player.id]: e.target.value })}
+                data-testid={`input-skins-strokes-${player.id}`}
+              />
+            </div>
+          ))}
+          <Button
+            onClick={handleSaveStrokes}
+            disabled={isSaving}
+            className="w-full bg-emerald-500 hover:bg-emerald-600 text-white"
+            data-testid="button-save-skins-strokes"
+          >
+            {isSaving ? 'Saving...' : 'Save Strokes'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Settings and Payouts */}
+      <Card>
+        <CardContent className="p-4">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">Skins Payouts</h3>
+
+          <div className="grid grid-cols-3 gap-3 mb-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Skin Value ($)</label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={skinValue}
+                onChange={(e) => setSkinValue(e.target.value)}
+                onBlur={() => saveSettings({ skinValue: parseFloat(skinValue) || 0 })}
+                data-testid="input-skin-value"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Scoring</label>
+              <Select
+                value={settings.scoringMode ?? 'gross'}
+                onValueChange={(value) => saveSettings({ scoringMode: value as 'gross' | 'net' })}
+              >
+                <SelectTrigger data-testid="select-skins-scoring"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="gross">Gross</SelectItem>
+                  <SelectItem value="net">Net</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">Carryovers</label>
+              <Select
+                value={settings.skinsValidation ?? 'none'}
+                onValueChange={(value) => saveSettings({ skinsValidation: value as 'none' | 'birdie' })}
+              >
+                <SelectTrigger data-testid="select-skins-validation"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Low score wins</SelectItem>
+                  <SelectItem value="birdie">Birdie to win</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {payoutsLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <div className="w-5 h-5 border-2 border-emerald-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+              <span className="text-sm text-gray-600">Calculating payouts...</span>
+            </div>
+          ) : payoutData ? (
+            <>
+              {/* Hole-by-hole results */}
+              <div className="mb-4 space-y-1">
+                {payoutData.skins.holes.map(result => (
+                  <div key={result.hole} className="flex justify-between text-sm" data-testid={`skins-hole-${result.hole}`}>
+                    <span className="text-gray-600">Hole {result.hole}</span>
+                    <span className="font-medium text-gray-800">
+                      {result.winner
+                        ? `${playerName(result.winner)} wins ${result.skins} skin${result.skins === 1 ? '' : 's'}`
+                        : !result.validated ? 'No birdie - carries' : 'Tied - carries'}
+                    </span>
+                  </div>
+                ))}
+                {payoutData.skins.carryover > 0 && (
+                  <p className="text-sm text-amber-600">{payoutData.skins.carryover} skin(s) carrying over</p>
+                )}
+              </div>
+
+              {/* Net payouts per player */}
+              <div className="space-y-2 mb-4">
+                {[...players]
+                  .sort((a, b) => (payoutData.payouts[b.id] || 0) - (payoutData.payouts[a.id] || 0))
+                  .map(player => {
+                    const netAmount = payoutData.payouts[player.id] || 0;
+                    const isEven = Math.abs(netAmount) < 0.01;
+                    return (
+                      <div key={player.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div>
+                          <span className="font-medium text-gray-800">{player.name}</span>
+                          <span className="ml-2 text-xs text-gray-500">{payoutData.skins.skinsWon[player.id] || 0} skins</span>
+                        </div>
+                        <div className={`text-lg font-bold ${isEven ? 'text-gray-800' : netAmount > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                          {isEven ? '$0.00' : netAmount > 0 ? `+$${netAmount.toFixed(2)}` : `-$${Math.abs(netAmount).toFixed(2)}`}
+                        </div>
+                      </div>
+                    );
+                  })}
+              </div>
+
+              <h4 className="text-md font-semibold text-gray-800 mb-3">Who Owes Who</h4>
+              {payoutData.whoOwesWho.length === 0 ? (
+                <div className="text-center p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-gray-600">All players are even - no payments needed!</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {payoutData.whoOwesWho.map((tx, idx) => (
+                    <div
+                      key={idx}
+                      className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2"
+                      data-testid={`skins-transaction-${idx}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm">
+                          <span className="font-medium text-red-600">{tx.fromPlayerName}</span>
+                          <span className="text-gray-600"> owes </span>
+                          <span className="font-medium text-green-600">{tx.toPlayerName}</span>
+                        </div>
+                        <p className="text-lg font-bold text-black">${tx.amount.toFixed(2)}</p>
+                      </div>
+                      {selectedGroup && (
+                        <SettlementLegPayment
+                          groupId={selectedGroup.id}
+                          gameStateId={gameStateId}
+                          fromPlayerId={tx.fromPlayerId}
+                          toPlayerId={tx.toPlayerId}
+                          amount={tx.amount}
+                          memo={tx.memo}
+                          paymentOptions={tx.paymentOptions}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Enter strokes to see skins and payouts</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { HoleSelector } from "@/components/HoleSelector";
+import { SettlementLegPayment } from "@/components/settlement-leg-payment";
+import { useWolfGame } from "./useWolfGame";
+import { useToast } from "@/hooks/use-toast";
+import type { Group, WolfHoleData } from "@shared/schema";
+import { useEffect } from "react";
+
+interface WolfGameProps {
+  selectedGroup: Group | null;
+  gameStateId?: string;
+  roundHoles?: number[];
+}
+
+const MODE_LABELS = {
+  partner: 'Partner',
+  lone: 'Lone Wolf',
+  blind: 'Blind Wolf',
+} as const;
+
+export function WolfGame({ selectedGroup, gameStateId, roundHoles }: WolfGameProps) {
+  const { toast } = useToast();
+  const {
+    selectedWolfGame,
+    wolfGamesLoading,
+    selectedHole,
+    setSelectedHole,
+    holeStrokes,
+    setHoleStrokes,
+    mode,
+    setMode,
+    partner,
+    setPartner,
+    pointValue,
+    setPointValue,
+    saveHole,
+    saveSettings,
+    createWolfGame,
+    payoutData,
+    payoutsLoading,
+    isSaving,
+    isCreating,
+  } = useWolfGame(selectedGroup, gameStateId);
+
+  // Load the saved hole (wolf choice and strokes) when the hole changes
+  useEffect(() => {
+    const existing = selectedWolfGame?.holes?.[selectedHole] as unknown as WolfHoleData | undefined;
+    const strokes: Record<string, string> = {};
+    Object.entries(existing?.strokes || {}).forEach(([playerId, value]) => {
+      strokes[playerId] = String(value);
+    });
+    setHoleStrokes(strokes);
+    setMode(existing?.mode ?? 'partner');
+    setPartner(existing?.partner ?? "");
+  }, [selectedHole, selectedWolfGame, setHoleStrokes, setMode, setPartner]);
+
+  if (!selectedGroup) {
+    return (
+      <div className="p-4">
+        <p className="text-gray-600">Please select a group to view Wolf.</p>
+      </div>
+    );
+  }
+
+  if (wolfGamesLoading) {
+    return (
+      <div className="p-4 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-emerald-600 border-t-transparent rounded-full animate-spin mr-3"></div>
+        <p className="text-sm text-emerald-600">Loading Wolf game...</p>
+      </div>
+    );
+  }
+
+  if (!selectedWolfGame) {
+    return (
+      <div className="p-4">
+        <Card>
+          <CardContent className="p-6 text-center space-y-3">
+            <p className="text-gray-600">No Wolf game for this session yet.</p>
+            {gameStateId ? (
+              <Button onClick={createWolfGame} disabled={isCreating} data-testid="button-add-wolf">
+                {isCreating ? 'Adding...' : 'Add Wolf to this round'}
+              </Button>
+            ) : (
+              <p className="text-sm text-gray-500">Start a game session to play Wolf.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const players = selectedGroup.players;
+  const playerName = (id?: string) => players.find(p => p.id === id)?.name || 'Unknown';
+  const teeOrder = payoutData?.teeOrder ?? players.map(p => p.id);
+  const wolfId = payoutData?.wolfByHole?.[selectedHole];
+
+  // Move a player one spot earlier in the tee order
+  const moveUp = (index: number) => {
+    if (index === 0) return;
+    const order = [...teeOrder];
+    [order[index - 1], order[index]] = [order[index], order[index - 1]];
+    saveSettings({ wolfTeeOrder: order });
+  };
+
+  const handleSaveHole = () => {
+    const strokes: Record<string, number> = {};
+    for (const player of players) {
+      const value = parseInt(holeStrokes[player.id], 10);
+      if (!value || value < 1) {
+        toast({
+          title: "Incomplete Scores",
+          description: "Enter strokes for every player before saving.",
+          variant: "destructive"
+        });
+        return;
+      }
+      strokes[player.id] = value;
+    }
+    if (mode === 'partner' && !partner) {
+      toast({
+        title: "Pick a Partner",
+        description: "Choose the wolf's partner, or go lone or blind wolf.",
+        variant: "destructive"
+      });
+      return;
+    }
+    saveHole(selectedHole, strokes);
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Game Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-emerald-600" data-testid="header-wolf-title">
+          Wolf
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">
+          The wolf rotates each hole - pick a partner or take everyone on alone
+        </p>
+      </div>
+
+      {/* Tee Order */}
+      <Card>
+        <CardContent className="p-4">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">Tee Order</h3>
+          <div className="space-y-1">
+            {teeOrder.map((playerId, index) => (
+              <div key={playerId} className="flex items-center justify-between text-sm">
+                <span>{index + 1}. {playerName(playerId)}</span>
+                {index > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => moveUp(index)} data-testid={`button-wolf-order-up-${playerId}`}>
+                    Move up
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <HoleSelector
+        selectedHole={selectedHole}
+        onHoleSelect={setSelectedHole}
+        holes={roundHoles}
+      />
+
+      {/* Hole Entry */}
+      <Card>
+        <CardContent className="p-4 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-800">
+            Hole {selectedHole}{wolfId ? ` - ${playerName(wolfId)} is the wolf` : ''}
+          </h3>
+
+          <div className="flex gap-2">
+            {(Object.keys(MODE_LABELS) as Array<keyof typeof MODE_LABELS>).map(option => (
+              <Button
+                key={option}
+                variant={mode === option ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1"
+                onClick={() => setMode(option)}
+                data-testid={`button-wolf-mode-${option}`}
+              >
+                {MODE_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+
+          {mode === 'partner' && (
+            <Select value={partner} onValueChange={setPartner}>
+              <SelectTrigger data-testid="select-wolf-partner"><SelectValue placeholder="Wolf's partner" /></SelectTrigger>
+              <SelectContent>
+                {players.filter(p => p.id !== wolfId).map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {players.map(player => (
+            <div key={player.id} className="flex items-center justify-between gap-3">
+              <span className="font-medium text-gray-800">
+                {player.name}{player.id === wolfId ? ' 🐺' : ''}
+              </span>
+              <Input
+                type="number"
+                min="1"
+                max="20"
+                className="w-24"
+                value={holeStrokes[player.id] ?? ''}
+                onChange={(e) => setHoleStrokes({ ...holeStrokes, [player.id]: e.target.value })}
+                data-testid={`input-wolf-strokes-${player.id}`}
+              />
+            </div>
+          ))}
+
+          <Button
+            onClick={handleSaveHole}
+            disabled={isSaving}
+            className="w-full bg-emerald-500 hover:bg-emerald-600 text-white"
+            data-testid="button-save-wolf-hole"
+          >
+            {isSaving ? 'Saving...' : 'Save Hole'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Payouts */}
+      <Card>
+        <CardContent className="p-4">
+          <h3 className="text-lg font-semibold text-gray-800 mb-3">Wolf Payouts</h3>
+
+          <div className="mb-4">
+            <label className="text-sm font-medium text-gray-700 mb-2 block">Point Value ($)</label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={pointValue}
+              onChange={(e) => setPointValue(e.target.value)}
+              onBlur={() => saveSettings({ pointValue: parseFloat(pointValue) || 0 })}
+              data-testid="input-wolf-point-value"
+            />
+          </div>
+
+          {payoutsLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <div className="w-5 h-5 border-2 border-emerald-600 border-t-transparent rounded-full animate-spin mr-2"></div>
+              <span className="text-sm text-gray-600">Calculating payouts...</span>
+            </div>
+          ) : payoutData ? (
+            <>
+              <div className="space-y-2 mb-4">
+                {[...players]
+                  .sort((a, b) => (payoutData.payouts[b.id] || 0) - (payoutData.payouts[a.id] || 0))
+                  .map(player => {
+                    const netAmount = payoutData.payouts[player.id] || 0;
+                    const isEven = Math.abs(netAmount) < 0.01;
+                    return (
+                      <div key={player.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div>
+                          <span className="font-medium text-gray-800">{player.name}</span>
+                          <span className="ml-2 text-xs text-gray-500">{payoutData.wolfPoints[player.id] || 0} pts</span>
+                        </div>
+                        <div className={`text-lg font-bold ${isEven ? 'text-gray-800' : netAmount > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                          {isEven ? '$0.00' : netAmount > 0 ? `+$${netAmount.toFixed(2)}` : `-$${Math.abs(netAmount).toFixed(2)}`}
+                        </div>
+                      </div>
+                    );
+                  })}
+              </div>
+
+              <h4 className="text-md font-semibold text-gray-800 mb-3">Who Owes Who</h4>
+              {payoutData.whoOwesWho.length === 0 ? (
+                <div className="text-center p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <p className="text-gray-600">All players are even - no payments needed!</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {payoutData.whoOwesWho.map((tx, idx) => (
+                    <div
+                      key={idx}
+                      className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2"
+                      data-testid={`wolf-transaction-${idx}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="text-sm">
+                          <span className="font-medium text-red-600">{tx.fromPlayerName}</span>
+                          <span className="text-gray-600"> owes </span>
+                          <span className="font-medium text-green-600">{tx.toPlayerName}</span>
+                        </div>
+                        <p className="text-lg font-bold text-black">${tx.amount.toFixed(2)}</p>
+                      </div>
+                      {selectedGroup && (
+                        <SettlementLegPayment
+                          groupId={selectedGroup.id}
+                          gameStateId={gameStateId}
+                          fromPlayerId={tx.fromPlayerId}
+                          toPlayerId={tx.toPlayerId}
+                          amount={tx.amount}
+                          memo={tx.memo}
+                          paymentOptions={tx.paymentOptions}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Enter holes to see Wolf payouts</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,3 +1,7 @@
 export { GIRGame } from './GIRGame';
+export { SkinsGame } from './SkinsGame';
+export { WolfGame } from './WolfGame';
 export { PlayerActionGrid } from './PlayerActionGrid';
 export { useGirGame } from './useGirGame';
+export { useSkinsGame } from './useSkinsGame';
+export { useWolfGame } from './useWolfGame';
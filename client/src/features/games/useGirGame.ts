@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { sendWithRevision, holeUnchanged, RevisionConflictError } from "@/lib/revisions";
+import { sendOrQueue } from "@/lib/offlineQueue";
 import { useToast } from "@/hooks/use-toast";
 import type { PointsGame, Group, GIRHoleConfig } from "@shared/schema";
 
@@ -36,18 +38,34 @@ export function useGirGame(selectedGroup: Group | null) {
     mutationFn: async (data: { hole: number; playerGirData: Record<string, boolean> }) => {
       if (!selectedGirGame) throw new Error('No GIR game selected');
       
-      const response = await apiRequest(
-        'PUT',
-        `/api/gir-games/${selectedGirGame.id}/hole/${data.hole}`,
-        { playerGirData: data.playerGirData }
+      const base = selectedGirGame;
+      return sendOrQueue(
+        'set-gir',
+        { pointsGameId: base.id, hole: data.hole, playerGirData: data.playerGirData },
+        `GIR for hole ${data.hole}`,
+        async () => {
+          const response = await sendWithRevision<PointsGame>(
+            base.revision,
+            revision => apiRequest(
+              'PUT',
+              `/api/gir-games/${base.id}/hole/${data.hole}`,
+              { playerGirData: data.playerGirData, revision }
+            ),
+            current => holeUnchanged(base, current, data.hole)
+          );
+          return response.json();
+        }
       );
-      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
       queryClient.invalidateQueries({ queryKey: ['/api/gir-games', selectedGirGame?.id], exact: false });
     },
     onError: (error: any) => {
+      // Someone else saved this hole first - load their answers
+      if (error instanceof RevisionConflictError) {
+        queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
+      }
       toast({ 
         title: "Error", 
         description: error.message || "Failed to save GIR data", 
@@ -85,18 +103,26 @@ export function useGirGame(selectedGroup: Group | null) {
     mutationFn: async (config: GIRHoleConfig) => {
       if (!selectedGirGame) throw new Error('No GIR game selected');
       
-      const response = await apiRequest(
-        'PUT',
-        `/api/gir-games/${selectedGirGame.id}/hole-config`,
-        config
+      const gameId = selectedGirGame.id;
+      return sendOrQueue(
+        'set-gir-hole-config',
+        { pointsGameId: gameId, ...config },
+        'GIR penalty and bonus holes',
+        async () => {
+          const response = await apiRequest(
+            'PUT',
+            `/api/gir-games/${gameId}/hole-config`,
+            config
+          );
+          return response.json();
+        }
       );
-      return response.json();
     },
     onSuccess: (updatedGame) => {
       queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
       queryClient.invalidateQueries({ queryKey: ['/api/gir-games'] });
       // Update local state with the saved config
-      if (updatedGame.girHoleConfig) {
+      if (updatedGame?.girHoleConfig) {
         setHoleConfig(updatedGame.girHoleConfig);
       }
     },
@@ -0,0 +1,144 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { sendWithRevision, holeUnchanged, RevisionConflictError } from "@/lib/revisions";
+import { sendOrQueue } from "@/lib/offlineQueue";
+import { useToast } from "@/hooks/use-toast";
+import type { PointsGame, Group, PointsGameSettings, WhoOwesWhoLeg } from "@shared/schema";
+
+export interface SkinsHoleResult {
+  hole: number;
+  winner: string | null;
+  skins: number;
+  carriedIn: number;
+  validated: boolean;
+}
+
+export interface SkinsPayoutData {
+  whoOwesWho: WhoOwesWhoLeg[];
+  payouts: Record<string, number>;
+  skins: {
+    holes: SkinsHoleResult[];
+    skinsWon: Record<string, number>;
+    carryover: number;
+  };
+  skinValue: number;
+}
+
+export function useSkinsGame(selectedGroup: Group | null, gameStateId?: string) {
+  const { toast } = useToast();
+  const [selectedHole, setSelectedHole] = useState<number>(1);
+  const [holeStrokes, setHoleStrokes] = useState<Record<string, string>>({});
+  const [skinValue, setSkinValue] = useState<string>("1.00");
+
+  // Fetch all points games for the selected group (matching BBB/GIR pattern)
+  const { data: pointsGames = [], isLoading: skinsGamesLoading } = useQuery<PointsGame[]>({
+    queryKey: ['/api/points-games', selectedGroup?.id],
+    enabled: !!selectedGroup?.id
+  });
+
+  // Prefer the Skins game linked to the current session
+  const selectedSkinsGame = pointsGames.find(game => game.gameType === 'skins' && (!gameStateId || game.gameStateId === gameStateId)) || null;
+
+  // Initialize skin value from saved settings
+  useEffect(() => {
+    if (selectedSkinsGame?.settings?.skinValue !== undefined) {
+      setSkinValue(selectedSkinsGame.settings.skinValue.toFixed(2));
+    }
+  }, [selectedSkinsGame?.id, selectedSkinsGame?.settings?.skinValue]);
+
+  const invalidateSkins = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/skins-games'], exact: false });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    // Someone else saved this hole first - load their scores
+    if (error instanceof RevisionConflictError) invalidateSkins();
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive"
+    });
+  };
+
+  // Sessions created before Skins existed get their Skins game on demand
+  const createSkinsGameMutation = useMutation({
+    mutationFn: async () => {
+      if (!gameStateId) throw new Error('Start a game session first');
+      const response = await apiRequest('POST', `/api/game-state/${gameStateId}/skins-game`);
+      return response.json();
+    },
+    onSuccess: invalidateSkins,
+    onError: onError("Failed to add Skins"),
+  });
+
+  const updateHoleMutation = useMutation({
+    mutationFn: async (data: { hole: number; strokes: Record<string, number> }) => {
+      if (!selectedSkinsGame) throw new Error('No Skins game selected');
+      const base = selectedSkinsGame;
+      return sendOrQueue(
+        'set-skins-hole',
+        { pointsGameId: base.id, hole: data.hole, strokes: data.strokes },
+        `Skins scores for hole ${data.hole}`,
+        async () => {
+          const response = await sendWithRevision<PointsGame>(
+            base.revision,
+            revision => apiRequest('PUT', `/api/skins-games/${base.id}/hole/${data.hole}`, { strokes: data.strokes, revision }),
+            current => holeUnchanged(base, current, data.hole)
+          );
+          return response.json();
+        }
+      );
+    },
+    onSuccess: invalidateSkins,
+    onError: onError("Failed to save Skins scores"),
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (settings: Partial<PointsGameSettings>) => {
+      if (!selectedSkinsGame) throw new Error('No Skins game selected');
+      const response = await apiRequest('PUT', `/api/points-games/${selectedSkinsGame.id}/settings`, settings);
+      return response.json();
+    },
+    onSuccess: invalidateSkins,
+    onError: onError("Failed to save Skins settings"),
+  });
+
+  const { data: payoutData, isLoading: payoutsLoading } = useQuery<SkinsPayoutData>({
+    queryKey: ['/api/skins-games', selectedSkinsGame?.id, 'who-owes-who', skinValue, selectedSkinsGame?.updatedAt],
+    enabled: !!selectedSkinsGame && parseFloat(skinValue) >= 0,
+    queryFn: async () => {
+      const params = new URLSearchParams({ skinValue: skinValue || '0' });
+      const response = await fetch(`/api/skins-games/${selectedSkinsGame!.id}/who-owes-who?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch payouts');
+      return response.json();
+    }
+  });
+
+  const saveHoleStrokes = (hole: number, strokes: Record<string, number>) => {
+    updateHoleMutation.mutate({ hole, strokes });
+  };
+
+  const saveSettings = (settings: Partial<PointsGameSettings>) => {
+    saveSettingsMutation.mutate(settings);
+  };
+
+  return {
+    selectedSkinsGame,
+    skinsGamesLoading,
+    selectedHole,
+    setSelectedHole,
+    holeStrokes,
+    setHoleStrokes,
+    skinValue,
+    setSkinValue,
+    saveHoleStrokes,
+    saveSettings,
+    createSkinsGame: () => createSkinsGameMutation.mutate(),
+    payoutData,
+    payoutsLoading,
+    isSaving: updateHoleMutation.isPending || saveSettingsMutation.isPending,
+    isCreating: createSkinsGameMutation.isPending,
+  };
+}
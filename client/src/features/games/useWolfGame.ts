@@ -0,0 +1,140 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { sendWithRevision, holeUnchanged, RevisionConflictError } from "@/lib/revisions";
+import { sendOrQueue } from "@/lib/offlineQueue";
+import { useToast } from "@/hooks/use-toast";
+import type { PointsGame, Group, PointsGameSettings, WhoOwesWhoLeg, WolfMode } from "@shared/schema";
+
+export interface WolfPayoutData {
+  whoOwesWho: WhoOwesWhoLeg[];
+  payouts: Record<string, number>;
+  wolfPoints: Record<string, number>;
+  wolfByHole: Record<number, string>;
+  teeOrder: string[];
+}
+
+export function useWolfGame(selectedGroup: Group | null, gameStateId?: string) {
+  const { toast } = useToast();
+  const [selectedHole, setSelectedHole] = useState<number>(1);
+  const [holeStrokes, setHoleStrokes] = useState<Record<string, string>>({});
+  const [mode, setMode] = useState<WolfMode>('partner');
+  const [partner, setPartner] = useState<string>("");
+  const [pointValue, setPointValue] = useState<string>("1.00");
+
+  // Fetch all points games for the selected group (matching BBB/GIR pattern)
+  const { data: pointsGames = [], isLoading: wolfGamesLoading } = useQuery<PointsGame[]>({
+    queryKey: ['/api/points-games', selectedGroup?.id],
+    enabled: !!selectedGroup?.id
+  });
+
+  // Prefer the Wolf game linked to the current session
+  const selectedWolfGame = pointsGames.find(game => game.gameType === 'wolf' && (!gameStateId || game.gameStateId === gameStateId)) || null;
+
+  // Initialize point value from saved settings
+  useEffect(() => {
+    if (selectedWolfGame?.settings?.pointValue !== undefined) {
+      setPointValue(selectedWolfGame.settings.pointValue.toFixed(2));
+    }
+  }, [selectedWolfGame?.id, selectedWolfGame?.settings?.pointValue]);
+
+  const invalidateWolf = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/points-games'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/wolf-games'], exact: false });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    // Someone else saved this hole first - load their scores
+    if (error instanceof RevisionConflictError) invalidateWolf();
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive"
+    });
+  };
+
+  // Sessions created before Wolf existed get their Wolf game on demand
+  const createWolfGameMutation = useMutation({
+    mutationFn: async () => {
+      if (!gameStateId) throw new Error('Start a game session first');
+      const response = await apiRequest('POST', `/api/game-state/${gameStateId}/wolf-game`);
+      return response.json();
+    },
+    onSuccess: invalidateWolf,
+    onError: onError("Failed to add Wolf"),
+  });
+
+  const updateHoleMutation = useMutation({
+    mutationFn: async (data: { hole: number; mode: WolfMode; partner?: string; strokes: Record<string, number> }) => {
+      if (!selectedWolfGame) throw new Error('No Wolf game selected');
+      const { hole, ...body } = data;
+      const base = selectedWolfGame;
+      return sendOrQueue(
+        'set-wolf-hole',
+        { pointsGameId: base.id, hole, ...body },
+        `Wolf scores for hole ${hole}`,
+        async () => {
+          const response = await sendWithRevision<PointsGame>(
+            base.revision,
+            revision => apiRequest('PUT', `/api/wolf-games/${base.id}/hole/${hole}`, { ...body, revision }),
+            current => holeUnchanged(base, current, hole)
+          );
+          return response.json();
+        }
+      );
+    },
+    onSuccess: invalidateWolf,
+    onError: onError("Failed to save Wolf hole"),
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (settings: Partial<PointsGameSettings>) => {
+      if (!selectedWolfGame) throw new Error('No Wolf game selected');
+      const response = await apiRequest('PUT', `/api/points-games/${selectedWolfGame.id}/settings`, settings);
+      return response.json();
+    },
+    onSuccess: invalidateWolf,
+    onError: onError("Failed to save Wolf settings"),
+  });
+
+  const { data: payoutData, isLoading: payoutsLoading } = useQuery<WolfPayoutData>({
+    queryKey: ['/api/wolf-games', selectedWolfGame?.id, 'who-owes-who', pointValue, selectedWolfGame?.updatedAt],
+    enabled: !!selectedWolfGame,
+    queryFn: async () => {
+      const params = new URLSearchParams({ pointValue: pointValue || '0' });
+      const response = await fetch(`/api/wolf-games/${selectedWolfGame!.id}/who-owes-who?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch payouts');
+      return response.json();
+    }
+  });
+
+  const saveHole = (hole: number, strokes: Record<string, number>) => {
+    updateHoleMutation.mutate({ hole, mode, ...(mode === 'partner' && { partner }), strokes });
+  };
+
+  const saveSettings = (settings: Partial<PointsGameSettings>) => {
+    saveSettingsMutation.mutate(settings);
+  };
+
+  return {
+    selectedWolfGame,
+    wolfGamesLoading,
+    selectedHole,
+    setSelectedHole,
+    holeStrokes,
+    setHoleStrokes,
+    mode,
+    setMode,
+    partner,
+    setPartner,
+    pointValue,
+    setPointValue,
+    saveHole,
+    saveSettings,
+    createWolfGame: () => createWolfGameMutation.mutate(),
+    payoutData,
+    payoutsLoading,
+    isSaving: updateHoleMutation.isPending || saveSettingsMutation.isPending,
+    isCreating: createWolfGameMutation.isPending,
+  };
+}
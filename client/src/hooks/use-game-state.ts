@@ -1,7 +1,24 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { sendWithRevision, RevisionConflictError } from "@/lib/revisions";
+import { sendOrQueue } from "@/lib/offlineQueue";
 import { useToast } from "@/hooks/use-toast";
-import type { GameState } from "@shared/schema";
+import type { Card, GameState } from "@shared/schema";
+
+// Local copy of the server's card move (prefers a copy of the card nobody holds)
+function moveCardLocally(game: GameState, cardType: string, playerId: string): GameState {
+  const matchesType = (card: Card) => card.type === 'custom' ? card.name?.toLowerCase() === cardType.toLowerCase() : card.type === cardType;
+  const heldCardIds = new Set(Object.values(game.playerCards).flat().map(card => card.id));
+  const card = game.deck.find(deckCard => matchesType(deckCard) && !heldCardIds.has(deckCard.id)) ?? game.deck.find(matchesType);
+  if (!card) return game;
+
+  const playerCards: Record<string, Card[]> = {};
+  for (const [id, cards] of Object.entries(game.playerCards)) {
+    playerCards[id] = cards.filter(held => held.id !== card.id);
+  }
+  playerCards[playerId] = [...(playerCards[playerId] || []), card];
+  return { ...game, playerCards };
+}
 
 export function useGameState(groupId?: string) {
   const { toast } = useToast();
@@ -63,14 +80,35 @@ export function useGameState(groupId?: string) {
   // Assign card mutation
   const assignCard = useMutation({
     mutationFn: async (data: { gameStateId: string; playerId: string; groupId: string; cardType: string }) => {
-      const response = await apiRequest('POST', `/api/game-state/${data.gameStateId}/assign-card`, {
-        playerId: data.playerId,
-        groupId: data.groupId,
-        cardType: data.cardType
-      });
-      return response.json();
+      // Revision of our copy of the session; a card transfer still applies on top of newer assignments
+      const base = queryClient.getQueryData<GameState[]>(['/api/groups', groupId, 'games'])?.find(game => game.id === data.gameStateId);
+      return sendOrQueue(
+        'assign-card',
+        { gameStateId: data.gameStateId, playerId: data.playerId, cardType: data.cardType },
+        `Assign ${data.cardType} card`,
+        async () => {
+          const response = await sendWithRevision<GameState>(
+            base?.revision ?? 0,
+            revision => apiRequest('POST', `/api/game-state/${data.gameStateId}/assign-card`, {
+              playerId: data.playerId,
+              groupId: data.groupId,
+              cardType: data.cardType,
+              revision
+            }),
+            () => true
+          );
+          return response.json();
+        }
+      );
     },
     onSuccess: (data, variables) => {
+      if (!data) {
+        // Queued offline - show the move locally until the queue syncs
+        queryClient.setQueryData<GameState[]>(['/api/groups', groupId, 'games'], (oldData) =>
+          oldData?.map(game => game.id === variables.gameStateId ? moveCardLocally(game, variables.cardType, variables.playerId) : game)
+        );
+        return;
+      }
       // Force immediate refresh of all related data including payouts for instant UI updates
       queryClient.invalidateQueries({ queryKey: ['/api/game-state'] });
       queryClient.invalidateQueries({ queryKey: ['/api/groups'] });
@@ -85,6 +123,9 @@ export function useGameState(groupId?: string) {
       queryClient.refetchQueries({ queryKey: ['/api/game-state', variables.gameStateId, 'payouts'] });
     },
     onError: (error: any) => {
+      if (error instanceof RevisionConflictError) {
+        queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
+      }
       toast({ 
         title: "Failed to assign card", 
         description: error.message,
@@ -1,9 +1,12 @@
 import { useEffect, useRef, useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 
 export function useWebSocket(groupId?: string) {
   const [isConnected, setIsConnected] = useState(false);
+  const [version, setVersion] = useState(0);
   const wsRef = useRef<WebSocket | null>(null);
+  const versionRef = useRef(0);
   const queryClient = useQueryClient();
 
   useEffect(() => {
@@ -11,27 +14,51 @@ export function useWebSocket(groupId?: string) {
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
+    versionRef.current = 0;
+    setVersion(0);
+
     try {
       const ws = new WebSocket(wsUrl);
       wsRef.current = ws;
 
-      ws.onopen = () => {
+      ws.onopen = async () => {
         console.log('WebSocket connected');
-        setIsConnected(true);
-        
-        // Join the room for this group
-        ws.send(JSON.stringify({
-          type: 'joinRoom',
-          groupId: groupId
-        }));
+        try {
+          // Authenticate with a room token, then join this group's room
+          const response = await apiRequest('POST', '/api/auth/room-token', { roomId: groupId });
+          const { token } = await response.json();
+          ws.send(JSON.stringify({ type: 'authenticate', token }));
+        } catch (error) {
+          console.error('Failed to authenticate WebSocket:', error);
+        }
       };
 
       ws.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data);
-          
-          if (data.type === 'gameStateUpdate') {
+
+          if (data.type === 'auth-success') {
+            ws.send(JSON.stringify({ type: 'join-room', roomId: groupId }));
+          } else if (data.type === 'room-joined') {
+            setIsConnected(true);
+            versionRef.current = data.version ?? 0;
+            setVersion(versionRef.current);
+          } else if (data.type === 'state-update') {
+            // Canonical state from the server - skip anything older than what we've already applied
+            if (typeof data.version === 'number' && data.version <= versionRef.current) return;
+            versionRef.current = data.version;
+            setVersion(data.version);
+
+            if (data.gameState) {
+              queryClient.invalidateQueries({ queryKey: ['/api/game-state', groupId] });
+              queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
+              queryClient.invalidateQueries({ queryKey: ['/api/game-state', data.gameState.id] });
+            }
+            if (data.pointsGame) {
+              queryClient.invalidateQueries({ queryKey: ['/api/points-games', groupId] });
+              queryClient.invalidateQueries({ queryKey: ['/api/calculate-combined-games'] });
+            }
+          } else if (data.type === 'gameStateUpdate') {
             // Force immediate refresh of all related data
             queryClient.invalidateQueries({ queryKey: ['/api/game-state', groupId] });
             queryClient.invalidateQueries({ queryKey: ['/api/groups', groupId, 'games'] });
@@ -73,5 +100,5 @@ export function useWebSocket(groupId?: string) {
     };
   }, [groupId, queryClient]);
 
-  return { isConnected };
-}
\ No newline at end of file
+  return { isConnected, version };
+}
@@ -1,5 +1,6 @@
 // Shared, generic autosave with debounce + statuses.
 import { useEffect, useMemo, useRef, useState } from "react";
+import { getConflictState } from "@/lib/revisions";
 
 export type SaveStatus = "idle" | "saving" | "saved" | "error";
 
@@ -11,9 +12,11 @@ function debounce<F extends (...args: any[]) => void>(fn: F, ms: number) {
   };
 }
 
+// When a save hits a revision conflict (409), saveFn is called once more with the server's
+// current record so it can re-apply just the edited fields on top of it.
 export function useAutosaveObject<T extends object>(
   initial: T,
-  saveFn: (next: T) => Promise<any>,
+  saveFn: (next: T, current?: any) => Promise<any>,
   debounceMs = 400
 ) {
   const [value, setValue] = useState<T>(initial);
@@ -28,7 +31,13 @@ export function useAutosaveObject<T extends object>(
   const doSave = useMemo(() => debounce(async (next: T) => {
     setStatus("saving");
     try {
-      await saveFn(next);
+      try {
+        await saveFn(next);
+      } catch (error) {
+        const current = getConflictState(error);
+        if (!current) throw error;
+        await saveFn(next, current);
+      }
       setStatus("saved");
       setTimeout(() => setStatus("idle"), 1200);
     } catch (error) {
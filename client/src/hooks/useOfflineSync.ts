@@ -1,14 +1,23 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { offlineStorage, networkUtils } from '@/lib/offlineStorage';
-import { apiRequest } from '@/lib/queryClient';
+import { offlineStorage, networkUtils, type QueuedOperation } from '@/lib/offlineStorage';
+import { OFFLINE_QUEUE_CHANGED, notifyOfflineQueueChanged } from '@/lib/offlineQueue';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { OfflineOperationResult } from '@shared/schema';
+
+const SYNC_BATCH_SIZE = 100; // Server limit per request
+const RETRY_INTERVAL_MS = 30000;
 
 export function useOfflineSync() {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [pendingCount, setPendingCount] = useState(0);
+  const [operations, setOperations] = useState<QueuedOperation[]>([]);
+  const syncing = useRef(false);
   const { toast } = useToast();
 
+  const pendingCount = operations.filter(operation => operation.status === 'pending').length;
+  const failedOperations = operations.filter(operation => operation.status === 'failed');
+
   // Update online status
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -23,180 +32,121 @@ export function useOfflineSync() {
     };
   }, []);
 
-  // Check pending scores count
-  const updatePendingCount = useCallback(async () => {
+  const refreshOperations = useCallback(async () => {
     try {
-      const unsyncedScores = await offlineStorage.getUnsyncedScores();
-      setPendingCount(unsyncedScores.length);
+      await offlineStorage.init();
+      setOperations(await offlineStorage.getOperations());
     } catch (error) {
-      console.error('Error checking pending scores:', error);
+      console.error('Error reading offline queue:', error);
     }
   }, []);
 
-  // Sync offline data when coming back online
+  // Replay pending operations in queue order. Applied (or already applied) operations are
+  // removed, rejected ones stay visible as failed, and anything the server asks us to retry
+  // stays pending - along with everything queued after it.
   const syncOfflineData = useCallback(async () => {
-    if (!isOnline || isSyncing) return;
-
+    if (!navigator.onLine || syncing.current) return;
+    syncing.current = true;
     setIsSyncing(true);
-    
-    try {
-      // First, try to get unsynced scores
-      let unsyncedScores;
-      try {
-        unsyncedScores = await offlineStorage.getUnsyncedScores();
-      } catch (error) {
-        console.error('Error checking for offline scores:', error);
-        // If we can't even check for offline data, just return silently
-        // This prevents showing sync errors when there's no data to sync
-        return;
-      }
-      
-      if (unsyncedScores.length === 0) {
-        setPendingCount(0);
-        return;
-      }
 
-      console.log(`Syncing ${unsyncedScores.length} offline scores...`);
-      
-      // Group scores by game and type for efficient syncing
-      const scoresByGame = unsyncedScores.reduce((acc: Record<string, any[]>, score: any) => {
-        const key = `${score.gameId}-${score.type}`;
-        if (!acc[key]) acc[key] = [];
-        acc[key].push(score);
-        return acc;
-      }, {} as Record<string, any[]>);
-
-      const syncedIds: number[] = [];
-      let syncErrors = 0;
-
-      // Sync each group
-      for (const [gameKey, scores] of Object.entries(scoresByGame)) {
-        const [gameId, type] = gameKey.split('-');
-        
-        try {
-          if (type === 'card') {
-            // Sync card assignments
-            for (const score of scores) {
-              await apiRequest('POST', '/api/offline-sync/card-assignment', {
-                gameId: score.gameId,
-                playerId: score.playerId,
-                cardType: score.cardAssignment,
-                timestamp: score.timestamp
-              });
-              syncedIds.push(score.id);
-            }
-          } else if (type === 'points' || type === 'bbb') {
-            // Sync points/BBB scores
-            for (const score of scores) {
-              await apiRequest('POST', '/api/offline-sync/points-score', {
-                gameId: score.gameId,
-                playerId: score.playerId,
-                hole: score.hole,
-                points: score.pointsScore,
-                gameType: type,
-                timestamp: score.timestamp
-              });
-              syncedIds.push(score.id);
-            }
+    let applied = 0;
+    let rejected = 0;
+    try {
+      await offlineStorage.init();
+      while (true) {
+        const pending = (await offlineStorage.getOperations()).filter(operation => operation.status === 'pending');
+        if (pending.length === 0) break;
+
+        const batch = pending.slice(0, SYNC_BATCH_SIZE);
+        const response = await apiRequest('POST', '/api/offline-sync/operations', {
+          operations: batch.map(({ opId, command, payload }) => ({ opId, command, payload })),
+        });
+        const { results }: { results: OfflineOperationResult[] } = await response.json();
+        const resultsByOp = new Map(results.map(result => [result.opId, result]));
+
+        const done: number[] = [];
+        let blocked = false;
+        for (const operation of batch) {
+          const result = resultsByOp.get(operation.opId);
+          if (result?.status === 'applied' || result?.status === 'duplicate') {
+            done.push(operation.seq!);
+            applied++;
+          } else if (result?.status === 'rejected') {
+            await offlineStorage.updateOperation({ ...operation, status: 'failed', error: result.message || 'Rejected by the server' });
+            rejected++;
+          } else {
+            blocked = true;
           }
-        } catch (error) {
-          console.error(`Error syncing ${type} scores for game ${gameId}:`, error);
-          syncErrors++;
-          // Continue with other scores even if some fail
         }
+        await offlineStorage.deleteOperations(done);
+        if (blocked) break;
       }
-
-      // Mark successfully synced scores
-      if (syncedIds.length > 0) {
-        await offlineStorage.markScoresSynced(syncedIds);
-        toast({
-          title: "Sync Complete",
-          description: `${syncedIds.length} offline scores have been synced.`,
-          variant: "default"
-        });
-      }
-
-      // Only show error if we had actual sync failures (not just no data)
-      if (syncErrors > 0 && syncedIds.length === 0) {
-        toast({
-          title: "Sync Error",
-          description: "Failed to sync some offline data. Will retry automatically.",
-          variant: "destructive"
-        });
-      }
-
-      await updatePendingCount();
     } catch (error) {
-      console.error('Error during sync process:', error);
-      // Only show sync error if we actually tried to sync data
-      // Don't show error for initialization or "no data" scenarios
+      // Still offline or the server is unavailable - everything stays queued for the next attempt
+      console.error('Error syncing offline operations:', error);
     } finally {
+      syncing.current = false;
       setIsSyncing(false);
+      notifyOfflineQueueChanged();
     }
-  }, [isOnline, isSyncing, toast, updatePendingCount]);
 
-  // Auto-sync when coming back online
-  useEffect(() => {
-    if (isOnline && !isSyncing) {
-      // Delay sync slightly to ensure connection is stable
-      const timer = setTimeout(syncOfflineData, 1000);
-      return () => clearTimeout(timer);
+    if (applied > 0 || rejected > 0) {
+      queryClient.invalidateQueries();
     }
-  }, [isOnline, syncOfflineData, isSyncing]);
-
-  // Initialize offline storage and check pending count
-  useEffect(() => {
-    const initializeOfflineStorage = async () => {
-      try {
-        await offlineStorage.init();
-        await updatePendingCount();
-      } catch (error) {
-        console.error('Error initializing offline storage:', error);
-      }
-    };
-
-    initializeOfflineStorage();
-  }, [updatePendingCount]);
-
-  // Store offline score entry
-  const storeOfflineScore = useCallback(async (scoreData: {
-    gameId: string;
-    playerId: string;
-    cardAssignment?: string;
-    pointsScore?: number;
-    hole?: number;
-    type: 'card' | 'points' | 'bbb';
-  }) => {
-    try {
-      await offlineStorage.storeOfflineScore({
-        ...scoreData,
-        timestamp: Date.now(),
-        synced: false
-      });
-      
-      await updatePendingCount();
-      
+    if (applied > 0) {
       toast({
-        title: "Score Saved Offline",
-        description: "Your score has been saved and will sync when connection returns.",
-        variant: "default"
+        title: "Sync Complete",
+        description: `${applied} offline ${applied === 1 ? 'change has' : 'changes have'} been synced.`,
       });
-    } catch (error) {
-      console.error('Error storing offline score:', error);
+    }
+    if (rejected > 0) {
       toast({
-        title: "Save Error",
-        description: "Failed to save score offline. Please try again.",
+        title: "Sync Error",
+        description: `${rejected} offline ${rejected === 1 ? "change couldn't" : "changes couldn't"} be applied.`,
         variant: "destructive"
       });
     }
-  }, [updatePendingCount, toast]);
+  }, [toast]);
+
+  // Initialize offline storage and keep the list in step with the queue
+  useEffect(() => {
+    refreshOperations();
+    window.addEventListener(OFFLINE_QUEUE_CHANGED, refreshOperations);
+    return () => window.removeEventListener(OFFLINE_QUEUE_CHANGED, refreshOperations);
+  }, [refreshOperations]);
+
+  // Auto-sync when coming back online or when new operations are queued, then keep retrying
+  useEffect(() => {
+    if (!isOnline || pendingCount === 0) return;
+    // Delay sync slightly to ensure connection is stable
+    const timer = setTimeout(syncOfflineData, 1000);
+    const retry = setInterval(syncOfflineData, RETRY_INTERVAL_MS);
+    return () => {
+      clearTimeout(timer);
+      clearInterval(retry);
+    };
+  }, [isOnline, pendingCount, syncOfflineData]);
+
+  const discardOperation = useCallback(async (seq: number) => {
+    await offlineStorage.deleteOperations([seq]);
+    notifyOfflineQueueChanged();
+  }, []);
+
+  // Give a failed operation another try (e.g. after the scorer role was granted). It needs a
+  // fresh op id - the server remembers the old one as rejected.
+  const retryOperation = useCallback(async (operation: QueuedOperation) => {
+    await offlineStorage.updateOperation({ ...operation, opId: crypto.randomUUID(), status: 'pending', error: undefined });
+    notifyOfflineQueueChanged();
+  }, []);
 
   return {
     isOnline,
     isSyncing,
     pendingCount,
-    storeOfflineScore,
+    failedOperations,
+    operations,
     syncOfflineData,
-    updatePendingCount
+    discardOperation,
+    retryOperation
   };
-}
\ No newline at end of file
+}
@@ -3,7 +3,7 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from './useAuth';
 import type { Group, GameState } from '@shared/schema';
 
-type TabType = 'groups' | 'games' | 'scoreboard' | 'rules';
+type TabType = 'groups' | 'games' | 'scoreboard' | 'league' | 'rules';
 
 const LS_KEY = "fs.prefs.v1";
 
@@ -0,0 +1,56 @@
+import { offlineStorage } from "@/lib/offlineStorage";
+import type { GameCommand } from "@shared/schema";
+
+// Fired whenever the offline queue changes so the indicator can refresh
+export const OFFLINE_QUEUE_CHANGED = 'offline-queue-changed';
+
+export const notifyOfflineQueueChanged = () => window.dispatchEvent(new Event(OFFLINE_QUEUE_CHANGED));
+
+// fetch rejects with a TypeError when the request never got a response
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+export async function hasPendingOperations(): Promise<boolean> {
+  try {
+    await offlineStorage.init();
+    const operations = await offlineStorage.getOperations();
+    return operations.some(operation => operation.status === 'pending');
+  } catch (error) {
+    console.error('Error reading offline queue:', error);
+    return false;
+  }
+}
+
+export async function queueOperation(command: GameCommand, payload: Record<string, unknown>, description: string): Promise<void> {
+  await offlineStorage.init();
+  await offlineStorage.queueOperation({
+    opId: crypto.randomUUID(),
+    command,
+    payload,
+    description,
+    queuedAt: Date.now(),
+    status: 'pending',
+  });
+  notifyOfflineQueueChanged();
+}
+
+/**
+ * Sends a game edit now, or queues it for replay when the device is offline. Edits also
+ * queue while earlier ones are still waiting, so the server sees them in the order they
+ * were made. Resolves to null when the edit was queued instead of sent.
+ */
+export async function sendOrQueue<T>(
+  command: GameCommand,
+  payload: Record<string, unknown>,
+  description: string,
+  send: () => Promise<T>
+): Promise<T | null> {
+  if (navigator.onLine && !(await hasPendingOperations())) {
+    try {
+      return await send();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+  await queueOperation(command, payload, description);
+  return null;
+}
@@ -1,17 +1,41 @@
+import type { GameCommand } from "@shared/schema";
+
+// A game command made while offline, waiting to be replayed in order (seq) against the server
+export interface QueuedOperation {
+  seq?: number;
+  opId: string;                      // Lets the server recognise a replay it already applied
+  command: GameCommand;
+  payload: Record<string, unknown>;
+  description: string;               // Shown in the offline indicator
+  queuedAt: number;
+  status: 'pending' | 'failed';
+  error?: string;                    // Why the server rejected it
+}
+
 // IndexedDB utilities for offline data storage
 class OfflineStorage {
   private dbName = 'ForeScoreOffline';
-  private version = 1;
+  private version = 2;
   private db: IDBDatabase | null = null;
+  private ready: Promise<void> | null = null;
 
   // Store names for different types of offline data
   private stores = {
-    scores: 'offline_scores',
+    operations: 'offline_operations',
     gameState: 'offline_game_state',
     metadata: 'offline_metadata'
   };
 
+  // Safe to call repeatedly - every caller shares the one open connection
   async init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.open();
+      this.ready.catch(() => { this.ready = null; });
+    }
+    return this.ready;
+  }
+
+  private open(): Promise<void> {
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.version);
 
@@ -24,12 +48,15 @@ class OfflineStorage {
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
 
+        // Version 1 queued raw scores that could not be replayed safely
+        if (db.objectStoreNames.contains('offline_scores')) {
+          db.deleteObjectStore('offline_scores');
+        }
+
         // Create object stores if they don't exist
-        if (!db.objectStoreNames.contains(this.stores.scores)) {
-          const scoresStore = db.createObjectStore(this.stores.scores, { keyPath: 'id', autoIncrement: true });
-          scoresStore.createIndex('gameId', 'gameId', { unique: false });
-          scoresStore.createIndex('timestamp', 'timestamp', { unique: false });
-          scoresStore.createIndex('synced', 'synced', { unique: false });
+        if (!db.objectStoreNames.contains(this.stores.operations)) {
+          const operationsStore = db.createObjectStore(this.stores.operations, { keyPath: 'seq', autoIncrement: true });
+          operationsStore.createIndex('opId', 'opId', { unique: true });
         }
 
         if (!db.objectStoreNames.contains(this.stores.gameState)) {
@@ -44,80 +71,57 @@ class OfflineStorage {
     });
   }
 
-  // Store offline score entry
-  async storeOfflineScore(scoreData: {
-    gameId: string;
-    playerId: string;
-    cardAssignment?: string;
-    pointsScore?: number;
-    hole?: number;
-    timestamp: number;
-    type: 'card' | 'points' | 'bbb';
-    synced: boolean;
-  }): Promise<number> {
+  // Append an operation to the queue
+  async queueOperation(operation: Omit<QueuedOperation, 'seq'>): Promise<number> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.stores.scores], 'readwrite');
-      const store = transaction.objectStore(this.stores.scores);
-      
-      const request = store.add(scoreData);
+      const transaction = this.db!.transaction([this.stores.operations], 'readwrite');
+      const store = transaction.objectStore(this.stores.operations);
+
+      const request = store.add(operation);
       request.onsuccess = () => resolve(request.result as number);
       request.onerror = () => reject(request.error);
     });
   }
 
-  // Get all unsynced scores
-  async getUnsyncedScores(): Promise<any[]> {
+  // All queued operations, oldest first
+  async getOperations(): Promise<QueuedOperation[]> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.stores.scores], 'readonly');
-      const store = transaction.objectStore(this.stores.scores);
-      const index = store.index('synced');
-      
-      const request = index.getAll(IDBKeyRange.only(false));
+      const transaction = this.db!.transaction([this.stores.operations], 'readonly');
+      const store = transaction.objectStore(this.stores.operations);
+
+      const request = store.getAll();
       request.onsuccess = () => resolve(request.result);
       request.onerror = () => reject(request.error);
     });
   }
 
-  // Mark scores as synced
-  async markScoresSynced(scoreIds: number[]): Promise<void> {
+  async updateOperation(operation: QueuedOperation): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.stores.scores], 'readwrite');
-      const store = transaction.objectStore(this.stores.scores);
-      
-      let completed = 0;
-      let hasError = false;
-
-      scoreIds.forEach(id => {
-        const getRequest = store.get(id);
-        getRequest.onsuccess = () => {
-          if (getRequest.result) {
-            const record = getRequest.result;
-            record.synced = true;
-            
-            const putRequest = store.put(record);
-            putRequest.onsuccess = () => {
-              completed++;
-              if (completed === scoreIds.length && !hasError) {
-                resolve();
-              }
-            };
-            putRequest.onerror = () => {
-              hasError = true;
-              reject(putRequest.error);
-            };
-          }
-        };
-        getRequest.onerror = () => {
-          hasError = true;
-          reject(getRequest.error);
-        };
-      });
+      const transaction = this.db!.transaction([this.stores.operations], 'readwrite');
+      const store = transaction.objectStore(this.stores.operations);
+
+      const request = store.put(operation);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteOperations(seqs: number[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([this.stores.operations], 'readwrite');
+      const store = transaction.objectStore(this.stores.operations);
+
+      seqs.forEach(seq => store.delete(seq));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
@@ -7,6 +7,20 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Stable per-browser id so the round history can show which device made an edit
+export function getDeviceId(): string {
+  try {
+    let deviceId = localStorage.getItem('deviceId');
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem('deviceId', deviceId);
+    }
+    return deviceId;
+  } catch {
+    return 'unknown';
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -19,7 +33,10 @@ export async function apiRequest(
   try {
     const res = await fetch(url, {
       method,
-      headers: data ? { "Content-Type": "application/json" } : {},
+      headers: {
+        ...(data ? { "Content-Type": "application/json" } : {}),
+        "X-Device-Id": getDeviceId(),
+      },
       body: data ? JSON.stringify(data) : undefined,
       credentials: "include",
       signal: controller.signal,
@@ -0,0 +1,52 @@
+// Optimistic concurrency helpers: edits carry the revision they were based on,
+// and the server answers 409 with the current record when someone else saved first.
+
+export class RevisionConflictError<T = unknown> extends Error {
+  constructor(message: string, public current: T) {
+    super(message);
+    this.name = 'RevisionConflictError';
+  }
+}
+
+// apiRequest errors look like "409: {json body}" - returns the server's current record for a conflict
+export function getConflictState<T>(error: unknown): T | null {
+  if (!(error instanceof Error) || !error.message.startsWith('409:')) return null;
+  try {
+    const body = JSON.parse(error.message.slice(4).trim());
+    return body.current ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sends an edit based on `revision`. On a conflict, `rebase` decides whether the edit
+ * still applies on top of the newer record (e.g. someone else scored a different hole);
+ * if so it is retried once against the current revision, otherwise a RevisionConflictError
+ * carrying the current record is thrown so the caller can refresh.
+ */
+export async function sendWithRevision<T extends { revision: number }>(
+  revision: number,
+  send: (revision: number) => Promise<Response>,
+  rebase: (current: T) => boolean
+): Promise<Response> {
+  try {
+    return await send(revision);
+  } catch (error) {
+    const current = getConflictState<T>(error);
+    if (!current) throw error;
+    if (rebase(current)) {
+      return send(current.revision);
+    }
+    throw new RevisionConflictError('Someone else just changed this. The latest scores have been loaded.', current);
+  }
+}
+
+// Has this hole changed on the server since the client's copy was loaded?
+export function holeUnchanged(
+  base: { holes?: Record<number, unknown> | null } | null | undefined,
+  current: { holes?: Record<number, unknown> | null },
+  hole: number
+): boolean {
+  return JSON.stringify(base?.holes?.[hole] ?? null) === JSON.stringify(current.holes?.[hole] ?? null);
+}
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useRoute } from "wouter";
+import { ArrowLeft, Copy } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { EventSettingsForm } from "@/components/event-settings-form";
+import type { EventLeaderboard, EventSettings } from "@shared/schema";
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : amount > 0 ? '+' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+// Combined leaderboard and settlement for every foursome in an event
+export default function EventPage() {
+  const [, params] = useRoute("/events/:eventId");
+  const eventId = params?.eventId ?? "";
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState("");
+  const [settings, setSettings] = useState<EventSettings | null>(null);
+
+  const { data: leaderboard, isLoading, error } = useQuery<EventLeaderboard>({
+    queryKey: ['/api/events', eventId],
+    enabled: !!eventId,
+    refetchInterval: 60000, // Other foursomes score on their own devices
+  });
+
+  const isOrganizer = !!leaderboard && (user as any)?.id === leaderboard.event.createdBy;
+
+  const onLeaderboard = (updated: EventLeaderboard) => {
+    queryClient.setQueryData(['/api/events', eventId], updated);
+    queryClient.invalidateQueries({ queryKey: ['/api/events'], exact: true });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PATCH', `/api/events/${eventId}`, { name: name.trim(), settings });
+      return response.json();
+    },
+    onSuccess: (updated: EventLeaderboard) => {
+      onLeaderboard(updated);
+      setEditing(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update event", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/events/${eventId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+      setLocation('/events');
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to delete event", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeRoundMutation = useMutation({
+    mutationFn: async (gameStateId: string) => {
+      const response = await apiRequest('DELETE', `/api/events/${eventId}/rounds/${gameStateId}`);
+      return response.json();
+    },
+    onSuccess: onLeaderboard,
+    onError: (error: any) => {
+      toast({ title: "Failed to remove round", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const copyInvite = async () => {
+    const link = `${window.location.origin}/events/${eventId}`;
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: "Invite copied", description: "Scorers can paste it into their round to join." });
+    } catch {
+      toast({ title: "Event code", description: eventId });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !leaderboard) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center space-y-2">
+            <h1 className="text-xl font-semibold text-gray-900">Event not available</h1>
+            <p className="text-gray-600">Events are visible to their organizer and the foursomes playing in them.</p>
+            <Link href="/events" className="text-emerald-600 hover:text-emerald-700">Back to events</Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { event, rounds, participants, skins, settlement } = leaderboard;
+  const showGir = event.settings.games.includes('gir');
+  const showPoints = event.settings.games.includes('points');
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <Link href="/events" className="text-green-600 hover:text-green-700">
+            <ArrowLeft className="h-5 w-5" data-testid="button-back" />
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900 flex-1">{event.name}</h1>
+          <Button variant="outline" size="sm" onClick={copyInvite} data-testid="button-copy-event-invite">
+            <Copy className="h-4 w-4 mr-1" />
+            Invite
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-4">
+            <h2 className="text-lg font-semibold text-gray-800 mb-3">Leaderboard</h2>
+            {participants.length === 0 ? (
+              <p className="text-sm text-gray-500">No foursomes yet. Share the invite so each scorer can add their round.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-2">Player</th>
+                      {skins && <th className="py-2 px-2 text-right">Skins</th>}
+                      {showGir && <th className="py-2 px-2 text-right">GIR</th>}
+                      {showPoints && <th className="py-2 px-2 text-right" title="2/9/16 points relative to their foursome's average">Pts ±</th>}
+                      <th className="py-2 pl-2 text-right">Net</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {participants.map(participant => (
+                      <tr key={participant.key} className="border-b last:border-0" data-testid={`row-event-participant-${participant.key}`}>
+                        <td className="py-2 pr-2">
+                          <div className="flex items-center gap-2">
+                            <div className="w-7 h-7 rounded-full flex items-center justify-center text-white text-xs font-semibold" style={{ backgroundColor: participant.color }}>
+                              {participant.initials}
+                            </div>
+                            <div>
+                              <div className="font-medium text-gray-800">{participant.name}</div>
+                              <div className="text-xs text-gray-500">{participant.groupName}</div>
+                            </div>
+                          </div>
+                        </td>
+                        {skins && <td className="py-2 px-2 text-right">{participant.skins}</td>}
+                        {showGir && <td className="py-2 px-2 text-right">{participant.girPoints ?? '-'}</td>}
+                        {showPoints && <td className="py-2 px-2 text-right">{participant.points2916 === null ? '-' : `${participant.points2916 > 0 ? '+' : ''}${participant.points2916}`}</td>}
+                        <td className={`py-2 pl-2 text-right font-semibold ${participant.net > 0 ? 'text-green-600' : participant.net < 0 ? 'text-red-600' : 'text-gray-600'}`}>
+                          {formatMoney(participant.net)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {skins && participants.length > 0 && (
+          <Card>
+            <CardContent className="p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-gray-800">Skins</h2>
+                <span className="text-sm text-gray-500">Pot ${skins.pot.toFixed(2)}</span>
+              </div>
+              <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 text-xs">
+                {skins.holes.map(({ hole, winner, skins: won }) => {
+                  const player = participants.find(participant => participant.key === winner);
+                  return (
+                    <div key={hole} className={`rounded p-2 text-center ${player ? 'bg-emerald-50 text-emerald-800' : 'bg-gray-50 text-gray-500'}`}>
+                      <div className="font-semibold">#{hole}</div>
+                      <div>{player ? `${player.initials} ×${won}` : 'carry'}</div>
+                    </div>
+                  );
+                })}
+              </div>
+              {skins.carryover > 0 && (
+                <p className="text-xs text-gray-500">{skins.carryover} skin{skins.carryover === 1 ? '' : 's'} still carrying over.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {settlement.length > 0 && (
+          <Card>
+            <CardContent className="p-4 space-y-2">
+              <h2 className="text-lg font-semibold text-gray-800">Who Owes Who</h2>
+              {settlement.map(leg => (
+                <div key={`${leg.from}-${leg.to}`} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                  <span><span className="font-medium">{leg.fromName}</span> owes <span className="font-medium">{leg.toName}</span></span>
+                  <span className="font-semibold text-gray-800">${leg.amount.toFixed(2)}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            <h2 className="text-lg font-semibold text-gray-800">Foursomes</h2>
+            {rounds.length === 0 && <p className="text-sm text-gray-500">No rounds have joined yet.</p>}
+            {rounds.map(round => (
+              <div key={round.gameStateId} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                <div>
+                  <div className="font-medium text-gray-800">{round.groupName}</div>
+                  <div className="text-xs text-gray-500">{round.name}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => removeRoundMutation.mutate(round.gameStateId)}
+                  disabled={removeRoundMutation.isPending}
+                  data-testid={`button-remove-event-round-${round.gameStateId}`}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {isOrganizer && (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              {editing && settings ? (
+                <>
+                  <Input value={name} onChange={(e) => setName(e.target.value)} data-testid="input-edit-event-name" />
+                  <EventSettingsForm value={settings} onChange={setSettings} />
+                  <div className="flex gap-2">
+                    <Button
+                      className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
+                      onClick={() => updateMutation.mutate()}
+                      disabled={!name.trim() || updateMutation.isPending}
+                    >
+                      Save
+                    </Button>
+                    <Button variant="outline" onClick={() => setEditing(false)}>Cancel</Button>
+                  </div>
+                </>
+              ) : (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => {
+                      setName(event.name);
+                      setSettings(event.settings);
+                      setEditing(true);
+                    }}
+                    data-testid="button-edit-event"
+                  >
+                    Edit Event
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => {
+                      if (window.confirm(`Delete ${event.name}? Each foursome keeps its round.`)) deleteMutation.mutate();
+                    }}
+                    disabled={deleteMutation.isPending}
+                    data-testid="button-delete-event"
+                  >
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { EventSettingsForm, DEFAULT_EVENT_SETTINGS } from "@/components/event-settings-form";
+import type { EventSettings, GolfEvent } from "@shared/schema";
+
+// Multi-foursome events the user organizes or plays in
+export default function Events() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [name, setName] = useState("");
+  const [settings, setSettings] = useState<EventSettings>(DEFAULT_EVENT_SETTINGS);
+
+  const { data: events = [], isLoading } = useQuery<GolfEvent[]>({
+    queryKey: ['/api/events'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/events', { name: name.trim(), settings });
+      return response.json();
+    },
+    onSuccess: (event: GolfEvent) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+      setLocation(`/events/${event.id}`);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to create event", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <Link href="/" className="text-green-600 hover:text-green-700">
+            <ArrowLeft className="h-5 w-5" data-testid="button-back" />
+          </Link>
+          <h1 className="text-2xl font-semibold text-gray-900">Events</h1>
+        </div>
+
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <h2 className="text-lg font-semibold text-gray-800">New Event</h2>
+            <p className="text-sm text-gray-500">
+              Each foursome scores in its own group as usual. Share the event code so every foursome's scorer can join their round.
+            </p>
+            <div className="space-y-1">
+              <Label htmlFor="event-name">Name</Label>
+              <Input id="event-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Saturday Scramble" data-testid="input-event-name" />
+            </div>
+            <EventSettingsForm value={settings} onChange={setSettings} />
+            <Button
+              className="w-full bg-emerald-600 hover:bg-emerald-700 text-white"
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || createMutation.isPending}
+              data-testid="button-create-event"
+            >
+              {createMutation.isPending ? 'Creating...' : 'Create Event'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : events.length > 0 && (
+          <Card>
+            <CardContent className="p-4 space-y-2">
+              <h2 className="text-lg font-semibold text-gray-800">Your Events</h2>
+              {events.map(event => (
+                <Link
+                  key={event.id}
+                  href={`/events/${event.id}`}
+                  className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+                  data-testid={`link-event-${event.id}`}
+                >
+                  <span className="font-medium text-gray-800">{event.name}</span>
+                  <span className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleDateString()}</span>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
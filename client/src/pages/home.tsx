@@ -11,14 +11,30 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Users, Gamepad2, BookOpen, ChevronRight, Edit, Layers, Trophy, ArrowLeft, Info, HelpCircle, LogOut, Menu, Loader2, User, FileText, Mail, Crown, Clock, CreditCard, AlertTriangle, Hash, Flag, Zap, MoreHorizontal, Lock, Trash2 } from "lucide-react";
+import { Plus, Users, Gamepad2, BookOpen, ChevronRight, Edit, Layers, Trophy, ArrowLeft, Info, HelpCircle, LogOut, Menu, Loader2, User, FileText, Mail, Crown, Clock, CreditCard, AlertTriangle, Hash, Flag, Zap, MoreHorizontal, Lock, Trash2, Coins, BarChart3, Medal } from "lucide-react";
 import { CreateGroupModal } from "@/components/create-group-modal";
+import { CourseSelector } from "@/components/course-selector";
+import { RoundSelector } from "@/components/round-selector";
+import { NassauPresses } from "@/components/nassau-presses";
+import { StablefordCard } from "@/components/stableford-card";
+import { TeamGamesCard } from "@/components/team-games-card";
+import { PointTableCard, PointTableRules } from "@/components/point-table-card";
+import { DeckEditor } from "@/components/deck-editor";
+import { GroupMembers } from "@/components/group-members";
+import { GameHistory } from "@/components/game-history";
+import { RoundStandings } from "@/components/round-standings";
+import { SettlementLedger } from "@/components/settlement-ledger";
+import { SettlementLegPayment } from "@/components/settlement-leg-payment";
+import { LeagueStandings } from "@/components/league-standings";
+import { RoundEvent } from "@/components/round-event";
+import { LiveShare } from "@/components/live-share";
+import { RoundFinalize } from "@/components/round-finalize";
 import { BottomNavigation } from "@/components/bottom-navigation";
 import { Tutorial } from "@/components/tutorial";
 import AppDownloadPrompt from "@/components/AppDownloadPrompt";
 import OfflineIndicator from "@/components/OfflineIndicator";
 import TrialCountdownBanner from "@/components/TrialCountdownBanner";
-import { GIRGame } from "@/features/games";
+import { GIRGame, SkinsGame, WolfGame } from "@/features/games";
 
 import { useAuth } from "@/hooks/useAuth";
 import { useGameState } from "@/hooks/use-game-state";
@@ -28,6 +44,9 @@ import { useAutosaveObject } from "@/hooks/useAutosave";
 import { useTabPersistence } from "@/hooks/useTabPersistence";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { usePlatform } from "@/lib/platform";
+import { getRoundHoles, score2916Hole } from "@shared/gameLogic";
+import { sendWithRevision, holeUnchanged, RevisionConflictError } from "@/lib/revisions";
+import { sendOrQueue } from "@/lib/offlineQueue";
 import type { Group, GameState, Card as GameCard, PointsGame } from "@shared/schema";
 
 // Hook for server-side payouts calculation
@@ -228,6 +247,9 @@ export default function Home() {
     changeGame,
     isRestoring 
   } = useTabPersistence(payoutDataReady);
+
+  // Holes in play for the selected game (standard 18 unless a round layout is set)
+  const roundHoles = getRoundHoles(selectedGame?.roundConfig);
   
   // Payouts query will be defined after the groupGames query
   
@@ -263,7 +285,7 @@ export default function Home() {
   const [showAboutForescore, setShowAboutForescore] = useState(false);
   
   // Games tab submenu state
-  const [selectedSubGame, setSelectedSubGame] = useState<'cards' | 'points' | 'bbb' | 'gir'>('cards');
+  const [selectedSubGame, setSelectedSubGame] = useState<'cards' | 'points' | 'bbb' | 'gir' | 'skins' | 'wolf'>('cards');
   const [showGamesOverlay, setShowGamesOverlay] = useState(false);
 
   // V6.5: Save point/FBT values to server
@@ -344,15 +366,24 @@ export default function Home() {
   // Local state for card values (for responsive editing)
   // Individual autosave hooks for each card type
   const createCardAutosaveFn = useCallback((cardType: string, currentValue: number) => {
-    return async (data: { value: number }) => {
+    return async (data: { value: number }, current?: GameState) => {
       if (!selectedGame) return;
-      const newCardValues = { ...selectedGame.cardValues, [cardType]: data.value };
+      // After a conflict, re-apply only this card's value on top of the server's latest values
+      const base = current ?? selectedGame;
+      const newCardValues = { ...base.cardValues, [cardType]: data.value };
       
       console.log(`Updating ${cardType} card value from ${currentValue} to ${data.value}`);
       
-      const response = await apiRequest('PUT', `/api/game-states/${selectedGame.id}/card-values`, {
-        cardValues: newCardValues
-      });
+      const response = await sendOrQueue(
+        'set-card-values',
+        { gameStateId: selectedGame.id, cardValues: { [cardType]: data.value } },
+        `${cardType} card value $${data.value}`,
+        () => apiRequest('PUT', `/api/game-states/${selectedGame.id}/card-values`, {
+          cardValues: newCardValues,
+          revision: base.revision
+        })
+      );
+      if (!response) return; // Queued offline - the autosave field already shows the new value
       const result = response.json();
       
       console.log(`Card value update response for ${cardType}:`, result);
@@ -893,6 +924,13 @@ export default function Home() {
       // Clean up URL
       window.history.replaceState({}, '', window.location.pathname);
     }
+    // Group invitation links (/?invite=CODE) open the join dialog with the code filled in
+    const inviteCode = urlParams.get('invite');
+    if (inviteCode) {
+      setJoinCode(inviteCode.toUpperCase());
+      setShowJoinDialog(true);
+      window.history.replaceState({}, '', window.location.pathname);
+    }
   }, []);
 
   // Auto-select Sacramento (916) game for current game session - GAME SESSION ISOLATION FIX
@@ -951,6 +989,10 @@ export default function Home() {
     }
   }, [selectedGroup, selectedGame, pointsGames, selectedBBBGame]);
 
+  // Skins and Wolf games for the current game session (auto-created with the session)
+  const selectedSkinsGame = pointsGames.find(game => game.gameType === 'skins') || null;
+  const selectedWolfGame = pointsGames.find(game => game.gameType === 'wolf') || null;
+
   // Auto-select GIR game for current game session
   useEffect(() => {
     if (selectedGroup && selectedGame && pointsGames.length > 0) {
@@ -1241,14 +1283,14 @@ export default function Home() {
 
   // Mutations
   const updateCardValuesMutation = useMutation({
-    mutationFn: async (data: { gameId: string; cardValues: any; method?: string; endpoint?: string }) => {
+    mutationFn: async (data: { gameId: string; cardValues: any; revision: number; method?: string; endpoint?: string }) => {
       // Use PUT endpoint for proper autosave behavior
       const method = data.method || 'PUT';
       const endpoint = data.endpoint || `/api/game-states/${data.gameId}/card-values`;
       
       console.log('Custom card mutation: updating card values...', { method, endpoint, cardValues: data.cardValues });
       
-      const response = await apiRequest(method as any, endpoint, { cardValues: data.cardValues });
+      const response = await apiRequest(method as any, endpoint, { cardValues: data.cardValues, revision: data.revision });
       const result = response.json();
       
       console.log('Custom card mutation response:', result);
@@ -1492,10 +1534,35 @@ export default function Home() {
 
   const updateHoleScoresMutation = useMutation({
     mutationFn: async (data: { gameId: string; hole: number; strokes: Record<string, number> }) => {
-      const response = await apiRequest('POST', `/api/games/${data.gameId}/holes/${data.hole}/scores`, { scores: data.strokes });
-      return response.json();
+      const base = selectedPointsGame?.id === data.gameId ? selectedPointsGame : null;
+      return sendOrQueue(
+        'enter-hole-score',
+        { pointsGameId: data.gameId, hole: data.hole, strokes: data.strokes },
+        `2/9/16 scores for hole ${data.hole}`,
+        async () => {
+          const response = await sendWithRevision<PointsGame>(
+            base?.revision ?? 0,
+            revision => apiRequest('POST', `/api/games/${data.gameId}/holes/${data.hole}/scores`, { scores: data.strokes, revision }),
+            current => holeUnchanged(base, current, data.hole)
+          );
+          return response.json();
+        }
+      );
     },
-    onSuccess: (updatedGame: PointsGame) => {
+    onSuccess: (updatedGame: PointsGame | null, variables) => {
+      if (!updatedGame) {
+        // Queued offline - score the hole locally so the standings stay current until it syncs
+        const scoreLocally = (game: PointsGame): PointsGame => ({
+          ...game,
+          holes: { ...game.holes, [variables.hole]: variables.strokes },
+          points: { ...game.points, [variables.hole]: score2916Hole(variables.strokes, selectedGroup?.players ?? [], variables.hole, game.settings).points },
+        });
+        setSelectedPointsGame(game => game?.id === variables.gameId ? scoreLocally(game) : game);
+        queryClient.setQueryData<PointsGame[]>(['/api/points-games', selectedGroup?.id], games =>
+          games?.map(game => game.id === variables.gameId ? scoreLocally(game) : game)
+        );
+        return;
+      }
       setSelectedPointsGame(updatedGame);
       // Force immediate data refresh for instant updates
       queryClient.invalidateQueries({ queryKey: ['/api/points-games', selectedGroup?.id] });
@@ -1517,10 +1584,15 @@ export default function Home() {
         queryKey: ['/api/calculate-combined-games']
       });
     },
-    onError: () => {
+    onError: (error) => {
+      if (error instanceof RevisionConflictError) {
+        // Another scorer saved this hole first - show their scores instead of overwriting them
+        setSelectedPointsGame(error.current as PointsGame);
+        queryClient.invalidateQueries({ queryKey: ['/api/points-games', selectedGroup?.id] });
+      }
       toast({
         title: "Error", 
-        description: "Could not update hole scores. Try again.",
+        description: error instanceof RevisionConflictError ? error.message : "Could not update hole scores. Try again.",
         variant: "destructive",
       });
     }
@@ -1535,12 +1607,26 @@ export default function Home() {
       closestTo?: string; 
       firstIn?: string; 
     }) => {
-      const response = await apiRequest('PUT', `/api/bbb-games/${data.gameId}/hole/${data.hole}`, {
-        firstOn: data.firstOn,
-        closestTo: data.closestTo,
-        firstIn: data.firstIn
-      });
-      return response.json();
+      // selectedBBBGame here is still the pre-optimistic copy the edit was based on
+      const base = selectedBBBGame?.id === data.gameId ? selectedBBBGame : null;
+      return sendOrQueue(
+        'set-bbb',
+        { pointsGameId: data.gameId, hole: data.hole, firstOn: data.firstOn, closestTo: data.closestTo, firstIn: data.firstIn },
+        `BBB for hole ${data.hole}`,
+        async () => {
+          const response = await sendWithRevision<PointsGame>(
+            base?.revision ?? 0,
+            revision => apiRequest('PUT', `/api/bbb-games/${data.gameId}/hole/${data.hole}`, {
+              firstOn: data.firstOn,
+              closestTo: data.closestTo,
+              firstIn: data.firstIn,
+              revision
+            }),
+            current => holeUnchanged(base, current, data.hole)
+          );
+          return response.json();
+        }
+      );
     },
     onMutate: async (variables) => {
       // Cancel outgoing refetches (so they don't overwrite our optimistic update)
@@ -1551,35 +1637,39 @@ export default function Home() {
       
       // Optimistically update the UI
       if (selectedBBBGame) {
-        const optimisticGame = { ...selectedBBBGame };
-        if (!optimisticGame.holes) optimisticGame.holes = {};
         const holeData: any = {};
         if (variables.firstOn) holeData.firstOn = variables.firstOn;
         if (variables.closestTo) holeData.closestTo = variables.closestTo;
         if (variables.firstIn) holeData.firstIn = variables.firstIn;
-        optimisticGame.holes[variables.hole] = holeData;
+        // Copy holes rather than mutating the snapshot used for rollback and conflict checks
+        const optimisticGame = { ...selectedBBBGame, holes: { ...selectedBBBGame.holes, [variables.hole]: holeData } };
         setSelectedBBBGame(optimisticGame);
       }
       
       // Return context with snapshot
       return { previousGame };
     },
-    onSuccess: (updatedGame: PointsGame) => {
+    onSuccess: (updatedGame: PointsGame | null) => {
+      if (!updatedGame) return; // Queued offline - the optimistic hole stays until it syncs
       setSelectedBBBGame(updatedGame);
       
       // OPTIMIZED: Only invalidate critical queries (reduced from 4 to 1)
       queryClient.invalidateQueries({ queryKey: ['/api/calculate-combined-games'] });
     },
     onError: (error, variables, context) => {
-      // Revert optimistic update on error
-      if (context?.previousGame) {
+      // Revert optimistic update on error (or show the other scorer's hole after a conflict)
+      if (error instanceof RevisionConflictError) {
+        setSelectedBBBGame(error.current as PointsGame);
+      } else if (context?.previousGame) {
         setSelectedBBBGame(context.previousGame);
       }
       
       // Better error messaging based on error type
       let errorMessage = "Failed to save BBB hole data";
       
-      if (error instanceof Error) {
+      if (error instanceof RevisionConflictError) {
+        errorMessage = error.message;
+      } else if (error instanceof Error) {
         if (error.message.includes('timeout')) {
           errorMessage = "Request timed out - check your connection and try again";
         } else if (error.message.includes('403')) {
@@ -1756,6 +1846,24 @@ export default function Home() {
                             Manage Subscription
                           </Link>
                         </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link href="/stats" className="cursor-pointer text-gray-900 hover:text-gray-700">
+                            <BarChart3 className="h-4 w-4 mr-2" />
+                            Player Stats
+                          </Link>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link href="/events" className="cursor-pointer text-gray-900 hover:text-gray-700">
+                            <Flag className="h-4 w-4 mr-2" />
+                            Events
+                          </Link>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <Link href="/payment-handles" className="cursor-pointer text-gray-900 hover:text-gray-700">
+                            <Coins className="h-4 w-4 mr-2" />
+                            Payment Handles
+                          </Link>
+                        </DropdownMenuItem>
                         <DropdownMenuItem asChild>
                           <Link href="/email-preferences" className="cursor-pointer text-gray-900 hover:text-gray-700">
                             <Mail className="h-4 w-4 mr-2" />
@@ -1811,6 +1919,11 @@ export default function Home() {
                   </>
                 ) : null}
                 
+                <DropdownMenuItem className="cursor-pointer" onClick={() => setShowJoinDialog(true)} data-testid="menu-join-group">
+                  <Users className="h-4 w-4 mr-2" />
+                  Join Group
+                </DropdownMenuItem>
+
                 {/* Sign Out & Delete Account */}
                 <DropdownMenuItem onClick={handleLogout} className="text-red-600">
                   <LogOut className="h-4 w-4 mr-2" />
@@ -1985,6 +2098,12 @@ export default function Home() {
                                   : 'Never played'
                                 }
                               </p>
+                              {(() => {
+                                const myPlayer = group.players.find(p => p.userId && p.userId === (user as any)?.id);
+                                return myPlayer ? (
+                                  <p className="text-xs text-emerald-600">Playing as {myPlayer.name}</p>
+                                ) : null;
+                              })()}
                             </div>
                           </div>
                           <div className="flex items-center gap-2">
@@ -2070,7 +2189,10 @@ export default function Home() {
                           // Create array of all available cards (default + custom)
                           const defaultCards = ['camel', 'fish', 'roadrunner', 'ghost', 'skunk', 'snake', 'yeti'];
                           const customCardNames = selectedGroup.customCards?.map(card => card.name.toLowerCase()) || [];
-                          const allCardTypes = [...defaultCards, ...customCardNames];
+                          // Card types come from the deck this game was dealt (the group's deck config)
+                          const deckCardKey = (card: { type: string; name?: string }) => card.type === 'custom' ? (card.name || '').toLowerCase() : card.type;
+                          const deckTypes = Array.from(new Set((selectedGame.deck || []).map(deckCardKey)));
+                          const allCardTypes = deckTypes.length > 0 ? deckTypes : [...defaultCards, ...customCardNames];
                           
                           return allCardTypes.map(cardType => {
                             // Get current game value first, then fallback to custom card default value
@@ -2090,6 +2212,12 @@ export default function Home() {
                               yeti: { emoji: '🌲', name: 'Yeti', color: 'bg-gray-50 border-gray-200 hover:bg-gray-100' }
                             };
                             
+                            // Deck cards carry the group's configured emoji and name
+                            const deckCard = selectedGame.deck?.find(card => deckCardKey(card) === type);
+                            if (deckCard?.name) {
+                              return { emoji: deckCard.emoji, name: deckCard.name, color: 'bg-gray-50 border-gray-200 hover:bg-gray-100' };
+                            }
+
                             // Check if it's a custom card
                             const customCard = selectedGroup.customCards?.find(c => c.name.toLowerCase() === type);
                             if (customCard) {
@@ -2129,6 +2257,10 @@ export default function Home() {
                               <CardContent className="p-4 text-center">
                                 <div className="text-3xl mb-2">{cardDisplay.emoji}</div>
                                 <p className="text-xs font-medium text-gray-700">{cardDisplay.name}</p>
+                                {(() => {
+                                  const rule = selectedGame.deck?.find(card => deckCardKey(card) === cardType)?.rule;
+                                  return rule ? <p className="text-[10px] italic text-gray-500">{rule}</p> : null;
+                                })()}
                                 <p className="text-xs text-gray-500">${(() => {
                                   // Use fresh game state from groupGames query, not selectedGame state
                                   const freshGame = groupGames?.find(g => g.id === selectedGame?.id);
@@ -2449,6 +2581,60 @@ export default function Home() {
                   </Card>
                 )}
 
+                {/* Group members and invitations */}
+                {selectedGroup && (
+                  <GroupMembers
+                    groupId={selectedGroup.id}
+                    players={selectedGroup.players}
+                    currentUserId={(user as any)?.id}
+                    onPlayersLinked={(updatedGroup) => {
+                      const currentSelectedGame = selectedGame;
+                      changeGroup(updatedGroup);
+                      if (currentSelectedGame) {
+                        changeGame(currentSelectedGame);
+                      }
+                    }}
+                  />
+                )}
+
+                {/* Group deck (applies to newly created games) */}
+                {selectedGroup && (
+                  <DeckEditor
+                    groupId={selectedGroup.id}
+                    onSaved={(updatedGroup) => {
+                      const currentSelectedGame = selectedGame;
+                      changeGroup(updatedGroup);
+                      if (currentSelectedGame) {
+                        changeGame(currentSelectedGame);
+                      }
+                    }}
+                  />
+                )}
+
+                {/* Spectator link for the round */}
+                {selectedGroup && selectedGame && (
+                  <LiveShare
+                    groupId={selectedGroup.id}
+                    gameStateId={selectedGame.id}
+                    shareToken={(freshGame ?? selectedGame).shareToken}
+                  />
+                )}
+
+                {/* Finalize / reopen the round */}
+                {selectedGroup && selectedGame && (
+                  <RoundFinalize groupId={selectedGroup.id} gameState={freshGame ?? selectedGame} />
+                )}
+
+                {/* Round history with undo / redo */}
+                {selectedGroup && selectedGame && (
+                  <GameHistory
+                    groupId={selectedGroup.id}
+                    gameStateId={selectedGame.id}
+                    locked={!!(freshGame ?? selectedGame).finalizedAt}
+                    changeKey={`${freshGame?.revision ?? selectedGame.revision}:${pointsGames.map(game => game.revision).join(',')}`}
+                  />
+                )}
+
                 {/* 9. 🎴 CARD GAME PAYOUTS */}
                 {selectedGame && gameState && (
                   <Card className="mb-4 card-interactive hover-lift fade-in">
@@ -2636,6 +2822,11 @@ export default function Home() {
                   </Card>
                 ) : (
                   <>
+                    <RoundStandings
+                      group={selectedGroup}
+                      gameState={freshGame ?? selectedGame}
+                      pointsGames={pointsGames}
+                    />
 
                     {/* 1. 💰 WHO OWES WHO - COMBINED */}
                     {(() => {
@@ -2761,17 +2952,30 @@ export default function Home() {
                                 return (
                                   <div className="space-y-2">
                                     {transactions.map((transaction: any, index: number) => (
-                                      <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200">
-                                        <div className="flex items-center gap-3">
-                                          <div className="text-sm">
-                                            <span className="font-medium text-red-600">{transaction.fromName}</span>
-                                            <span className="text-gray-600"> owes </span>
-                                            <span className="font-medium text-green-600">{transaction.toName}</span>
+                                      <div key={index} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+                                        <div className="flex items-center justify-between">
+                                          <div className="flex items-center gap-3">
+                                            <div className="text-sm">
+                                              <span className="font-medium text-red-600">{transaction.fromName}</span>
+                                              <span className="text-gray-600"> owes </span>
+                                              <span className="font-medium text-green-600">{transaction.toName}</span>
+                                            </div>
+                                          </div>
+                                          <div className="text-right">
+                                            <p className="text-lg font-bold text-black">${transaction.amount.toFixed(2)}</p>
                                           </div>
                                         </div>
-                                        <div className="text-right">
-                                          <p className="text-lg font-bold text-black">${transaction.amount.toFixed(2)}</p>
-                                        </div>
+                                        {selectedGroup && (
+                                          <SettlementLegPayment
+                                            groupId={selectedGroup.id}
+                                            gameStateId={selectedGame?.id}
+                                            fromPlayerId={transaction.from}
+                                            toPlayerId={transaction.to}
+                                            amount={transaction.amount}
+                                            memo={transaction.memo}
+                                            paymentOptions={transaction.paymentOptions}
+                                          />
+                                        )}
                                       </div>
                                     ))}
                                   </div>
@@ -3398,6 +3602,10 @@ export default function Home() {
                       payoutData={payoutData}
                     />
 
+                    <SettlementLedger groupId={selectedGroup.id} gameStateId={selectedGame.id} />
+
+                    <RoundEvent groupId={selectedGroup.id} gameState={freshGame ?? selectedGame} />
+
               </>
             )}
               </>
@@ -3461,7 +3669,7 @@ export default function Home() {
                       <CardContent className="p-4">
                         <h3 className="text-lg font-semibold text-gray-800 mb-3">Select Hole</h3>
                         <div className="grid grid-cols-6 gap-2">
-                          {Array.from({ length: 18 }, (_, i) => i + 1).map(hole => (
+                          {roundHoles.map(hole => (
                             <Button 
                               key={hole}
                               variant={selectedHole === hole ? "default" : "outline"}
@@ -3698,6 +3906,15 @@ export default function Home() {
                               </div>
                             </div>
 
+                            {payoutMode === 'nassau' && selectedPointsGame && (
+                              <NassauPresses
+                                pointsGameId={selectedPointsGame.id}
+                                players={selectedGroup.players}
+                                nassauValue={nassauValue}
+                                holes={roundHoles}
+                              />
+                            )}
+
                             {/* V6.5: Save Button for Point/Nassau Values */}
                             <Button
                               onClick={savePointFbtValues}
@@ -3949,6 +4166,15 @@ export default function Home() {
                         </Card>
                       );
                     })()}
+
+                    {/* Stableford from the same stroke entry */}
+                    <StablefordCard pointsGame={selectedPointsGame} players={selectedGroup.players} />
+
+                    {/* Team best ball / aggregate bets from the same stroke entry */}
+                    <TeamGamesCard pointsGame={selectedPointsGame} players={selectedGroup.players} />
+
+                    {/* Point-table variant (presets or a custom table) */}
+                    <PointTableCard pointsGame={selectedPointsGame} />
                   </>
                 )}
               </>
@@ -3998,7 +4224,7 @@ export default function Home() {
                       <CardContent className="p-4">
                         <h3 className="text-lg font-semibold text-gray-800 mb-3">Select Hole</h3>
                         <div className="grid grid-cols-6 gap-2">
-                          {Array.from({ length: 18 }, (_, i) => i + 1).map(hole => (
+                          {roundHoles.map(hole => (
                             <Button 
                               key={hole}
                               variant={selectedBBBHole === hole ? "default" : "outline"}
@@ -4496,7 +4722,33 @@ export default function Home() {
 
         {/* GIR Tab */}
         {currentTab === 'games' && selectedSubGame === 'gir' && selectedGroup && (
-          <GIRGame selectedGroup={selectedGroup} />
+          <GIRGame selectedGroup={selectedGroup} roundHoles={roundHoles} />
+        )}
+
+        {/* Skins Tab */}
+        {currentTab === 'games' && selectedSubGame === 'skins' && selectedGroup && (
+          <SkinsGame selectedGroup={selectedGroup} gameStateId={selectedGame?.id} roundHoles={roundHoles} />
+        )}
+
+        {/* Wolf Tab */}
+        {currentTab === 'games' && selectedSubGame === 'wolf' && selectedGroup && (
+          <WolfGame selectedGroup={selectedGroup} gameStateId={selectedGame?.id} roundHoles={roundHoles} />
+        )}
+
+        {/* League Tab */}
+        {currentTab === 'league' && (
+          <div className="p-4">
+            {!selectedGroup ? (
+              <Card>
+                <CardContent className="p-6 text-center">
+                  <Medal className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+                  <p className="text-gray-500">Select a group from the Groups tab to view its leagues</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <LeagueStandings groupId={selectedGroup.id} gameState={selectedGame} />
+            )}
+          </div>
         )}
 
         {/* Rules Tab */}
@@ -4717,6 +4969,8 @@ export default function Home() {
                           <li className="ml-4">- Total 18 holes</li>
                           <li>• Winners receive Nassau Value for each category won</li>
                           <li>• Non-winners split the total cost equally</li>
+                          <li>• Presses: a player 2 down against another can press - a new head-to-head bet from the next hole to the end of that nine, won on holes</li>
+                          <li>• Auto 2-down: presses start automatically whenever the latest bet between two players goes 2 down</li>
                         </ul>
                       </div>
                       
@@ -4752,39 +5006,7 @@ export default function Home() {
                       How Points Are Awarded
                     </h3>
                     
-                    <div className="ml-4 space-y-3">
-                      <div>
-                        <h4 className="font-medium text-gray-800">2 Players:</h4>
-                        <ul className="ml-4 space-y-1 text-sm">
-                          <li>• Fewer strokes: 2 points</li>
-                          <li>• More strokes: 0 points</li>
-                          <li>• Tie: 1 point each</li>
-                        </ul>
-                      </div>
-                      
-                      <div>
-                        <h4 className="font-medium text-gray-800">3 Players:</h4>
-                        <ul className="ml-4 space-y-1 text-sm">
-                          <li>• Fewest strokes: 5 points</li>
-                          <li>• Middle strokes: 3 points</li>
-                          <li>• Most strokes: 1 point</li>
-                          <li>• Two tied for low: 4 points each, high gets 1</li>
-                          <li>• Two tied for high: Low gets 5, tied get 2 each</li>
-                          <li>• All tied: 3 points each</li>
-                        </ul>
-                      </div>
-                      
-                      <div>
-                        <h4 className="font-medium text-gray-800">4 Players:</h4>
-                        <ul className="ml-4 space-y-1 text-sm">
-                          <li>• Fewest strokes: 7 points</li>
-                          <li>• Second fewest: 5 points</li>
-                          <li>• Second most: 3 points</li>
-                          <li>• Most strokes: 1 point</li>
-                          <li>• Ties: Points are distributed proportionally</li>
-                        </ul>
-                      </div>
-                    </div>
+                    <PointTableRules settings={selectedPointsGame?.settings} />
                   </div>
 
                   <div>
@@ -5124,7 +5346,7 @@ export default function Home() {
           <DialogHeader>
             <DialogTitle className="text-xl font-semibold text-gray-800">Join Game</DialogTitle>
             <DialogDescription>
-              Enter the share code to join an existing game.
+              Enter the invite code from the group owner to join their group.
             </DialogDescription>
           </DialogHeader>
           
@@ -5562,6 +5784,122 @@ export default function Home() {
                 </Button>
               )}
 
+              {/* Team Bets */}
+              {selectedPointsGame?.settings?.teams && selectedPointsGame.settings.teams.value > 0 && selectedPointsGame.holes && Object.keys(selectedPointsGame.holes).length > 0 && (
+                <Button 
+                  variant={tempSelectedGames.includes('teams') ? 'default' : 'outline'}
+                  className={`w-full justify-start h-auto p-3 ${
+                    tempSelectedGames.includes('teams') 
+                      ? 'bg-amber-100 hover:bg-amber-200 text-amber-800 border-amber-300' 
+                      : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => {
+                    if (tempSelectedGames.includes('teams')) {
+                      setTempSelectedGames(tempSelectedGames.filter(g => g !== 'teams'));
+                    } else {
+                      setTempSelectedGames([...tempSelectedGames, 'teams']);
+                    }
+                  }}
+                >
+                  <div className="flex items-center gap-3 w-full">
+                    <span className="text-lg">🤝</span>
+                    <div className="text-left">
+                      <div className="font-medium">Team {selectedPointsGame.settings.teams.scoring === 'aggregate' ? 'Aggregate' : 'Best Ball'}</div>
+                      <div className={`text-sm ${tempSelectedGames.includes('teams') ? 'text-amber-600' : 'text-gray-600'}`}>
+                        ${selectedPointsGame.settings.teams.value} per bet
+                      </div>
+                    </div>
+                  </div>
+                </Button>
+              )}
+
+              {/* Stableford */}
+              {selectedPointsGame && parseFloat(String(selectedPointsGame.settings?.stablefordValue || 0)) > 0 && selectedPointsGame.holes && Object.keys(selectedPointsGame.holes).length > 0 && (
+                <Button 
+                  variant={tempSelectedGames.includes('stableford') ? 'default' : 'outline'}
+                  className={`w-full justify-start h-auto p-3 ${
+                    tempSelectedGames.includes('stableford') 
+                      ? 'bg-amber-100 hover:bg-amber-200 text-amber-800 border-amber-300' 
+                      : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => {
+                    if (tempSelectedGames.includes('stableford')) {
+                      setTempSelectedGames(tempSelectedGames.filter(g => g !== 'stableford'));
+                    } else {
+                      setTempSelectedGames([...tempSelectedGames, 'stableford']);
+                    }
+                  }}
+                >
+                  <div className="flex items-center gap-3 w-full">
+                    <span className="text-lg">📈</span>
+                    <div className="text-left">
+                      <div className="font-medium">Stableford</div>
+                      <div className={`text-sm ${tempSelectedGames.includes('stableford') ? 'text-amber-600' : 'text-gray-600'}`}>
+                        ${selectedPointsGame.settings?.stablefordValue} per point
+                      </div>
+                    </div>
+                  </div>
+                </Button>
+              )}
+
+              {/* Skins */}
+              {selectedSkinsGame && parseFloat(String(selectedSkinsGame.settings?.skinValue || 0)) > 0 && selectedSkinsGame.holes && Object.keys(selectedSkinsGame.holes).length > 0 && (
+                <Button 
+                  variant={tempSelectedGames.includes('skins') ? 'default' : 'outline'}
+                  className={`w-full justify-start h-auto p-3 ${
+                    tempSelectedGames.includes('skins') 
+                      ? 'bg-amber-100 hover:bg-amber-200 text-amber-800 border-amber-300' 
+                      : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => {
+                    if (tempSelectedGames.includes('skins')) {
+                      setTempSelectedGames(tempSelectedGames.filter(g => g !== 'skins'));
+                    } else {
+                      setTempSelectedGames([...tempSelectedGames, 'skins']);
+                    }
+                  }}
+                >
+                  <div className="flex items-center gap-3 w-full">
+                    <span className="text-lg">💰</span>
+                    <div className="text-left">
+                      <div className="font-medium">Skins</div>
+                      <div className={`text-sm ${tempSelectedGames.includes('skins') ? 'text-amber-600' : 'text-gray-600'}`}>
+                        ${selectedSkinsGame.settings?.skinValue} per skin
+                      </div>
+                    </div>
+                  </div>
+                </Button>
+              )}
+
+              {/* Wolf */}
+              {selectedWolfGame && parseFloat(String(selectedWolfGame.settings?.pointValue || 0)) > 0 && selectedWolfGame.holes && Object.keys(selectedWolfGame.holes).length > 0 && (
+                <Button 
+                  variant={tempSelectedGames.includes('wolf') ? 'default' : 'outline'}
+                  className={`w-full justify-start h-auto p-3 ${
+                    tempSelectedGames.includes('wolf') 
+                      ? 'bg-amber-100 hover:bg-amber-200 text-amber-800 border-amber-300' 
+                      : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => {
+                    if (tempSelectedGames.includes('wolf')) {
+                      setTempSelectedGames(tempSelectedGames.filter(g => g !== 'wolf'));
+                    } else {
+                      setTempSelectedGames([...tempSelectedGames, 'wolf']);
+                    }
+                  }}
+                >
+                  <div className="flex items-center gap-3 w-full">
+                    <span className="text-lg">🐺</span>
+                    <div className="text-left">
+                      <div className="font-medium">Wolf</div>
+                      <div className={`text-sm ${tempSelectedGames.includes('wolf') ? 'text-amber-600' : 'text-gray-600'}`}>
+                        ${selectedWolfGame.settings?.pointValue} per point
+                      </div>
+                    </div>
+                  </div>
+                </Button>
+              )}
+
               {/* Sacramento (916) Nassau */}
               {selectedPointsGame && parseFloat(nassauValue) > 0 && (
                 <Button 
@@ -5699,7 +6037,7 @@ export default function Home() {
                       } else {
                         const errorData = await response.json();
                         console.error('Save failed:', errorData);
-                        toast({ title: "Error", description: "Failed to save payout results", variant: "destructive" });
+                        toast({ title: "Error", description: errorData.message || "Failed to save payout results", variant: "destructive" });
                       }
                     } catch (error) {
                       console.error('Error saving combined results:', error);
@@ -6036,6 +6374,38 @@ export default function Home() {
                   </div>
                 </button>
                 
+                <button
+                  data-testid="button-game-skins"
+                  className="w-full flex items-center gap-3 p-3 rounded-md hover:bg-gray-50 transition-colors text-left"
+                  onClick={() => {
+                    changeTab('games');
+                    setSelectedSubGame('skins');
+                    setShowGamesOverlay(false);
+                  }}
+                >
+                  <Coins className="h-5 w-5 text-gray-600" />
+                  <div>
+                    <div className="font-medium text-gray-900">Skins</div>
+                    <div className="text-sm text-gray-500">Low score takes the hole</div>
+                  </div>
+                </button>
+                
+                <button
+                  data-testid="button-game-wolf"
+                  className="w-full flex items-center gap-3 p-3 rounded-md hover:bg-gray-50 transition-colors text-left"
+                  onClick={() => {
+                    changeTab('games');
+                    setSelectedSubGame('wolf');
+                    setShowGamesOverlay(false);
+                  }}
+                >
+                  <Users className="h-5 w-5 text-gray-600" />
+                  <div>
+                    <div className="font-medium text-gray-900">Wolf</div>
+                    <div className="text-sm text-gray-500">Rotating wolf, pick a partner</div>
+                  </div>
+                </button>
+                
                 <button
                   data-testid="button-game-2916"
                   className="w-full flex items-center gap-3 p-3 rounded-md hover:bg-gray-50 transition-colors text-left"
@@ -6162,6 +6532,11 @@ function ScorecardTable({
         variants.push({ id: '2916:nassau', label: 'Sacramento (916) Nassau', icon: '🎯', amount: meta.value || '' });
       }
     }
+
+    // Stableford (only offered when a course supplies par)
+    if (availableGames.hasStableford) {
+      variants.push({ id: '2916:stableford', label: 'Stableford', icon: '📈', amount: '' });
+    }
     
     // BBB variants
     if (availableGames.hasBBB && gameMetadata?.['bbb']) {
@@ -6223,6 +6598,11 @@ function ScorecardTable({
   }
 
   const { players, scorecard, playerCards, availableGames, gameMetadata } = scorecardData;
+  const isNetScoring = scorecardData.scoringMode === 'net';
+  const course = scorecardData.course;
+  const roundHoles: number[] = scorecardData.roundHoles ?? Array.from({ length: 18 }, (_, i) => i + 1);
+  const scoreVsPar: Record<string, number> | null = scorecardData.scoreVsPar;
+  const formatVsPar = (value: number) => value === 0 ? 'E' : value > 0 ? `+${value}` : `${value}`;
   
   // Get available variants for button rendering
   const availableVariants = mapGameMetadataToVariants(availableGames, gameMetadata);
@@ -6243,6 +6623,10 @@ function ScorecardTable({
 
   return (
     <div className="space-y-4">
+      {/* Course Selection */}
+      <CourseSelector gameStateId={gameStateId} courseId={course?.id ?? null} teeName={course?.teeName ?? null} />
+      <RoundSelector gameStateId={gameStateId} roundHoles={roundHoles} />
+
       {/* Game Selection Buttons */}
       <div className="space-y-2">
         <p className="text-sm text-gray-600">Select which games to display on the scorecard:</p>
@@ -6269,28 +6653,51 @@ function ScorecardTable({
               {selectedGames.includes('cards') && (
                 <th className="bg-gray-50 border border-gray-300 p-2 font-semibold w-[160px]">Cards</th>
               )}
-              {[...Array(18)].map((_, i) => (
-                <th key={i} className="border border-gray-300 p-2 font-semibold min-w-[100px]">
-                  Hole {i + 1}
+              {roundHoles.map((holeNum) => (
+                <th key={holeNum} className="border border-gray-300 p-2 font-semibold min-w-[100px]">
+                  Hole {holeNum}
                 </th>
               ))}
               {hasAnyVariant('2916') && (
                 <th className="border border-gray-300 p-2 font-semibold bg-emerald-50 min-w-[100px]">
-                  Total Strokes
+                  {isNetScoring ? 'Total Gross / Net' : 'Total Strokes'}
                 </th>
               )}
             </tr>
           </thead>
           <tbody>
+            {course && (
+              <tr className="bg-gray-50 text-xs text-gray-600">
+                <td className="sticky left-0 bg-gray-50 border border-gray-300 p-2 font-medium z-10 w-[140px]">
+                  Par{course.teeName ? ` (${course.teeName})` : ''}
+                </td>
+                {selectedGames.includes('cards') && <td className="border border-gray-300 p-2" />}
+                {roundHoles.map((holeNum) => (
+                  <td key={holeNum} className="border border-gray-300 p-2 text-center">
+                    {course.par[holeNum - 1] ?? '-'}
+                    {course.yardage?.[holeNum - 1] !== undefined && (
+                      <div className="text-gray-400">{course.yardage[holeNum - 1]}y</div>
+                    )}
+                  </td>
+                ))}
+                {hasAnyVariant('2916') && (
+                  <td className="border border-gray-300 p-2 text-center bg-emerald-50 font-medium">
+                    {roundHoles.reduce((sum: number, holeNum: number) => sum + (course.par[holeNum - 1] ?? 0), 0)}
+                  </td>
+                )}
+              </tr>
+            )}
             {players.map((player: any) => {
               // Calculate total strokes for this player
               let totalStrokes = 0;
+              let totalNetStrokes = 0;
               if (hasAnyVariant('2916')) {
-                for (let h = 1; h <= 18; h++) {
+                for (const h of roundHoles) {
                   const holeData = scorecard[h] || {};
                   const strokes = holeData.strokes?.[player.id];
                   if (strokes !== undefined) {
                     totalStrokes += strokes;
+                    totalNetStrokes += holeData.netStrokes?.[player.id] ?? strokes;
                   }
                 }
               }
@@ -6305,17 +6712,26 @@ function ScorecardTable({
                       <span className="text-sm">{playerCards?.[player.id]?.trim() || '-'}</span>
                     </td>
                   )}
-                  {[...Array(18)].map((_, holeIndex) => {
-                    const holeNum = holeIndex + 1;
+                  {roundHoles.map((holeNum) => {
                     const holeData = scorecard[holeNum] || {};
                     
                     return (
-                      <td key={holeIndex} className="border border-gray-300 p-2 align-top">
+                      <td key={holeNum} className="border border-gray-300 p-2 align-top">
                         <div className="space-y-1 text-xs">
                           {/* Strokes - show if any 2916 variant is selected */}
                           {hasAnyVariant('2916') && holeData.strokes?.[player.id] !== undefined && (
                             <div className="text-gray-700 font-medium">
                               <span className="text-gray-500">Strokes:</span> {holeData.strokes[player.id]}
+                              {isNetScoring && holeData.netStrokes?.[player.id] !== undefined && (
+                                <span className="text-emerald-700"> (Net {holeData.netStrokes[player.id]})</span>
+                              )}
+                            </div>
+                          )}
+
+                          {/* Stableford points for the hole */}
+                          {selectedGames.includes('2916:stableford') && holeData.stableford?.[player.id] !== undefined && (
+                            <div className="text-purple-600">
+                              <span className="text-gray-500">Stableford:</span> {holeData.stableford[player.id]}
                             </div>
                           )}
                         
@@ -6340,7 +6756,13 @@ function ScorecardTable({
                 })}
                 {hasAnyVariant('2916') && (
                   <td className="border border-gray-300 p-2 text-center bg-emerald-50 font-bold text-gray-800">
-                    {totalStrokes > 0 ? totalStrokes : '-'}
+                    {totalStrokes > 0 ? (isNetScoring ? `${totalStrokes} / ${totalNetStrokes}` : totalStrokes) : '-'}
+                    {totalStrokes > 0 && scoreVsPar?.[player.id] !== undefined && (
+                      <div className="text-xs font-medium text-gray-500">{formatVsPar(scoreVsPar[player.id])}</div>
+                    )}
+                    {selectedGames.includes('2916:stableford') && scorecardData.stablefordTotals?.[player.id] !== undefined && (
+                      <div className="text-xs font-medium text-purple-600">{scorecardData.stablefordTotals[player.id]} pts</div>
+                    )}
                   </td>
                 )}
               </tr>
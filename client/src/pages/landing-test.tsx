@@ -301,7 +301,7 @@ export default function LandingTest() {
                 step: "1",
                 icon: <Users className="h-6 w-6" />,
                 title: "Create Your Group",
-                description: "Add up to 4 players, customize colors, and select which games you're playing"
+                description: "Add up to 6 players, customize colors, and select which games you're playing"
               },
               {
                 step: "2", 
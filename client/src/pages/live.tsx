@@ -0,0 +1,135 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useRoute } from "wouter";
+import { queryClient } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import type { LiveLeaderboard } from "@shared/schema";
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : amount > 0 ? '+' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+// Public spectator view of a shared round - no login required
+export default function Live() {
+  const [, params] = useRoute("/live/:shareToken");
+  const shareToken = params?.shareToken ?? "";
+
+  const { data: leaderboard, isLoading, error } = useQuery<LiveLeaderboard>({
+    queryKey: ['/api/live', shareToken],
+    enabled: !!shareToken,
+    refetchInterval: 60000, // Fallback for edits that don't come through the live socket
+  });
+
+  // The socket only says "something changed"; the leaderboard itself always comes from the public route
+  useEffect(() => {
+    if (!shareToken) return;
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    } catch (error) {
+      console.error('Failed to connect to live updates:', error);
+      return;
+    }
+    ws.onopen = () => ws.send(JSON.stringify({ type: 'watch', shareToken }));
+    ws.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.type === 'leaderboard-changed' || data.type === 'share-revoked') {
+          queryClient.invalidateQueries({ queryKey: ['/api/live', shareToken] });
+        }
+      } catch (parseError) {
+        console.error('Error parsing live update:', parseError);
+      }
+    };
+    return () => ws.close();
+  }, [shareToken]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-emerald-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !leaderboard) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="text-center space-y-3 p-8 max-w-sm">
+          <h1 className="text-2xl font-semibold text-gray-900">Leaderboard Unavailable</h1>
+          <p className="text-gray-500">This live leaderboard link is no longer active.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const playerName = (id: string) => leaderboard.players.find(p => p.id === id)?.name ?? 'Player';
+  const standings = [...leaderboard.players].sort((a, b) => b.projected - a.projected);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-md mx-auto p-4 space-y-4">
+        <div>
+          <p className="text-sm text-emerald-600 font-medium">🔴 Live · {leaderboard.groupName}</p>
+          <h1 className="text-2xl font-semibold text-gray-900">{leaderboard.gameName}</h1>
+          <p className="text-sm text-gray-500">
+            {leaderboard.holesPlayed} of {leaderboard.roundHoles.length} holes scored · updated {new Date(leaderboard.updatedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <h2 className="text-lg font-semibold text-gray-800">Leaderboard</h2>
+            {standings.map(player => (
+              <div key={player.id} className="flex items-center justify-between gap-3 p-3 bg-gray-50 rounded-lg" data-testid={`live-player-${player.id}`}>
+                <div className="flex items-center gap-3 min-w-0">
+                  <div
+                    className="w-9 h-9 rounded-full flex items-center justify-center text-white text-sm font-semibold shrink-0"
+                    style={{ backgroundColor: player.color }}
+                  >
+                    {player.initials}
+                  </div>
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-800 truncate">{player.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {player.points !== null && `${player.points} pts · `}
+                      {player.cards.length > 0 ? player.cards.map(card => card.emoji).join(' ') : 'No cards'}
+                    </div>
+                  </div>
+                </div>
+                <span className={`font-semibold ${player.projected > 0 ? 'text-emerald-600' : player.projected < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                  {formatMoney(player.projected)}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-gray-400">Projected payouts if the round ended now.</p>
+          </CardContent>
+        </Card>
+
+        {leaderboard.nassau && (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <h2 className="text-lg font-semibold text-gray-800">Nassau</h2>
+              {leaderboard.nassau.segments.map(segment => (
+                <div key={segment.label} className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-700">{segment.label}</span>
+                  <span className="text-gray-600">
+                    {segment.leaders.length === 0
+                      ? 'All square'
+                      : `${segment.leaders.map(playerName).join(', ')} (${segment.points[segment.leaders[0]]} pts)`}
+                  </span>
+                </div>
+              ))}
+              {leaderboard.nassau.presses.map(press => (
+                <div key={`${press.pressedBy}-${press.opponent}-${press.startHole}`} className="text-xs text-gray-500">
+                  Press: {playerName(press.pressedBy)} vs {playerName(press.opponent)}, holes {press.startHole}-{press.endHole}
+                  {' · '}
+                  {press.holesUp === 0 ? 'all square' : `${playerName(press.holesUp > 0 ? press.pressedBy : press.opponent)} ${Math.abs(press.holesUp)} up`}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
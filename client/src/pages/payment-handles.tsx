@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { Link } from "wouter";
+import { ArrowLeft, Coins } from "lucide-react";
+import type { PaymentApp, PaymentHandles } from "@shared/schema";
+
+const FIELDS: Array<{ app: PaymentApp; label: string; placeholder: string; hint: string }> = [
+  { app: 'venmo', label: 'Venmo', placeholder: '@your-username', hint: 'Your Venmo username' },
+  { app: 'paypal', label: 'PayPal', placeholder: 'yourname', hint: 'The name in your paypal.me link' },
+  { app: 'cashapp', label: 'Cash App', placeholder: '$cashtag', hint: 'Your $Cashtag' },
+  { app: 'zelle', label: 'Zelle', placeholder: 'you@example.com', hint: 'The email or phone number registered with Zelle' },
+];
+
+// Validation message for one field from a 400 response
+const fieldError = (error: any, app: PaymentApp) =>
+  (error?.errors as Array<{ path: string[]; message: string }> | undefined)?.find(issue => issue.path[0] === app)?.message;
+
+export default function PaymentHandlesPage() {
+  const { toast } = useToast();
+  const [handles, setHandles] = useState<PaymentHandles>({});
+  const [errors, setErrors] = useState<any>(null);
+
+  const { data: saved, isLoading } = useQuery<PaymentHandles>({
+    queryKey: ['/api/user/payment-handles'],
+  });
+
+  useEffect(() => {
+    if (saved) setHandles(saved);
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PaymentHandles) => {
+      const response = await fetch('/api/user/payment-handles', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(data),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setErrors(body);
+        throw new Error(body.message);
+      }
+      return body;
+    },
+    onSuccess: (updated: PaymentHandles) => {
+      setErrors(null);
+      queryClient.setQueryData(['/api/user/payment-handles'], updated);
+      toast({ title: "Payment handles saved", description: "Players who owe you will see pay buttons for these apps." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save handles", description: error.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md md:max-w-lg shadow-xl bg-white/95 backdrop-blur-sm">
+          <CardContent className="p-6">
+            <div className="text-center">Loading your payment handles...</div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-green-50 via-emerald-50 to-teal-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl shadow-xl bg-white/95 backdrop-blur-sm">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <Link href="/" className="text-green-600 hover:text-green-700">
+              <ArrowLeft className="h-5 w-5" data-testid="button-back" />
+            </Link>
+            <div className="w-10 h-10 bg-gradient-to-br from-green-500 to-green-700 rounded-full flex items-center justify-center text-white shadow-lg">
+              <Coins className="h-5 w-5" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold text-gray-900">Payment Handles</CardTitle>
+          <CardDescription className="text-gray-600">
+            When someone owes you money, Who Owes Who shows them a button to pay you in these apps. Leave a field blank to hide that app.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {FIELDS.map(field => (
+            <div key={field.app} className="space-y-1">
+              <Label htmlFor={`handle-${field.app}`}>{field.label}</Label>
+              <Input
+                id={`handle-${field.app}`}
+                value={handles[field.app] ?? ''}
+                onChange={(e) => setHandles({ ...handles, [field.app]: e.target.value })}
+                placeholder={field.placeholder}
+                autoCapitalize="none"
+                autoCorrect="off"
+                data-testid={`input-handle-${field.app}`}
+              />
+              <p className={`text-xs ${fieldError(errors, field.app) ? 'text-red-600' : 'text-gray-500'}`}>
+                {fieldError(errors, field.app) ?? field.hint}
+              </p>
+            </div>
+          ))}
+
+          <Button
+            onClick={() => saveMutation.mutate(handles)}
+            disabled={saveMutation.isPending}
+            className="w-full bg-green-600 hover:bg-green-700 text-white"
+            data-testid="button-save-handles"
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save Handles'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { BBBCategory, Group, PlayerStats, PlayerStatsReport, RateStat } from "@shared/schema";
+
+const BBB_LABELS: Record<BBBCategory, string> = {
+  firstOn: 'First on',
+  closestTo: 'Closest to',
+  firstIn: 'First in',
+};
+
+const formatMoney = (amount: number) => `${amount < 0 ? '-' : amount > 0 ? '+' : ''}$${Math.abs(amount).toFixed(2)}`;
+const formatRate = (stat: RateStat) => stat.rate === null ? '—' : `${Math.round(stat.rate * 100)}%`;
+const moneyColor = (amount: number) => amount > 0 ? 'text-emerald-600' : amount < 0 ? 'text-red-600' : 'text-gray-500';
+
+function PlayerStatsCard({ stats, season }: { stats: PlayerStats; season: number }) {
+  const girHoles = Object.entries(stats.gir.byHole).sort(([a], [b]) => Number(a) - Number(b));
+
+  return (
+    <Card data-testid={`stats-player-${stats.key}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <div
+            className="w-9 h-9 rounded-full flex items-center justify-center text-white text-sm font-semibold shrink-0"
+            style={{ backgroundColor: stats.color }}
+          >
+            {stats.initials}
+          </div>
+          <div className="min-w-0">
+            <div className="font-semibold text-gray-800 truncate">{stats.name}</div>
+            <div className="text-xs text-gray-500">{stats.roundsPlayed} {stats.roundsPlayed === 1 ? 'round' : 'rounds'}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="p-2 bg-gray-50 rounded-lg">
+            <div className="text-xs text-gray-500">In range</div>
+            <div className={`font-semibold ${moneyColor(stats.netWinnings)}`}>{formatMoney(stats.netWinnings)}</div>
+          </div>
+          <div className="p-2 bg-gray-50 rounded-lg">
+            <div className="text-xs text-gray-500">{season} season</div>
+            <div className={`font-semibold ${moneyColor(stats.seasonNet)}`}>{formatMoney(stats.seasonNet)}</div>
+          </div>
+          <div className="p-2 bg-gray-50 rounded-lg">
+            <div className="text-xs text-gray-500">Lifetime</div>
+            <div className={`font-semibold ${moneyColor(stats.lifetimeNet)}`}>{formatMoney(stats.lifetimeNet)}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div>
+            <span className="text-gray-500">2/9/16 avg: </span>
+            <span className="font-medium text-gray-800">
+              {stats.average2916Points === null ? '—' : `${stats.average2916Points} pts`}
+            </span>
+            {stats.games2916 > 0 && <span className="text-xs text-gray-400"> ({stats.games2916} games)</span>}
+          </div>
+          <div>
+            <span className="text-gray-500">GIR: </span>
+            <span className="font-medium text-gray-800">{formatRate(stats.gir)}</span>
+            {stats.gir.opportunities > 0 && <span className="text-xs text-gray-400"> ({stats.gir.count}/{stats.gir.opportunities})</span>}
+          </div>
+        </div>
+
+        {girHoles.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold text-gray-600 mb-1">GIR by hole</h4>
+            <div className="grid grid-cols-9 gap-1">
+              {girHoles.map(([hole, stat]) => (
+                <div key={hole} className="text-center bg-gray-50 rounded p-1">
+                  <div className="text-[10px] text-gray-400">{hole}</div>
+                  <div className="text-xs font-medium text-gray-700">{formatRate(stat)}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {Object.values(stats.bbb).some(stat => stat.opportunities > 0) && (
+          <div>
+            <h4 className="text-xs font-semibold text-gray-600 mb-1">BBB win rate</h4>
+            <div className="flex gap-4 text-sm">
+              {(Object.keys(BBB_LABELS) as BBBCategory[]).map(category => (
+                <span key={category}>
+                  <span className="text-gray-500">{BBB_LABELS[category]}: </span>
+                  <span className="font-medium text-gray-800">{formatRate(stats.bbb[category])}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {stats.cards.length > 0 && (
+          <div>
+            <h4 className="text-xs font-semibold text-gray-600 mb-1">Most held cards</h4>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {stats.cards.slice(0, 5).map(card => (
+                <span key={`${card.type}-${card.name}`} className="px-2 py-0.5 bg-gray-50 rounded-full text-gray-700">
+                  {card.emoji} {card.name} × {card.count}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Stats() {
+  const currentYear = new Date().getFullYear();
+  const [groupId, setGroupId] = useState<string>("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [season, setSeason] = useState(String(currentYear));
+
+  const { data: groups = [] } = useQuery<Group[]>({
+    queryKey: ['/api/groups'],
+  });
+
+  // Dates are local days; "to" covers the whole day
+  const params = new URLSearchParams({ season });
+  if (groupId !== "all") params.set('groupId', groupId);
+  if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+  const { data: report, isLoading } = useQuery<PlayerStatsReport>({
+    queryKey: [`/api/stats/players?${params.toString()}`],
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <Link href="/" className="text-green-600 hover:text-green-700">
+            <ArrowLeft className="h-5 w-5" data-testid="button-back" />
+          </Link>
+          <BarChart3 className="h-6 w-6 text-emerald-600" />
+          <h1 className="text-2xl font-semibold text-gray-900">Player Stats</h1>
+        </div>
+
+        <Card>
+          <CardContent className="p-4 grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Group</Label>
+              <Select value={groupId} onValueChange={setGroupId}>
+                <SelectTrigger data-testid="select-stats-group">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All groups</SelectItem>
+                  {groups.map(group => (
+                    <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Season</Label>
+              <Select value={season} onValueChange={setSeason}>
+                <SelectTrigger data-testid="select-stats-season">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 5 }, (_, i) => String(currentYear - i)).map(year => (
+                    <SelectItem key={year} value={year}>{year}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stats-from">From</Label>
+              <Input id="stats-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} data-testid="input-stats-from" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stats-to">To</Label>
+              <Input id="stats-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} data-testid="input-stats-to" />
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading || !report ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : report.players.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-gray-500">No rounds found for these filters.</CardContent>
+          </Card>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500">
+              {report.roundsCounted} {report.roundsCounted === 1 ? 'round' : 'rounds'} in range. Winnings come from saved payouts.
+            </p>
+            {report.players.map(stats => (
+              <PlayerStatsCard key={stats.key} stats={stats} season={report.season} />
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { insertCourseSchema, type Course } from "@shared/schema";
+import { storage } from "./storage.js";
+
+const SEED_FILE = path.resolve(process.cwd(), "server", "data", "courses.json");
+
+/**
+ * Seed the shared course library from server/data/courses.json.
+ * Existing library courses (matched by name) are left untouched.
+ */
+export async function seedCourseLibrary(): Promise<void> {
+  try {
+    const raw = JSON.parse(readFileSync(SEED_FILE, "utf-8"));
+    const library = z.array(insertCourseSchema).parse(raw);
+    const added = await storage.seedCourses(library);
+    if (added > 0) {
+      console.log(`Seeded ${added} course(s) into the course library`);
+    }
+  } catch (error) {
+    console.error('Error seeding course library:', error);
+  }
+}
+
+/** Par for one hole, or undefined if the course does not cover that hole. */
+export function getHolePar(course: Course | undefined | null, hole: number): number | undefined {
+  return course?.par?.[hole - 1];
+}
+
+/** Score vs par per player over the holes each player has completed. */
+export function calculateScoreVsPar(
+  course: Course,
+  holes: Record<number, Record<string, number | string>>
+): Record<string, number> {
+  const vsPar: Record<string, number> = {};
+  for (const [holeStr, holeData] of Object.entries(holes || {})) {
+    const par = getHolePar(course, parseInt(holeStr, 10));
+    if (par === undefined) continue;
+    for (const [playerId, strokes] of Object.entries(holeData)) {
+      if (typeof strokes !== 'number' || strokes <= 0) continue;
+      vsPar[playerId] = (vsPar[playerId] ?? 0) + strokes - par;
+    }
+  }
+  return vsPar;
+}
@@ -168,4 +168,56 @@ This email was sent from ForeScore, owned and operated by danoNano, LLC.
     });
     return false;
   }
-}
\ No newline at end of file
+}
+
+interface GroupInvitationEmailParams {
+  to: string;
+  inviterName: string;
+  groupName: string;
+  role: 'scorer' | 'viewer';
+  inviteLink: string;
+}
+
+export async function sendGroupInvitationEmail(params: GroupInvitationEmailParams): Promise<boolean> {
+  const { to, inviterName, groupName, role, inviteLink } = params;
+
+  ensureSendGridInitialized();
+
+  if (!process.env.SENDGRID_FROM_EMAIL) {
+    console.error('SENDGRID_FROM_EMAIL environment variable is not set');
+    return false;
+  }
+
+  const roleDescription = role === 'scorer' ? 'enter scores and cards' : 'follow scores and payouts';
+
+  try {
+    await mailService.send({
+      to,
+      from: {
+        email: process.env.SENDGRID_FROM_EMAIL,
+        name: process.env.SENDGRID_FROM_NAME || 'ForeScore Support'
+      },
+      subject: `${inviterName} invited you to ${groupName} on ForeScore`,
+      html: `
+        <div style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #059669; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0;">
+            <h1>🏌️ ForeScore</h1>
+          </div>
+          <div style="background-color: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; border: 1px solid #e5e7eb;">
+            <p>${inviterName} invited you to join <strong>${groupName}</strong> so you can ${roleDescription}.</p>
+            <div style="text-align: center;">
+              <a href="${inviteLink}" style="background-color:#059669;color:#ffffff !important;text-decoration:none !important;display:inline-block;padding:12px 24px;border-radius:6px;font-weight:bold;">Join Group</a>
+            </div>
+            <p>This invitation expires in 7 days.</p>
+          </div>
+        </div>
+      `,
+      text: `${inviterName} invited you to join ${groupName} on ForeScore so you can ${roleDescription}.\n\nJoin here: ${inviteLink}\n\nThis invitation expires in 7 days.`
+    });
+    console.log(`Group invitation email sent successfully to ${to}`);
+    return true;
+  } catch (error: any) {
+    console.error('SendGrid send error', { message: error?.message, code: error?.code });
+    return false;
+  }
+}
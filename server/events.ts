@@ -0,0 +1,47 @@
+import { storage } from "./storage.js";
+import { GameCommandError } from "./gameCommands.js";
+import { calculateEventResults, type EventRound } from "@shared/gameLogic";
+import type { EventLeaderboard, GameState, GolfEvent, Group } from "@shared/schema";
+
+// Multi-foursome events: each foursome keeps its own group and round, and the event ties the
+// rounds together. The leaderboard and settlement are derived on every request.
+
+// Anyone in one of the event's foursomes can follow it, as can whoever set it up
+export async function canViewEvent(event: GolfEvent, userId: string): Promise<boolean> {
+  if (event.createdBy === userId) return true;
+  const gameStates = await storage.getEventGameStates(event.id);
+  const groupIds = Array.from(new Set(gameStates.map(gameState => gameState.groupId)));
+  for (const groupId of groupIds) {
+    if (await storage.getUserGroupRole(groupId, userId)) return true;
+  }
+  return false;
+}
+
+export async function loadEvent(eventId: string, userId: string): Promise<GolfEvent> {
+  const event = await storage.getEvent(eventId);
+  if (!event || !(await canViewEvent(event, userId))) {
+    throw new GameCommandError(404, 'Event not found');
+  }
+  return event;
+}
+
+export async function buildEventLeaderboard(event: GolfEvent): Promise<EventLeaderboard> {
+  const gameStates = await storage.getEventGameStates(event.id);
+  const rounds: Array<EventRound & { gameState: GameState; group: Group }> = [];
+  for (const gameState of gameStates) {
+    const group = await storage.getGroup(gameState.groupId);
+    if (!group) continue;
+    rounds.push({ group, gameState, pointsGames: await storage.getPointsGames(group.id, gameState.id) });
+  }
+
+  return {
+    event,
+    rounds: rounds.map(({ group, gameState }) => ({
+      gameStateId: gameState.id,
+      name: gameState.name,
+      groupId: group.id,
+      groupName: group.name,
+    })),
+    ...calculateEventResults(rounds, event.settings),
+  };
+}
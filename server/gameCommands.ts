@@ -0,0 +1,758 @@
+import { z } from "zod";
+import { EventEmitter } from "events";
+import { storage, resolveDeckConfig, RevisionConflictError } from "./storage.js";
+import { calculateSkins, calculateWolfHolePoints, getRoundHoles, getWolfForHole, isUndoableGameEvent, recalculate2916Points, resolveWolfTeeOrder, score2916Hole, scores2916AcrossHoles, validateCardAssignment } from "@shared/gameLogic";
+import { MAX_HOLE_NUMBER, GAME_COMMANDS, cardValuesSchema, type GameCommand, type OfflineOperationResult, type Card, type CardAssignment, type GameEvent, type GameEventAction, type GameState, type PointsGame, type Player, type RoundConfig, type WolfHoleData } from "@shared/schema";
+
+// Authoritative game commands shared by the REST routes and the room WebSocket.
+// Each command validates access and input, scores with the shared game logic and persists the result.
+
+export class GameCommandError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'GameCommandError';
+  }
+}
+
+const holeNumberSchema = z.number().int().min(1).max(MAX_HOLE_NUMBER);
+
+// Revision of the game state / points game the client's edit was based on (stale revisions get a 409)
+export const revisionSchema = z.number({ required_error: 'Revision is required' }).int().min(0);
+
+export const assignCardCommandSchema = z.object({
+  gameStateId: z.string(),
+  playerId: z.string().min(1, 'Player ID is required'),
+  cardId: z.string().optional(),
+  cardType: z.string().optional(),
+  revision: revisionSchema,
+}).refine(data => data.cardId || data.cardType, { message: 'Either Card ID or Card Type is required' });
+
+export const enterHoleScoreCommandSchema = z.object({
+  pointsGameId: z.string(),
+  hole: holeNumberSchema,
+  strokes: z.record(z.number().int().min(1).max(20)),
+  revision: revisionSchema,
+});
+
+export const setGirCommandSchema = z.object({
+  pointsGameId: z.string(),
+  hole: holeNumberSchema,
+  playerGirData: z.record(z.boolean()).refine(data =>
+    Object.keys(data).length > 0,
+    { message: 'At least one player GIR status must be provided' }
+  ),
+  revision: revisionSchema,
+});
+
+// Empty strings and 'none' clear a category
+const bbbWinner = z.string().optional().transform(value => value && value !== 'none' ? value : undefined);
+
+export const setBbbCommandSchema = z.object({
+  pointsGameId: z.string(),
+  hole: holeNumberSchema,
+  firstOn: bbbWinner,
+  closestTo: bbbWinner,
+  firstIn: bbbWinner,
+  revision: revisionSchema,
+});
+
+// An empty strokes object clears the hole
+export const setSkinsHoleCommandSchema = z.object({
+  pointsGameId: z.string(),
+  hole: holeNumberSchema,
+  strokes: z.record(z.number().int().min(1).max(20)),
+  revision: revisionSchema,
+});
+
+export const setWolfHoleCommandSchema = z.object({
+  pointsGameId: z.string(),
+  hole: holeNumberSchema,
+  mode: z.enum(['partner', 'lone', 'blind']).default('partner'),
+  partner: z.string().optional(),
+  strokes: z.record(z.number().int().min(1).max(20)),
+  revision: revisionSchema,
+});
+
+const uniqueHoles = (label: string) => z.array(holeNumberSchema).refine(
+  holes => new Set(holes).size === holes.length,
+  { message: `${label} holes must be unique` }
+);
+
+// Hole config isn't a score edit, so the revision check is optional
+export const setGirHoleConfigCommandSchema = z.object({
+  pointsGameId: z.string(),
+  penalty: uniqueHoles('Penalty'),
+  bonus: uniqueHoles('Bonus'),
+  revision: revisionSchema.optional(),
+}).refine(
+  data => !data.bonus.some(hole => data.penalty.includes(hole)),
+  { message: 'A hole cannot be both penalty and bonus' }
+);
+
+export const setCardValuesCommandSchema = z.object({
+  gameStateId: z.string(),
+  cardValues: cardValuesSchema.partial(),
+  revision: revisionSchema,
+});
+
+export const gameCommandSchema = z.object({
+  command: z.enum(GAME_COMMANDS),
+  payload: z.unknown(),
+});
+
+export interface GameCommandResult {
+  groupId: string;
+  gameState?: GameState;
+  pointsGame?: PointsGame;
+  skins?: Awaited<ReturnType<typeof scoreSkinsGame>>;
+}
+
+// Emits 'edit' with the round's game state id after each recorded edit, undo or redo,
+// and 'share-revoked' when a spectator link is turned off (the WebSocket manager relays both to spectators).
+// 'state-change' carries the saved record itself, whichever path (REST, WebSocket, offline replay) made the
+// change; the WebSocket manager bumps the group room's version and broadcasts it to the room.
+export const roundEvents = new EventEmitter();
+
+export interface RoundStateChange {
+  groupId: string;
+  userId: string;
+  action: GameEventAction;
+  gameState?: GameState;
+  pointsGame?: PointsGame;
+}
+
+export const emitStateChange = (userId: string, action: GameEventAction, record: GameState | PointsGame) => {
+  const change: RoundStateChange = 'gameType' in record
+    ? { groupId: record.groupId, userId, action, pointsGame: record }
+    : { groupId: record.groupId, userId, action, gameState: record };
+  roundEvents.emit('state-change', change);
+};
+
+// Where an edit came from, for the round's history
+export interface EditSource {
+  deviceId?: string | null;
+  userAgent?: string | null;
+}
+
+// Key order differs between json and jsonb columns, so snapshots are compared with sorted keys
+const canonicalJson = (value: unknown): string => JSON.stringify(value, (_key, v) =>
+  v && typeof v === 'object' && !Array.isArray(v)
+    ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+    : v
+);
+
+const snapshotFields = (record: GameState | PointsGame, fields: string[]) =>
+  Object.fromEntries(fields.map(field => [field, (record as Record<string, unknown>)[field] ?? null]));
+
+const matchesSnapshot = (record: GameState | PointsGame, snapshot: Record<string, unknown>) =>
+  Object.entries(snapshot).every(([field, value]) => canonicalJson((record as Record<string, unknown>)[field] ?? null) === canonicalJson(value));
+
+// Append an edit to the round's history. A failure here is logged rather than failing the already-saved edit.
+export async function recordGameEdit(userId: string, source: EditSource | undefined, edit: {
+  action: GameEventAction;
+  summary: string;
+  hole?: number;
+  before: GameState | PointsGame;
+  after: GameState | PointsGame;
+  fields: string[];
+}) {
+  const isPointsGame = 'gameType' in edit.after;
+  try {
+    await storage.createGameEvent({
+      groupId: edit.after.groupId,
+      gameStateId: isPointsGame ? (edit.after as PointsGame).gameStateId : edit.after.id,
+      pointsGameId: isPointsGame ? edit.after.id : null,
+      userId,
+      deviceId: source?.deviceId ?? null,
+      userAgent: source?.userAgent ?? null,
+      action: edit.action,
+      summary: edit.summary,
+      hole: edit.hole ?? null,
+      before: snapshotFields(edit.before, edit.fields),
+      after: snapshotFields(edit.after, edit.fields),
+    });
+  } catch (error) {
+    console.error('Failed to record game event:', error);
+  }
+  const gameStateId = isPointsGame ? (edit.after as PointsGame).gameStateId : edit.after.id;
+  if (gameStateId) roundEvents.emit('edit', gameStateId);
+  emitStateChange(userId, edit.action, edit.after);
+}
+
+const recordHoleEdit = (userId: string, source: EditSource | undefined, action: GameEventAction, label: string, hole: number, before: PointsGame, after: PointsGame) =>
+  recordGameEdit(userId, source, { action, summary: `Hole ${hole} ${label}`, hole, before, after, fields: ['holes', 'points'] });
+
+const recordCardValuesEdit = (userId: string, source: EditSource | undefined, before: GameState, after: GameState) =>
+  recordGameEdit(userId, source, { action: 'card-values', summary: 'Changed card values', before, after, fields: ['cardValues'] });
+
+// Round layout for a points game comes from its linked game session (null = standard 18)
+export const getRoundConfigForGame = async (game: { gameStateId: string | null }): Promise<RoundConfig | null> => {
+  if (!game.gameStateId) return null;
+  const gameState = await storage.getGameStateById(game.gameStateId);
+  return gameState?.roundConfig ?? null;
+};
+
+// Course par for a points game's linked session (null when no course is attached)
+export const getCourseParForGame = async (game: { gameStateId: string | null }): Promise<number[] | null> => {
+  if (!game.gameStateId) return null;
+  const gameState = await storage.getGameStateById(game.gameStateId);
+  const course = gameState?.courseId ? await storage.getCourse(gameState.courseId) : undefined;
+  return course?.par ?? null;
+};
+
+// Skins carryovers depend on every hole, the round layout and course par, so skins are always scored as a whole
+export const scoreSkinsGame = async (game: PointsGame, players: Player[]) => {
+  const roundHoles = getRoundHoles(await getRoundConfigForGame(game));
+  return calculateSkins(game.holes || {}, players, roundHoles, game.settings, await getCourseParForGame(game));
+};
+
+const requireScorer = async (groupId: string, userId: string) => {
+  const role = await storage.getUserGroupRole(groupId, userId);
+  if (role !== 'owner' && role !== 'scorer') {
+    throw new GameCommandError(403, 'Access denied: Only group owners and scorers can modify game data');
+  }
+};
+
+// Finalized rounds are read-only until an owner reopens them
+export const requireOpenRound = (gameState: Pick<GameState, 'finalizedAt'> | null | undefined) => {
+  if (gameState?.finalizedAt) {
+    throw new GameCommandError(423, 'This round is finalized. A group owner can reopen it to make changes.');
+  }
+};
+
+export const requireOpenRoundForGame = async (game: { gameStateId: string | null }) => {
+  if (game.gameStateId) requireOpenRound(await storage.getGameStateById(game.gameStateId));
+};
+
+// Load a points game of the given type along with its group, checking scorer access and the round layout
+const loadHoleTarget = async (userId: string, pointsGameId: string, hole: number, gameType: PointsGame['gameType'], label: string) => {
+  const game = await storage.getPointsGame(pointsGameId);
+  if (!game) {
+    throw new GameCommandError(404, `${label} game not found`);
+  }
+  if (game.gameType !== gameType) {
+    throw new GameCommandError(400, `This command is only for ${label} games`);
+  }
+  const group = await storage.getGroup(game.groupId);
+  if (!group) {
+    throw new GameCommandError(404, 'Group not found');
+  }
+  await requireScorer(group.id, userId);
+  await requireOpenRoundForGame(game);
+  if (!getRoundHoles(await getRoundConfigForGame(game)).includes(hole)) {
+    throw new GameCommandError(400, `Hole ${hole} is not part of this round`);
+  }
+  return { game, group };
+};
+
+const requireGroupPlayers = (playerIds: string[], validPlayerIds: Set<string>) => {
+  for (const playerId of playerIds) {
+    if (!validPlayerIds.has(playerId)) {
+      throw new GameCommandError(400, `Invalid player ID: ${playerId}. Player must be a member of this group.`);
+    }
+  }
+};
+
+export async function assignCard(userId: string, input: z.infer<typeof assignCardCommandSchema>, source?: EditSource): Promise<GameCommandResult> {
+  const { gameStateId, playerId, cardId, cardType, revision } = input;
+
+  const gameState = await storage.getGameStateById(gameStateId);
+  if (!gameState) {
+    throw new GameCommandError(404, 'Game state not found');
+  }
+  const group = await storage.getGroup(gameState.groupId);
+  if (!group) {
+    throw new GameCommandError(404, 'Group not found');
+  }
+  await requireScorer(group.id, userId);
+  requireOpenRound(gameState);
+
+  // Find the card in the static deck (all cards always exist)
+  let card: Card | undefined;
+  if (cardId) {
+    card = gameState.deck.find(deckCard => deckCard.id === cardId);
+  } else if (cardType) {
+    // Prefer a copy nobody holds when the deck has several
+    const matchesType = (deckCard: Card) => deckCard.type === 'custom'
+      ? deckCard.name?.toLowerCase() === cardType.toLowerCase()
+      : deckCard.type === cardType;
+    const heldCardIds = new Set(Object.values(gameState.playerCards).flat().map(held => held.id));
+    card = gameState.deck.find(deckCard => matchesType(deckCard) && !heldCardIds.has(deckCard.id))
+      ?? gameState.deck.find(matchesType);
+  }
+  if (!card) {
+    throw new GameCommandError(404, `Card of type '${cardType ?? cardId}' not found in deck`);
+  }
+  const assignedCard = card;
+
+  const player = group.players.find(p => p.id === playerId);
+  if (!player) {
+    throw new GameCommandError(404, 'Player not found');
+  }
+
+  const validation = validateCardAssignment(assignedCard.id, playerId, gameState.deck, group.players, group.deckConfig);
+  if (!validation.valid) {
+    throw new GameCommandError(400, validation.error || 'Invalid card assignment');
+  }
+
+  // Move the card from its current holder (if any) to the new player (deck stays unchanged)
+  const updatedPlayerCards: Record<string, Card[]> = {};
+  for (const [pid, cards] of Object.entries(gameState.playerCards)) {
+    updatedPlayerCards[pid] = cards.filter(held => held.id !== assignedCard.id);
+  }
+  updatedPlayerCards[playerId] = [...(updatedPlayerCards[playerId] || []), assignedCard];
+
+  // Card value (server-side): session value first, then the group's deck config
+  const deckEntry = resolveDeckConfig(group).cards.find(entry => entry.key === (assignedCard.key ?? (assignedCard.type === 'custom' ? assignedCard.id : assignedCard.type)));
+  const cardValue = assignedCard.type === 'custom'
+    ? gameState.cardValues[assignedCard.name?.toLowerCase() || ''] ?? deckEntry?.value ?? 0
+    : gameState.cardValues[assignedCard.type] ?? deckEntry?.value ?? 0;
+
+  const assignment: CardAssignment = {
+    cardId: assignedCard.id,
+    playerId: player.id,
+    cardType: assignedCard.type,
+    cardName: assignedCard.name || '',
+    cardEmoji: assignedCard.emoji,
+    playerName: player.name,
+    playerColor: player.color,
+    cardValue,
+    timestamp: new Date().toISOString()
+  };
+
+  const updatedGameState = await storage.updateGameState(gameState.id, {
+    playerCards: updatedPlayerCards,
+    cardHistory: [...gameState.cardHistory, assignment],
+    currentCard: assignedCard
+  }, revision);
+  if (!updatedGameState) {
+    throw new GameCommandError(404, 'Game state not found');
+  }
+  await recordGameEdit(userId, source, {
+    action: 'assign-card',
+    summary: `Gave ${assignedCard.emoji} ${assignedCard.name || assignedCard.type} to ${player.name}`,
+    before: gameState,
+    after: updatedGameState,
+    fields: ['playerCards', 'cardHistory', 'currentCard'],
+  });
+  return { groupId: group.id, gameState: updatedGameState };
+}
+
+// 2/9/16 strokes for one hole; points are always calculated server-side (net when handicaps are on)
+export async function enterHoleScore(userId: string, input: z.infer<typeof enterHoleScoreCommandSchema>, source?: EditSource): Promise<GameCommandResult> {
+  const { pointsGameId, hole, strokes, revision } = input;
+  const { game, group } = await loadHoleTarget(userId, pointsGameId, hole, 'points', '2/9/16');
+  requireGroupPlayers(Object.keys(strokes), new Set(group.players.map(p => p.id)));
+
+  // With carried ties a hole's points depend on the holes before it, so the whole round is re-scored
+  let updatedGame: PointsGame | undefined;
+  if (scores2916AcrossHoles(game.settings)) {
+    const updatedHoles = { ...game.holes, [hole]: strokes };
+    const roundHoles = getRoundHoles(await getRoundConfigForGame(game));
+    updatedGame = await storage.updatePointsGame(game.id, {
+      holes: updatedHoles,
+      points: recalculate2916Points(updatedHoles, group.players, game.settings, roundHoles)
+    }, revision);
+  } else {
+    const { points } = score2916Hole(strokes, group.players, hole, game.settings);
+    updatedGame = await storage.updateHoleScores(game.id, hole, strokes, points, revision);
+  }
+  if (!updatedGame) {
+    throw new GameCommandError(404, '2/9/16 game not found');
+  }
+  await recordHoleEdit(userId, source, 'enter-hole-score', 'scores (2/9/16)', hole, game, updatedGame);
+  return { groupId: group.id, pointsGame: updatedGame };
+}
+
+export async function setGir(userId: string, input: z.infer<typeof setGirCommandSchema>, source?: EditSource): Promise<GameCommandResult> {
+  const { pointsGameId, hole, playerGirData, revision } = input;
+  const { game, group } = await loadHoleTarget(userId, pointsGameId, hole, 'gir', 'GIR');
+  requireGroupPlayers(Object.keys(playerGirData), new Set(group.players.map(p => p.id)));
+
+  // GIR points follow the user-configured hole types
+  const holeConfig = game.girHoleConfig || { penalty: [], bonus: [] };
+  const girPoints: Record<string, number> = {};
+  group.players.forEach(player => {
+    girPoints[player.id] = 0;
+  });
+  Object.entries(playerGirData).forEach(([playerId, hitGir]) => {
+    if (holeConfig.penalty.includes(hole)) {
+      // Penalty hole: YES = +1, NO = -1
+      girPoints[playerId] = hitGir ? 1 : -1;
+    } else if (holeConfig.bonus.includes(hole)) {
+      // Bonus hole: YES = +2, NO = 0
+      girPoints[playerId] = hitGir ? 2 : 0;
+    } else {
+      // Standard hole: YES = +1, NO = 0
+      girPoints[playerId] = hitGir ? 1 : 0;
+    }
+  });
+
+  const updatedGame = await storage.updatePointsGame(game.id, {
+    holes: { ...game.holes, [hole]: playerGirData as any }, // GIR holes store playerId -> hit green
+    points: { ...game.points, [hole]: girPoints }
+  }, revision);
+  if (!updatedGame) {
+    throw new GameCommandError(404, 'GIR game not found');
+  }
+  await recordHoleEdit(userId, source, 'set-gir', 'greens in regulation', hole, game, updatedGame);
+  return { groupId: group.id, pointsGame: updatedGame };
+}
+
+export async function setBbb(userId: string, input: z.infer<typeof setBbbCommandSchema>, source?: EditSource): Promise<GameCommandResult> {
+  const { pointsGameId, hole, firstOn, closestTo, firstIn, revision } = input;
+  const { game, group } = await loadHoleTarget(userId, pointsGameId, hole, 'bbb', 'BBB');
+  const winners = [firstOn, closestTo, firstIn].filter((id): id is string => !!id);
+  requireGroupPlayers(winners, new Set(group.players.map(p => p.id)));
+
+  const updatedHoles = { ...game.holes };
+  const updatedPoints = { ...game.points };
+
+  if (winners.length === 0) {
+    // Clearing the hole removes its data entirely
+    delete updatedHoles[hole];
+    delete updatedPoints[hole];
+  } else {
+    // 1 point per category won
+    const bbbPoints: Record<string, number> = {};
+    group.players.forEach(player => {
+      bbbPoints[player.id] = 0;
+    });
+    winners.forEach(playerId => {
+      bbbPoints[playerId] += 1;
+    });
+    updatedHoles[hole] = {
+      ...(firstOn && { firstOn }),
+      ...(closestTo && { closestTo }),
+      ...(firstIn && { firstIn }),
+    };
+    updatedPoints[hole] = bbbPoints;
+  }
+
+  const updatedGame = await storage.updatePointsGame(game.id, {
+    holes: updatedHoles,
+    points: updatedPoints
+  }, revision);
+  if (!updatedGame) {
+    throw new GameCommandError(404, 'BBB game not found');
+  }
+  await recordHoleEdit(userId, source, 'set-bbb', 'Bingo Bango Bongo', hole, game, updatedGame);
+  return { groupId: group.id, pointsGame: updatedGame };
+}
+
+export async function setSkinsHole(userId: string, input: z.infer<typeof setSkinsHoleCommandSchema>, source?: EditSource): Promise<GameCommandResult> {
+  const { pointsGameId, hole, strokes, revision } = input;
+  const { game, group } = await loadHoleTarget(userId, pointsGameId, hole, 'skins', 'Skins');
+  requireGroupPlayers(Object.keys(strokes), new Set(group.players.map(p => p.id)));
+
+  const updatedHoles = { ...game.holes };
+  if (Object.keys(strokes).length === 0) {
+    delete updatedHoles[hole];
+  } else {
+    updatedHoles[hole] = strokes;
+  }
+
+  const skins = await scoreSkinsGame({ ...game, holes: updatedHoles }, group.players);
+  const updatedGame = await storage.updatePointsGame(game.id, {
+    holes: updatedHoles,
+    points: skins.points
+  }, revision);
+  if (!updatedGame) {
+    throw new GameCommandError(404, 'Skins game not found');
+  }
+  await recordHoleEdit(userId, source, 'skins-hole', 'skins', hole, game, updatedGame);
+  return { groupId: group.id, pointsGame: updatedGame, skins };
+}
+
+// The wolf comes from the tee order rotation; the input records the wolf's choice and strokes
+export async function setWolfHole(userId: string, input: z.infer<typeof setWolfHoleCommandSchema>, source?: EditSource): Promise<GameCommandResult> {
+  const { pointsGameId, hole, mode, partner, strokes, revision } = input;
+  const { game, group } = await loadHoleTarget(userId, pointsGameId, hole, 'wolf', 'Wolf');
+  const roundHoles = getRoundHoles(await getRoundConfigForGame(game));
+
+  const playerIds = group.players.map(p => p.id);
+  const updatedHoles = { ...game.holes } as Record<number, any>;
+  const updatedPoints = { ...game.points };
+
+  if (Object.keys(strokes).length === 0) {
+    delete updatedHoles[hole];
+    delete updatedPoints[hole];
+  } else {
+    if (playerIds.length < 3) {
+      throw new GameCommandError(400, 'Wolf needs at least 3 players');
+    }
+    const missing = playerIds.filter(id => strokes[id] === undefined);
+    requireGroupPlayers(Object.keys(strokes), new Set(playerIds));
+    if (missing.length > 0) {
+      throw new GameCommandError(400, 'Strokes are required for every player');
+    }
+
+    const wolf = getWolfForHole(resolveWolfTeeOrder(playerIds, game.settings?.wolfTeeOrder), roundHoles, hole)!;
+    if (mode === 'partner' && (!partner || partner === wolf || !playerIds.includes(partner))) {
+      throw new GameCommandError(400, 'Pick a partner for the wolf, or declare a lone or blind wolf');
+    }
+
+    const holeData: WolfHoleData = {
+      wolf,
+      mode,
+      ...(mode === 'partner' && { partner }),
+      strokes
+    };
+    updatedHoles[hole] = holeData;
+    updatedPoints[hole] = calculateWolfHolePoints(holeData, playerIds);
+  }
+
+  const updatedGame = await storage.updatePointsGame(game.id, {
+    holes: updatedHoles,
+    points: updatedPoints
+  }, revision);
+  if (!updatedGame) {
+    throw new GameCommandError(404, 'Wolf game not found');
+  }
+  await recordHoleEdit(userId, source, 'wolf-hole', 'wolf', hole, game, updatedGame);
+  return { groupId: group.id, pointsGame: updatedGame };
+}
+
+export async function setGirHoleConfig(userId: string, input: z.infer<typeof setGirHoleConfigCommandSchema>, source?: EditSource): Promise<GameCommandResult> {
+  const { pointsGameId, penalty, bonus, revision } = input;
+  const game = await storage.getPointsGame(pointsGameId);
+  if (!game) {
+    throw new GameCommandError(404, 'GIR game not found');
+  }
+  if (game.gameType !== 'gir') {
+    throw new GameCommandError(400, 'This command is only for GIR games');
+  }
+  const group = await storage.getGroup(game.groupId);
+  if (!group) {
+    throw new GameCommandError(404, 'Group not found');
+  }
+  await requireScorer(group.id, userId);
+  await requireOpenRoundForGame(game);
+
+  // Penalty/bonus holes must be holes in play this round
+  const roundHoles = getRoundHoles(await getRoundConfigForGame(game));
+  const outsideRound = [...penalty, ...bonus].filter(hole => !roundHoles.includes(hole));
+  if (outsideRound.length > 0) {
+    throw new GameCommandError(400, `Holes ${outsideRound.join(', ')} are not part of this round`);
+  }
+
+  const updatedGame = await storage.updatePointsGame(game.id, { girHoleConfig: { penalty, bonus } }, revision);
+  if (!updatedGame) {
+    throw new GameCommandError(404, 'GIR game not found');
+  }
+  await recordGameEdit(userId, source, {
+    action: 'gir-hole-config',
+    summary: 'Changed GIR penalty / bonus holes',
+    before: game,
+    after: updatedGame,
+    fields: ['girHoleConfig'],
+  });
+  return { groupId: group.id, pointsGame: updatedGame };
+}
+
+// Card values are merged into the session's current values
+export async function setCardValues(userId: string, input: z.infer<typeof setCardValuesCommandSchema>, source?: EditSource): Promise<GameCommandResult> {
+  const { gameStateId, cardValues, revision } = input;
+  const gameState = await storage.getGameStateById(gameStateId);
+  if (!gameState) {
+    throw new GameCommandError(404, 'Game state not found');
+  }
+  await requireScorer(gameState.groupId, userId);
+  requireOpenRound(gameState);
+
+  const updatedGameState = await storage.updateGameState(gameState.id, {
+    cardValues: { ...gameState.cardValues, ...cardValues }
+  }, revision);
+  if (!updatedGameState) {
+    throw new GameCommandError(404, 'Game state not found');
+  }
+  await recordCardValuesEdit(userId, source, gameState, updatedGameState);
+  return { groupId: gameState.groupId, gameState: updatedGameState };
+}
+
+// Validate and run a typed command (room WebSocket and offline replay)
+export async function runGameCommand(userId: string, command: GameCommand, payload: unknown, source?: EditSource): Promise<GameCommandResult> {
+  switch (command) {
+    case 'assign-card':
+      return assignCard(userId, assignCardCommandSchema.parse(payload), source);
+    case 'enter-hole-score':
+      return enterHoleScore(userId, enterHoleScoreCommandSchema.parse(payload), source);
+    case 'set-gir':
+      return setGir(userId, setGirCommandSchema.parse(payload), source);
+    case 'set-bbb':
+      return setBbb(userId, setBbbCommandSchema.parse(payload), source);
+    case 'set-skins-hole':
+      return setSkinsHole(userId, setSkinsHoleCommandSchema.parse(payload), source);
+    case 'set-wolf-hole':
+      return setWolfHole(userId, setWolfHoleCommandSchema.parse(payload), source);
+    case 'set-gir-hole-config':
+      return setGirHoleConfig(userId, setGirHoleConfigCommandSchema.parse(payload), source);
+    case 'set-card-values':
+      return setCardValues(userId, setCardValuesCommandSchema.parse(payload), source);
+  }
+}
+
+// Put one edit's fields back to `from` -> `to`. Refuses when the record has moved on since, so a
+// later edit is never silently overwritten (undo the later edit first).
+async function revertEdit(userId: string, source: EditSource | undefined, event: GameEvent, direction: 'undo' | 'redo') {
+  const expected = (direction === 'undo' ? event.after : event.before) ?? {};
+  const replacement = (direction === 'undo' ? event.before : event.after) ?? {};
+  const verb = direction === 'undo' ? 'undone' : 'redone';
+
+  const record = event.pointsGameId
+    ? await storage.getPointsGame(event.pointsGameId)
+    : event.gameStateId ? await storage.getGameStateById(event.gameStateId) : undefined;
+  if (!record) {
+    throw new GameCommandError(404, `"${event.summary}" can't be ${verb} - its game no longer exists`);
+  }
+  if (!matchesSnapshot(record, expected)) {
+    throw new GameCommandError(409, `"${event.summary}" was changed again afterwards and can't be ${verb}`);
+  }
+
+  const updated = event.pointsGameId
+    ? await storage.updatePointsGame(record.id, replacement as Partial<PointsGame>, record.revision)
+    : await storage.updateGameState(record.id, replacement as Partial<GameState>, record.revision);
+  await storage.setGameEventUndone(event.id, direction === 'undo' ? new Date() : null);
+  await storage.createGameEvent({
+    groupId: event.groupId,
+    gameStateId: event.gameStateId,
+    pointsGameId: event.pointsGameId,
+    userId,
+    deviceId: source?.deviceId ?? null,
+    userAgent: source?.userAgent ?? null,
+    action: direction,
+    summary: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${event.summary}`,
+    hole: event.hole,
+    revertsEventId: event.id,
+  });
+  if (event.gameStateId) roundEvents.emit('edit', event.gameStateId);
+  if (updated) emitStateChange(userId, direction, updated);
+}
+
+const loadRoundHistory = async (userId: string, gameStateId: string) => {
+  const gameState = await storage.getGameStateById(gameStateId);
+  if (!gameState) {
+    throw new GameCommandError(404, 'Game state not found');
+  }
+  await requireScorer(gameState.groupId, userId);
+  requireOpenRound(gameState);
+  return (await storage.getGameEvents(gameStateId)).filter(isUndoableGameEvent);
+};
+
+// Undo the round's last `count` edits, newest first. Returns the edits that were undone.
+export async function undoGameEdits(userId: string, gameStateId: string, count: number, source?: EditSource): Promise<GameEvent[]> {
+  const edits = (await loadRoundHistory(userId, gameStateId)).filter(event => !event.undoneAt).slice(0, count);
+  if (edits.length === 0) {
+    throw new GameCommandError(400, 'Nothing to undo');
+  }
+  for (const event of edits) {
+    await revertEdit(userId, source, event, 'undo');
+  }
+  return edits;
+}
+
+// Redo the most recently undone edits, oldest first. Making a new edit after an undo discards what could be redone.
+export async function redoGameEdits(userId: string, gameStateId: string, count: number, source?: EditSource): Promise<GameEvent[]> {
+  const edits = await loadRoundHistory(userId, gameStateId);
+  const latestEditAt = Math.max(...edits.map(event => event.createdAt.getTime()));
+  const redoable = edits
+    .filter(event => event.undoneAt && event.undoneAt.getTime() > latestEditAt)
+    .reverse()
+    .slice(0, count);
+  if (redoable.length === 0) {
+    throw new GameCommandError(400, 'Nothing to redo');
+  }
+  for (const event of redoable) {
+    await revertEdit(userId, source, event, 'redo');
+  }
+  return redoable;
+}
+
+// HTTP-style status and message for a failed command
+export function describeCommandError(error: unknown): { status: number; message: string; current?: unknown } {
+  if (error instanceof RevisionConflictError) {
+    return { status: 409, message: error.message, current: error.current };
+  }
+  if (error instanceof z.ZodError) {
+    return { status: 400, message: error.errors[0]?.message || 'Invalid data' };
+  }
+  if (error instanceof GameCommandError) {
+    return { status: error.status, message: error.message };
+  }
+  return { status: 500, message: 'Failed to apply command' };
+}
+
+// Queued edits were made without a live revision, so they apply on top of whatever the server
+// has now (last write wins per hole) - retrying once if another write lands in between
+async function applyOfflineOperation(userId: string, command: GameCommand, payload: unknown, source: EditSource | undefined, retried = false): Promise<GameCommandResult> {
+  const target = (payload ?? {}) as { gameStateId?: unknown; pointsGameId?: unknown };
+  const current = typeof target.pointsGameId === 'string'
+    ? await storage.getPointsGame(target.pointsGameId)
+    : typeof target.gameStateId === 'string' ? await storage.getGameStateById(target.gameStateId) : undefined;
+  try {
+    return await runGameCommand(userId, command, { ...target, revision: current?.revision ?? 0 }, source);
+  } catch (error) {
+    if (error instanceof RevisionConflictError && !retried) {
+      return applyOfflineOperation(userId, command, payload, source, true);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replays a device's offline queue in order. Each op id is applied at most once; ops that
+ * can never succeed are rejected, and the first op that should be retried stops the batch
+ * so later edits are never applied ahead of it.
+ */
+export async function replayOfflineOperations(
+  userId: string,
+  operations: Array<{ opId: string; command: string; payload?: unknown }>,
+  source?: EditSource
+): Promise<OfflineOperationResult[]> {
+  const results: OfflineOperationResult[] = [];
+  let blocked = false;
+
+  for (const operation of operations) {
+    const { opId } = operation;
+    if (blocked) {
+      results.push({ opId, status: 'skipped' });
+      continue;
+    }
+    const command = z.enum(GAME_COMMANDS).safeParse(operation.command);
+    if (!command.success) {
+      results.push({ opId, status: 'rejected', message: `Unknown command: ${operation.command}` });
+      continue;
+    }
+
+    const claim = await storage.claimOfflineOperation(userId, opId, command.data);
+    if (!claim.claimed) {
+      if (claim.operation.status === 'processing') {
+        results.push({ opId, status: 'retry', message: 'Still being applied' });
+        blocked = true;
+      } else if (claim.operation.status === 'rejected') {
+        results.push({ opId, status: 'rejected', message: claim.operation.message ?? undefined });
+      } else {
+        results.push({ opId, status: 'duplicate' });
+      }
+      continue;
+    }
+
+    try {
+      await applyOfflineOperation(userId, command.data, operation.payload, source);
+      await storage.finishOfflineOperation(claim.operation.id, 'applied');
+      results.push({ opId, status: 'applied' });
+    } catch (error) {
+      const { status, message } = describeCommandError(error);
+      if (status === 409 || status >= 500) {
+        if (status >= 500) console.error(`Error replaying offline operation ${opId}:`, error);
+        await storage.releaseOfflineOperation(claim.operation.id);
+        results.push({ opId, status: 'retry', message });
+        blocked = true;
+      } else {
+        await storage.finishOfflineOperation(claim.operation.id, 'rejected', message);
+        results.push({ opId, status: 'rejected', message });
+      }
+    }
+  }
+  return results;
+}
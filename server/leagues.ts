@@ -0,0 +1,19 @@
+import { storage } from "./storage.js";
+import { calculateLeagueStandings } from "@shared/gameLogic";
+import type { Group, League, LeagueStandings } from "@shared/schema";
+
+// League standings are derived from the league's rounds on every request, so edits to
+// a round (or a change to the league's scoring) show up straight away.
+export async function buildLeagueStandings(league: League, group: Group): Promise<LeagueStandings> {
+  const gameStates = await storage.getLeagueGameStates(league.id);
+  const rounds = await Promise.all(gameStates.map(async gameState => ({
+    gameState,
+    pointsGames: await storage.getPointsGames(group.id, gameState.id),
+  })));
+
+  return {
+    league,
+    rounds: gameStates.map(gameState => ({ gameStateId: gameState.id, name: gameState.name, playedAt: gameState.createdAt.toISOString() })),
+    standings: calculateLeagueStandings(league, rounds, group.players),
+  };
+}
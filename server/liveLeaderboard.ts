@@ -0,0 +1,10 @@
+import { storage } from "./storage.js";
+import { calculateRoundStandings } from "@shared/gameLogic";
+import type { GameState, Group, LiveLeaderboard } from "@shared/schema";
+
+// Public, read-only view of a round for spectators following a share link.
+// Built from the same shared calculations as the in-app payouts.
+export async function buildLiveLeaderboard(gameState: GameState, group: Group): Promise<LiveLeaderboard> {
+  const sessionGames = await storage.getPointsGames(group.id, gameState.id);
+  return calculateRoundStandings(gameState, group, sessionGames);
+}
@@ -2,16 +2,25 @@ import type { Express } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
-import { storage } from "./storage.js";
+import { storage, resolveDeckConfig, createShuffledDeck, getDeckCardValues, RevisionConflictError } from "./storage.js";
 import { setupAuth, isAuthenticated, generateRoomToken, requireAdmin } from "./replitAuth.js";
-import { calculateCardGameDetails, calculate2916Points, validateCardAssignment, calculateCardsGame, calculatePointsGame, calculateNassauGame, buildNassauNetsFromPointsGame, combineGames, settleWhoOwesWho, combineTotals, generateSettlement, calculateBBBPointsGame, calculateBBBNassauGame, calculateGIRPointsGame, calculateGIRNassauGame, calculateGIRPoints } from "./secureGameLogic.js";
+import { calculateCardGameDetails, calculate2916Points, recalculate2916Points, scores2916AcrossHoles, calculateNetHoleScores, validateCardAssignment, calculateCardsGame, calculatePointsGame, calculateNassauGame, buildNassauNetsFromPointsGame, combineGames, settleWhoOwesWho, combineTotals, generateSettlement, calculateBBBPointsGame, calculateBBBNassauGame, calculateGIRPointsGame, calculateGIRNassauGame, calculateGIRPoints, calculateSegmentedNassauGame, getRoundHoles, getNassauSegments, sumPointsBySegment, calculatePointsGamePresses, getPointsGameHolePoints, getMatchStatus, findSegmentIndex, type PressResult, calculateSkinsGame, resolveWolfTeeOrder, getWolfForHole, calculateWolfPoints, calculateWolfPointsGame, calculateStablefordPoints, calculateStablefordGame, calculateTeamBets, calculateTeamGame } from "@shared/gameLogic";
 import { SecureWebSocketManager } from "./secureWebSocket.js";
+import { GameCommandError, assignCard, assignCardCommandSchema, enterHoleScore, enterHoleScoreCommandSchema, setGir, setGirCommandSchema, setBbb, setBbbCommandSchema, getRoundConfigForGame, getCourseParForGame, scoreSkinsGame, setSkinsHole, setSkinsHoleCommandSchema, setWolfHole, setWolfHoleCommandSchema, setGirHoleConfig, setGirHoleConfigCommandSchema, setCardValues, setCardValuesCommandSchema, recordGameEdit, undoGameEdits, redoGameEdits, replayOfflineOperations, roundEvents, requireOpenRound, requireOpenRoundForGame, type EditSource } from "./gameCommands.js";
+import { buildLiveLeaderboard } from "./liveLeaderboard.js";
+import { buildSettlementLedger, recordLedgerRound, recordLedgerPayment } from "./settlementLedger.js";
+import { addPaymentOptions, buildWhoOwesWho, getRoundPaymentMemo } from "./paymentLinks.js";
+import { buildPlayerStats } from "./playerStats.js";
+import { buildLeagueStandings } from "./leagues.js";
+import { buildEventLeaderboard, loadEvent } from "./events.js";
+import { finalizeRound, reopenRound } from "./roundFinalization.js";
+import { seedCourseLibrary, calculateScoreVsPar } from "./courseLibrary.js";
 import { registerUser, authenticateUser, registerSchema, loginSchema, quickSignupUser, quickLoginUser, convertQuickSignup, quickSignupSchema, convertAccountSchema } from "./localAuth.js";
-import { insertGroupSchema, insertGameStateSchema, insertPointsGameSchema, cardValuesSchema, pointsGameSettingsSchema, gameStates, roomStates, userPreferences, insertUserPreferencesSchema, passwordResetTokens, insertPasswordResetTokenSchema, users, type Card, type CardAssignment } from "@shared/schema";
+import { insertGroupSchema, insertGameStateSchema, insertPointsGameSchema, insertCourseSchema, pointsGameSettingsSchema, groupPlayersSchema, roundConfigSchema, deckConfigSchema, MAX_HOLE_NUMBER, type RoundConfig, declarePressSchema, type NassauPress, gameStates, roomStates, userPreferences, insertUserPreferencesSchema, passwordResetTokens, insertPasswordResetTokenSchema, users, type Card, type CardAssignment, type PointsGame, type Player, type WolfHoleData, type GroupRole, createInvitationSchema, updateMemberRoleSchema, linkPlayerSchema, undoEventsSchema, offlineOperationsSchema, recordLedgerRoundSchema, recordLedgerPaymentSchema, paymentHandlesSchema, playerStatsQuerySchema, insertLeagueSchema, updateLeagueSchema, leagueRoundSchema, insertEventSchema, updateEventSchema, eventRoundSchema } from "@shared/schema";
 import { APP_VERSION } from "@shared/version";
 import { db } from "./db.js";
 import { sql, eq, and, gt, isNotNull } from "drizzle-orm";
-import { sendForgotPasswordEmail } from "./emailService.js";
+import { sendForgotPasswordEmail, sendGroupInvitationEmail } from "./emailService.js";
 import { stripeService, SUBSCRIPTION_PLANS, stripe } from "./stripeService.js";
 import { appleIapService, APPLE_IAP_PRODUCTS } from "./appleIapService.js";
 import { requireSubscriptionAccess, isPublicRoute } from "./subscriptionMiddleware.js";
@@ -21,108 +30,96 @@ import bcrypt from "bcryptjs";
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   await setupAuth(app);
+  seedCourseLibrary();
 
   // Apply subscription middleware to protected routes only
   const subscriptionProtected = (req: any, res: any, next: any) => {
     return requireSubscriptionAccess(req, res, next);
   };
 
-  // Version endpoint - always accessible
-  app.get('/api/version', (_req, res) => {
-    res.json({ version: APP_VERSION });
+  // Group access comes from membership (creator = owner); null means the user is not in the group
+  const getGroupRole = (groupId: string, userId: string): Promise<GroupRole | null> =>
+    storage.getUserGroupRole(groupId, userId);
+
+  // Owners and scorers may enter scores and change game data; viewers are read-only
+  const canScoreGroup = async (groupId: string, userId: string): Promise<boolean> => {
+    const role = await getGroupRole(groupId, userId);
+    return role === 'owner' || role === 'scorer';
+  };
+
+  // Device details recorded with each edit in the round's history
+  const getEditSource = (req: any): EditSource => ({
+    deviceId: req.get('X-Device-Id') ?? null,
+    userAgent: req.get('User-Agent') ?? null,
   });
 
-  // Offline sync endpoints
-  app.post('/api/offline-sync/card-assignment', isAuthenticated, subscriptionProtected, async (req, res) => {
-    try {
-      const { gameId, playerId, cardType, timestamp } = req.body;
-      const userId = (req as any).user?.claims?.sub;
+  // Account links change only through the claim / link routes - group edits keep each player's existing link
+  const preservePlayerLinks = (players: Player[], existingPlayers: Player[] = []): Player[] =>
+    players.map(({ userId: _ignored, ...player }) => {
+      const linkedUserId = existingPlayers.find(p => p.id === player.id)?.userId;
+      return linkedUserId ? { ...player, userId: linkedUserId } : player;
+    });
 
-      if (!userId) {
-        return res.status(401).json({ message: "User not authenticated" });
-      }
+  // Stableford is scored from the 2/9/16 strokes against course par (null when no course is attached)
+  const scoreStablefordGame = async (game: PointsGame, players: Player[]) => {
+    const par = await getCourseParForGame(game);
+    if (!par) return null;
+    const roundHoles = getRoundHoles(await getRoundConfigForGame(game));
+    return calculateStablefordPoints(game.holes || {}, players, roundHoles, par, game.settings);
+  };
 
-      // Validate game access
-      const gameState = await storage.getGameState(gameId);
-      if (!gameState) {
-        return res.status(404).json({ message: "Game not found" });
-      }
+  // Team bets are scored from the 2/9/16 strokes over the round's Nassau segments (null until teams are set)
+  const scoreTeamGame = async (game: PointsGame, players: Player[]) => {
+    if (!game.settings?.teams) return null;
+    const roundConfig = await getRoundConfigForGame(game);
+    return calculateTeamBets(game.holes || {}, players, getRoundHoles(roundConfig), getNassauSegments(roundConfig), game.settings.teams, game.settings);
+  };
 
-      // Get group to verify user has access
-      const group = await storage.getGroup(gameState.groupId);
-      if (!group || group.createdBy !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+  // Side games that live alongside 2/9/16, BBB and GIR in a session
+  const SIDE_GAME_DEFAULTS = {
+    skins: { label: 'Skins', settings: { pointValue: 1, nassauValue: 10, skinValue: 1, skinsValidation: 'none' as const } },
+    wolf: { label: 'Wolf', settings: { pointValue: 1, nassauValue: 10 } },
+  };
+  type SideGameType = keyof typeof SIDE_GAME_DEFAULTS;
+
+  const buildSideGameData = (gameType: SideGameType, groupId: string, gameStateId: string, sessionName: string, userId: string) => ({
+    groupId,
+    gameStateId,
+    gameType,
+    name: `${sessionName} - ${SIDE_GAME_DEFAULTS[gameType].label}`,
+    holes: {},
+    points: {},
+    settings: SIDE_GAME_DEFAULTS[gameType].settings,
+    createdBy: userId
+  });
 
-      // Apply card assignment by updating game state
-      const updatedPlayerCards = { ...gameState.playerCards };
-      if (!updatedPlayerCards[playerId]) {
-        updatedPlayerCards[playerId] = [];
-      }
-      
-      // Add the card to player's cards
-      const cardToAdd = gameState.deck.find(card => card.type === cardType);
-      if (cardToAdd) {
-        updatedPlayerCards[playerId].push(cardToAdd);
-        
-        // Get player and card details for proper CardAssignment record
-        const group = await storage.getGroup(gameState.groupId);
-        const player = group?.players.find(p => p.id === playerId);
-        const cardValue = gameState.cardValues[cardType as keyof typeof gameState.cardValues] || 2;
-        
-        // Update card history with proper CardAssignment structure
-        const updatedCardHistory = [...gameState.cardHistory, {
-          cardId: cardToAdd.id,
-          cardType,
-          cardName: cardToAdd.name || cardType,
-          cardEmoji: cardToAdd.emoji,
-          cardValue,
-          playerId,
-          playerName: player?.name || 'Unknown',
-          playerColor: player?.color || '#000000',
-          timestamp: new Date(timestamp).toISOString()
-        }];
-        
-        // Update game state
-        await storage.updateGameState(gameId, {
-          playerCards: updatedPlayerCards,
-          cardHistory: updatedCardHistory
-        });
-      }
+  const rescoreSkinsGame = async (game: PointsGame, players: Player[]) => {
+    const skins = await scoreSkinsGame(game, players);
+    return storage.updatePointsGame(game.id, { points: skins.points });
+  };
 
-      res.json({ message: "Card assignment synced successfully" });
-    } catch (error) {
-      console.error('Error syncing card assignment:', error);
-      res.status(500).json({ message: "Failed to sync card assignment" });
-    }
+  // Version endpoint - always accessible
+  app.get('/api/version', (_req, res) => {
+    res.json({ version: APP_VERSION });
   });
 
-  app.post('/api/offline-sync/points-score', isAuthenticated, subscriptionProtected, async (req, res) => {
+  // Offline sync - replays a device's queued game commands in order; op ids make replays idempotent
+  app.post('/api/offline-sync/operations', isAuthenticated, subscriptionProtected, async (req, res) => {
     try {
-      const { gameId, playerId, hole, points, gameType, timestamp } = req.body;
       const userId = (req as any).user?.claims?.sub;
-
       if (!userId) {
         return res.status(401).json({ message: "User not authenticated" });
       }
 
-      // Find the points game
-      const pointsGames = await storage.getPointsGames(gameId, userId);
-      const pointsGame = pointsGames.find((pg: any) => 
-        pg.gameType === (gameType === 'bbb' ? 'bbb' : 'points')
-      );
-
-      if (!pointsGame) {
-        return res.status(404).json({ message: "Points game not found" });
-      }
-
-      // Update the score using existing method
-      await storage.updateHoleScores(pointsGame.id, hole, { [playerId]: 0 }, { [playerId]: points });
-
-      res.json({ message: "Points score synced successfully" });
+      const { operations } = offlineOperationsSchema.parse(req.body);
+      const results = await replayOfflineOperations(userId, operations, getEditSource(req));
+      res.json({ results });
     } catch (error) {
-      console.error('Error syncing points score:', error);
-      res.status(500).json({ message: "Failed to sync points score" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error('Error syncing offline operations:', error);
+      res.status(500).json({ message: "Failed to sync offline operations" });
     }
   });
 
@@ -1141,7 +1138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validate currentTab value
       if (currentTab) {
-        const validTabs = ['groups', 'games', 'scoreboard', 'rules'];
+        const validTabs = ['groups', 'games', 'scoreboard', 'league', 'rules'];
         if (!validTabs.includes(currentTab)) {
           return res.status(400).json({ message: 'Invalid tab value' });
         }
@@ -1254,6 +1251,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Payment handles shown to players who owe this user money
+  app.get('/api/user/payment-handles', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const handles = await storage.getPaymentHandles([userId]);
+      res.json(handles[userId] ?? {});
+    } catch (error) {
+      console.error('Error getting payment handles:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/user/payment-handles', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const handles = paymentHandlesSchema.parse(req.body);
+      const updatedUser = await storage.updatePaymentHandles(userId, handles);
+      if (!updatedUser) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      res.json(updatedUser.paymentHandles ?? {});
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating payment handles:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   // Generate room token for WebSocket authentication
   app.post('/api/auth/room-token', isAuthenticated, async (req: any, res) => {
     try {
@@ -1284,13 +1311,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/groups/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/groups/:id', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const group = await storage.getGroup(req.params.id);
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
-      res.json(group);
+      const role = await getGroupRole(group.id, userId);
+      if (!role) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+      res.json({ ...group, role });
     } catch (error) {
       console.error('Error fetching group:', error);
       res.status(500).json({ message: 'Failed to fetch group' });
@@ -1301,9 +1333,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const validatedData = insertGroupSchema.parse(req.body);
+      groupPlayersSchema.parse(validatedData.players);
       
       const group = await storage.createGroup({
         ...validatedData,
+        players: preservePlayerLinks(validatedData.players),
         createdBy: userId
       });
       
@@ -1317,13 +1351,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/groups/:id', isAuthenticated, async (req, res) => {
+  app.patch('/api/groups/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const updates = insertGroupSchema.partial().parse(req.body);
+      const userId = req.user.claims.sub;
+      const updates = insertGroupSchema.partial().omit({ createdBy: true }).parse(req.body);
+      if (updates.players) {
+        groupPlayersSchema.parse(updates.players);
+      }
+      const existingGroup = await storage.getGroup(req.params.id);
+      if (!existingGroup) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(existingGroup.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can modify the group' });
+      }
+      if (updates.players) {
+        updates.players = preservePlayerLinks(updates.players, existingGroup.players);
+      }
       const group = await storage.updateGroup(req.params.id, updates);
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
+
+      // Handicap changes re-score any net 2/9/16 and Skins games for this group
+      // (finalized rounds keep the scores they were locked with)
+      if (updates.players) {
+        const pointsGames = await storage.getPointsGames(group.id);
+        const finalizedRounds = new Set((await storage.getGameStates(group.id)).filter(gameState => gameState.finalizedAt).map(gameState => gameState.id));
+        for (const game of pointsGames) {
+          if (game.settings?.scoringMode !== 'net' || (game.gameStateId && finalizedRounds.has(game.gameStateId))) continue;
+          if (game.gameType === 'points') {
+            await storage.updatePointsGame(game.id, {
+              points: recalculate2916Points(game.holes || {}, group.players, game.settings, getRoundHoles(await getRoundConfigForGame(game)))
+            });
+          } else if (game.gameType === 'skins') {
+            await rescoreSkinsGame(game, group.players);
+          }
+        }
+      }
       res.json(group);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1334,9 +1399,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/groups/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/groups/:id', isAuthenticated, async (req: any, res) => {
     try {
-      const success = await storage.deleteGroup(req.params.id);
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.id);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can delete the group' });
+      }
+      const success = await storage.deleteGroup(group.id);
       if (!success) {
         return res.status(404).json({ message: 'Group not found' });
       }
@@ -1347,272 +1420,1256 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Game states endpoints (protected)
-  app.get('/api/game-state/:id', isAuthenticated, async (req, res) => {
+  // Group membership endpoints - owners manage members and invitations
+  app.get('/api/groups/:groupId/members', isAuthenticated, async (req: any, res) => {
     try {
-      const gameState = await storage.getGameStateById(req.params.id);
-      if (!gameState) {
-        return res.status(404).json({ message: 'Game state not found' });
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
       }
-      res.json(gameState);
+      const role = await getGroupRole(group.id, userId);
+      if (!role) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+
+      const members = await storage.getGroupMembers(group.id);
+      const owner = group.createdBy ? await storage.getUser(group.createdBy) : undefined;
+      res.json({
+        role,
+        owner: owner ? {
+          userId: owner.id,
+          name: [owner.firstName, owner.lastName].filter(Boolean).join(' ') || owner.email || 'Owner',
+          email: owner.email,
+        } : null,
+        members: members.filter(member => member.userId !== group.createdBy),
+      });
     } catch (error) {
-      console.error('Error fetching game state:', error);
-      res.status(500).json({ message: 'Failed to fetch game state' });
+      console.error('Error fetching group members:', error);
+      res.status(500).json({ message: 'Failed to fetch group members' });
     }
   });
 
-  app.get('/api/groups/:groupId/game-state', isAuthenticated, async (req, res) => {
+  app.patch('/api/groups/:groupId/members/:memberUserId', isAuthenticated, async (req: any, res) => {
     try {
-      const gameState = await storage.getGameState(req.params.groupId);
-      if (!gameState) {
-        return res.status(404).json({ message: 'Game state not found' });
+      const userId = req.user.claims.sub;
+      const { role } = updateMemberRoleSchema.parse(req.body);
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
       }
-      res.json(gameState);
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can change member roles' });
+      }
+      if (req.params.memberUserId === group.createdBy) {
+        return res.status(400).json({ message: "The group owner's role cannot be changed" });
+      }
+
+      const member = await storage.updateGroupMemberRole(group.id, req.params.memberUserId, role);
+      if (!member) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+      res.json(member);
     } catch (error) {
-      console.error('Error fetching game state:', error);
-      res.status(500).json({ message: 'Failed to fetch game state' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating group member:', error);
+      res.status(500).json({ message: 'Failed to update group member' });
     }
   });
 
-  // Simple game creation endpoint
-  app.post('/api/game-state', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+  // Owners remove members; any member may remove themselves (leave the group)
+  app.delete('/api/groups/:groupId/members/:memberUserId', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { groupId, name } = req.body;
-      
-      // Validate basic required fields
-      if (!groupId || !name) {
-        return res.status(400).json({ message: 'groupId and name are required' });
-      }
-      
-      // Get the group to access player data
-      const group = await storage.getGroup(groupId);
+      const group = await storage.getGroup(req.params.groupId);
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
-      
-      // Initialize game with default deck plus custom cards
-      const standardDeck = [
-        { id: 'camel-1', type: 'camel', emoji: '🐫' },
-        { id: 'camel-2', type: 'camel', emoji: '🐫' },
-        { id: 'fish-1', type: 'fish', emoji: '🐟' },
-        { id: 'fish-2', type: 'fish', emoji: '🐟' },
-        { id: 'roadrunner-1', type: 'roadrunner', emoji: '🏃' },
-        { id: 'roadrunner-2', type: 'roadrunner', emoji: '🏃' },
-        { id: 'ghost-1', type: 'ghost', emoji: '👻' },
-        { id: 'ghost-2', type: 'ghost', emoji: '👻' },
-        { id: 'skunk-1', type: 'skunk', emoji: '🦨' },
-        { id: 'skunk-2', type: 'skunk', emoji: '🦨' },
-        { id: 'snake-1', type: 'snake', emoji: '🐍' },
-        { id: 'snake-2', type: 'snake', emoji: '🐍' },
-        { id: 'yeti-1', type: 'yeti', emoji: '☃️' },
-        { id: 'yeti-2', type: 'yeti', emoji: '☃️' }
-      ];
-      
-      // Add custom cards to deck
-      const customCardsInDeck = (group.customCards || []).map(customCard => ({
-        id: customCard.id,
-        type: 'custom' as const,
-        emoji: customCard.emoji,
-        name: customCard.name
-      }));
-      
+      const isSelf = req.params.memberUserId === userId;
+      if (!isSelf && (await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can remove members' });
+      }
+      if (req.params.memberUserId === group.createdBy) {
+        return res.status(400).json({ message: 'The group owner cannot be removed' });
+      }
 
-      
-      const fullDeck = [...standardDeck, ...customCardsInDeck];
-      
-      // Initialize empty player cards for each player
-      const playerCards: Record<string, any[]> = {};
-      group.players.forEach(player => {
-        playerCards[player.id] = [];
-      });
-      
-      const gameStateData = {
-        groupId,
-        name,
-        deck: fullDeck,
-        playerCards,
-        cardHistory: [],
-        currentCard: null,
-        isActive: 1,
-        cardValues: group.cardValues,
-        createdBy: userId
-      };
-      
-      const gameState = await storage.createGameState(gameStateData);
-      
-      // Automatically create a 2/9/16 points game linked to this card game session
-      const pointsGameData = {
-        groupId,
-        gameStateId: gameState.id, // Link to the newly created card game
-        name: `${name} - 2/9/16`,
-        holes: {}, // Initialize empty holes object
-        points: {}, // Initialize empty points object
-        settings: { pointValue: 1, nassauValue: 10 }, // Default settings
-        createdBy: userId
-      };
-      
-      await storage.createPointsGame(pointsGameData);
-      
-      // Automatically create a BBB points game linked to this card game session
-      const bbbGameData = {
-        groupId,
-        gameStateId: gameState.id, // Link to the newly created card game
-        gameType: 'bbb' as const,
-        name: `${name} - BBB`,
-        holes: {}, // Initialize empty holes object
-        points: {}, // Initialize empty points object  
-        settings: { pointValue: 1, nassauValue: 10 }, // Default settings
-        createdBy: userId
-      };
-      
-      await storage.createPointsGame(bbbGameData);
-      
-      // Automatically create a GIR points game linked to this card game session
-      const girGameData = {
-        groupId,
-        gameStateId: gameState.id, // Link to the newly created card game
-        gameType: 'gir' as const,
-        name: `${name} - GIR`,
-        holes: {}, // Initialize empty holes object
-        points: {}, // Initialize empty points object  
-        settings: { pointValue: 1, nassauValue: 10 }, // Default settings
-        createdBy: userId
-      };
-      
-      await storage.createPointsGame(girGameData);
-      
-      res.status(201).json(gameState);
+      const success = await storage.removeGroupMember(group.id, req.params.memberUserId);
+      if (!success) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+      res.status(204).send();
     } catch (error) {
-      console.error('Error creating game state:', error);
-      res.status(500).json({ message: 'Failed to create game state' });
+      console.error('Error removing group member:', error);
+      res.status(500).json({ message: 'Failed to remove group member' });
     }
   });
 
-  // Secure card assignment endpoint
-  app.post('/api/game-state/:id/assign-card', isAuthenticated, async (req, res) => {
+  app.get('/api/groups/:groupId/invitations', isAuthenticated, async (req: any, res) => {
     try {
-      const { cardId, playerId, groupId, cardType } = req.body;
-      
-      if (!playerId) {
-        return res.status(400).json({ message: 'Player ID is required' });
-      }
-      
-      // Handle both cardId (direct assignment) and cardType (from deck)
-      if (!cardId && !cardType) {
-        return res.status(400).json({ message: 'Either Card ID or Card Type is required' });
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
       }
-
-      const gameState = await storage.getGameStateById(req.params.id);
-      if (!gameState) {
-        return res.status(404).json({ message: 'Game state not found' });
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can manage invitations' });
       }
+      res.json(await storage.getPendingGroupInvitations(group.id));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      res.status(500).json({ message: 'Failed to fetch invitations' });
+    }
+  });
 
-      // Get group to validate players and get card values
-      const group = await storage.getGroup(gameState.groupId);
+  // Create an invitation code (shared as a link, typed into "Join Group", or emailed)
+  app.post('/api/groups/:groupId/invitations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { role, email, playerId } = createInvitationSchema.parse(req.body);
+      const group = await storage.getGroup(req.params.groupId);
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
-
-      // Find the card in the static deck (all cards always exist)
-      let card: Card | undefined;
-      let currentlyAssignedPlayerId: string | null = null;
-      let updatedPlayerCards = { ...gameState.playerCards };
-      
-      if (cardId) {
-        // Direct card assignment by ID - find in deck
-        card = gameState.deck.find((deckCard: Card) => deckCard.id === cardId);
-      } else if (cardType) {
-        // Find card in deck by type
-        card = gameState.deck.find((deckCard: Card) => {
-          if (deckCard.type === 'custom') {
-            return deckCard.name?.toLowerCase() === cardType.toLowerCase();
-          }
-          return deckCard.type === cardType;
-        });
-      }
-      
-      if (!card) {
-        console.log(`[DEBUG] Card not found - cardType: ${cardType}, available cards:`, gameState.deck.map(c => ({ type: c.type, name: c.name })));
-        return res.status(404).json({ message: `Card of type '${cardType}' not found in deck` });
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can invite members' });
       }
 
-      // Check if card is currently assigned to someone else and remove it
-      for (const [pid, cards] of Object.entries(gameState.playerCards)) {
-        const assignedCardIndex = cards.findIndex(assignedCard => assignedCard.id === card!.id);
-        if (assignedCardIndex !== -1) {
-          currentlyAssignedPlayerId = pid;
-          // Remove from current player
-          updatedPlayerCards[pid] = cards.filter(assignedCard => assignedCard.id !== card!.id);
-          break;
+      if (playerId) {
+        const player = group.players.find(p => p.id === playerId);
+        if (!player) {
+          return res.status(400).json({ message: 'Player not found in group' });
+        }
+        if (player.userId) {
+          return res.status(409).json({ message: `${player.name} is already linked to an account` });
         }
       }
-      
-      const player = group.players.find(p => p.id === playerId);
-      if (!player) {
-        return res.status(404).json({ message: 'Player not found' });
-      }
-
-      // Add card to new player's cards (deck stays unchanged)
-      if (!updatedPlayerCards[playerId]) {
-        updatedPlayerCards[playerId] = [];
-      }
-      updatedPlayerCards[playerId] = [...updatedPlayerCards[playerId], card];
 
-      // Get card value (server-side calculation)
-      let cardValue = 0;
-      if (card.type === 'custom') {
-        const customCard = group?.customCards.find(c => c.id === card.id);
-        cardValue = customCard?.value || 0;
-        console.log(`[DEBUG] Custom card lookup - cardId: ${card.id}, found: ${!!customCard}, value: ${cardValue}, available custom cards:`, group?.customCards?.map(c => ({ id: c.id, name: c.name, value: c.value })));
-      } else {
-        cardValue = gameState.cardValues[card.type] || 0;
-      }
-      
-      console.log(`[DEBUG] Card assignment - cardType: ${card.type}, cardName: ${card.name}, cardValue: ${cardValue}`);
-
-      // Create card assignment record
-      const assignment: CardAssignment = {
-        cardId: card.id,
-        playerId: player!.id,
-        cardType: card.type,
-        cardName: card.name || '',
-        cardEmoji: card.emoji,
-        playerName: player!.name,
-        playerColor: player!.color,
-        cardValue: cardValue,
-        timestamp: new Date().toISOString()
-      };
-
-      // Add to card history
-      const newCardHistory = [...gameState.cardHistory, assignment];
-
-      // Update game state (deck stays unchanged, only assignments change)
-      const updatedGameState = await storage.updateGameState(req.params.id, {
-        playerCards: updatedPlayerCards,
-        cardHistory: newCardHistory,
-        currentCard: card
+      const invitation = await storage.createGroupInvitation({
+        groupId: group.id,
+        code: randomBytes(4).toString('hex').toUpperCase(),
+        email: email ?? null,
+        playerId: playerId ?? null,
+        role,
+        invitedBy: userId,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
       });
+      const inviteLink = `${req.protocol}://${req.get('host')}/?invite=${invitation.code}`;
 
-      res.json(updatedGameState);
+      let emailSent = false;
+      if (email) {
+        const inviter = await storage.getUser(userId);
+        try {
+          emailSent = await sendGroupInvitationEmail({
+            to: email,
+            inviterName: inviter?.firstName || 'A ForeScore player',
+            groupName: group.name,
+            role,
+            inviteLink,
+          });
+        } catch (emailError) {
+          // The code still works when email is unavailable - the owner can share the link directly
+          console.error('Error sending invitation email:', emailError);
+        }
+      }
+
+      res.status(201).json({ ...invitation, inviteLink, emailSent });
     } catch (error) {
-      console.error('Error assigning card:', error);
-      res.status(500).json({ message: 'Failed to assign card' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error creating invitation:', error);
+      res.status(500).json({ message: 'Failed to create invitation' });
     }
   });
 
-  // Secure payout calculation endpoint
-  app.get('/api/game-state/:id/payouts', isAuthenticated, async (req, res) => {
+  app.delete('/api/groups/:groupId/invitations/:invitationId', isAuthenticated, async (req: any, res) => {
     try {
-      const gameState = await storage.getGameStateById(req.params.id);
-      if (!gameState) {
-        return res.status(404).json({ message: 'Game state not found' });
-      }
-
-      const group = await storage.getGroup(gameState.groupId);
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can manage invitations' });
+      }
+      const invitations = await storage.getPendingGroupInvitations(group.id);
+      if (!invitations.some(invitation => invitation.id === req.params.invitationId)) {
+        return res.status(404).json({ message: 'Invitation not found' });
+      }
+      await storage.deleteGroupInvitation(req.params.invitationId);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      res.status(500).json({ message: 'Failed to revoke invitation' });
+    }
+  });
+
+  // Player account links - the owner claims their own player, a member re-claims the player their invitation was for,
+  // and the owner links everyone else (claims decide who a player's pay links point to)
+  app.post('/api/groups/:groupId/players/:playerId/claim', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      const role = await getGroupRole(group.id, userId);
+      if (!role) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+      const player = group.players.find(p => p.id === req.params.playerId);
+      if (!player) {
+        return res.status(404).json({ message: 'Player not found' });
+      }
+      if (role !== 'owner' && !(await storage.getAcceptedPlayerInvitation(group.id, player.id, userId))) {
+        return res.status(403).json({ message: `Access denied: Ask the group owner to link you to ${player.name}` });
+      }
+      if (player.userId && player.userId !== userId) {
+        return res.status(409).json({ message: `${player.name} is already linked to another account` });
+      }
+
+      const updatedGroup = await storage.linkGroupPlayer(group.id, player.id, userId);
+      res.json(updatedGroup);
+    } catch (error) {
+      console.error('Error claiming player:', error);
+      res.status(500).json({ message: 'Failed to claim player' });
+    }
+  });
+
+  app.put('/api/groups/:groupId/players/:playerId/link', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { userId: linkUserId } = linkPlayerSchema.parse(req.body);
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can link players to accounts' });
+      }
+      if (!group.players.some(p => p.id === req.params.playerId)) {
+        return res.status(404).json({ message: 'Player not found' });
+      }
+      if (!(await getGroupRole(group.id, linkUserId))) {
+        return res.status(400).json({ message: 'Players can only be linked to group members' });
+      }
+
+      const updatedGroup = await storage.linkGroupPlayer(group.id, req.params.playerId, linkUserId);
+      res.json(updatedGroup);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error linking player:', error);
+      res.status(500).json({ message: 'Failed to link player' });
+    }
+  });
+
+  // The owner or the linked account can unlink a player
+  app.delete('/api/groups/:groupId/players/:playerId/link', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      const player = group.players.find(p => p.id === req.params.playerId);
+      if (!player) {
+        return res.status(404).json({ message: 'Player not found' });
+      }
+      if (player.userId !== userId && (await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner or the linked account can unlink a player' });
+      }
+
+      const updatedGroup = await storage.linkGroupPlayer(group.id, player.id, null);
+      res.json(updatedGroup);
+    } catch (error) {
+      console.error('Error unlinking player:', error);
+      res.status(500).json({ message: 'Failed to unlink player' });
+    }
+  });
+
+  // Settlement ledger - recorded rounds, payments and the netted balance across rounds
+  app.get('/api/groups/:groupId/ledger', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+      res.json(await buildSettlementLedger(group));
+    } catch (error) {
+      console.error('Error fetching ledger:', error);
+      res.status(500).json({ message: 'Failed to fetch ledger' });
+    }
+  });
+
+  app.post('/api/groups/:groupId/ledger/rounds', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { gameStateId } = recordLedgerRoundSchema.parse(req.body);
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only the owner or a scorer can update the ledger' });
+      }
+      const gameState = await storage.getGameStateById(gameStateId);
+      if (!gameState || gameState.groupId !== group.id) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+
+      await recordLedgerRound(userId, group, gameState);
+      res.status(201).json(await buildSettlementLedger(group));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error recording round in ledger:', error);
+      res.status(500).json({ message: 'Failed to record round' });
+    }
+  });
+
+  // Take a round back out of the ledger (e.g. to re-record it after a correction)
+  app.delete('/api/groups/:groupId/ledger/rounds/:gameStateId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only the owner or a scorer can update the ledger' });
+      }
+      const [entries, payments] = await Promise.all([storage.getLedgerEntries(group.id), storage.getLedgerPayments(group.id)]);
+      const roundEntryIds = new Set(entries.filter(entry => entry.gameStateId === req.params.gameStateId).map(entry => entry.id));
+      if (roundEntryIds.size === 0) {
+        return res.status(404).json({ message: 'Round is not in the ledger' });
+      }
+      if (payments.some(payment => payment.entryId && roundEntryIds.has(payment.entryId))) {
+        return res.status(409).json({ message: 'Payments have been recorded for this round - remove them first' });
+      }
+
+      await storage.deleteLedgerRound(group.id, req.params.gameStateId);
+      res.json(await buildSettlementLedger(group));
+    } catch (error) {
+      console.error('Error removing round from ledger:', error);
+      res.status(500).json({ message: 'Failed to remove round' });
+    }
+  });
+
+  app.post('/api/groups/:groupId/ledger/payments', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = recordLedgerPaymentSchema.parse(req.body);
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only the owner or a scorer can update the ledger' });
+      }
+
+      await recordLedgerPayment(userId, group, input);
+      res.status(201).json(await buildSettlementLedger(group));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error recording payment:', error);
+      res.status(500).json({ message: 'Failed to record payment' });
+    }
+  });
+
+  app.delete('/api/groups/:groupId/ledger/payments/:paymentId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only the owner or a scorer can update the ledger' });
+      }
+      const payment = await storage.getLedgerPayment(req.params.paymentId);
+      if (!payment || payment.groupId !== group.id) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      await storage.deleteLedgerPayment(payment.id);
+      res.json(await buildSettlementLedger(group));
+    } catch (error) {
+      console.error('Error removing payment:', error);
+      res.status(500).json({ message: 'Failed to remove payment' });
+    }
+  });
+
+  // Leagues - seasons of rounds within a group
+  app.get('/api/groups/:groupId/leagues', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!(await getGroupRole(req.params.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+      res.json(await storage.getLeagues(req.params.groupId));
+    } catch (error) {
+      console.error('Error fetching leagues:', error);
+      res.status(500).json({ message: 'Failed to fetch leagues' });
+    }
+  });
+
+  app.post('/api/groups/:groupId/leagues', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = insertLeagueSchema.parse(req.body);
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only the owner or a scorer can manage leagues' });
+      }
+      res.status(201).json(await storage.createLeague({ ...input, groupId: group.id, createdBy: userId }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error creating league:', error);
+      res.status(500).json({ message: 'Failed to create league' });
+    }
+  });
+
+  // A league and its group, for members (or only owners and scorers when changing it)
+  const loadLeague = async (leagueId: string, userId: string, forEdit: boolean) => {
+    const league = await storage.getLeague(leagueId);
+    const group = league && await storage.getGroup(league.groupId);
+    if (!league || !group) {
+      throw new GameCommandError(404, 'League not found');
+    }
+    if (forEdit ? !(await canScoreGroup(group.id, userId)) : !(await getGroupRole(group.id, userId))) {
+      throw new GameCommandError(403, forEdit ? 'Access denied: Only the owner or a scorer can manage leagues' : 'Access denied: You are not a member of this group');
+    }
+    return { league, group };
+  };
+
+  app.get('/api/leagues/:leagueId/standings', isAuthenticated, async (req: any, res) => {
+    try {
+      const { league, group } = await loadLeague(req.params.leagueId, req.user.claims.sub, false);
+      res.json(await buildLeagueStandings(league, group));
+    } catch (error) {
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error fetching league standings:', error);
+      res.status(500).json({ message: 'Failed to fetch league standings' });
+    }
+  });
+
+  app.patch('/api/leagues/:leagueId', isAuthenticated, async (req: any, res) => {
+    try {
+      const updates = updateLeagueSchema.parse(req.body);
+      const { league, group } = await loadLeague(req.params.leagueId, req.user.claims.sub, true);
+      const updated = await storage.updateLeague(league.id, updates);
+      res.json(await buildLeagueStandings(updated ?? league, group));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error updating league:', error);
+      res.status(500).json({ message: 'Failed to update league' });
+    }
+  });
+
+  app.delete('/api/leagues/:leagueId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { league } = await loadLeague(req.params.leagueId, req.user.claims.sub, true);
+      await storage.deleteLeague(league.id);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error deleting league:', error);
+      res.status(500).json({ message: 'Failed to delete league' });
+    }
+  });
+
+  // Adding a round moves it out of any other league it was in
+  app.post('/api/leagues/:leagueId/rounds', isAuthenticated, async (req: any, res) => {
+    try {
+      const { gameStateId } = leagueRoundSchema.parse(req.body);
+      const { league, group } = await loadLeague(req.params.leagueId, req.user.claims.sub, true);
+      const gameState = await storage.getGameStateById(gameStateId);
+      if (!gameState || gameState.groupId !== group.id) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      await storage.setGameStateLeague(gameState.id, league.id);
+      res.json(await buildLeagueStandings(league, group));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error adding league round:', error);
+      res.status(500).json({ message: 'Failed to add round' });
+    }
+  });
+
+  app.delete('/api/leagues/:leagueId/rounds/:gameStateId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { league, group } = await loadLeague(req.params.leagueId, req.user.claims.sub, true);
+      const gameState = await storage.getGameStateById(req.params.gameStateId);
+      if (!gameState || gameState.leagueId !== league.id) {
+        return res.status(404).json({ message: 'Round is not in this league' });
+      }
+      await storage.setGameStateLeague(gameState.id, null);
+      res.json(await buildLeagueStandings(league, group));
+    } catch (error) {
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error removing league round:', error);
+      res.status(500).json({ message: 'Failed to remove round' });
+    }
+  });
+
+  // Events - several foursomes' rounds scored and settled together
+  const sendEventError = (res: any, error: unknown, logMessage: string, message: string) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+    }
+    if (error instanceof GameCommandError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error(logMessage, error);
+    res.status(500).json({ message });
+  };
+
+  app.get('/api/events', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const groups = await storage.getGroupsByUser(userId);
+      res.json(await storage.getEventsForUser(userId, groups.map(group => group.id)));
+    } catch (error) {
+      sendEventError(res, error, 'Error fetching events:', 'Failed to fetch events');
+    }
+  });
+
+  app.post('/api/events', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = insertEventSchema.parse(req.body);
+      res.status(201).json(await storage.createEvent({ ...input, createdBy: userId }));
+    } catch (error) {
+      sendEventError(res, error, 'Error creating event:', 'Failed to create event');
+    }
+  });
+
+  app.get('/api/events/:eventId', isAuthenticated, async (req: any, res) => {
+    try {
+      const event = await loadEvent(req.params.eventId, req.user.claims.sub);
+      res.json(await buildEventLeaderboard(event));
+    } catch (error) {
+      sendEventError(res, error, 'Error fetching event:', 'Failed to fetch event');
+    }
+  });
+
+  app.patch('/api/events/:eventId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const updates = updateEventSchema.parse(req.body);
+      const event = await loadEvent(req.params.eventId, userId);
+      if (event.createdBy !== userId) {
+        return res.status(403).json({ message: 'Access denied: Only the organizer can change the event' });
+      }
+      const updated = await storage.updateEvent(event.id, updates);
+      res.json(await buildEventLeaderboard(updated ?? event));
+    } catch (error) {
+      sendEventError(res, error, 'Error updating event:', 'Failed to update event');
+    }
+  });
+
+  app.delete('/api/events/:eventId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const event = await loadEvent(req.params.eventId, userId);
+      if (event.createdBy !== userId) {
+        return res.status(403).json({ message: 'Access denied: Only the organizer can delete the event' });
+      }
+      await storage.deleteEvent(event.id);
+      res.json({ success: true });
+    } catch (error) {
+      sendEventError(res, error, 'Error deleting event:', 'Failed to delete event');
+    }
+  });
+
+  // The event id works like an invitation: a scorer of any foursome can add their round with it
+  app.post('/api/events/:eventId/rounds', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { gameStateId } = eventRoundSchema.parse(req.body);
+      const event = await storage.getEvent(req.params.eventId);
+      if (!event) {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+      const gameState = await storage.getGameStateById(gameStateId);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      if (!(await canScoreGroup(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only the owner or a scorer can add this round' });
+      }
+      await storage.setGameStateEvent(gameState.id, event.id);
+      res.json(await buildEventLeaderboard(event));
+    } catch (error) {
+      sendEventError(res, error, 'Error adding event round:', 'Failed to add round');
+    }
+  });
+
+  app.delete('/api/events/:eventId/rounds/:gameStateId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const event = await loadEvent(req.params.eventId, userId);
+      const gameState = await storage.getGameStateById(req.params.gameStateId);
+      if (!gameState || gameState.eventId !== event.id) {
+        return res.status(404).json({ message: 'Round is not in this event' });
+      }
+      if (event.createdBy !== userId && !(await canScoreGroup(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only the organizer or a scorer of this foursome can remove it' });
+      }
+      await storage.setGameStateEvent(gameState.id, null);
+      res.json(await buildEventLeaderboard(event));
+    } catch (error) {
+      sendEventError(res, error, 'Error removing event round:', 'Failed to remove round');
+    }
+  });
+
+  // Player stats across the user's groups (or one group), computed from stored rounds
+  app.get('/api/stats/players', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const filters = playerStatsQuerySchema.parse(req.query);
+      let groups = await storage.getGroupsByUser(userId);
+      if (filters.groupId) {
+        groups = groups.filter(group => group.id === filters.groupId);
+        if (groups.length === 0) {
+          return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+        }
+      }
+      res.json(await buildPlayerStats(groups, filters));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error building player stats:', error);
+      res.status(500).json({ message: 'Failed to load player stats' });
+    }
+  });
+
+  // Every group where the signed-in account is linked to a player, with that group's game sessions
+  app.get('/api/me/players', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await storage.getLinkedPlayerGroups(userId));
+    } catch (error) {
+      console.error('Error fetching linked players:', error);
+      res.status(500).json({ message: 'Failed to fetch linked players' });
+    }
+  });
+
+  // Accept an invitation - returns the joined group
+  const acceptInvitation = async (code: string, userId: string, res: any) => {
+    const invitation = await storage.getGroupInvitationByCode(code.trim());
+    if (!invitation) {
+      return res.status(404).json({ message: 'Invitation not found' });
+    }
+    // Emailed and player invitations are single-use; open link invitations work for anyone until they expire
+    if ((invitation.email || invitation.playerId) && invitation.acceptedAt && invitation.acceptedBy !== userId) {
+      return res.status(410).json({ message: 'Invitation has already been used' });
+    }
+    if (invitation.expiresAt < new Date()) {
+      return res.status(410).json({ message: 'Invitation has expired' });
+    }
+    const group = await storage.getGroup(invitation.groupId);
+    if (!group) {
+      return res.status(404).json({ message: 'Group not found' });
+    }
+
+    // Existing members (and the owner) keep their current role
+    const existingRole = await getGroupRole(group.id, userId);
+    if (!existingRole) {
+      await storage.acceptGroupInvitation(invitation, userId);
+    } else if (invitation.playerId && !group.players.find(p => p.id === invitation.playerId)?.userId) {
+      await storage.linkGroupPlayer(group.id, invitation.playerId, userId);
+    }
+    const role = existingRole ?? invitation.role;
+    const joinedGroup = await storage.getGroup(group.id);
+    res.json({ ...(joinedGroup ?? group), role });
+  };
+
+  app.post('/api/invitations/:code/accept', isAuthenticated, async (req: any, res) => {
+    try {
+      await acceptInvitation(req.params.code, req.user.claims.sub, res);
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      res.status(500).json({ message: 'Failed to accept invitation' });
+    }
+  });
+
+  app.post('/api/groups/join', isAuthenticated, async (req: any, res) => {
+    try {
+      const { shareCode } = z.object({ shareCode: z.string().min(1) }).parse(req.body);
+      await acceptInvitation(shareCode, req.user.claims.sub, res);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error joining group:', error);
+      res.status(500).json({ message: 'Failed to join group' });
+    }
+  });
+
+  // Course library endpoints (protected) - shared library courses plus user-created courses
+  app.get('/api/courses', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const courses = await storage.getCourses(userId);
+      res.json(courses);
+    } catch (error) {
+      console.error('Error fetching courses:', error);
+      res.status(500).json({ message: 'Failed to fetch courses' });
+    }
+  });
+
+  app.get('/api/courses/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const course = await storage.getCourse(req.params.id);
+      if (!course || (course.createdBy && course.createdBy !== userId)) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      res.json(course);
+    } catch (error) {
+      console.error('Error fetching course:', error);
+      res.status(500).json({ message: 'Failed to fetch course' });
+    }
+  });
+
+  app.post('/api/courses', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertCourseSchema.parse(req.body);
+      const course = await storage.createCourse({ ...validatedData, createdBy: userId });
+      res.status(201).json(course);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error creating course:', error);
+      res.status(500).json({ message: 'Failed to create course' });
+    }
+  });
+
+  app.put('/api/courses/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.createdBy !== userId) {
+        return res.status(403).json({ message: 'Access denied: Only the course creator can modify this course' });
+      }
+      const validatedData = insertCourseSchema.parse(req.body);
+      const updatedCourse = await storage.updateCourse(course.id, { ...validatedData, createdBy: userId });
+      res.json(updatedCourse);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating course:', error);
+      res.status(500).json({ message: 'Failed to update course' });
+    }
+  });
+
+  app.delete('/api/courses/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const course = await storage.getCourse(req.params.id);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course.createdBy !== userId) {
+        return res.status(403).json({ message: 'Access denied: Only the course creator can delete this course' });
+      }
+      await storage.deleteCourse(course.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error deleting course:', error);
+      res.status(500).json({ message: 'Failed to delete course' });
+    }
+  });
+
+  // Set the round layout for a game (null = standard 18 holes)
+  app.put('/api/game-state/:id/round', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bodySchema = z.object({ roundConfig: roundConfigSchema.nullable() });
+      const { roundConfig } = bodySchema.parse(req.body);
+
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      const group = await storage.getGroup(gameState.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can modify game data' });
+      }
+      requireOpenRound(gameState);
+
+      const updatedGameState = await storage.updateGameState(gameState.id, { roundConfig });
+
+      // Skins carryovers (and carried 2/9/16 ties) follow the play order of the round
+      const linkedGames = await storage.getPointsGames(group.id, gameState.id);
+      for (const game of linkedGames) {
+        if (game.gameType === 'skins') await rescoreSkinsGame(game, group.players);
+        if (game.gameType === 'points' && scores2916AcrossHoles(game.settings)) {
+          await storage.updatePointsGame(game.id, {
+            points: recalculate2916Points(game.holes || {}, group.players, game.settings, getRoundHoles(roundConfig))
+          });
+        }
+      }
+
+      res.json({
+        ...updatedGameState,
+        roundHoles: getRoundHoles(roundConfig),
+        nassauSegments: getNassauSegments(roundConfig)
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid round configuration', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error updating round configuration:', error);
+      res.status(500).json({ message: 'Failed to update round configuration' });
+    }
+  });
+
+  // Attach (or detach with courseId: null) a course to a game
+  app.put('/api/game-state/:id/course', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const bodySchema = z.object({
+        courseId: z.string().nullable(),
+        teeName: z.string().optional(),
+      });
+      const { courseId, teeName } = bodySchema.parse(req.body);
+
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      const group = await storage.getGroup(gameState.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can modify game data' });
+      }
+      requireOpenRound(gameState);
+
+      const course = courseId ? await storage.getCourse(courseId) : undefined;
+      if (courseId && (!course || (course.createdBy && course.createdBy !== userId))) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      if (course && teeName && !course.tees.some(tee => tee.name === teeName)) {
+        return res.status(400).json({ message: `Tee "${teeName}" not found on ${course.name}` });
+      }
+
+      const updatedGameState = await storage.updateGameState(gameState.id, {
+        courseId: course?.id ?? null,
+        teeName: course ? (teeName ?? course.tees[0]?.name ?? null) : null,
+      });
+
+      // The course's hole handicaps drive net scoring for linked 2/9/16 and Skins games;
+      // its par drives skins birdie validation
+      const linkedGames = await storage.getPointsGames(group.id, gameState.id);
+      for (const game of linkedGames) {
+        if (game.gameType !== 'points' && game.gameType !== 'skins') continue;
+        const settings = course && course.holeCount === 18
+          ? { ...(game.settings || {}), strokeIndex: course.strokeIndex }
+          : game.settings;
+        if (game.gameType === 'points') {
+          if (settings === game.settings) continue;
+          await storage.updatePointsGame(game.id, {
+            settings,
+            points: recalculate2916Points(game.holes || {}, group.players, settings, getRoundHoles(gameState.roundConfig))
+          });
+        } else {
+          const updatedGame = await storage.updatePointsGame(game.id, { settings });
+          if (updatedGame) await rescoreSkinsGame(updatedGame, group.players);
+        }
+      }
+
+      res.json(updatedGameState);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error attaching course to game:', error);
+      res.status(500).json({ message: 'Failed to attach course' });
+    }
+  });
+
+  // Game states endpoints (protected)
+  app.get('/api/game-state/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      if (!(await getGroupRole(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+      res.json(gameState);
+    } catch (error) {
+      console.error('Error fetching game state:', error);
+      res.status(500).json({ message: 'Failed to fetch game state' });
+    }
+  });
+
+  app.get('/api/groups/:groupId/game-state', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!(await getGroupRole(req.params.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+      const gameState = await storage.getGameState(req.params.groupId);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      res.json(gameState);
+    } catch (error) {
+      console.error('Error fetching game state:', error);
+      res.status(500).json({ message: 'Failed to fetch game state' });
+    }
+  });
+
+  // Simple game creation endpoint
+  app.post('/api/game-state', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { groupId, name } = req.body;
+      
+      // Validate basic required fields
+      if (!groupId || !name) {
+        return res.status(400).json({ message: 'groupId and name are required' });
+      }
+
+      // Optional round layout (9 / 18 / 27 / custom holes, shotgun start)
+      const roundConfig = req.body.roundConfig ? roundConfigSchema.parse(req.body.roundConfig) : null;
+      
+      // Get the group to access player data
+      const group = await storage.getGroup(groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can start a game' });
+      }
+      
+      // Deal the group's deck config (two of each built-in animal plus custom cards by default)
+      const fullDeck = createShuffledDeck(group);
+      const deckCardValues = getDeckCardValues(resolveDeckConfig(group));
+      
+      // Initialize empty player cards for each player
+      const playerCards: Record<string, any[]> = {};
+      group.players.forEach(player => {
+        playerCards[player.id] = [];
+      });
+      
+      const gameStateData = {
+        groupId,
+        name,
+        deck: fullDeck,
+        playerCards,
+        cardHistory: [],
+        currentCard: null,
+        isActive: 1,
+        cardValues: { ...group.cardValues, ...deckCardValues },
+        roundConfig,
+        createdBy: userId
+      };
+      
+      const gameState = await storage.createGameState(gameStateData);
+      
+      // Automatically create a 2/9/16 points game linked to this card game session
+      const pointsGameData = {
+        groupId,
+        gameStateId: gameState.id, // Link to the newly created card game
+        name: `${name} - 2/9/16`,
+        holes: {}, // Initialize empty holes object
+        points: {}, // Initialize empty points object
+        settings: { pointValue: 1, nassauValue: 10 }, // Default settings
+        createdBy: userId
+      };
+      
+      await storage.createPointsGame(pointsGameData);
+      
+      // Automatically create a BBB points game linked to this card game session
+      const bbbGameData = {
+        groupId,
+        gameStateId: gameState.id, // Link to the newly created card game
+        gameType: 'bbb' as const,
+        name: `${name} - BBB`,
+        holes: {}, // Initialize empty holes object
+        points: {}, // Initialize empty points object  
+        settings: { pointValue: 1, nassauValue: 10 }, // Default settings
+        createdBy: userId
+      };
+      
+      await storage.createPointsGame(bbbGameData);
+      
+      // Automatically create a GIR points game linked to this card game session
+      const girGameData = {
+        groupId,
+        gameStateId: gameState.id, // Link to the newly created card game
+        gameType: 'gir' as const,
+        name: `${name} - GIR`,
+        holes: {}, // Initialize empty holes object
+        points: {}, // Initialize empty points object  
+        settings: { pointValue: 1, nassauValue: 10 }, // Default settings
+        createdBy: userId
+      };
+      
+      await storage.createPointsGame(girGameData);
+
+      // Automatically create the Skins and Wolf games linked to this card game session
+      await storage.createPointsGame(buildSideGameData('skins', groupId, gameState.id, name, userId));
+      await storage.createPointsGame(buildSideGameData('wolf', groupId, gameState.id, name, userId));
+      
+      res.status(201).json(gameState);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid round configuration', errors: error.errors });
+      }
+      console.error('Error creating game state:', error);
+      res.status(500).json({ message: 'Failed to create game state' });
+    }
+  });
+
+  // Secure card assignment endpoint
+  app.post('/api/game-state/:id/assign-card', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = assignCardCommandSchema.parse({ ...req.body, gameStateId: req.params.id });
+      const { gameState } = await assignCard(userId, input, getEditSource(req));
+      res.json(gameState);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || 'Invalid data', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      console.error('Error assigning card:', error);
+      res.status(500).json({ message: 'Failed to assign card' });
+    }
+  });
+
+  // Edit history for a round (card game and its side games), newest first
+  app.get('/api/game-state/:id/events', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      if (!(await getGroupRole(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+
+      const events = await storage.getGameEvents(gameState.id);
+      res.json(events);
+    } catch (error) {
+      console.error('Error fetching game events:', error);
+      res.status(500).json({ message: 'Failed to fetch game history' });
+    }
+  });
+
+  // Authoritative standings for the round - the client reconciles its offline provisional results against these
+  app.get('/api/game-state/:id/standings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      if (!(await getGroupRole(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+      const group = await storage.getGroup(gameState.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+
+      res.json(await buildLiveLeaderboard(gameState, group));
+    } catch (error) {
+      console.error('Error fetching standings:', error);
+      res.status(500).json({ message: 'Failed to fetch standings' });
+    }
+  });
+
+  // Undo / redo the round's last N edits
+  app.post('/api/game-state/:id/:direction(undo|redo)', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { count } = undoEventsSchema.parse(req.body ?? {});
+      const reverted = req.params.direction === 'undo'
+        ? await undoGameEdits(userId, req.params.id, count, getEditSource(req))
+        : await redoGameEdits(userId, req.params.id, count, getEditSource(req));
+      res.json({ reverted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      console.error(`Error during ${req.params.direction}:`, error);
+      res.status(500).json({ message: `Failed to ${req.params.direction}` });
+    }
+  });
+
+  // Finalize (lock) a round once its payouts are saved, or reopen it (owners only)
+  app.post('/api/game-state/:id/:action(finalize|reopen)', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameState = req.params.action === 'finalize'
+        ? await finalizeRound(userId, req.params.id, getEditSource(req))
+        : await reopenRound(userId, req.params.id, getEditSource(req));
+      res.json(gameState);
+    } catch (error) {
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error(`Error during ${req.params.action}:`, error);
+      res.status(500).json({ message: `Failed to ${req.params.action} round` });
+    }
+  });
+
+  // Spectator link - a read-only live leaderboard anyone with the link can open.
+  // Creating it again reuses the current token; revoking clears it so old links stop working.
+  app.post('/api/game-state/:id/share', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      if (!(await canScoreGroup(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can share a round' });
+      }
+
+      const shareToken = gameState.shareToken ?? randomBytes(16).toString('hex');
+      if (!gameState.shareToken) {
+        await storage.setGameStateShareToken(gameState.id, shareToken);
+      }
+      res.json({ shareToken, shareUrl: `/live/${shareToken}` });
+    } catch (error) {
+      console.error('Error sharing game:', error);
+      res.status(500).json({ message: 'Failed to create share link' });
+    }
+  });
+
+  app.delete('/api/game-state/:id/share', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      if (!(await canScoreGroup(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can stop sharing a round' });
+      }
+
+      await storage.setGameStateShareToken(gameState.id, null);
+      roundEvents.emit('share-revoked', gameState.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      res.status(500).json({ message: 'Failed to revoke share link' });
+    }
+  });
+
+  // Public live leaderboard (no login) - only names, cards, points and projected payouts
+  app.get('/api/live/:shareToken', async (req, res) => {
+    try {
+      const gameState = await storage.getGameStateByShareToken(req.params.shareToken);
+      if (!gameState) {
+        return res.status(404).json({ message: 'This live leaderboard link is no longer active' });
+      }
+      const group = await storage.getGroup(gameState.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'This live leaderboard link is no longer active' });
+      }
+
+      res.set('Cache-Control', 'no-store');
+      res.json(await buildLiveLeaderboard(gameState, group));
+    } catch (error) {
+      console.error('Error building live leaderboard:', error);
+      res.status(500).json({ message: 'Failed to load leaderboard' });
+    }
+  });
+
+  // Secure payout calculation endpoint
+  app.get('/api/game-state/:id/payouts', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+
+      const group = await storage.getGroup(gameState.groupId);
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
 
       // Add cache-busting headers to ensure fresh calculations
       res.set({
@@ -1638,13 +2695,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       payoutResult.payouts.forEach((p: any) => {
         netPayouts[p.playerId] = p.netPayout;
       });
-      const whoOwesWho = settleWhoOwesWho(netPayouts).map(tx => ({
-        fromPlayerId: tx.from,
-        toPlayerId: tx.to,
-        amount: tx.amount,
-        fromPlayerName: group.players.find(p => p.id === tx.from)?.name || 'Unknown',
-        toPlayerName: group.players.find(p => p.id === tx.to)?.name || 'Unknown'
-      }));
+      const whoOwesWho = await buildWhoOwesWho(netPayouts, group, gameState.id);
 
       res.json({
         cardGame: payoutResult,
@@ -1657,8 +2708,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Scorecard aggregation endpoint (available to all authenticated users)
-  app.get('/api/game-state/:id/scorecard', isAuthenticated, async (req, res) => {
+  app.get('/api/game-state/:id/scorecard', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const gameStateId = req.params.id;
       
       // Fetch game state
@@ -1672,6 +2724,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
 
       // Fetch all points games linked to this game state
       const pointsGames = await storage.getPointsGamesByGroup(group.id);
@@ -1685,28 +2740,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Build aggregated scorecard data structure
       const scorecard: Record<number, {
         strokes?: Record<string, number>;
+        netStrokes?: Record<string, number>;
         bbb?: Record<string, { firstOn?: string; closestTo?: string; firstIn?: string }>;
         gir?: Record<string, boolean>;
+        stableford?: Record<string, number>;
         cards?: CardAssignment[];
       }> = {};
 
-      // Aggregate 2/9/16 strokes (holes 1-18)
+      // Holes in play order for this round (standard 18 unless configured)
+      const roundHoles = getRoundHoles(gameState.roundConfig);
+
+      // Aggregate 2/9/16 strokes (holes in this round)
       // For 2/9/16 games, holeData IS the strokes object: { playerId: strokeCount }
       if (regular2916Game?.holes) {
-        for (let holeNum = 1; holeNum <= 18; holeNum++) {
+        for (const holeNum of roundHoles) {
           const holeData = (regular2916Game.holes as any)[holeNum];
 
           scorecard[holeNum] ??= {};
           scorecard[holeNum].strokes = holeData && typeof holeData === "object"
             ? (holeData as Record<string, number>)
             : {};
+
+          // Net mode: show handicap-adjusted strokes alongside gross
+          const settings = regular2916Game.settings;
+          if (settings?.scoringMode === 'net' && settings.strokeIndex) {
+            scorecard[holeNum].netStrokes = calculateNetHoleScores(
+              scorecard[holeNum].strokes!, group.players, holeNum, settings.strokeIndex
+            );
+          }
+        }
+      }
+
+      // Stableford points per hole from the same strokes (only when a course supplies par)
+      const stableford = regular2916Game ? await scoreStablefordGame(regular2916Game, group.players) : null;
+      if (stableford) {
+        for (const [holeNum, holePoints] of Object.entries(stableford.points)) {
+          scorecard[Number(holeNum)] ??= {};
+          scorecard[Number(holeNum)].stableford = holePoints;
         }
       }
 
-      // Aggregate GIR results (holes 1-18)
+      // Aggregate GIR results (holes in this round)
       // For GIR games, holeData IS the gir values object: { playerId: boolean }
       if (girGame?.holes) {
-        for (let holeNum = 1; holeNum <= 18; holeNum++) {
+        for (const holeNum of roundHoles) {
           const holeData = (girGame.holes as any)[holeNum];
 
           scorecard[holeNum] ??= {};
@@ -1716,12 +2793,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Aggregate BBB winners (holes 1-18)
+      // Aggregate BBB winners (holes in this round)
       if (bbbGame?.holes) {
         const extractWinner = (winner: any) =>
           typeof winner === "string" ? winner : winner?.playerId;
 
-        for (let holeNum = 1; holeNum <= 18; holeNum++) {
+        for (const holeNum of roundHoles) {
           const holeData = (bbbGame.holes as any)[holeNum];
 
           scorecard[holeNum] ??= {};
@@ -1905,27 +2982,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         selectedGames.push('bbb:nassau');
       }
       
+      // Stableford needs par, so it is only offered once a course is attached
+      if (stableford) {
+        selectedGames.push('2916:stableford');
+      }
+
       // Add GIR variants - always include points and nassau if game exists
       if (girGame) {
         selectedGames.push('gir:points');
         selectedGames.push('gir:nassau');
       }
 
+      // Course data for par / yardage rows and score vs par
+      const course = gameState.courseId ? await storage.getCourse(gameState.courseId) : undefined;
+      const tee = course?.tees.find(t => t.name === gameState.teeName) ?? course?.tees[0];
+
       const response = {
         gameStateId,
         groupId: group.id,
         players: group.players,
+        course: course ? {
+          id: course.id,
+          name: course.name,
+          holeCount: course.holeCount,
+          par: course.par,
+          strokeIndex: course.strokeIndex,
+          teeName: tee?.name ?? null,
+          yardage: tee?.yardage ?? null
+        } : null,
+        scoreVsPar: course && regular2916Game ? calculateScoreVsPar(course, regular2916Game.holes || {}) : null,
+        roundHoles,
+        nassauSegments: getNassauSegments(gameState.roundConfig),
         scorecard,
         playerCards,
         cardHistory: gameState.cardHistory || [],
         selectedGames,
         availableGames: {
           has2916: !!regular2916Game,
+          hasStableford: !!stableford,
           hasBBB: !!bbbGame,
           hasGIR: !!girGame,
           hasCards: (gameState.cardHistory?.length || 0) > 0
         },
-        gameMetadata
+        gameMetadata,
+        scoringMode: regular2916Game?.settings?.scoringMode || 'gross',
+        strokeIndex: regular2916Game?.settings?.strokeIndex || null,
+        stablefordTotals: stableford?.totals ?? null,
+        stablefordTable: regular2916Game?.settings?.stablefordTable ?? 'standard'
       };
       
       // Sample first 3 holes to see what data structure looks like
@@ -1953,12 +3056,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Update card values in game state
   // Legacy PATCH endpoint for card values (keep for backward compatibility)
-  app.patch('/api/games/:id/card-values', isAuthenticated, async (req, res) => {
+  app.patch('/api/games/:id/card-values', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const gameState = await storage.getGameStateById(req.params.id);
       if (!gameState) {
         return res.status(404).json({ message: 'Game state not found' });
       }
+      if (!(await canScoreGroup(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can change card values' });
+      }
+      requireOpenRound(gameState);
 
       // Merge new card values with existing ones
       const updatedCardValues = { 
@@ -1972,42 +3080,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(updatedGameState);
     } catch (error) {
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error updating card values:', error);
       res.status(500).json({ message: 'Failed to update card values' });
     }
   });
 
   // New PUT endpoint for card values (autosave-compatible)
-  app.put('/api/game-states/:gameId/card-values', isAuthenticated, async (req, res) => {
+  app.put('/api/game-states/:gameId/card-values', isAuthenticated, async (req: any, res) => {
     try {
-      // Validate card values input
-      const validatedCardValues = cardValuesSchema.partial().parse(req.body.cardValues || req.body);
-      
-      const gameState = await storage.getGameStateById(req.params.gameId);
-      if (!gameState) {
-        return res.status(404).json({ message: 'Game state not found' });
-      }
-
-      // Log the card value update for debugging
-      console.log(`Updating card values for game ${req.params.gameId}:`, {
-        previous: gameState.cardValues,
-        new: validatedCardValues,
-        merged: { ...gameState.cardValues, ...validatedCardValues }
-      });
-
-      // Update with validated card values
-      const updatedGameState = await storage.updateGameState(req.params.gameId, {
-        cardValues: { ...gameState.cardValues, ...validatedCardValues }
-      });
-
-      if (!updatedGameState) {
-        return res.status(500).json({ message: 'Failed to update game state' });
-      }
-
-      console.log(`Card values successfully updated. New values:`, updatedGameState.cardValues);
+      const userId = req.user.claims.sub;
+      // Card values come either wrapped ({ cardValues, revision }) or flat alongside the revision
+      const { revision, cardValues, ...bodyCardValues } = req.body;
+      const input = setCardValuesCommandSchema.parse({ gameStateId: req.params.gameId, cardValues: cardValues || bodyCardValues, revision });
+      const { gameState } = await setCardValues(userId, input, getEditSource(req));
 
-      res.json({ cardValues: updatedGameState.cardValues });
+      res.json({ cardValues: gameState!.cardValues, revision: gameState!.revision });
     } catch (error) {
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid card values', errors: error.errors });
       }
@@ -2017,8 +3114,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // New PUT endpoint for points game settings (autosave-compatible)
-  app.put('/api/points-games/:pointsGameId/settings', isAuthenticated, async (req, res) => {
+  app.put('/api/points-games/:pointsGameId/settings', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       // Validate settings input
       const validatedSettings = pointsGameSettingsSchema.parse(req.body);
       
@@ -2026,105 +3124,260 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!pointsGame) {
         return res.status(404).json({ message: 'Points game not found' });
       }
+      if (!(await canScoreGroup(pointsGame.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can change game settings' });
+      }
+      await requireOpenRoundForGame(pointsGame);
 
       // Merge with existing settings
       const currentSettings = pointsGame.settings || { pointValue: 1, nassauValue: 10 };
       const newSettings = { ...currentSettings, ...validatedSettings };
 
+      // Net scoring needs a complete stroke index; fall back to the attached course
+      if (newSettings.scoringMode === 'net' && !newSettings.strokeIndex && pointsGame.gameStateId) {
+        const gameState = await storage.getGameStateById(pointsGame.gameStateId);
+        const course = gameState?.courseId ? await storage.getCourse(gameState.courseId) : undefined;
+        if (course?.holeCount === 18) {
+          newSettings.strokeIndex = course.strokeIndex;
+        }
+      }
+      if (newSettings.scoringMode === 'net' && !newSettings.strokeIndex) {
+        return res.status(400).json({ message: 'Net scoring requires a stroke index for holes 1-18' });
+      }
+
+      // Wolf tee order must list exactly the group's players
+      if (validatedSettings.wolfTeeOrder) {
+        const group = await storage.getGroup(pointsGame.groupId);
+        const playerIds = group?.players.map(p => p.id) || [];
+        if (resolveWolfTeeOrder(playerIds, validatedSettings.wolfTeeOrder) !== validatedSettings.wolfTeeOrder) {
+          return res.status(400).json({ message: 'Wolf tee order must list every player in the group' });
+        }
+      }
+
+      // Team sides may only contain players from the group
+      if (validatedSettings.teams) {
+        const group = await storage.getGroup(pointsGame.groupId);
+        const playerIds = group?.players.map(p => p.id) || [];
+        if (!validatedSettings.teams.sides.flat().every(id => playerIds.includes(id))) {
+          return res.status(400).json({ message: 'Team sides must only include players in the group' });
+        }
+      }
+
+      // Re-score existing 2/9/16 holes when the scoring mode, stroke index or point table changes
+      const scoringChanged = validatedSettings.scoringMode !== undefined
+        || validatedSettings.strokeIndex !== undefined
+        || validatedSettings.positionPoints !== undefined
+        || validatedSettings.pointTable !== undefined;
+      let recalculatedPoints: Record<number, Record<string, number>> | undefined;
+      if (scoringChanged && pointsGame.gameType === 'points') {
+        const group = await storage.getGroup(pointsGame.groupId);
+        recalculatedPoints = recalculate2916Points(pointsGame.holes || {}, group?.players || [], newSettings, getRoundHoles(await getRoundConfigForGame(pointsGame)));
+      }
+      if ((scoringChanged || validatedSettings.skinsValidation !== undefined) && pointsGame.gameType === 'skins') {
+        const group = await storage.getGroup(pointsGame.groupId);
+        recalculatedPoints = (await scoreSkinsGame({ ...pointsGame, settings: newSettings }, group?.players || [])).points;
+      }
+
       // Update the points game with new settings
       const updatedPointsGame = await storage.updatePointsGame(req.params.pointsGameId, {
-        settings: newSettings
+        settings: newSettings,
+        ...(recalculatedPoints && { points: recalculatedPoints })
       });
 
       if (!updatedPointsGame) {
         return res.status(500).json({ message: 'Failed to update points game' });
       }
+      await recordGameEdit(userId, getEditSource(req), {
+        action: 'game-settings',
+        summary: 'Changed game settings',
+        before: pointsGame,
+        after: updatedPointsGame,
+        fields: ['settings', 'points'],
+      });
 
       res.json({ settings: updatedPointsGame.settings });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid settings', errors: error.errors });
       }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error updating points game settings:', error);
       res.status(500).json({ message: 'Failed to update points game settings' });
     }
   });
 
-  // Create game under group
-  app.post('/api/groups/:groupId/games', isAuthenticated, async (req: any, res) => {
+  // Nassau presses: manual presses plus any auto-presses, with their current status
+  app.get('/api/points-games/:id/presses', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { name } = req.body;
-      const groupId = req.params.groupId;
-      
-      // Validate basic required fields
-      if (!name) {
-        return res.status(400).json({ message: 'name is required' });
+      const pointsGame = await storage.getPointsGame(req.params.id);
+      if (!pointsGame) {
+        return res.status(404).json({ message: 'Points game not found' });
       }
-      
-      // Get the group to access player data
-      const group = await storage.getGroup(groupId);
+      const group = await storage.getGroup(pointsGame.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+
+      const nassauValue = parseFloat(req.query.nassauValue as string) || pointsGame.settings?.nassauValue || 10;
+      const { presses } = calculatePointsGamePresses(
+        pointsGame,
+        group.players.map(p => p.id),
+        nassauValue,
+        await getRoundConfigForGame(pointsGame)
+      );
+      res.json({ presses, settings: pointsGame.settings });
+    } catch (error) {
+      console.error('Error fetching presses:', error);
+      res.status(500).json({ message: 'Failed to fetch presses' });
+    }
+  });
+
+  // Declare a manual press - the presser must be pressTrigger (default 2) down on the latest bet
+  app.post('/api/points-games/:id/presses', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { pressedBy, opponent, startHole } = declarePressSchema.parse(req.body);
+
+      const pointsGame = await storage.getPointsGame(req.params.id);
+      if (!pointsGame) {
+        return res.status(404).json({ message: 'Points game not found' });
+      }
+      const group = await storage.getGroup(pointsGame.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can modify game data' });
+      }
+      await requireOpenRoundForGame(pointsGame);
+
+      const playerIds = group.players.map(p => p.id);
+      if (!playerIds.includes(pressedBy) || !playerIds.includes(opponent)) {
+        return res.status(400).json({ message: 'Both players must belong to this group' });
+      }
+
+      const segments = getNassauSegments(await getRoundConfigForGame(pointsGame));
+      const segment = segments[findSegmentIndex(segments, startHole)];
+      if (!segment) {
+        return res.status(400).json({ message: `Hole ${startHole} is not part of this round` });
+      }
+      if (startHole === segment[0]) {
+        return res.status(400).json({ message: 'A press must start after the first hole of a Nassau segment' });
+      }
+
+      // The latest bet between the pair is the most recent earlier press in this segment, else the segment match
+      const existingPresses = pointsGame.presses || [];
+      const samePair = (press: NassauPress) =>
+        (press.pressedBy === pressedBy && press.opponent === opponent) || (press.pressedBy === opponent && press.opponent === pressedBy);
+      if (existingPresses.some(press => samePair(press) && press.startHole === startHole)) {
+        return res.status(409).json({ message: 'These players already have a press starting on this hole' });
+      }
+      const startIndex = segment.indexOf(startHole);
+      const latestBetStart = existingPresses
+        .filter(press => samePair(press) && segment.indexOf(press.startHole) >= 0 && segment.indexOf(press.startHole) < startIndex)
+        .reduce((latest, press) => Math.max(latest, segment.indexOf(press.startHole)), 0);
+
+      const trigger = pointsGame.settings?.pressTrigger ?? 2;
+      const holePoints = getPointsGameHolePoints(pointsGame, playerIds);
+      const status = getMatchStatus(holePoints, pressedBy, opponent, segment.slice(latestBetStart, startIndex));
+      if (-status < trigger) {
+        return res.status(400).json({ message: `A player must be ${trigger} down to press (currently ${status > 0 ? `${status} up` : status < 0 ? `${-status} down` : 'all square'})` });
+      }
+
+      const press: NassauPress = {
+        id: `press-${Date.now()}`,
+        pressedBy,
+        opponent,
+        startHole,
+        createdAt: new Date().toISOString()
+      };
+      const updatedPointsGame = await storage.updatePointsGame(pointsGame.id, {
+        presses: [...existingPresses, press]
+      });
+      if (updatedPointsGame) {
+        const names = new Map(group.players.map(p => [p.id, p.name]));
+        await recordGameEdit(userId, getEditSource(req), {
+          action: 'press',
+          summary: `${names.get(pressedBy)} pressed ${names.get(opponent)} from hole ${startHole}`,
+          hole: startHole,
+          before: pointsGame,
+          after: updatedPointsGame,
+          fields: ['presses'],
+        });
+      }
+
+      res.json({ press, presses: updatedPointsGame?.presses || [] });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid press', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error declaring press:', error);
+      res.status(500).json({ message: 'Failed to declare press' });
+    }
+  });
+
+  // Withdraw a manual press (auto-presses follow the scores and the autoPress setting)
+  app.delete('/api/points-games/:id/presses/:pressId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const pointsGame = await storage.getPointsGame(req.params.id);
+      if (!pointsGame) {
+        return res.status(404).json({ message: 'Points game not found' });
+      }
+      const group = await storage.getGroup(pointsGame.groupId);
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
-      
-      // Initialize game with default deck plus custom cards
-      const standardDeck = [
-        { id: 'camel-1', type: 'camel', emoji: '🐫' },
-        { id: 'camel-2', type: 'camel', emoji: '🐫' },
-        { id: 'fish-1', type: 'fish', emoji: '🐟' },
-        { id: 'fish-2', type: 'fish', emoji: '🐟' },
-        { id: 'roadrunner-1', type: 'roadrunner', emoji: '🏃' },
-        { id: 'roadrunner-2', type: 'roadrunner', emoji: '🏃' },
-        { id: 'ghost-1', type: 'ghost', emoji: '👻' },
-        { id: 'ghost-2', type: 'ghost', emoji: '👻' },
-        { id: 'skunk-1', type: 'skunk', emoji: '🦨' },
-        { id: 'skunk-2', type: 'skunk', emoji: '🦨' },
-        { id: 'snake-1', type: 'snake', emoji: '🐍' },
-        { id: 'snake-2', type: 'snake', emoji: '🐍' },
-        { id: 'yeti-1', type: 'yeti', emoji: '☃️' },
-        { id: 'yeti-2', type: 'yeti', emoji: '☃️' }
-      ];
-      
-      // Add custom cards to deck
-      const customCardsInDeck = (group.customCards || []).map(customCard => ({
-        id: customCard.id,
-        type: 'custom' as const,
-        emoji: customCard.emoji,
-        name: customCard.name
-      }));
-      
-      const fullDeck = [...standardDeck, ...customCardsInDeck];
-      
-      // Initialize empty player cards for each player
-      const playerCards: Record<string, any[]> = {};
-      group.players.forEach(player => {
-        playerCards[player.id] = [];
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can modify game data' });
+      }
+      await requireOpenRoundForGame(pointsGame);
+
+      const existingPresses = pointsGame.presses || [];
+      const withdrawn = existingPresses.find(press => press.id === req.params.pressId);
+      if (!withdrawn) {
+        return res.status(404).json({ message: 'Press not found' });
+      }
+
+      const updatedPointsGame = await storage.updatePointsGame(pointsGame.id, {
+        presses: existingPresses.filter(press => press.id !== req.params.pressId)
       });
-      
-      const gameStateData = {
-        groupId,
-        name,
-        deck: fullDeck,
-        playerCards,
-        cardHistory: [],
-        currentCard: null,
-        isActive: 1,
-        cardValues: group.cardValues,
-        createdBy: userId
-      };
-      
-      const gameState = await storage.createGameState(gameStateData);
-      res.status(201).json(gameState);
+      if (updatedPointsGame) {
+        await recordGameEdit(userId, getEditSource(req), {
+          action: 'press',
+          summary: `Withdrew the press from hole ${withdrawn.startHole}`,
+          hole: withdrawn.startHole,
+          before: pointsGame,
+          after: updatedPointsGame,
+          fields: ['presses'],
+        });
+      }
+      res.json({ presses: updatedPointsGame?.presses || [] });
     } catch (error) {
-      console.error('Error creating game state:', error);
-      res.status(500).json({ message: 'Failed to create game state' });
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error removing press:', error);
+      res.status(500).json({ message: 'Failed to remove press' });
     }
   });
 
   // Games endpoints (protected) - return game states for deck/card game functionality
-  app.get('/api/groups/:groupId/games', isAuthenticated, async (req, res) => {
+  app.get('/api/groups/:groupId/games', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
+      if (!(await getGroupRole(req.params.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
       const gameStates = await storage.getGameStates(req.params.groupId);
       res.json(gameStates);
     } catch (error) {
@@ -2149,6 +3402,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (!(await canScoreGroup(groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can modify game data' });
+      }
+      const gameState = await storage.getGameStateById(gameStateId);
+      if (!gameState || gameState.groupId !== groupId) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      requireOpenRound(gameState);
+
       // Check if a points game already exists for this specific game session
       const existingGames = await storage.getPointsGames(groupId, gameStateId);
       if (existingGames.length > 0) {
@@ -2177,29 +3439,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid data', errors: error.errors });
       }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error creating points game:', error);
       res.status(500).json({ message: 'Failed to create points game' });
     }
   });
 
-  // Add missing game state queries for frontend compatibility
-  app.get('/api/groups/:groupId/games', isAuthenticated, async (req, res) => {
-    try {
-      const gameStates = await storage.getGameStates(req.params.groupId);
-      res.json(gameStates);
-    } catch (error) {
-      console.error('Error fetching game states:', error);
-      res.status(500).json({ message: 'Failed to fetch game states' });
-    }
-  });
-
   // Add missing draw card endpoint
-  app.post('/api/game-state/:id/draw-card', isAuthenticated, async (req, res) => {
+  app.post('/api/game-state/:id/draw-card', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const gameState = await storage.getGameStateById(req.params.id);
       if (!gameState) {
         return res.status(404).json({ message: 'Game state not found' });
       }
+      if (!(await canScoreGroup(gameState.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can draw cards' });
+      }
+      requireOpenRound(gameState);
 
       if (gameState.deck.length === 0) {
         return res.status(400).json({ message: 'No cards left in deck' });
@@ -2216,6 +3475,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(updatedGameState);
     } catch (error) {
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Error drawing card:', error);
       res.status(500).json({ message: 'Failed to draw card' });
     }
@@ -2227,6 +3489,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const { gameStateId } = req.query; // Optional gameStateId filter
+      if (!(await getGroupRole(req.params.groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
       console.log(`Fetching points games for group ${req.params.groupId}, gameState: ${gameStateId}, by user ${userId}`);
       const allPointsGames = await storage.getPointsGames(req.params.groupId, gameStateId as string);
       console.log(`Found ${allPointsGames.length} total points games:`, allPointsGames.map(g => ({ id: g.id, name: g.name, gameStateId: g.gameStateId })));
@@ -2255,44 +3520,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update hole scores for a points game
-  app.put("/api/points-games/:id/hole/:hole", isAuthenticated, async (req, res) => {
-    try {
-      const { id, hole } = req.params;
-      const { strokes } = req.body; // { playerId: strokes }
-      
-      const pointsGame = await storage.getPointsGame(id);
-      if (!pointsGame) {
-        return res.status(404).json({ message: "Points game not found" });
-      }
-
-      // Calculate points for this hole using the secure calculation
-      const holePoints = calculate2916Points(strokes);
-      
-      // Update the holes and points data
-      const updatedHoles = { ...pointsGame.holes };
-      const updatedPoints = { ...pointsGame.points };
-      
-      updatedHoles[parseInt(hole)] = strokes;
-      updatedPoints[parseInt(hole)] = holePoints;
-
-      const updatedGame = await storage.updatePointsGame(id, {
-        holes: updatedHoles,
-        points: updatedPoints
-      });
-
-      res.json(updatedGame);
-    } catch (error) {
-      console.error('Error updating hole scores:', error);
-      res.status(500).json({ message: "Failed to update hole scores" });
-    }
-  });
-
   // V6 game sharing functionality removed in ForeScoreV5.20
 
   // Add custom card management endpoints
-  app.post('/api/groups/:groupId/custom-cards', isAuthenticated, async (req, res) => {
+  app.post('/api/groups/:groupId/custom-cards', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const { name, emoji, value } = req.body;
       
       if (!name || !emoji || value === undefined) {
@@ -2303,6 +3536,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can change the deck' });
+      }
 
       const newCard = {
         id: `custom-${Date.now()}`,
@@ -2313,18 +3549,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const updatedCustomCards = [...group.customCards, newCard];
       const updatedGroup = await storage.updateGroup(req.params.groupId, {
-        customCards: updatedCustomCards
+        customCards: updatedCustomCards,
+        // Keep a saved deck config in step with the custom card list
+        ...(group.deckConfig && {
+          deckConfig: {
+            cards: [...group.deckConfig.cards, { key: newCard.id, name, emoji, value: newCard.value, quantity: 1, enabled: true, builtIn: false }]
+          }
+        })
       });
 
       // CRITICAL FIX: Add the new custom card to any active game decks
+      // Finalized rounds keep the deck they were locked with
       const activeGameStates = await storage.getActiveGamesByGroup(req.params.groupId);
-      for (const gameState of activeGameStates) {
+      for (const gameState of activeGameStates.filter(gameState => !gameState.finalizedAt)) {
         // Add the new custom card to the deck
         const newDeckCard = {
           id: newCard.id,
           type: 'custom' as const,
           emoji: newCard.emoji,
-          name: newCard.name
+          name: newCard.name,
+          key: newCard.id
         };
         
         const updatedDeck = [...gameState.deck, newDeckCard];
@@ -2342,12 +3586,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/groups/:groupId/custom-cards/:cardId', isAuthenticated, async (req, res) => {
+  app.delete('/api/groups/:groupId/custom-cards/:cardId', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const group = await storage.getGroup(req.params.groupId);
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can change the deck' });
+      }
 
       const cardToDelete = group.customCards.find(card => card.id === req.params.cardId);
       if (!cardToDelete) {
@@ -2356,12 +3604,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const updatedCustomCards = group.customCards.filter(card => card.id !== req.params.cardId);
       const updatedGroup = await storage.updateGroup(req.params.groupId, {
-        customCards: updatedCustomCards
+        customCards: updatedCustomCards,
+        ...(group.deckConfig && {
+          deckConfig: { cards: group.deckConfig.cards.filter(card => card.key !== req.params.cardId) }
+        })
       });
 
       // CRITICAL FIX: Remove deleted custom card from all active game states
+      // (finalized rounds keep the cards and payouts they were locked with)
       const activeGameStates = await storage.getActiveGamesByGroup(req.params.groupId);
-      for (const gameState of activeGameStates) {
+      for (const gameState of activeGameStates.filter(gameState => !gameState.finalizedAt)) {
         let needsUpdate = false;
         
         // Remove from deck
@@ -2414,48 +3666,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add missing PUT endpoint for points game hole updates
-  app.put('/api/points-games/:gameId/hole/:hole', isAuthenticated, async (req, res) => {
+  // Group deck config: the full card catalog used when new sessions are dealt
+  app.get('/api/groups/:groupId/deck', isAuthenticated, async (req: any, res) => {
     try {
-      const { gameId, hole } = req.params;
-      const { strokes, points } = req.body;
-      
-      if (!strokes || !points) {
-        return res.status(400).json({ message: 'Strokes and points are required' });
+      const userId = req.user.claims.sub;
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
       }
-
-      const updatedGame = await storage.updateHoleScores(gameId, parseInt(hole), strokes, points);
-      if (!updatedGame) {
-        return res.status(404).json({ message: 'Points game not found' });
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
       }
-
-      res.json(updatedGame);
+      res.json(resolveDeckConfig(group));
     } catch (error) {
-      console.error('Error updating hole scores:', error);
-      res.status(500).json({ message: 'Failed to update hole scores' });
+      console.error('Error fetching deck config:', error);
+      res.status(500).json({ message: 'Failed to fetch deck config' });
     }
   });
 
-  // Secure hole scores update with server-side points calculation
-  app.post('/api/games/:gameId/holes/:hole/scores', isAuthenticated, async (req, res) => {
+  app.put('/api/groups/:groupId/deck', isAuthenticated, async (req: any, res) => {
     try {
-      const { gameId, hole } = req.params;
-      const { scores } = req.body; // scores: { playerId: strokes }
-      
-      const game = await storage.getPointsGame(gameId);
-      if (!game) {
-        return res.status(404).json({ message: 'Points game not found' });
+      const userId = req.user.claims.sub;
+      const deckConfig = deckConfigSchema.parse(req.body);
+
+      const group = await storage.getGroup(req.params.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if ((await getGroupRole(group.id, userId)) !== 'owner') {
+        return res.status(403).json({ message: 'Access denied: Only the group owner can change the deck' });
       }
 
-      // Server-side points calculation to prevent tampering
-      const points = calculate2916Points(scores);
+      // cardValues and customCards mirror the deck so older screens and sessions stay consistent.
+      // Running sessions keep the deck they were dealt; disabled cards just can't be assigned there anymore.
+      const builtInValues = Object.fromEntries(deckConfig.cards.filter(card => card.builtIn).map(card => [card.key, card.value]));
+      const updatedGroup = await storage.updateGroup(group.id, {
+        deckConfig,
+        cardValues: { ...group.cardValues, ...builtInValues },
+        customCards: deckConfig.cards
+          .filter(card => !card.builtIn)
+          .map(card => ({ id: card.key, name: card.name, emoji: card.emoji, value: card.value }))
+      });
 
-      // Update both holes and points
-      await storage.updateHoleScores(gameId, parseInt(hole), scores, points);
+      res.json(updatedGroup);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      console.error('Error updating deck config:', error);
+      res.status(500).json({ message: 'Failed to update deck config' });
+    }
+  });
 
-      const updatedGame = await storage.getPointsGame(gameId);
-      res.json(updatedGame);
+  // Secure hole scores update with server-side points calculation
+  app.post('/api/games/:gameId/holes/:hole/scores', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = enterHoleScoreCommandSchema.parse({
+        pointsGameId: req.params.gameId,
+        hole: parseInt(req.params.hole),
+        strokes: req.body.scores, // scores: { playerId: strokes }
+        revision: req.body.revision,
+      });
+      const { pointsGame } = await enterHoleScore(userId, input, getEditSource(req));
+      res.json(pointsGame);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid data', errors: error.errors });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
       console.error('Error updating hole scores:', error);
       res.status(500).json({ message: 'Failed to update hole scores' });
     }
@@ -2465,302 +3749,312 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/bbb-games/:gameId/hole/:hole', isAuthenticated, subscriptionProtected, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      
-      // Validate request parameters
-      const paramsSchema = z.object({
-        gameId: z.string().uuid('Invalid game ID format'),
-        hole: z.string().transform((val) => {
-          const holeNumber = parseInt(val);
-          if (isNaN(holeNumber) || holeNumber < 1 || holeNumber > 18) {
-            throw new Error('Hole number must be between 1 and 18');
-          }
-          return holeNumber;
-        })
+      // Empty submissions clear the hole
+      const input = setBbbCommandSchema.parse({
+        ...req.body,
+        pointsGameId: req.params.gameId,
+        hole: parseInt(req.params.hole),
       });
-      
-      // Validate request body - allow empty submissions to clear holes
-      const bodySchema = z.object({
-        firstOn: z.string().optional(),
-        closestTo: z.string().optional(),
-        firstIn: z.string().optional()
-      }).transform(data => ({
-        // Normalize empty strings and 'none' to undefined
-        firstOn: data.firstOn && data.firstOn !== 'none' ? data.firstOn : undefined,
-        closestTo: data.closestTo && data.closestTo !== 'none' ? data.closestTo : undefined,
-        firstIn: data.firstIn && data.firstIn !== 'none' ? data.firstIn : undefined
-      }));
-      
-      const { gameId, hole } = paramsSchema.parse(req.params);
-      const { firstOn, closestTo, firstIn } = bodySchema.parse(req.body);
-      
-      const game = await storage.getPointsGame(gameId);
-      if (!game) {
-        return res.status(404).json({ message: 'BBB game not found' });
+      const { pointsGame } = await setBbb(userId, input, getEditSource(req));
+      res.json(pointsGame);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid data', 
+          errors: error.errors 
+        });
       }
-
-      // Verify this is a BBB game
-      if (game.gameType !== 'bbb') {
-        return res.status(400).json({ message: 'This endpoint is only for BBB games' });
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      console.error('Error updating BBB hole data:', error);
+      res.status(500).json({ message: 'Failed to update BBB hole data' });
+    }
+  });
 
-      // Get group to get player list and verify user access
-      const group = await storage.getGroup(game.groupId);
-      if (!group) {
-        return res.status(404).json({ message: 'Group not found' });
+  // GIR-specific hole update endpoint with comprehensive security and validation
+  app.put('/api/gir-games/:gameId/hole/:hole', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = setGirCommandSchema.parse({
+        ...req.body,
+        pointsGameId: req.params.gameId,
+        hole: parseInt(req.params.hole),
+      });
+      const { pointsGame } = await setGir(userId, input, getEditSource(req));
+      res.json(pointsGame);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid data', 
+          errors: error.errors 
+        });
       }
-      
-      // CRITICAL SECURITY: Verify user is owner of this group
-      if (group.createdBy !== userId) {
-        return res.status(403).json({ message: 'Access denied: Only the group creator can modify game data' });
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      
-      // Validate that all provided player IDs exist in the group
-      const validPlayerIds = new Set(group.players.map(p => p.id));
-      const providedPlayerIds = [firstOn, closestTo, firstIn].filter(Boolean);
-      
-      for (const playerId of providedPlayerIds) {
-        if (!validPlayerIds.has(playerId!)) {
-          return res.status(400).json({ 
-            message: `Invalid player ID: ${playerId}. Player must be a member of this group.` 
-          });
-        }
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
       }
+      console.error('Error updating GIR hole data:', error);
+      res.status(500).json({ message: 'Failed to update GIR hole data' });
+    }
+  });
 
-      // Build BBB hole data structure
-      const bbbHoleData: { firstOn?: string; closestTo?: string; firstIn?: string } = {};
-      if (firstOn) bbbHoleData.firstOn = firstOn;
-      if (closestTo) bbbHoleData.closestTo = closestTo;
-      if (firstIn) bbbHoleData.firstIn = firstIn;
-
-      // Check if this is a clear (all values empty)
-      const isClearing = !firstOn && !closestTo && !firstIn;
-
-      // Calculate BBB points (1 point per category won)
-      const bbbPoints: Record<string, number> = {};
-      
-      // Initialize all players to 0 points for this hole
-      group.players.forEach(player => {
-        bbbPoints[player.id] = 0;
-      });
+  // GIR hole configuration endpoint - save penalty/bonus hole selections
+  app.put('/api/gir-games/:gameId/hole-config', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = setGirHoleConfigCommandSchema.parse({ ...req.body, pointsGameId: req.params.gameId });
+      const { pointsGame } = await setGirHoleConfig(userId, input, getEditSource(req));
+      res.json(pointsGame);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: 'Invalid hole configuration', 
+          errors: error.errors 
+        });
+      }
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      console.error('Error updating GIR hole configuration:', error);
+      res.status(500).json({ message: 'Failed to update hole configuration' });
+    }
+  });
 
-      // Award points for each category (only if not clearing)
-      if (!isClearing) {
-        if (firstOn) bbbPoints[firstOn] = (bbbPoints[firstOn] || 0) + 1;
-        if (closestTo) bbbPoints[closestTo] = (bbbPoints[closestTo] || 0) + 1;
-        if (firstIn) bbbPoints[firstIn] = (bbbPoints[firstIn] || 0) + 1;
+  // Create a side game (skins / wolf) for an existing session created before that game existed
+  app.post('/api/game-state/:id/:gameType(skins|wolf)-game', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const gameType = req.params.gameType as SideGameType;
+      const gameState = await storage.getGameStateById(req.params.id);
+      if (!gameState) {
+        return res.status(404).json({ message: 'Game state not found' });
+      }
+      const group = await storage.getGroup(gameState.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await canScoreGroup(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can modify game data' });
       }
 
-      // Update the holes and points data
-      const updatedHoles = { ...game.holes };
-      const updatedPoints = { ...game.points };
-      
-      // If clearing, remove the hole data entirely; otherwise, store it
-      if (isClearing) {
-        delete updatedHoles[hole];
-        delete updatedPoints[hole];
-      } else {
-        updatedHoles[hole] = bbbHoleData;
-        updatedPoints[hole] = bbbPoints;
+      const linkedGames = await storage.getPointsGames(group.id, gameState.id);
+      const existing = linkedGames.find(game => game.gameType === gameType);
+      if (existing) {
+        return res.json(existing);
       }
+      requireOpenRound(gameState);
 
-      const updatedGame = await storage.updatePointsGame(gameId, {
-        holes: updatedHoles,
-        points: updatedPoints
-      });
+      const sideGame = await storage.createPointsGame(buildSideGameData(gameType, group.id, gameState.id, gameState.name, userId));
+      res.status(201).json(sideGame);
+    } catch (error) {
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error creating side game:', error);
+      res.status(500).json({ message: 'Failed to create side game' });
+    }
+  });
 
-      res.json(updatedGame);
+  // Skins hole entry - strokes per player; carryovers are re-scored across the whole round
+  app.put('/api/skins-games/:gameId/hole/:hole', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = setSkinsHoleCommandSchema.parse({ ...req.body, pointsGameId: req.params.gameId, hole: parseInt(req.params.hole) });
+      const { pointsGame, skins } = await setSkinsHole(userId, input, getEditSource(req));
+      res.json({ ...pointsGame, skins });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: 'Invalid data', 
-          errors: error.errors 
+        return res.status(400).json({
+          message: 'Invalid data',
+          errors: error.errors
         });
       }
-      console.error('Error updating BBB hole data:', error);
-      res.status(500).json({ message: 'Failed to update BBB hole data' });
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      console.error('Error updating Skins hole data:', error);
+      res.status(500).json({ message: 'Failed to update Skins hole data' });
     }
   });
 
-  // GIR-specific hole update endpoint with comprehensive security and validation
-  app.put('/api/gir-games/:gameId/hole/:hole', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+  // Skins Who Owes Who - skinValue query param overrides the saved per-skin value
+  app.get('/api/skins-games/:gameId/who-owes-who', isAuthenticated, subscriptionProtected, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      
-      // Validate request parameters
+
       const paramsSchema = z.object({
-        gameId: z.string().uuid('Invalid game ID format'),
-        hole: z.string().transform((val) => {
-          const holeNumber = parseInt(val);
-          if (isNaN(holeNumber) || holeNumber < 1 || holeNumber > 18) {
-            throw new Error('Hole number must be between 1 and 18');
+        gameId: z.string().uuid('Invalid game ID format')
+      });
+      const querySchema = z.object({
+        skinValue: z.string().optional().transform((val) => {
+          if (!val) return undefined;
+          const num = parseFloat(val);
+          if (isNaN(num) || num < 0) {
+            throw new Error('Skin value must be a non-negative number');
           }
-          return holeNumber;
+          return num;
         })
       });
-      
-      // Validate request body - expects playerGirData: { [playerId]: boolean }
-      const bodySchema = z.object({
-        playerGirData: z.record(z.boolean()).refine(data => 
-          Object.keys(data).length > 0,
-          { message: 'At least one player GIR status must be provided' }
-        )
-      });
-      
-      const { gameId, hole } = paramsSchema.parse(req.params);
-      const { playerGirData } = bodySchema.parse(req.body);
-      
+
+      const { gameId } = paramsSchema.parse(req.params);
+      const { skinValue: skinValueFromQuery } = querySchema.parse(req.query);
+
       const game = await storage.getPointsGame(gameId);
       if (!game) {
-        return res.status(404).json({ message: 'GIR game not found' });
+        return res.status(404).json({ message: 'Skins game not found' });
       }
-
-      // Verify this is a GIR game
-      if (game.gameType !== 'gir') {
-        return res.status(400).json({ message: 'This endpoint is only for GIR games' });
+      if (game.gameType !== 'skins') {
+        return res.status(400).json({ message: 'This endpoint is only for Skins games' });
       }
 
-      // Get group to get player list and verify user access
       const group = await storage.getGroup(game.groupId);
-      if (!group) {
-        return res.status(404).json({ message: 'Group not found' });
-      }
-      
-      // CRITICAL SECURITY: Verify user is owner of this group
-      if (group.createdBy !== userId) {
-        return res.status(403).json({ message: 'Access denied: Only the group creator can modify game data' });
-      }
-      
-      // Validate that all provided player IDs exist in the group
-      const validPlayerIds = new Set(group.players.map(p => p.id));
-      
-      for (const playerId of Object.keys(playerGirData)) {
-        if (!validPlayerIds.has(playerId)) {
-          return res.status(400).json({ 
-            message: `Invalid player ID: ${playerId}. Player must be a member of this group.` 
-          });
-        }
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
       }
 
-      // Calculate GIR points using server-side logic with user-configured hole types
-      const holeConfig = game.girHoleConfig || { penalty: [], bonus: [] };
-      const penaltyHoles = new Set(holeConfig.penalty);
-      const bonusHoles = new Set(holeConfig.bonus);
-      const girPoints: Record<string, number> = {};
-      
-      // Initialize all players to 0 points for this hole
-      group.players.forEach(player => {
-        girPoints[player.id] = 0;
-      });
-
-      // Calculate points based on GIR status and hole type
-      Object.entries(playerGirData).forEach(([playerId, hitGir]) => {
-        if (penaltyHoles.has(hole)) {
-          // Penalty hole: YES = +1, NO = -1
-          girPoints[playerId] = hitGir ? 1 : -1;
-        } else if (bonusHoles.has(hole)) {
-          // Bonus hole: YES = +2, NO = 0
-          girPoints[playerId] = hitGir ? 2 : 0;
-        } else {
-          // Standard hole: YES = +1, NO = 0
-          girPoints[playerId] = hitGir ? 1 : 0;
-        }
-      });
+      const players = group.players;
+      const skinValue = skinValueFromQuery ?? game.settings?.skinValue ?? 1;
+      const skins = await scoreSkinsGame(game, players);
+      const payouts = calculateSkinsGame(skins.skinsWon, skinValue);
 
-      // Update the holes and points data
-      const updatedHoles = { ...game.holes };
-      const updatedPoints = { ...game.points };
-      
-      updatedHoles[hole] = playerGirData;
-      updatedPoints[hole] = girPoints;
+      const whoOwesWho = await buildWhoOwesWho(payouts, group, game.gameStateId);
 
-      const updatedGame = await storage.updatePointsGame(gameId, {
-        holes: updatedHoles,
-        points: updatedPoints
+      res.json({
+        whoOwesWho,
+        payouts,
+        skins,
+        skinValue,
+        selectedGames: ['skins'],
+        success: true,
+        totalTransactions: whoOwesWho.length,
+        summary: payouts,
+        cardGameDetails: null
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: 'Invalid data',
+          errors: error.errors
+        });
+      }
+      console.error('Error calculating Skins payouts:', error);
+      res.status(500).json({ message: 'Failed to calculate Skins payouts' });
+    }
+  });
 
-      res.json(updatedGame);
+  // Wolf hole entry - the wolf comes from the tee order rotation; the body records the wolf's choice and strokes
+  app.put('/api/wolf-games/:gameId/hole/:hole', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const input = setWolfHoleCommandSchema.parse({ ...req.body, pointsGameId: req.params.gameId, hole: parseInt(req.params.hole) });
+      const { pointsGame } = await setWolfHole(userId, input, getEditSource(req));
+      res.json(pointsGame);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: 'Invalid data', 
-          errors: error.errors 
+        return res.status(400).json({
+          message: 'Invalid data',
+          errors: error.errors
         });
       }
-      console.error('Error updating GIR hole data:', error);
-      res.status(500).json({ message: 'Failed to update GIR hole data' });
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof RevisionConflictError) {
+        return res.status(409).json({ message: error.message, current: error.current });
+      }
+      console.error('Error updating Wolf hole data:', error);
+      res.status(500).json({ message: 'Failed to update Wolf hole data' });
     }
   });
 
-  // GIR hole configuration endpoint - save penalty/bonus hole selections
-  app.put('/api/gir-games/:gameId/hole-config', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+  // Wolf Who Owes Who - points mode only (pairwise point differences)
+  app.get('/api/wolf-games/:gameId/who-owes-who', isAuthenticated, subscriptionProtected, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      
-      // Validate request parameters
+
       const paramsSchema = z.object({
         gameId: z.string().uuid('Invalid game ID format')
       });
-      
-      // Validate request body - expects penalty and bonus hole arrays
-      const bodySchema = z.object({
-        penalty: z.array(z.number().int().min(1).max(18)).refine(
-          (holes) => new Set(holes).size === holes.length,
-          { message: 'Penalty holes must be unique' }
-        ),
-        bonus: z.array(z.number().int().min(1).max(18)).refine(
-          (holes) => new Set(holes).size === holes.length,
-          { message: 'Bonus holes must be unique' }
-        )
-      }).refine(
-        (data) => {
-          // Ensure no overlap between penalty and bonus holes
-          const penaltySet = new Set(data.penalty);
-          const overlap = data.bonus.some(hole => penaltySet.has(hole));
-          return !overlap;
-        },
-        { message: 'A hole cannot be both penalty and bonus' }
-      );
-      
+      const querySchema = z.object({
+        pointValue: z.string().optional().transform((val) => {
+          if (!val) return undefined;
+          const num = parseFloat(val);
+          if (isNaN(num) || num < 0) {
+            throw new Error('Point value must be a non-negative number');
+          }
+          return num;
+        })
+      });
+
       const { gameId } = paramsSchema.parse(req.params);
-      const girHoleConfig = bodySchema.parse(req.body);
-      
+      const { pointValue: pointValueFromQuery } = querySchema.parse(req.query);
+
       const game = await storage.getPointsGame(gameId);
       if (!game) {
-        return res.status(404).json({ message: 'GIR game not found' });
+        return res.status(404).json({ message: 'Wolf game not found' });
       }
-
-      // Verify this is a GIR game
-      if (game.gameType !== 'gir') {
-        return res.status(400).json({ message: 'This endpoint is only for GIR games' });
+      if (game.gameType !== 'wolf') {
+        return res.status(400).json({ message: 'This endpoint is only for Wolf games' });
       }
 
-      // Get group to verify user access
       const group = await storage.getGroup(game.groupId);
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
-      
-      // CRITICAL SECURITY: Verify user is owner of this group
-      if (group.createdBy !== userId) {
-        return res.status(403).json({ message: 'Access denied: Only the group creator can modify game data' });
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
       }
 
-      // Update the hole configuration
-      const updatedGame = await storage.updatePointsGame(gameId, {
-        girHoleConfig
-      });
+      const players = group.players;
+      const playerIds = players.map(p => p.id);
+      const pointValue = pointValueFromQuery ?? game.settings?.pointValue ?? 1;
+      const wolfHoles = (game.holes || {}) as unknown as Record<number, WolfHoleData>;
+      const wolfPoints = calculateWolfPoints(wolfHoles, playerIds);
+      const payouts = calculateWolfPointsGame(wolfHoles, playerIds, pointValue);
+
+      const whoOwesWho = await buildWhoOwesWho(payouts, group, game.gameStateId);
 
-      console.log(`✅ GIR hole configuration updated for game ${gameId}:`, girHoleConfig);
-      res.json(updatedGame);
+      // Upcoming wolves so the client can show the rotation
+      const roundHoles = getRoundHoles(await getRoundConfigForGame(game));
+      const teeOrder = resolveWolfTeeOrder(playerIds, game.settings?.wolfTeeOrder);
+      const wolfByHole = Object.fromEntries(roundHoles.map(hole => [hole, getWolfForHole(teeOrder, roundHoles, hole)]));
+
+      res.json({
+        whoOwesWho,
+        payouts,
+        wolfPoints,
+        wolfByHole,
+        teeOrder,
+        selectedGames: ['wolf'],
+        success: true,
+        totalTransactions: whoOwesWho.length,
+        summary: payouts,
+        cardGameDetails: null
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: 'Invalid hole configuration', 
-          errors: error.errors 
+        return res.status(400).json({
+          message: 'Invalid data',
+          errors: error.errors
         });
       }
-      console.error('Error updating GIR hole configuration:', error);
-      res.status(500).json({ message: 'Failed to update hole configuration' });
+      console.error('Error calculating Wolf payouts:', error);
+      res.status(500).json({ message: 'Failed to calculate Wolf payouts' });
     }
   });
 
@@ -2833,12 +4127,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // CRITICAL SECURITY: Verify user is owner of this group
-      if (group.createdBy !== userId) {
-        return res.status(403).json({ message: 'Access denied: Only the group creator can modify game data' });
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
       }
 
       const players = group.players;
       const payouts: Record<string, number> = {};
+      let presses: PressResult[] = [];
 
       // Initialize payouts
       players.forEach(player => {
@@ -2883,30 +4178,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       } else if (payoutMode === 'nassau' && nassauValue > 0) {
         // Nassau calculation for BBB (same logic as 2/9/16)
-        // Calculate point totals for Nassau
-        const front9Points: Record<string, number> = {};
-        const back9Points: Record<string, number> = {};
-        const totalPoints: Record<string, number> = {};
-        
-        players.forEach(player => {
-          front9Points[player.id] = 0;
-          back9Points[player.id] = 0;
-          totalPoints[player.id] = 0;
-          
-          for (let hole = 1; hole <= 18; hole++) {
-            const holePoints = game.points?.[hole]?.[player.id] || 0;
-            const points = typeof holePoints === 'number' ? holePoints : 0;
-            totalPoints[player.id] += points;
-            
-            if (hole <= 9) {
-              front9Points[player.id] += points;
-            } else {
-              back9Points[player.id] += points;
-            }
-          }
-        });
-
-        const segments = [front9Points, back9Points, totalPoints];
+        // Calculate point totals per round segment (front/back nines for a standard round)
+        const roundConfig = await getRoundConfigForGame(game);
+        const segments = sumPointsBySegment(
+          game.points || {},
+          players.map(p => p.id),
+          getNassauSegments(roundConfig)
+        );
         
         segments.forEach(segment => {
           const segmentPlayers = Object.keys(segment);
@@ -2928,16 +4206,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
             });
           }
         });
+
+        const pressResult = calculatePointsGamePresses(game, players.map(p => p.id), nassauValue, roundConfig);
+        presses = pressResult.presses;
+        for (const net of pressResult.nets) {
+          for (const [playerId, amount] of Object.entries(net)) payouts[playerId] += amount;
+        }
       }
 
       // Use canonical settlement logic to ensure consistency with 2/9/16 payouts
-      const whoOwesWho = settleWhoOwesWho(payouts).map(tx => ({
-        fromPlayerId: tx.from,
-        toPlayerId: tx.to,
-        amount: tx.amount,
-        fromPlayerName: players.find(p => p.id === tx.from)?.name || 'Unknown',
-        toPlayerName: players.find(p => p.id === tx.to)?.name || 'Unknown'
-      }));
+      const whoOwesWho = await buildWhoOwesWho(payouts, group, game.gameStateId);
 
       // Return same data structure as 2/9/16 payouts for consistency
       res.json({
@@ -2947,6 +4225,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: true,
         totalTransactions: whoOwesWho.length,
         summary: payouts,
+        presses,
         cardGameDetails: null
       });
     } catch (error) {
@@ -3030,8 +4309,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // CRITICAL SECURITY: Verify user is owner of this group
-      if (group.createdBy !== userId) {
-        return res.status(403).json({ message: 'Access denied: Only the group creator can modify game data' });
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
       }
 
       const players = group.players;
@@ -3045,25 +4324,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Use the canonical GIR calculation functions for dollar payouts
       let payouts: Record<string, number>;
+      let presses: PressResult[] = [];
 
       if (payoutMode === 'points' && pointValue > 0) {
         // Use calculateGIRPointsGame for points mode
         payouts = calculateGIRPointsGame(game.holes || {}, playerIds, pointValue, girHoleConfig);
       } else if (payoutMode === 'nassau' && nassauValue > 0) {
-        // Use calculateGIRNassauGame for Nassau mode
-        payouts = calculateGIRNassauGame(game.holes || {}, playerIds, nassauValue, girHoleConfig);
+        // Use calculateGIRNassauGame for Nassau mode, plus any presses
+        const roundConfig = await getRoundConfigForGame(game);
+        const pressResult = calculatePointsGamePresses(game, playerIds, nassauValue, roundConfig);
+        presses = pressResult.presses;
+        payouts = combineGames(
+          calculateGIRNassauGame(game.holes || {}, playerIds, nassauValue, girHoleConfig, roundConfig),
+          ...pressResult.nets
+        );
       } else {
         return res.status(400).json({ message: 'Invalid payout mode or value' });
       }
 
       // Use canonical settlement logic to ensure consistency
-      const whoOwesWho = settleWhoOwesWho(payouts).map(tx => ({
-        fromPlayerId: tx.from,
-        toPlayerId: tx.to,
-        amount: tx.amount,
-        fromPlayerName: players.find(p => p.id === tx.from)?.name || 'Unknown',
-        toPlayerName: players.find(p => p.id === tx.to)?.name || 'Unknown'
-      }));
+      const whoOwesWho = await buildWhoOwesWho(payouts, group, game.gameStateId);
 
       // Return same data structure as BBB/2916 payouts for consistency
       res.json({
@@ -3074,6 +4354,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: true,
         totalTransactions: whoOwesWho.length,
         summary: payouts,
+        presses,
         cardGameDetails: null
       });
     } catch (error) {
@@ -3089,8 +4370,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // 2/9/16 Who Owes Who calculation endpoint
-  app.get('/api/points-games/:gameId/who-owes-who', isAuthenticated, async (req, res) => {
+  app.get('/api/points-games/:gameId/who-owes-who', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const { gameId } = req.params;
       const { pointValue, payoutMode, nassauValue: nassauValueFromQuery, fbtValue: fbtValueFromQuery } = req.query;
       const nassauValue = nassauValueFromQuery || fbtValueFromQuery;
@@ -3104,10 +4386,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!group) {
         return res.status(404).json({ message: 'Group not found' });
       }
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
 
       // Calculate payouts based on the mode
       const players = group.players;
       let payouts: Record<string, number> = {};
+      let presses: PressResult[] = [];
+
+      // Gross and (in net mode) handicap-adjusted strokes for every entered hole in this round
+      const roundConfig = await getRoundConfigForGame(game);
+      const roundHoles = getRoundHoles(roundConfig);
+      const strokeIndex = game.settings?.scoringMode === 'net' ? game.settings.strokeIndex : undefined;
+      const grossHoles: Record<number, Record<string, number>> = {};
+      const netHoles: Record<number, Record<string, number>> = {};
+      const grossTotals: Record<string, number> = {};
+      const netTotals: Record<string, number> = {};
+      players.forEach(player => {
+        grossTotals[player.id] = 0;
+        netTotals[player.id] = 0;
+      });
+      for (const hole of roundHoles) {
+        grossHoles[hole] = {};
+        players.forEach(player => {
+          const raw = game.holes?.[hole]?.[player.id];
+          const strokes = typeof raw === 'number' ? raw : parseInt(raw as string) || 0;
+          if (strokes > 0) grossHoles[hole][player.id] = strokes;
+        });
+        netHoles[hole] = strokeIndex
+          ? calculateNetHoleScores(grossHoles[hole], players, hole, strokeIndex)
+          : grossHoles[hole];
+        for (const [playerId, strokes] of Object.entries(grossHoles[hole])) {
+          grossTotals[playerId] += strokes;
+          netTotals[playerId] += netHoles[hole][playerId];
+        }
+      }
 
       if (payoutMode === 'points' && pointValue) {
         // Points-based payouts - Each player compares to every other player
@@ -3155,52 +4469,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
           payouts[player.id] = 0;
         });
 
-        // Calculate stroke totals
-        const front9Strokes: Record<string, number> = {};
-        const back9Strokes: Record<string, number> = {};
-        const totalStrokes: Record<string, number> = {};
-        
-        players.forEach(player => {
-          front9Strokes[player.id] = 0;
-          back9Strokes[player.id] = 0;
-          totalStrokes[player.id] = 0;
-          
-          for (let hole = 1; hole <= 18; hole++) {
-            const holeStrokesRaw = game.holes?.[hole]?.[player.id] || 0;
-            // For 2/9/16 games, ensure we're working with numbers
-            const holeStrokes = typeof holeStrokesRaw === 'number' ? holeStrokesRaw : parseInt(holeStrokesRaw as string) || 0;
-            totalStrokes[player.id] += holeStrokes;
-            
-            if (hole <= 9) {
-              front9Strokes[player.id] += holeStrokes;
-            } else {
-              back9Strokes[player.id] += holeStrokes;
-            }
-          }
-        });
+        // Stroke totals per round segment (front/back nines for a standard round) plus the total.
+        // Net mode settles Nassau segments on handicap-adjusted strokes.
+        const segmentStrokes = sumPointsBySegment(netHoles, players.map(p => p.id), getNassauSegments(roundConfig));
 
         // FBT Algorithm: Each segment is a separate fixed pot game
         // Convert strokes to points (higher points = better performance for FBT)
-        const front9Points: Record<string, number> = {};
-        const back9Points: Record<string, number> = {};
-        const totalPoints: Record<string, number> = {};
-        
-        players.forEach(player => {
-          // For FBT, we need to convert strokes to points where lower strokes = higher points
-          // We'll use negative strokes so that Math.max gives us the winner (lowest stroke count)
-          if (front9Strokes[player.id] > 0) {
-            front9Points[player.id] = -front9Strokes[player.id];
-          }
-          if (back9Strokes[player.id] > 0) {
-            back9Points[player.id] = -back9Strokes[player.id];  
-          }
-          if (totalStrokes[player.id] > 0) {
-            totalPoints[player.id] = -totalStrokes[player.id];
-          }
+        // We'll use negative strokes so that Math.max gives us the winner (lowest stroke count)
+        const segments = segmentStrokes.map(strokes => {
+          const segmentPoints: Record<string, number> = {};
+          players.forEach(player => {
+            if (strokes[player.id] > 0) {
+              segmentPoints[player.id] = -strokes[player.id];
+            }
+          });
+          return segmentPoints;
         });
 
-        const segments = [front9Points, back9Points, totalPoints];
-        
         segments.forEach(segment => {
           const segmentPlayers = Object.keys(segment);
           if (segmentPlayers.length === 0) return;
@@ -3227,24 +4512,152 @@ export async function registerRoutes(app: Express): Promise<Server> {
             payouts[loser] -= loseShare;
           });
         });
+
+        // Presses are settled hole-by-hole on the same (net-aware) 2/9/16 hole points
+        const pressResult = calculatePointsGamePresses(game, players.map(p => p.id), nassauValueNum, roundConfig);
+        presses = pressResult.presses;
+        for (const net of pressResult.nets) {
+          for (const [playerId, amount] of Object.entries(net)) payouts[playerId] += amount;
+        }
       }
 
       // Calculate Who Owes Who using canonical settlement logic
-      const whoOwesWho = settleWhoOwesWho(payouts).map(tx => ({
-        fromPlayerId: tx.from,
-        toPlayerId: tx.to,
-        amount: tx.amount,
-        fromPlayerName: players.find(p => p.id === tx.from)?.name || 'Unknown',
-        toPlayerName: players.find(p => p.id === tx.to)?.name || 'Unknown'
-      }));
+      const whoOwesWho = await buildWhoOwesWho(payouts, group, game.gameStateId);
 
-      res.json({ whoOwesWho, payouts });
+      res.json({
+        whoOwesWho,
+        payouts,
+        scoringMode: strokeIndex ? 'net' : 'gross',
+        strokeTotals: { gross: grossTotals, net: strokeIndex ? netTotals : null },
+        presses
+      });
     } catch (error) {
       console.error('Error calculating 2/9/16 who owes who:', error);
       res.status(500).json({ message: 'Failed to calculate who owes who' });
     }
   });
 
+  // Stableford points and payouts from the 2/9/16 strokes (needs a course for par)
+  app.get('/api/points-games/:gameId/stableford', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const paramsSchema = z.object({
+        gameId: z.string().uuid('Invalid game ID format')
+      });
+      const querySchema = z.object({
+        stablefordValue: z.string().optional().transform((val) => {
+          if (!val) return undefined;
+          const num = parseFloat(val);
+          if (isNaN(num) || num < 0) {
+            throw new Error('Stableford value must be a non-negative number');
+          }
+          return num;
+        })
+      });
+
+      const { gameId } = paramsSchema.parse(req.params);
+      const { stablefordValue: stablefordValueFromQuery } = querySchema.parse(req.query);
+
+      const game = await storage.getPointsGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: 'Points game not found' });
+      }
+      if (game.gameType !== 'points') {
+        return res.status(400).json({ message: 'Stableford is scored from Sacramento (916) strokes' });
+      }
+
+      const group = await storage.getGroup(game.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+
+      const stableford = await scoreStablefordGame(game, group.players);
+      if (!stableford) {
+        return res.status(400).json({ message: 'Stableford needs par for every hole - attach a course to this round first' });
+      }
+
+      const players = group.players;
+      const settings = game.settings || {};
+      const stablefordValue = stablefordValueFromQuery ?? settings.stablefordValue ?? 0;
+      const settlement = settings.stablefordSettlement ?? 'pairwise';
+      const payouts = calculateStablefordGame(stableford.totals, stablefordValue, settlement);
+
+      const whoOwesWho = await buildWhoOwesWho(payouts, group, game.gameStateId);
+
+      res.json({
+        whoOwesWho,
+        payouts,
+        stableford,
+        table: settings.stablefordTable ?? 'standard',
+        settlement,
+        stablefordValue,
+        scoringMode: settings.scoringMode === 'net' && settings.strokeIndex ? 'net' : 'gross'
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: 'Invalid data',
+          errors: error.errors
+        });
+      }
+      console.error('Error calculating Stableford payouts:', error);
+      res.status(500).json({ message: 'Failed to calculate Stableford payouts' });
+    }
+  });
+
+  // Team best ball / aggregate bets and payouts from the 2/9/16 strokes
+  app.get('/api/points-games/:gameId/teams', isAuthenticated, subscriptionProtected, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const paramsSchema = z.object({
+        gameId: z.string().uuid('Invalid game ID format')
+      });
+      const { gameId } = paramsSchema.parse(req.params);
+
+      const game = await storage.getPointsGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: 'Points game not found' });
+      }
+      if (game.gameType !== 'points') {
+        return res.status(400).json({ message: 'Team bets are scored from Sacramento (916) strokes' });
+      }
+
+      const group = await storage.getGroup(game.groupId);
+      if (!group) {
+        return res.status(404).json({ message: 'Group not found' });
+      }
+      if (!(await getGroupRole(group.id, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+
+      const teams = game.settings?.teams ?? null;
+      const bets = await scoreTeamGame(game, group.players);
+      if (!teams || !bets) {
+        return res.json({ teams: null, bets: [], payouts: {}, whoOwesWho: [] });
+      }
+
+      const players = group.players;
+      const payouts = calculateTeamGame(bets, teams.value);
+      const whoOwesWho = await buildWhoOwesWho(payouts, group, game.gameStateId);
+
+      res.json({ teams, bets, payouts, whoOwesWho });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          message: 'Invalid data',
+          errors: error.errors
+        });
+      }
+      console.error('Error calculating team payouts:', error);
+      res.status(500).json({ message: 'Failed to calculate team payouts' });
+    }
+  });
+
   // REMOVED: Legacy FBT endpoint - use /api/calculate-combined-games with selectedGames: ["fbt"]
 
   // REMOVED: Legacy points endpoint - use /api/calculate-combined-games with selectedGames: ["points"]
@@ -3273,26 +4686,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const group = await storage.getGroup(groupId);
+      if (!group) return res.status(404).json({ message: 'Group not found' });
+      const role = await getGroupRole(group.id, userId);
+      if (!role) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
+      // Saved results feed the ledger and finalization, so only scorers may save them
+      if (saveResults && role !== 'owner' && role !== 'scorer') {
+        return res.status(403).json({ message: 'Access denied: Only group owners and scorers can save payouts' });
+      }
       const gameState = gameStateId ? await storage.getGameStateById(gameStateId) : null;
       const pointsGame = pointsGameId ? await storage.getPointsGame(pointsGameId) : null;
+      // The round and game must belong to the group whose membership was checked
+      if ((gameState && gameState.groupId !== group.id) || (pointsGame && pointsGame.groupId !== group.id)) {
+        return res.status(404).json({ message: 'Game not found in this group' });
+      }
+      // A finalized round keeps the payouts it was locked with
+      if (saveResults) {
+        if (gameState) requireOpenRound(gameState);
+        else if (pointsGame) await requireOpenRoundForGame(pointsGame);
+      }
+      // Round layout drives every Nassau segment below
+      const roundConfig = gameState ? gameState.roundConfig : (pointsGame ? await getRoundConfigForGame(pointsGame) : null);
       
       // FIX: For mixed game scenarios, fetch ALL points games to access both types
       let allPointsGames = [];
       let regular2916Game = null;
       let bbbGame = null;
       let girGame = null;
+      let skinsGame = null;
+      let wolfGame = null;
       
       // Always fetch all games if we have BBB/GIR games OR mixed scenarios
       const hasBBBGames = selectedGames.includes('bbb-points') || selectedGames.includes('bbb-nassau') || selectedGames.includes('bbb-fbt');
       const hasGIRGames = selectedGames.includes('gir-points') || selectedGames.includes('gir-nassau');
-      const hasRegularGames = selectedGames.includes('points') || selectedGames.includes('nassau') || selectedGames.includes('fbt');
+      const hasSkinsGames = selectedGames.includes('skins');
+      const hasWolfGames = selectedGames.includes('wolf');
+      const hasRegularGames = selectedGames.includes('points') || selectedGames.includes('nassau') || selectedGames.includes('fbt') || selectedGames.includes('stableford') || selectedGames.includes('teams');
       
-      if (hasBBBGames || hasRegularGames || hasGIRGames) {
+      if (hasBBBGames || hasRegularGames || hasGIRGames || hasSkinsGames || hasWolfGames) {
         // Fetch all games to handle both individual and mixed scenarios - FIXED: pass gameStateId
         allPointsGames = await storage.getPointsGames(groupId, gameStateId || undefined);
         regular2916Game = allPointsGames.find(g => g.gameType === 'points');
         bbbGame = allPointsGames.find(g => g.gameType === 'bbb');
         girGame = allPointsGames.find(g => g.gameType === 'gir');
+        skinsGame = allPointsGames.find(g => g.gameType === 'skins');
+        wolfGame = allPointsGames.find(g => g.gameType === 'wolf');
         console.log('🔍 MULTI-GAME FETCH - fetched games:', {
           regular2916GameId: regular2916Game?.id,
           bbbGameId: bbbGame?.id,
@@ -3317,10 +4756,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         bbbGameId: bbbGame?.id,
         girGameId: girGame?.id
       });
-      if (!group) return res.status(404).json({ message: 'Group not found' });
 
       const nets: Record<string, number>[] = [];
       const activeGames: string[] = [];
+      const pressesByGame: Record<string, PressResult[]> = {}; // Nassau presses per Nassau game, each press is its own net
+      let skinsDetails: { skinsWon: Record<string, number>; carryover: number; skinValue: number } | null = null;
+      let stablefordDetails: { totals: Record<string, number>; stablefordValue: number; settlement: 'pairwise' | 'ladder' } | null = null;
       let cardGameDetails: any = null;
 
       // CARDS
@@ -3363,8 +4804,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ...regularGameForNassau,
           points: regularGameForNassau.points || undefined
         };
-        nets.push(buildNassauNetsFromPointsGame(group.players, pointsGameForNassau, parseFloat(nassauValue)));
+        nets.push(buildNassauNetsFromPointsGame(group.players, pointsGameForNassau, parseFloat(nassauValue), roundConfig));
         activeGames.push('nassau');
+
+        const pressResult = calculatePointsGamePresses(regularGameForNassau, group.players.map(p => p.id), parseFloat(nassauValue), roundConfig);
+        nets.push(...pressResult.nets);
+        pressesByGame.nassau = pressResult.presses;
       }
 
       // BBB POINTS
@@ -3416,11 +4861,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           bbbHoleData: JSON.stringify(bbbHoleData, null, 2)
         });
         
-        const bbbNassauResult = calculateBBBNassauGame(bbbHoleData, playerIds, parseFloat(nassauValue));
+        const bbbNassauResult = calculateBBBNassauGame(bbbHoleData, playerIds, parseFloat(nassauValue), roundConfig);
         console.log('🔍 BBB NASSAU RESULT (UPDATED):', bbbNassauResult);
         
         nets.push(bbbNassauResult);
         activeGames.push('bbb-nassau');
+
+        const pressResult = calculatePointsGamePresses(bbbGameForNassau, playerIds, parseFloat(nassauValue), roundConfig);
+        nets.push(...pressResult.nets);
+        pressesByGame['bbb-nassau'] = pressResult.presses;
       }
 
       // GIR POINTS
@@ -3478,11 +4927,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
           nassauValue: girGameForNassau.settings?.nassauValue
         });
         
-        const girNassauResult = calculateGIRNassauGame(girHoleData, playerIds, parseFloat(String(girGameForNassau.settings?.nassauValue || 10)), girHoleConfig);
+        const girNassauResult = calculateGIRNassauGame(girHoleData, playerIds, parseFloat(String(girGameForNassau.settings?.nassauValue || 10)), girHoleConfig, roundConfig);
         console.log('🔍 GIR NASSAU RESULT:', girNassauResult);
         
         nets.push(girNassauResult);
         activeGames.push('gir-nassau');
+
+        const pressResult = calculatePointsGamePresses(girGameForNassau, playerIds, parseFloat(String(girGameForNassau.settings?.nassauValue || 10)), roundConfig);
+        nets.push(...pressResult.nets);
+        pressesByGame['gir-nassau'] = pressResult.presses;
+      }
+
+      // SKINS
+      const skinsGameForPayout = skinsGame || (pointsGame?.gameType === 'skins' ? pointsGame : null);
+      if (selectedGames.includes('skins') && skinsGameForPayout) {
+        const skinValue = parseFloat(String(skinsGameForPayout.settings?.skinValue ?? 1));
+        if (skinValue > 0) {
+          const skins = await scoreSkinsGame(skinsGameForPayout, group.players);
+          nets.push(calculateSkinsGame(skins.skinsWon, skinValue));
+          activeGames.push('skins');
+          skinsDetails = { skinsWon: skins.skinsWon, carryover: skins.carryover, skinValue };
+        }
+      }
+
+      // WOLF
+      const wolfGameForPayout = wolfGame || (pointsGame?.gameType === 'wolf' ? pointsGame : null);
+      if (selectedGames.includes('wolf') && wolfGameForPayout) {
+        const wolfPointValue = parseFloat(String(wolfGameForPayout.settings?.pointValue ?? 1));
+        if (wolfPointValue > 0) {
+          const wolfHoles = (wolfGameForPayout.holes || {}) as unknown as Record<number, WolfHoleData>;
+          nets.push(calculateWolfPointsGame(wolfHoles, group.players.map(p => p.id), wolfPointValue));
+          activeGames.push('wolf');
+        }
+      }
+
+      // STABLEFORD (scored from the regular 2/9/16 strokes; skipped without course par)
+      const regularGameForStableford = regular2916Game || (pointsGame?.gameType === 'points' ? pointsGame : null);
+      if (selectedGames.includes('stableford') && regularGameForStableford) {
+        const stablefordValue = parseFloat(String(regularGameForStableford.settings?.stablefordValue ?? 0));
+        const stableford = stablefordValue > 0 ? await scoreStablefordGame(regularGameForStableford, group.players) : null;
+        if (stableford) {
+          const settlement = regularGameForStableford.settings?.stablefordSettlement ?? 'pairwise';
+          nets.push(calculateStablefordGame(stableford.totals, stablefordValue, settlement));
+          activeGames.push('stableford');
+          stablefordDetails = { totals: stableford.totals, stablefordValue, settlement };
+        }
+      }
+
+      // TEAMS (best ball / aggregate sides on the regular 2/9/16 strokes)
+      const regularGameForTeams = regular2916Game || (pointsGame?.gameType === 'points' ? pointsGame : null);
+      const teamSettings = regularGameForTeams?.settings?.teams;
+      if (selectedGames.includes('teams') && regularGameForTeams && teamSettings && teamSettings.value > 0) {
+        const bets = await scoreTeamGame(regularGameForTeams, group.players);
+        if (bets) {
+          nets.push(calculateTeamGame(bets, teamSettings.value));
+          activeGames.push('teams');
+        }
       }
 
       // Step 2: Combine nets by player KEY (canonical 3-step pipeline)
@@ -3496,11 +4996,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('🔍 COMBINED RESULT:', combinedNet);
       
       // Step 3: Generate settlement from combined nets only (canonical pathway)
-      const transactions = generateSettlement(combinedNet).map(t => {
+      const namedTransactions = generateSettlement(combinedNet).map(t => {
         const fromPlayer = group.players.find(p => p.id === t.from);
         const toPlayer = group.players.find(p => p.id === t.to);
         return { ...t, fromName: fromPlayer?.name || 'Unknown', toName: toPlayer?.name || 'Unknown' };
       });
+      const paymentMemo = await getRoundPaymentMemo(group, gameStateId || pointsGame?.gameStateId);
+      const transactions = await addPaymentOptions(group, paymentMemo, namedTransactions, t => t.to);
       
       console.log('🔍 FINAL TRANSACTIONS:', transactions);
 
@@ -3511,6 +5013,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         success: true,
         totalTransactions: transactions.length,
         summary: combinedNet,
+        presses: pressesByGame,
+        skinsDetails,
+        stablefordDetails,
         cardGameDetails: cardGameDetails // Include detailed card game data for UI
       };
 
@@ -3548,15 +5053,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(result);
     } catch (error) {
+      if (error instanceof GameCommandError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Combined games calculation error:', error);
       res.status(500).json({ message: 'Failed to calculate combined games' });
     }
   });
 
   // V6.5: Get saved combined payout results
-  app.get('/api/combined-payout-results/:groupId', isAuthenticated, async (req, res) => {
+  app.get('/api/combined-payout-results/:groupId', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const { groupId } = req.params;
+      if (!(await getGroupRole(groupId, userId))) {
+        return res.status(403).json({ message: 'Access denied: You are not a member of this group' });
+      }
       const { gameStateId, pointsGameId } = req.query;
       
       const result = await storage.getCombinedPayoutResult(
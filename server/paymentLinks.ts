@@ -0,0 +1,44 @@
+import { storage } from "./storage.js";
+import { settleWhoOwesWho } from "@shared/gameLogic";
+import { buildPaymentMemo, buildPaymentOptions } from "@shared/paymentLinks";
+import type { Group, PaymentHandles, PaymentOption, WhoOwesWhoLeg } from "@shared/schema";
+
+// Payment handles of the accounts linked to the given players
+async function getPlayerHandles(group: Group, playerIds: string[]): Promise<Record<string, PaymentHandles>> {
+  const userIdByPlayer = new Map(group.players.filter(p => p.userId && playerIds.includes(p.id)).map(p => [p.id, p.userId!]));
+  const handlesByUser = await storage.getPaymentHandles(Array.from(new Set(userIdByPlayer.values())));
+  return Object.fromEntries(
+    Array.from(userIdByPlayer.entries())
+      .filter(([, userId]) => handlesByUser[userId])
+      .map(([playerId, userId]) => [playerId, handlesByUser[userId]])
+  );
+}
+
+// Memo for payments from a round: the session's name and the day it was played
+export async function getRoundPaymentMemo(group: Group, gameStateId?: string | null): Promise<string> {
+  const gameState = gameStateId ? await storage.getGameStateById(gameStateId) : undefined;
+  return buildPaymentMemo(gameState?.name ?? group.name, gameState?.createdAt ?? new Date());
+}
+
+// Adds pay links for each leg's recipient
+export async function addPaymentOptions<T extends { amount: number }>(
+  group: Group,
+  memo: string,
+  legs: T[],
+  recipientOf: (leg: T) => string
+): Promise<Array<T & { memo: string; paymentOptions: PaymentOption[] }>> {
+  const handles = await getPlayerHandles(group, legs.map(recipientOf));
+  return legs.map(leg => ({ ...leg, memo, paymentOptions: buildPaymentOptions(handles[recipientOf(leg)], leg.amount, memo) }));
+}
+
+// Who-owes-who legs for a set of nets, named and with pay links
+export async function buildWhoOwesWho(net: Record<string, number>, group: Group, gameStateId?: string | null): Promise<WhoOwesWhoLeg[]> {
+  const legs = settleWhoOwesWho(net).map(tx => ({
+    fromPlayerId: tx.from,
+    toPlayerId: tx.to,
+    amount: tx.amount,
+    fromPlayerName: group.players.find(p => p.id === tx.from)?.name || 'Unknown',
+    toPlayerName: group.players.find(p => p.id === tx.to)?.name || 'Unknown'
+  }));
+  return addPaymentOptions(group, await getRoundPaymentMemo(group, gameStateId), legs, leg => leg.toPlayerId);
+}
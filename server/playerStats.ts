@@ -0,0 +1,186 @@
+import { storage } from "./storage.js";
+import { BBB_CATEGORIES, type GameState, type Group, type Player, type PlayerStats, type PlayerStatsReport, type PointsGame, type RateStat } from "@shared/schema";
+
+// Player statistics, computed from stored rounds on every request. A round is a game
+// session with its points games; points games saved without a session count on their own.
+
+export interface PlayerStatsFilters {
+  from?: Date;
+  to?: Date;
+  season?: number;
+}
+
+interface Round {
+  group: Group;
+  playedAt: Date;
+  gameState: GameState | null;
+  pointsGames: PointsGame[];
+  net: Record<string, number>; // Latest saved payout result (empty if payouts were never saved)
+}
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+const emptyRate = (): RateStat => ({ count: 0, opportunities: 0, rate: null });
+
+const addToRate = (stat: RateStat, hit: boolean) => {
+  stat.opportunities++;
+  if (hit) stat.count++;
+  stat.rate = stat.count / stat.opportunities;
+};
+
+// Linked players are the same person in every group; everyone else is per group
+const playerKey = (group: Group, player: Player) => player.userId ?? `${group.id}:${player.id}`;
+
+async function loadRounds(groups: Group[]): Promise<Round[]> {
+  const payoutResults = await storage.getCombinedPayoutResultsByGroups(groups.map(group => group.id));
+  const netFor = (key: string) => {
+    // Results come newest first, so the first match is the one the group last saved
+    const result = payoutResults.find(r => (r.gameStateId ?? r.pointsGameId) === key);
+    return result?.calculationResult.summary ?? {};
+  };
+
+  const rounds: Round[] = [];
+  for (const group of groups) {
+    const [gameStates, pointsGames] = await Promise.all([
+      storage.getGameStates(group.id),
+      storage.getPointsGamesByGroup(group.id),
+    ]);
+    for (const gameState of gameStates) {
+      rounds.push({
+        group,
+        playedAt: gameState.createdAt,
+        gameState,
+        pointsGames: pointsGames.filter(game => game.gameStateId === gameState.id),
+        net: netFor(gameState.id),
+      });
+    }
+    for (const game of pointsGames.filter(game => !game.gameStateId)) {
+      rounds.push({ group, playedAt: game.createdAt ?? new Date(0), gameState: null, pointsGames: [game], net: netFor(game.id) });
+    }
+  }
+  return rounds;
+}
+
+// Players who took part: scored, held a card, or won or lost money
+function roundParticipants(round: Round): Player[] {
+  const ids = new Set<string>();
+  round.gameState?.cardHistory.forEach(assignment => ids.add(assignment.playerId));
+  for (const game of round.pointsGames) {
+    Object.values(game.points ?? {}).forEach(holePoints => Object.keys(holePoints).forEach(id => ids.add(id)));
+  }
+  Object.entries(round.net).forEach(([id, amount]) => {
+    if (amount !== 0) ids.add(id);
+  });
+  return round.group.players.filter(player => ids.has(player.id));
+}
+
+function newPlayerStats(key: string, player: Player): PlayerStats {
+  return {
+    key,
+    userId: player.userId ?? null,
+    name: player.name,
+    initials: player.initials,
+    color: player.color,
+    groupIds: [],
+    roundsPlayed: 0,
+    games2916: 0,
+    average2916Points: null,
+    gir: { ...emptyRate(), byHole: {} },
+    bbb: { firstOn: emptyRate(), closestTo: emptyRate(), firstIn: emptyRate() },
+    cards: [],
+    netWinnings: 0,
+    seasonNet: 0,
+    lifetimeNet: 0,
+  };
+}
+
+// Adds a counted round to the player's stats and returns their 2/9/16 points from it
+function addRoundStats(stats: PlayerStats, round: Round, player: Player): number {
+  let points2916 = 0;
+  stats.roundsPlayed++;
+  if (!stats.groupIds.includes(round.group.id)) stats.groupIds.push(round.group.id);
+
+  for (const game of round.pointsGames) {
+    if (game.gameType === 'points') {
+      const holes = Object.values(game.points ?? {}).filter(holePoints => player.id in holePoints);
+      if (holes.length > 0) {
+        stats.games2916++;
+        points2916 += holes.reduce((sum, holePoints) => sum + holePoints[player.id], 0);
+      }
+    } else if (game.gameType === 'gir') {
+      for (const [hole, holeData] of Object.entries(game.holes ?? {})) {
+        if (!(player.id in holeData)) continue;
+        const hit = Boolean(holeData[player.id]);
+        addToRate(stats.gir, hit);
+        if (!stats.gir.byHole[Number(hole)]) stats.gir.byHole[Number(hole)] = emptyRate();
+        addToRate(stats.gir.byHole[Number(hole)], hit);
+      }
+    } else if (game.gameType === 'bbb') {
+      for (const holeData of Object.values(game.holes ?? {})) {
+        for (const category of BBB_CATEGORIES) {
+          const winner = holeData[category];
+          if (winner && winner !== 'none') addToRate(stats.bbb[category], winner === player.id);
+        }
+      }
+    }
+  }
+
+  for (const assignment of round.gameState?.cardHistory ?? []) {
+    if (assignment.playerId !== player.id) continue;
+    const card = stats.cards.find(c => c.type === assignment.cardType && c.name === assignment.cardName);
+    if (card) card.count++;
+    else stats.cards.push({ type: assignment.cardType, name: assignment.cardName, emoji: assignment.cardEmoji, count: 1 });
+  }
+  return points2916;
+}
+
+export async function buildPlayerStats(groups: Group[], filters: PlayerStatsFilters): Promise<PlayerStatsReport> {
+  const season = filters.season ?? new Date().getFullYear();
+  const inRange = (date: Date) => (!filters.from || date >= filters.from) && (!filters.to || date <= filters.to);
+
+  const rounds = await loadRounds(groups);
+  const players = new Map<string, PlayerStats>();
+  const points2916 = new Map<string, number>();
+  let roundsCounted = 0;
+
+  // Oldest first, so a player's name and color come from the latest round they played
+  for (const round of rounds.sort((a, b) => a.playedAt.getTime() - b.playedAt.getTime())) {
+    const counted = inRange(round.playedAt);
+    if (counted) roundsCounted++;
+
+    for (const player of roundParticipants(round)) {
+      const key = playerKey(round.group, player);
+      const stats = players.get(key) ?? newPlayerStats(key, player);
+      Object.assign(stats, { name: player.name, initials: player.initials, color: player.color });
+      players.set(key, stats);
+
+      const net = round.net[player.id] ?? 0;
+      stats.lifetimeNet += net;
+      if (round.playedAt.getFullYear() === season) stats.seasonNet += net;
+      if (!counted) continue;
+
+      stats.netWinnings += net;
+      points2916.set(key, (points2916.get(key) ?? 0) + addRoundStats(stats, round, player));
+    }
+  }
+
+  const results = Array.from(players.values()).map(stats => ({
+    ...stats,
+    average2916Points: stats.games2916 > 0 ? round2(points2916.get(stats.key)! / stats.games2916) : null,
+    cards: stats.cards.sort((a, b) => b.count - a.count),
+    netWinnings: round2(stats.netWinnings),
+    seasonNet: round2(stats.seasonNet),
+    lifetimeNet: round2(stats.lifetimeNet),
+  }));
+
+  return {
+    groups: groups.map(group => ({ id: group.id, name: group.name })),
+    from: filters.from?.toISOString() ?? null,
+    to: filters.to?.toISOString() ?? null,
+    season,
+    roundsCounted,
+    players: results
+      .filter(stats => stats.roundsPlayed > 0 || stats.lifetimeNet !== 0)
+      .sort((a, b) => b.roundsPlayed - a.roundsPlayed || a.name.localeCompare(b.name)),
+  };
+}
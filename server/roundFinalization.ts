@@ -0,0 +1,127 @@
+import { storage } from "./storage.js";
+import { GameCommandError, emitStateChange, roundEvents, type EditSource } from "./gameCommands.js";
+import { recordLedgerRound } from "./settlementLedger.js";
+import { findMissingHoles, getRoundHoles } from "@shared/gameLogic";
+import type { GameEventAction, GameState } from "@shared/schema";
+
+// Finalizing a round locks it once the money is settled: every hole must be in, the saved payouts
+// are snapshotted onto the round and recorded in the group's ledger, and hole and card edits are
+// refused (423) until an owner reopens it. Both steps are written to the round's history.
+
+const loadRound = async (gameStateId: string) => {
+  const gameState = await storage.getGameStateById(gameStateId);
+  if (!gameState) {
+    throw new GameCommandError(404, 'Game state not found');
+  }
+  const group = await storage.getGroup(gameState.groupId);
+  if (!group) {
+    throw new GameCommandError(404, 'Group not found');
+  }
+  return { gameState, group };
+};
+
+async function recordStatusChange(userId: string, source: EditSource | undefined, action: GameEventAction, summary: string, before: GameState, after: GameState) {
+  const snapshot = (gameState: GameState) => ({ finalizedAt: gameState.finalizedAt, finalSettlement: gameState.finalSettlement });
+  await storage.createGameEvent({
+    groupId: after.groupId,
+    gameStateId: after.id,
+    userId,
+    deviceId: source?.deviceId ?? null,
+    userAgent: source?.userAgent ?? null,
+    action,
+    summary,
+    before: snapshot(before),
+    after: snapshot(after),
+  });
+  roundEvents.emit('edit', after.id);
+  emitStateChange(userId, action, after);
+}
+
+export async function finalizeRound(userId: string, gameStateId: string, source?: EditSource): Promise<GameState> {
+  const { gameState, group } = await loadRound(gameStateId);
+  const role = await storage.getUserGroupRole(group.id, userId);
+  if (role !== 'owner' && role !== 'scorer') {
+    throw new GameCommandError(403, 'Access denied: Only group owners and scorers can finalize a round');
+  }
+  if (gameState.finalizedAt) {
+    throw new GameCommandError(409, 'This round is already finalized');
+  }
+
+  // Side games nobody scored are left out; the main 2/9/16 game and any game that was started must be complete
+  const roundHoles = getRoundHoles(gameState.roundConfig);
+  const playerIds = group.players.map(player => player.id);
+  const pointsGames = await storage.getPointsGames(group.id, gameState.id);
+  const incomplete = pointsGames
+    .filter(game => game.gameType === 'points' || Object.keys(game.holes || {}).length > 0)
+    .map(game => ({ game, missing: findMissingHoles(game, playerIds, roundHoles) }))
+    .filter(({ missing }) => missing.length > 0);
+  if (incomplete.length > 0) {
+    const details = incomplete.map(({ game, missing }) => `${game.name} is missing hole${missing.length === 1 ? '' : 's'} ${missing.join(', ')}`);
+    throw new GameCommandError(400, `Enter every hole before finalizing: ${details.join('; ')}`);
+  }
+
+  const payoutResult = await storage.getCombinedPayoutResult(group.id, gameState.id);
+  if (!payoutResult) {
+    throw new GameCommandError(400, "Save this round's payouts before finalizing it");
+  }
+  // Any write to a side game (scores, settings, hole config, presses) bumps its updatedAt
+  const lastEdit = (await storage.getGameEvents(gameState.id)).find(event => event.action !== 'finalize' && event.action !== 'reopen');
+  const changedSinceSave = (lastEdit && lastEdit.createdAt > payoutResult.createdAt)
+    || pointsGames.some(game => game.updatedAt && game.updatedAt > payoutResult.createdAt);
+  if (changedSinceSave) {
+    throw new GameCommandError(409, 'Scores changed after the payouts were saved. Save the payouts again before finalizing.');
+  }
+
+  // Re-finalizing after a reopen replaces the round's ledger entries when the payouts changed,
+  // unless payments were already recorded against them
+  const roundEntries = (await storage.getLedgerEntries(group.id)).filter(entry => entry.gameStateId === gameState.id);
+  const replaceLedger = roundEntries.length > 0 && roundEntries.some(entry => entry.payoutResultId !== payoutResult.id);
+  if (replaceLedger) {
+    const roundEntryIds = new Set(roundEntries.map(entry => entry.id));
+    const payments = await storage.getLedgerPayments(group.id);
+    if (payments.some(payment => payment.entryId && roundEntryIds.has(payment.entryId))) {
+      throw new GameCommandError(409, "Payments have been recorded against this round's ledger entries, so its new payouts can't replace them. Remove those payments first.");
+    }
+  }
+
+  const finalized = await storage.setGameStateFinalized(gameState.id, {
+    finalizedAt: new Date(),
+    finalizedBy: userId,
+    finalSettlement: {
+      payoutResultId: payoutResult.id,
+      selectedGames: payoutResult.selectedGames,
+      transactions: payoutResult.calculationResult.transactions,
+      summary: payoutResult.calculationResult.summary,
+    },
+  });
+  if (!finalized) {
+    throw new GameCommandError(404, 'Game state not found');
+  }
+
+  if (replaceLedger) {
+    await storage.deleteLedgerRound(group.id, gameState.id);
+  }
+  if (roundEntries.length === 0 || replaceLedger) {
+    await recordLedgerRound(userId, group, finalized);
+  }
+
+  await recordStatusChange(userId, source, 'finalize', 'Finalized the round', gameState, finalized);
+  return finalized;
+}
+
+export async function reopenRound(userId: string, gameStateId: string, source?: EditSource): Promise<GameState> {
+  const { gameState, group } = await loadRound(gameStateId);
+  if (await storage.getUserGroupRole(group.id, userId) !== 'owner') {
+    throw new GameCommandError(403, 'Access denied: Only group owners can reopen a finalized round');
+  }
+  if (!gameState.finalizedAt) {
+    throw new GameCommandError(409, 'This round is not finalized');
+  }
+
+  const reopened = await storage.setGameStateFinalized(gameState.id, { finalizedAt: null, finalizedBy: null, finalSettlement: null });
+  if (!reopened) {
+    throw new GameCommandError(404, 'Game state not found');
+  }
+  await recordStatusChange(userId, source, 'reopen', 'Reopened the round', gameState, reopened);
+  return reopened;
+}
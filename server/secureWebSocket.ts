@@ -1,12 +1,15 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { Server, IncomingMessage } from 'http';
 import { verifyRoomToken } from './replitAuth.js';
 import { storage } from './storage.js';
+import { gameCommandSchema, runGameCommand, describeCommandError, roundEvents, type RoundStateChange } from './gameCommands.js';
 
 interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
   roomId?: string;
   isAuthenticated?: boolean;
+  userAgent?: string;
+  watchingGameStateId?: string; // Spectator following a shared round (no account)
 }
 
 interface RoomConnection {
@@ -19,6 +22,7 @@ export class SecureWebSocketManager {
   private wss: WebSocketServer;
   private rooms = new Map<string, Map<string, RoomConnection>>();
   private connectionHeartbeat = new Map<WebSocket, NodeJS.Timeout>();
+  private spectators = new Map<string, Set<AuthenticatedWebSocket>>(); // game state id -> spectator sockets
 
   constructor(server: Server) {
     this.wss = new WebSocketServer({ 
@@ -27,6 +31,19 @@ export class SecureWebSocketManager {
     });
     
     this.wss.on('connection', this.handleConnection.bind(this));
+
+    // Spectators only get a nudge to refetch the public leaderboard - never game data
+    roundEvents.on('edit', (gameStateId: string) => {
+      this.sendToSpectators(gameStateId, { type: 'leaderboard-changed' });
+    });
+    roundEvents.on('share-revoked', (gameStateId: string) => {
+      this.sendToSpectators(gameStateId, { type: 'share-revoked' });
+      this.spectators.get(gameStateId)?.forEach(ws => { ws.watchingGameStateId = undefined; });
+      this.spectators.delete(gameStateId);
+    });
+    roundEvents.on('state-change', (change: RoundStateChange) => {
+      this.broadcastStateChange(change).catch(error => console.error('Error broadcasting state change:', error));
+    });
     
     // Periodic cleanup of old room states
     setInterval(() => {
@@ -40,8 +57,9 @@ export class SecureWebSocketManager {
     return true;
   }
 
-  private handleConnection(ws: AuthenticatedWebSocket) {
+  private handleConnection(ws: AuthenticatedWebSocket, request: IncomingMessage) {
     console.log('New WebSocket connection established');
+    ws.userAgent = request.headers['user-agent'];
     
     // Setup heartbeat
     this.setupHeartbeat(ws);
@@ -107,8 +125,20 @@ export class SecureWebSocketManager {
           this.handleLeaveRoom(ws, data);
           break;
         
+        case 'command':
+          await this.handleCommand(ws, data);
+          break;
+
+        case 'watch':
+          await this.handleWatch(ws, data);
+          break;
+
         case 'game-update':
-          await this.handleGameUpdate(ws, data);
+          // Raw state pushes are not trusted - clients send typed commands and receive canonical state
+          ws.send(JSON.stringify({
+            type: 'error',
+            message: 'Untyped game updates are not accepted; send a typed command instead'
+          }));
           break;
         
         case 'sync-request':
@@ -178,6 +208,16 @@ export class SecureWebSocketManager {
       return;
     }
 
+    // Rooms are groups - only members may join
+    const role = await storage.getUserGroupRole(roomId, ws.userId);
+    if (!role) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        message: 'Access denied: You are not a member of this group'
+      }));
+      return;
+    }
+
     // Remove from previous room if any
     if (ws.roomId) {
       this.removeFromRoom(ws, ws.roomId);
@@ -197,8 +237,11 @@ export class SecureWebSocketManager {
       joinedAt: new Date()
     });
 
-    // Persist room state
-    await this.persistRoomState(roomId, gameStateId, pointsGameId);
+    // Persist room state (an existing room keeps its canonical state and version)
+    const existingState = await storage.getRoomState(roomId);
+    if (!existingState) {
+      await this.persistRoomState(roomId, gameStateId, pointsGameId);
+    }
 
     // Notify room members
     this.broadcastToRoom(roomId, {
@@ -210,6 +253,8 @@ export class SecureWebSocketManager {
     ws.send(JSON.stringify({
       type: 'room-joined',
       roomId,
+      role,
+      version: existingState?.version ?? 0,
       memberCount: room.size
     }));
   }
@@ -240,8 +285,29 @@ export class SecureWebSocketManager {
     ws.roomId = undefined;
   }
 
-  private async handleGameUpdate(ws: AuthenticatedWebSocket, data: any) {
-    if (!ws.isAuthenticated || !ws.roomId) {
+  // Every saved change (REST, WebSocket or offline replay) bumps the group room's version and goes
+  // out to everyone in the room as canonical state
+  private async broadcastStateChange({ groupId, userId, action, gameState, pointsGame }: RoundStateChange) {
+    const state = {
+      ...(gameState && { gameState }),
+      ...(pointsGame && { pointsGame }),
+    };
+    const roomState = await storage.bumpRoomStateVersion(groupId, state, gameState?.id, pointsGame?.id);
+
+    this.broadcastToRoom(groupId, {
+      type: 'state-update',
+      action,
+      version: roomState.version,
+      userId,
+      ...state,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Typed game commands run through the same validation and scoring as the REST routes;
+  // the resulting state reaches the room through the 'state-change' broadcast.
+  private async handleCommand(ws: AuthenticatedWebSocket, data: any) {
+    if (!ws.isAuthenticated || !ws.userId || !ws.roomId) {
       ws.send(JSON.stringify({
         type: 'error',
         message: 'Authentication and room membership required'
@@ -249,17 +315,78 @@ export class SecureWebSocketManager {
       return;
     }
 
-    // Persist the update
-    if (data.gameStateId || data.pointsGameId) {
-      await this.persistRoomState(ws.roomId, data.gameStateId, data.pointsGameId, data.state);
+    const requestId = data.requestId;
+    try {
+      const { command, payload } = gameCommandSchema.parse(data);
+      await runGameCommand(ws.userId, command, payload, {
+        deviceId: typeof data.deviceId === 'string' ? data.deviceId : null,
+        userAgent: ws.userAgent ?? null,
+      });
+
+      ws.send(JSON.stringify({
+        type: 'command-result',
+        requestId,
+        ok: true
+      }));
+    } catch (error) {
+      const { status, message, current } = describeCommandError(error);
+      if (status >= 500) {
+        console.error('Error applying WebSocket command:', error);
+      }
+      ws.send(JSON.stringify({
+        type: 'command-result',
+        requestId,
+        ok: false,
+        status,
+        message,
+        ...(current !== undefined && { current })
+      }));
     }
+  }
 
-    // Broadcast to room members
-    this.broadcastToRoom(ws.roomId, {
-      type: 'game-update',
-      ...data,
-      timestamp: new Date().toISOString()
-    }, ws.userId);
+  // Spectators follow a round through its share token; no authentication or room membership
+  private async handleWatch(ws: AuthenticatedWebSocket, data: any) {
+    const gameState = typeof data.shareToken === 'string'
+      ? await storage.getGameStateByShareToken(data.shareToken)
+      : undefined;
+    if (!gameState) {
+      ws.send(JSON.stringify({
+        type: 'error',
+        message: 'This live leaderboard link is no longer active'
+      }));
+      return;
+    }
+
+    this.stopWatching(ws);
+    ws.watchingGameStateId = gameState.id;
+    if (!this.spectators.has(gameState.id)) {
+      this.spectators.set(gameState.id, new Set());
+    }
+    this.spectators.get(gameState.id)!.add(ws);
+
+    ws.send(JSON.stringify({ type: 'watching', timestamp: new Date().toISOString() }));
+  }
+
+  private stopWatching(ws: AuthenticatedWebSocket) {
+    if (!ws.watchingGameStateId) return;
+    const watchers = this.spectators.get(ws.watchingGameStateId);
+    watchers?.delete(ws);
+    if (watchers?.size === 0) {
+      this.spectators.delete(ws.watchingGameStateId);
+    }
+    ws.watchingGameStateId = undefined;
+  }
+
+  private sendToSpectators(gameStateId: string, message: any) {
+    const watchers = this.spectators.get(gameStateId);
+    if (!watchers) return;
+
+    const messageStr = JSON.stringify({ ...message, timestamp: new Date().toISOString() });
+    watchers.forEach(ws => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(messageStr);
+      }
+    });
   }
 
   private async handleSyncRequest(ws: AuthenticatedWebSocket, data: any) {
@@ -278,12 +405,14 @@ export class SecureWebSocketManager {
       ws.send(JSON.stringify({
         type: 'sync-response',
         state: roomState.state,
+        version: roomState.version,
         timestamp: new Date().toISOString()
       }));
     } else {
       ws.send(JSON.stringify({
         type: 'sync-response',
         state: null,
+        version: 0,
         timestamp: new Date().toISOString()
       }));
     }
@@ -318,6 +447,7 @@ export class SecureWebSocketManager {
 
   private handleDisconnection(ws: AuthenticatedWebSocket) {
     this.clearHeartbeat(ws);
+    this.stopWatching(ws);
     
     if (ws.roomId) {
       this.removeFromRoom(ws, ws.roomId);
@@ -0,0 +1,147 @@
+import { storage } from "./storage.js";
+import { GameCommandError } from "./gameCommands.js";
+import { addPaymentOptions } from "./paymentLinks.js";
+import { calculateLedgerBalances, calculateOutstanding, settleWhoOwesWho } from "@shared/gameLogic";
+import { buildPaymentMemo } from "@shared/paymentLinks";
+import type { GameState, Group, LedgerEntry, LedgerPayment, SettlementLedger, recordLedgerPaymentSchema } from "@shared/schema";
+import type { z } from "zod";
+
+// Settlement ledger: rounds are recorded from their saved (server-calculated) payout
+// result, and balances are always derived from entries and payments, never stored.
+
+export async function recordLedgerRound(userId: string, group: Group, gameState: GameState): Promise<LedgerEntry[]> {
+  const existing = await storage.getLedgerEntries(group.id);
+  if (existing.some(entry => entry.gameStateId === gameState.id)) {
+    throw new GameCommandError(409, 'This round is already in the ledger');
+  }
+
+  const payoutResult = await storage.getCombinedPayoutResult(group.id, gameState.id);
+  if (!payoutResult) {
+    throw new GameCommandError(400, "Save this round's payouts before adding it to the ledger");
+  }
+
+  return storage.createLedgerEntries(payoutResult.calculationResult.transactions
+    .filter(transaction => transaction.amount > 0)
+    .map(transaction => ({
+      groupId: group.id,
+      gameStateId: gameState.id,
+      payoutResultId: payoutResult.id,
+      roundName: gameState.name,
+      fromPlayerId: transaction.from,
+      fromName: transaction.fromName,
+      toPlayerId: transaction.to,
+      toName: transaction.toName,
+      amount: transaction.amount,
+      createdBy: userId,
+    })));
+}
+
+const round2 = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Records a payment. Against an entry it is capped at what's still owed; confirming a
+ * round's who-owes-who leg adds the round to the ledger first if needed, then pays the
+ * matching debt, with anything beyond it (legs are netted differently per game) paying
+ * down the balance between the two players.
+ */
+export async function recordLedgerPayment(userId: string, group: Group, input: z.infer<typeof recordLedgerPaymentSchema>): Promise<void> {
+  const payments = await storage.getLedgerPayments(group.id);
+  const outstandingOn = (entry: LedgerEntry) => calculateOutstanding(entry.amount, payments.filter(payment => payment.entryId === entry.id));
+  const pay = (entryId: string | null, fromPlayerId: string, toPlayerId: string, amount: number) =>
+    storage.createLedgerPayment({ groupId: group.id, entryId, fromPlayerId, toPlayerId, amount: round2(amount), recordedBy: userId });
+
+  if (input.entryId) {
+    const entry = await storage.getLedgerEntry(input.entryId);
+    if (!entry || entry.groupId !== group.id) {
+      throw new GameCommandError(404, 'Ledger entry not found');
+    }
+    const outstanding = outstandingOn(entry);
+    if (outstanding <= 0) {
+      throw new GameCommandError(409, 'This debt is already paid');
+    }
+    if (input.amount !== undefined && input.amount > outstanding) {
+      throw new GameCommandError(400, `Only $${outstanding.toFixed(2)} is still owed`);
+    }
+    await pay(entry.id, entry.fromPlayerId, entry.toPlayerId, input.amount ?? outstanding); // Paid in full by default
+    return;
+  }
+
+  const { fromPlayerId, toPlayerId, amount } = input as Required<Pick<typeof input, 'fromPlayerId' | 'toPlayerId' | 'amount'>>;
+  if (fromPlayerId === toPlayerId) {
+    throw new GameCommandError(400, 'A payment needs two different players');
+  }
+
+  let remaining = amount;
+  if (input.gameStateId) {
+    const gameState = await storage.getGameStateById(input.gameStateId);
+    if (!gameState || gameState.groupId !== group.id) {
+      throw new GameCommandError(404, 'Game state not found');
+    }
+    let entries = (await storage.getLedgerEntries(group.id)).filter(entry => entry.gameStateId === gameState.id);
+    if (entries.length === 0) {
+      entries = await recordLedgerRound(userId, group, gameState);
+    }
+    const debt = entries.find(entry => entry.fromPlayerId === fromPlayerId && entry.toPlayerId === toPlayerId && outstandingOn(entry) > 0);
+    if (debt) {
+      const applied = Math.min(remaining, outstandingOn(debt));
+      await pay(debt.id, fromPlayerId, toPlayerId, applied);
+      remaining = round2(remaining - applied);
+    }
+  }
+  if (remaining >= 0.01) {
+    await pay(null, fromPlayerId, toPlayerId, remaining);
+  }
+}
+
+export async function buildSettlementLedger(group: Group): Promise<SettlementLedger> {
+  const [entries, payments] = await Promise.all([
+    storage.getLedgerEntries(group.id),
+    storage.getLedgerPayments(group.id),
+  ]);
+
+  const paymentsByEntry = new Map<string, LedgerPayment[]>();
+  for (const payment of payments) {
+    if (!payment.entryId) continue;
+    paymentsByEntry.set(payment.entryId, [...(paymentsByEntry.get(payment.entryId) ?? []), payment]);
+  }
+
+  // Entries are grouped into rounds; a deleted round keeps its own group via the payout result
+  const rounds = new Map<string, SettlementLedger['rounds'][number]>();
+  for (const entry of entries) {
+    const key = entry.gameStateId ?? `deleted:${entry.payoutResultId ?? entry.createdAt.toISOString()}`;
+    if (!rounds.has(key)) {
+      rounds.set(key, { gameStateId: entry.gameStateId, roundName: entry.roundName, recordedAt: entry.createdAt.toISOString(), entries: [] });
+    }
+    const entryPayments = paymentsByEntry.get(entry.id) ?? [];
+    const outstanding = calculateOutstanding(entry.amount, entryPayments);
+    rounds.get(key)!.entries.push({ ...entry, paid: round2(entry.amount - outstanding), outstanding });
+  }
+
+  // Names recorded with each debt, updated to the current roster where the player still exists
+  const playerNames: Record<string, string> = {};
+  for (const entry of entries) {
+    playerNames[entry.fromPlayerId] = entry.fromName;
+    playerNames[entry.toPlayerId] = entry.toName;
+  }
+  for (const player of group.players) playerNames[player.id] = player.name;
+
+  const balances = calculateLedgerBalances(entries, payments);
+  const settlements = await addPaymentOptions(
+    group,
+    buildPaymentMemo(`${group.name} balance`, new Date()),
+    settleWhoOwesWho(balances).map(leg => ({
+      ...leg,
+      fromName: playerNames[leg.from] ?? 'Unknown',
+      toName: playerNames[leg.to] ?? 'Unknown',
+    })),
+    leg => leg.to
+  );
+
+  return {
+    rounds: Array.from(rounds.values()).reverse(), // Newest round first
+    payments,
+    balances,
+    settlements,
+    playerNames,
+  };
+}
@@ -1,8 +1,16 @@
-import { users, groups, gameStates, pointsGames, roomStates, combinedPayoutResults, stripeSubscriptions, appleSubscriptions, type User, type UpsertUser, type Group, type InsertGroup, type GameState, type InsertGameState, type Player, type Card, type CustomCard, type CardAssignment, type CardValues, type PointsGame, type InsertPointsGame, type RoomState, type InsertRoomState, type CombinedPayoutResult, type InsertCombinedPayoutResult, type StripeSubscription, type InsertStripeSubscription, type AppleSubscription, type InsertAppleSubscription } from "@shared/schema";
+import { users, groups, groupMembers, groupInvitations, gameStates, pointsGames, roomStates, combinedPayoutResults, stripeSubscriptions, appleSubscriptions, courses, type Course, type InsertCourse, type User, type UpsertUser, type Group, type InsertGroup, type GameState, type InsertGameState, type Player, type Card, type CustomCard, type CardAssignment, type CardValues, type DeckConfig, type BuiltInCardType, BUILT_IN_CARD_TYPES, type PointsGame, type InsertPointsGame, type RoomState, type InsertRoomState, type CombinedPayoutResult, type InsertCombinedPayoutResult, type GroupRole, type GroupMember, type GroupMemberWithUser, type GroupInvitation, type InsertGroupInvitation, type LinkedPlayerGroup, gameEvents, type GameEvent, type InsertGameEvent, type GameEventWithUser, offlineOperations, type OfflineOperation, type GameCommand, ledgerEntries, ledgerPayments, leagues, type League, type InsertLeague, events, type GolfEvent, type InsertGolfEvent, type PaymentHandles, type LedgerEntry, type InsertLedgerEntry, type LedgerPayment, type InsertLedgerPayment, type StripeSubscription, type InsertStripeSubscription, type AppleSubscription, type InsertAppleSubscription } from "@shared/schema";
 import { db } from "./db";
-import { eq, sql, lt, and, inArray } from "drizzle-orm";
+import { eq, sql, lt, and, inArray, or, isNull, isNotNull, desc } from "drizzle-orm";
 import { randomUUID } from "crypto";
 
+// Thrown when an edit was based on a stale revision; carries the row as it is now
+export class RevisionConflictError extends Error {
+  constructor(public current: GameState | PointsGame) {
+    super('This game was changed by another scorer. Review the latest scores and try again.');
+    this.name = 'RevisionConflictError';
+  }
+}
+
 export interface IStorage {
   // Users (for Replit Auth and local auth)
   getUser(id: string): Promise<User | undefined>;
@@ -45,6 +53,21 @@ export interface IStorage {
   createGroup(group: InsertGroup): Promise<Group>;
   updateGroup(id: string, updates: Partial<InsertGroup>): Promise<Group | undefined>;
   deleteGroup(id: string): Promise<boolean>;
+
+  // Group Memberships & Invitations
+  getUserGroupRole(groupId: string, userId: string): Promise<GroupRole | null>;
+  getGroupMembers(groupId: string): Promise<GroupMemberWithUser[]>;
+  addGroupMember(groupId: string, userId: string, role: GroupRole, invitedBy?: string | null): Promise<GroupMember>;
+  updateGroupMemberRole(groupId: string, userId: string, role: GroupRole): Promise<GroupMember | undefined>;
+  removeGroupMember(groupId: string, userId: string): Promise<boolean>;
+  createGroupInvitation(invitation: InsertGroupInvitation): Promise<GroupInvitation>;
+  getGroupInvitationByCode(code: string): Promise<GroupInvitation | undefined>;
+  getPendingGroupInvitations(groupId: string): Promise<GroupInvitation[]>;
+  getAcceptedPlayerInvitation(groupId: string, playerId: string, userId: string): Promise<GroupInvitation | undefined>;
+  acceptGroupInvitation(invitation: GroupInvitation, userId: string): Promise<GroupMember>;
+  deleteGroupInvitation(id: string): Promise<boolean>;
+  linkGroupPlayer(groupId: string, playerId: string, userId: string | null): Promise<Group | undefined>;
+  getLinkedPlayerGroups(userId: string): Promise<LinkedPlayerGroup[]>;
   
   // Game States
   getGameState(groupId: string): Promise<GameState | undefined>;
@@ -52,7 +75,10 @@ export interface IStorage {
   getActiveGamesByGroup(groupId: string): Promise<GameState[]>;
   getGameStateById(id: string): Promise<GameState | undefined>;
   createGameState(gameState: InsertGameState): Promise<GameState>;
-  updateGameState(id: string, updates: Partial<InsertGameState>): Promise<GameState | undefined>;
+  updateGameState(id: string, updates: Partial<InsertGameState>, expectedRevision?: number): Promise<GameState | undefined>;
+  getGameStateByShareToken(shareToken: string): Promise<GameState | undefined>;
+  setGameStateShareToken(id: string, shareToken: string | null): Promise<GameState | undefined>;
+  setGameStateFinalized(id: string, finalized: Pick<GameState, 'finalizedAt' | 'finalizedBy' | 'finalSettlement'>): Promise<GameState | undefined>;
   deleteGameState(id: string): Promise<boolean>;
   
   // Points Games
@@ -60,21 +86,73 @@ export interface IStorage {
   getPointsGamesByGroup(groupId: string): Promise<PointsGame[]>;
   getPointsGame(id: string): Promise<PointsGame | undefined>;
   createPointsGame(pointsGame: InsertPointsGame): Promise<PointsGame>;
-  updatePointsGame(id: string, updates: Partial<PointsGame>): Promise<PointsGame | undefined>;
-  updateHoleScores(gameId: string, hole: number, strokes: Record<string, number>, points: Record<string, number>): Promise<PointsGame | undefined>;
+  updatePointsGame(id: string, updates: Partial<PointsGame>, expectedRevision?: number): Promise<PointsGame | undefined>;
+  updateHoleScores(gameId: string, hole: number, strokes: Record<string, number>, points: Record<string, number>, expectedRevision?: number): Promise<PointsGame | undefined>;
   deletePointsGame(id: string): Promise<boolean>;
+
+  // Game Events (edit history)
+  createGameEvent(event: InsertGameEvent): Promise<GameEvent>;
+  getGameEvents(gameStateId: string, limit?: number): Promise<GameEventWithUser[]>;
+  setGameEventUndone(id: string, undoneAt: Date | null): Promise<GameEvent | undefined>;
+
+  // Payment handles
+  getPaymentHandles(userIds: string[]): Promise<Record<string, PaymentHandles>>;
+  updatePaymentHandles(userId: string, handles: PaymentHandles): Promise<User | undefined>;
+
+  // Settlement ledger
+  getLedgerEntries(groupId: string): Promise<LedgerEntry[]>;
+  getLedgerEntry(id: string): Promise<LedgerEntry | undefined>;
+  createLedgerEntries(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]>;
+  deleteLedgerRound(groupId: string, gameStateId: string): Promise<number>;
+  getLedgerPayments(groupId: string): Promise<LedgerPayment[]>;
+  getLedgerPayment(id: string): Promise<LedgerPayment | undefined>;
+  createLedgerPayment(payment: InsertLedgerPayment): Promise<LedgerPayment>;
+  deleteLedgerPayment(id: string): Promise<boolean>;
+
+  // Leagues
+  getLeagues(groupId: string): Promise<League[]>;
+  getLeague(id: string): Promise<League | undefined>;
+  createLeague(league: InsertLeague): Promise<League>;
+  updateLeague(id: string, updates: Partial<InsertLeague>): Promise<League | undefined>;
+  deleteLeague(id: string): Promise<boolean>;
+  getLeagueGameStates(leagueId: string): Promise<GameState[]>;
+  setGameStateLeague(gameStateId: string, leagueId: string | null): Promise<GameState | undefined>;
+
+  // Events (multi-foursome)
+  getEvent(id: string): Promise<GolfEvent | undefined>;
+  getEventsForUser(userId: string, groupIds: string[]): Promise<GolfEvent[]>;
+  createEvent(event: InsertGolfEvent): Promise<GolfEvent>;
+  updateEvent(id: string, updates: Partial<InsertGolfEvent>): Promise<GolfEvent | undefined>;
+  deleteEvent(id: string): Promise<boolean>;
+  getEventGameStates(eventId: string): Promise<GameState[]>;
+  setGameStateEvent(gameStateId: string, eventId: string | null): Promise<GameState | undefined>;
+
+  // Offline operations (replay dedupe)
+  claimOfflineOperation(userId: string, opId: string, command: GameCommand): Promise<{ claimed: boolean; operation: OfflineOperation }>;
+  finishOfflineOperation(id: string, status: 'applied' | 'rejected', message?: string): Promise<void>;
+  releaseOfflineOperation(id: string): Promise<void>;
   
   // Room States (for scalability)
   getRoomState(roomId: string): Promise<RoomState | undefined>;
   upsertRoomState(roomState: InsertRoomState): Promise<RoomState>;
   deleteRoomState(roomId: string): Promise<boolean>;
+  bumpRoomStateVersion(roomId: string, state: InsertRoomState['state'], gameStateId?: string | null, pointsGameId?: string | null): Promise<RoomState>;
   cleanupOldRoomStates(): Promise<void>;
   
   // Combined Payout Results (V6.5)
   getCombinedPayoutResult(groupId: string, gameStateId?: string, pointsGameId?: string): Promise<CombinedPayoutResult | undefined>;
+  getCombinedPayoutResultsByGroups(groupIds: string[]): Promise<CombinedPayoutResult[]>;
   saveCombinedPayoutResult(result: InsertCombinedPayoutResult): Promise<CombinedPayoutResult>;
   updateCombinedPayoutResult(id: string, updates: Partial<InsertCombinedPayoutResult>): Promise<CombinedPayoutResult | undefined>;
   deleteCombinedPayoutResult(id: string): Promise<boolean>;
+
+  // Courses (course library)
+  getCourses(userId: string): Promise<Course[]>;
+  getCourse(id: string): Promise<Course | undefined>;
+  createCourse(course: InsertCourse): Promise<Course>;
+  updateCourse(id: string, updates: Partial<InsertCourse>): Promise<Course | undefined>;
+  deleteCourse(id: string): Promise<boolean>;
+  seedCourses(library: InsertCourse[]): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -390,9 +468,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getGroupsByUser(userId: string): Promise<Group[]> {
-    // Get groups where user is creator
+    // Groups the user created plus groups shared with them through membership
+    const memberGroupIds = db.select({ groupId: groupMembers.groupId }).from(groupMembers)
+      .where(eq(groupMembers.userId, userId));
     const result = await db.select().from(groups)
-      .where(eq(groups.createdBy, userId))
+      .where(or(eq(groups.createdBy, userId), inArray(groups.id, memberGroupIds)))
       .orderBy(sql`COALESCE(${groups.lastPlayed}, ${groups.createdAt}) DESC`);
     return result;
   }
@@ -438,6 +518,160 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Group Memberships & Invitations
+  async getUserGroupRole(groupId: string, userId: string): Promise<GroupRole | null> {
+    const group = await this.getGroup(groupId);
+    if (!group) return null;
+    // The creator is always the owner, even for groups created before memberships existed
+    if (group.createdBy === userId) return 'owner';
+    const [member] = await db.select().from(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)));
+    return member?.role ?? null;
+  }
+
+  async getGroupMembers(groupId: string): Promise<GroupMemberWithUser[]> {
+    const rows = await db.select({ member: groupMembers, user: users })
+      .from(groupMembers)
+      .innerJoin(users, eq(groupMembers.userId, users.id))
+      .where(eq(groupMembers.groupId, groupId))
+      .orderBy(groupMembers.createdAt);
+    return rows.map(({ member, user }) => ({
+      ...member,
+      name: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'Unknown',
+      email: user.email,
+    }));
+  }
+
+  async addGroupMember(groupId: string, userId: string, role: GroupRole, invitedBy?: string | null): Promise<GroupMember> {
+    const [member] = await db.insert(groupMembers)
+      .values({ groupId, userId, role, invitedBy: invitedBy ?? null })
+      .onConflictDoUpdate({
+        target: [groupMembers.groupId, groupMembers.userId],
+        set: { role },
+      })
+      .returning();
+    return member;
+  }
+
+  async updateGroupMemberRole(groupId: string, userId: string, role: GroupRole): Promise<GroupMember | undefined> {
+    const [member] = await db.update(groupMembers)
+      .set({ role })
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeGroupMember(groupId: string, userId: string): Promise<boolean> {
+    const result = await db.delete(groupMembers)
+      .where(and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async createGroupInvitation(invitation: InsertGroupInvitation): Promise<GroupInvitation> {
+    const [created] = await db.insert(groupInvitations).values(invitation).returning();
+    return created;
+  }
+
+  async getGroupInvitationByCode(code: string): Promise<GroupInvitation | undefined> {
+    const [invitation] = await db.select().from(groupInvitations)
+      .where(eq(groupInvitations.code, code.toUpperCase()));
+    return invitation;
+  }
+
+  async getPendingGroupInvitations(groupId: string): Promise<GroupInvitation[]> {
+    const result = await db.select().from(groupInvitations)
+      .where(and(
+        eq(groupInvitations.groupId, groupId),
+        isNull(groupInvitations.acceptedAt),
+        sql`${groupInvitations.expiresAt} > NOW()`
+      ))
+      .orderBy(sql`${groupInvitations.createdAt} DESC`);
+    return result;
+  }
+
+  // The invitation tied to a player that this user accepted, if any
+  async getAcceptedPlayerInvitation(groupId: string, playerId: string, userId: string): Promise<GroupInvitation | undefined> {
+    const [invitation] = await db.select().from(groupInvitations)
+      .where(and(
+        eq(groupInvitations.groupId, groupId),
+        eq(groupInvitations.playerId, playerId),
+        eq(groupInvitations.acceptedBy, userId)
+      ));
+    return invitation;
+  }
+
+  async acceptGroupInvitation(invitation: GroupInvitation, userId: string): Promise<GroupMember> {
+    const member = await this.addGroupMember(invitation.groupId, userId, invitation.role, invitation.invitedBy);
+    if (invitation.playerId) {
+      const group = await this.getGroup(invitation.groupId);
+      const player = group?.players.find(p => p.id === invitation.playerId);
+      if (player && !player.userId) {
+        await this.linkGroupPlayer(invitation.groupId, invitation.playerId, userId);
+      }
+    }
+    if (!invitation.email && !invitation.playerId) return member; // Open link invitations stay pending until they expire
+    await db.update(groupInvitations)
+      .set({ acceptedBy: userId, acceptedAt: new Date() })
+      .where(eq(groupInvitations.id, invitation.id));
+    return member;
+  }
+
+  async deleteGroupInvitation(id: string): Promise<boolean> {
+    const result = await db.delete(groupInvitations).where(eq(groupInvitations.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Bind (or with null, unbind) a group player to an account. An account plays as at most one player per group.
+  async linkGroupPlayer(groupId: string, playerId: string, userId: string | null): Promise<Group | undefined> {
+    const group = await this.getGroup(groupId);
+    if (!group || !group.players.some(p => p.id === playerId)) return undefined;
+
+    const players = group.players.map(player => {
+      if (player.id === playerId) {
+        const { userId: _previous, ...rest } = player;
+        return userId ? { ...rest, userId } : rest;
+      }
+      if (userId && player.userId === userId) {
+        const { userId: _moved, ...rest } = player;
+        return rest;
+      }
+      return player;
+    });
+
+    // Direct update - linking is not "playing", so lastPlayed is left alone
+    const [updatedGroup] = await db.update(groups)
+      .set({ players: players as any })
+      .where(eq(groups.id, groupId))
+      .returning();
+    return updatedGroup;
+  }
+
+  async getLinkedPlayerGroups(userId: string): Promise<LinkedPlayerGroup[]> {
+    const userGroups = await this.getGroupsByUser(userId);
+    const linked: LinkedPlayerGroup[] = [];
+    for (const group of userGroups) {
+      const player = group.players.find(p => p.userId === userId);
+      if (!player) continue;
+      const role = await this.getUserGroupRole(group.id, userId);
+      const sessions = await this.getGameStates(group.id);
+      linked.push({
+        groupId: group.id,
+        groupName: group.name,
+        playerId: player.id,
+        playerName: player.name,
+        role: role ?? 'viewer',
+        games: sessions.map(session => ({
+          id: session.id,
+          name: session.name,
+          isActive: session.isActive,
+          createdAt: session.createdAt,
+        })),
+      });
+    }
+    return linked;
+  }
+
   // Game States
   async getGameState(groupId: string): Promise<GameState | undefined> {
     const [gameState] = await db.select().from(gameStates)
@@ -478,7 +712,8 @@ export class DatabaseStorage implements IStorage {
     return gameState;
   }
 
-  async updateGameState(id: string, updates: Partial<InsertGameState>): Promise<GameState | undefined> {
+  // Every write bumps the revision; with expectedRevision the write only applies to that revision
+  async updateGameState(id: string, updates: Partial<InsertGameState>, expectedRevision?: number): Promise<GameState | undefined> {
     const [updatedGameState] = await db.update(gameStates)
       .set({
         ...updates,
@@ -486,13 +721,40 @@ export class DatabaseStorage implements IStorage {
         playerCards: updates.playerCards as any,
         cardHistory: updates.cardHistory as any,
         currentCard: updates.currentCard as any,
-        cardValues: updates.cardValues as any
+        cardValues: updates.cardValues as any,
+        revision: sql`${gameStates.revision} + 1`
       })
-      .where(eq(gameStates.id, id))
+      .where(expectedRevision === undefined
+        ? eq(gameStates.id, id)
+        : and(eq(gameStates.id, id), eq(gameStates.revision, expectedRevision)))
       .returning();
+    if (!updatedGameState && expectedRevision !== undefined) {
+      const current = await this.getGameStateById(id);
+      if (current) throw new RevisionConflictError(current);
+    }
     return updatedGameState;
   }
 
+  async getGameStateByShareToken(shareToken: string): Promise<GameState | undefined> {
+    const [gameState] = await db.select().from(gameStates).where(eq(gameStates.shareToken, shareToken));
+    return gameState;
+  }
+
+  // Sharing isn't a game edit, so it leaves the revision alone
+  async setGameStateShareToken(id: string, shareToken: string | null): Promise<GameState | undefined> {
+    const [gameState] = await db.update(gameStates).set({ shareToken }).where(eq(gameStates.id, id)).returning();
+    return gameState;
+  }
+
+  // Finalizing or reopening changes what can be edited, so it bumps the revision like an edit
+  async setGameStateFinalized(id: string, finalized: Pick<GameState, 'finalizedAt' | 'finalizedBy' | 'finalSettlement'>): Promise<GameState | undefined> {
+    const [gameState] = await db.update(gameStates)
+      .set({ ...finalized, revision: sql`${gameStates.revision} + 1` })
+      .where(eq(gameStates.id, id))
+      .returning();
+    return gameState;
+  }
+
   async deleteGameState(id: string): Promise<boolean> {
     try {
       await db.delete(gameStates).where(eq(gameStates.id, id));
@@ -538,18 +800,28 @@ export class DatabaseStorage implements IStorage {
     return pointsGame;
   }
 
-  async updatePointsGame(id: string, updates: Partial<PointsGame>): Promise<PointsGame | undefined> {
+  async updatePointsGame(id: string, updates: Partial<PointsGame>, expectedRevision?: number): Promise<PointsGame | undefined> {
     const [updatedPointsGame] = await db.update(pointsGames)
-      .set({ ...updates, updatedAt: new Date() })
-      .where(eq(pointsGames.id, id))
+      .set({ ...updates, revision: sql`${pointsGames.revision} + 1`, updatedAt: new Date() })
+      .where(expectedRevision === undefined
+        ? eq(pointsGames.id, id)
+        : and(eq(pointsGames.id, id), eq(pointsGames.revision, expectedRevision)))
       .returning();
+    if (!updatedPointsGame && expectedRevision !== undefined) {
+      const current = await this.getPointsGame(id);
+      if (current) throw new RevisionConflictError(current);
+    }
     return updatedPointsGame;
   }
 
-  async updateHoleScores(gameId: string, hole: number, strokes: Record<string, number>, points: Record<string, number>): Promise<PointsGame | undefined> {
+  async updateHoleScores(gameId: string, hole: number, strokes: Record<string, number>, points: Record<string, number>, expectedRevision?: number): Promise<PointsGame | undefined> {
     const existingGame = await this.getPointsGame(gameId);
     if (!existingGame) return undefined;
+    if (expectedRevision !== undefined && existingGame.revision !== expectedRevision) {
+      throw new RevisionConflictError(existingGame);
+    }
 
+    // Guard on the revision we read so a concurrent write to another hole is never overwritten
     const [updatedPointsGame] = await db.update(pointsGames)
       .set({
         holes: {
@@ -560,10 +832,17 @@ export class DatabaseStorage implements IStorage {
           ...existingGame.points,
           [hole]: points
         },
+        revision: sql`${pointsGames.revision} + 1`,
         updatedAt: new Date(),
       })
-      .where(eq(pointsGames.id, gameId))
+      .where(and(eq(pointsGames.id, gameId), eq(pointsGames.revision, existingGame.revision)))
       .returning();
+    if (!updatedPointsGame) {
+      // Unguarded callers just re-apply their hole on top of the newer data
+      if (expectedRevision === undefined) return this.updateHoleScores(gameId, hole, strokes, points);
+      const current = await this.getPointsGame(gameId);
+      if (current) throw new RevisionConflictError(current);
+    }
     
     return updatedPointsGame;
   }
@@ -577,12 +856,249 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  // Game Events (edit history)
+  async createGameEvent(event: InsertGameEvent): Promise<GameEvent> {
+    const [created] = await db.insert(gameEvents).values(event).returning();
+    return created;
+  }
+
+  // Newest first, with the editor's display name
+  async getGameEvents(gameStateId: string, limit = 200): Promise<GameEventWithUser[]> {
+    const rows = await db.select({ event: gameEvents, user: users })
+      .from(gameEvents)
+      .leftJoin(users, eq(gameEvents.userId, users.id))
+      .where(eq(gameEvents.gameStateId, gameStateId))
+      .orderBy(desc(gameEvents.createdAt))
+      .limit(limit);
+    return rows.map(({ event, user }) => ({
+      ...event,
+      userName: user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'Unknown' : null,
+    }));
+  }
+
+  async setGameEventUndone(id: string, undoneAt: Date | null): Promise<GameEvent | undefined> {
+    const [updated] = await db.update(gameEvents).set({ undoneAt }).where(eq(gameEvents.id, id)).returning();
+    return updated;
+  }
+  
+  // Payment handles
+  async getPaymentHandles(userIds: string[]): Promise<Record<string, PaymentHandles>> {
+    if (userIds.length === 0) return {};
+    const rows = await db.select({ id: users.id, paymentHandles: users.paymentHandles })
+      .from(users)
+      .where(inArray(users.id, userIds));
+    return Object.fromEntries(rows.filter(row => row.paymentHandles).map(row => [row.id, row.paymentHandles!]));
+  }
+
+  async updatePaymentHandles(userId: string, handles: PaymentHandles): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ paymentHandles: handles, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Settlement ledger
+  async getLedgerEntries(groupId: string): Promise<LedgerEntry[]> {
+    return db.select().from(ledgerEntries)
+      .where(eq(ledgerEntries.groupId, groupId))
+      .orderBy(ledgerEntries.createdAt);
+  }
+
+  async getLedgerEntry(id: string): Promise<LedgerEntry | undefined> {
+    const [entry] = await db.select().from(ledgerEntries).where(eq(ledgerEntries.id, id));
+    return entry;
+  }
+
+  async createLedgerEntries(entries: InsertLedgerEntry[]): Promise<LedgerEntry[]> {
+    if (entries.length === 0) return [];
+    return db.insert(ledgerEntries).values(entries).returning();
+  }
+
+  // Removes a round's debts (and any payments made against them)
+  async deleteLedgerRound(groupId: string, gameStateId: string): Promise<number> {
+    const deleted = await db.delete(ledgerEntries)
+      .where(and(eq(ledgerEntries.groupId, groupId), eq(ledgerEntries.gameStateId, gameStateId)))
+      .returning({ id: ledgerEntries.id });
+    return deleted.length;
+  }
+
+  async getLedgerPayments(groupId: string): Promise<LedgerPayment[]> {
+    return db.select().from(ledgerPayments)
+      .where(eq(ledgerPayments.groupId, groupId))
+      .orderBy(ledgerPayments.createdAt);
+  }
+
+  async getLedgerPayment(id: string): Promise<LedgerPayment | undefined> {
+    const [payment] = await db.select().from(ledgerPayments).where(eq(ledgerPayments.id, id));
+    return payment;
+  }
+
+  async createLedgerPayment(payment: InsertLedgerPayment): Promise<LedgerPayment> {
+    const [created] = await db.insert(ledgerPayments).values(payment).returning();
+    return created;
+  }
+
+  async deleteLedgerPayment(id: string): Promise<boolean> {
+    const deleted = await db.delete(ledgerPayments).where(eq(ledgerPayments.id, id)).returning({ id: ledgerPayments.id });
+    return deleted.length > 0;
+  }
+
+  // Leagues
+  async getLeagues(groupId: string): Promise<League[]> {
+    return db.select().from(leagues)
+      .where(eq(leagues.groupId, groupId))
+      .orderBy(desc(leagues.createdAt));
+  }
+
+  async getLeague(id: string): Promise<League | undefined> {
+    const [league] = await db.select().from(leagues).where(eq(leagues.id, id));
+    return league;
+  }
+
+  async createLeague(league: InsertLeague): Promise<League> {
+    const [created] = await db.insert(leagues).values(league).returning();
+    return created;
+  }
+
+  async updateLeague(id: string, updates: Partial<InsertLeague>): Promise<League | undefined> {
+    const [league] = await db.update(leagues)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leagues.id, id))
+      .returning();
+    return league;
+  }
+
+  // The league's rounds stay, they just stop counting toward a season
+  async deleteLeague(id: string): Promise<boolean> {
+    const deleted = await db.delete(leagues).where(eq(leagues.id, id)).returning({ id: leagues.id });
+    return deleted.length > 0;
+  }
+
+  async getLeagueGameStates(leagueId: string): Promise<GameState[]> {
+    return db.select().from(gameStates)
+      .where(eq(gameStates.leagueId, leagueId))
+      .orderBy(gameStates.createdAt);
+  }
+
+  // Not a game edit, so the round's revision is left alone
+  async setGameStateLeague(gameStateId: string, leagueId: string | null): Promise<GameState | undefined> {
+    const [gameState] = await db.update(gameStates)
+      .set({ leagueId })
+      .where(eq(gameStates.id, gameStateId))
+      .returning();
+    return gameState;
+  }
+
+  // Events (multi-foursome)
+  async getEvent(id: string): Promise<GolfEvent | undefined> {
+    const [event] = await db.select().from(events).where(eq(events.id, id));
+    return event;
+  }
+
+  // Events the user created, plus any with a round from one of their groups
+  async getEventsForUser(userId: string, groupIds: string[]): Promise<GolfEvent[]> {
+    const created = eq(events.createdBy, userId);
+    const linkedEventIds = db.select({ eventId: gameStates.eventId }).from(gameStates)
+      .where(and(inArray(gameStates.groupId, groupIds), isNotNull(gameStates.eventId)));
+    return db.select().from(events)
+      .where(groupIds.length > 0 ? or(created, inArray(events.id, linkedEventIds)) : created)
+      .orderBy(desc(events.createdAt));
+  }
+
+  async createEvent(event: InsertGolfEvent): Promise<GolfEvent> {
+    const [created] = await db.insert(events).values(event).returning();
+    return created;
+  }
+
+  async updateEvent(id: string, updates: Partial<InsertGolfEvent>): Promise<GolfEvent | undefined> {
+    const [event] = await db.update(events)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(events.id, id))
+      .returning();
+    return event;
+  }
+
+  async deleteEvent(id: string): Promise<boolean> {
+    const deleted = await db.delete(events).where(eq(events.id, id)).returning({ id: events.id });
+    return deleted.length > 0;
+  }
+
+  async getEventGameStates(eventId: string): Promise<GameState[]> {
+    return db.select().from(gameStates)
+      .where(eq(gameStates.eventId, eventId))
+      .orderBy(gameStates.createdAt);
+  }
+
+  async setGameStateEvent(gameStateId: string, eventId: string | null): Promise<GameState | undefined> {
+    const [gameState] = await db.update(gameStates)
+      .set({ eventId })
+      .where(eq(gameStates.id, gameStateId))
+      .returning();
+    return gameState;
+  }
+
+  // Offline operations (replay dedupe)
+  // Claiming inserts the op id; an existing row means the op was already seen (or is being applied right now)
+  async claimOfflineOperation(userId: string, opId: string, command: GameCommand): Promise<{ claimed: boolean; operation: OfflineOperation }> {
+    const [claimed] = await db.insert(offlineOperations)
+      .values({ userId, opId, command })
+      .onConflictDoNothing()
+      .returning();
+    if (claimed) return { claimed: true, operation: claimed };
+
+    const [existing] = await db.select().from(offlineOperations)
+      .where(and(eq(offlineOperations.userId, userId), eq(offlineOperations.opId, opId)));
+
+    // A claim left behind by a request that died mid-way can be taken over after a couple of minutes
+    const staleBefore = new Date(Date.now() - 2 * 60 * 1000);
+    if (existing.status === 'processing' && existing.createdAt < staleBefore) {
+      const [retaken] = await db.update(offlineOperations)
+        .set({ createdAt: new Date() })
+        .where(and(eq(offlineOperations.id, existing.id), eq(offlineOperations.status, 'processing'), lt(offlineOperations.createdAt, staleBefore)))
+        .returning();
+      if (retaken) return { claimed: true, operation: retaken };
+    }
+    return { claimed: false, operation: existing };
+  }
+
+  async finishOfflineOperation(id: string, status: 'applied' | 'rejected', message?: string): Promise<void> {
+    await db.update(offlineOperations)
+      .set({ status, message: message ?? null, processedAt: new Date() })
+      .where(eq(offlineOperations.id, id));
+  }
+
+  // Frees the op id so the device can retry it later
+  async releaseOfflineOperation(id: string): Promise<void> {
+    await db.delete(offlineOperations).where(eq(offlineOperations.id, id));
+  }
+
   // Room States (for scalability)
   async getRoomState(roomId: string): Promise<RoomState | undefined> {
     const [roomState] = await db.select().from(roomStates).where(eq(roomStates.roomId, roomId));
     return roomState;
   }
 
+  // Atomically store the room's latest canonical state and bump its version
+  async bumpRoomStateVersion(roomId: string, state: InsertRoomState['state'], gameStateId?: string | null, pointsGameId?: string | null): Promise<RoomState> {
+    const values = { roomId, state, gameStateId: gameStateId ?? null, pointsGameId: pointsGameId ?? null, version: 1, lastActivity: new Date() };
+    const [roomState] = await db
+      .insert(roomStates)
+      .values(values)
+      .onConflictDoUpdate({
+        target: roomStates.roomId,
+        set: {
+          state,
+          ...(gameStateId && { gameStateId }),
+          ...(pointsGameId && { pointsGameId }),
+          version: sql`${roomStates.version} + 1`,
+          lastActivity: new Date(),
+        },
+      })
+      .returning();
+    return roomState;
+  }
+
   async upsertRoomState(roomStateData: InsertRoomState): Promise<RoomState> {
     const [roomState] = await db
       .insert(roomStates)
@@ -656,6 +1172,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Every saved result for the groups, newest first
+  async getCombinedPayoutResultsByGroups(groupIds: string[]): Promise<CombinedPayoutResult[]> {
+    if (groupIds.length === 0) return [];
+    return db.select().from(combinedPayoutResults)
+      .where(inArray(combinedPayoutResults.groupId, groupIds))
+      .orderBy(desc(combinedPayoutResults.createdAt));
+  }
+
   async saveCombinedPayoutResult(resultData: InsertCombinedPayoutResult): Promise<CombinedPayoutResult> {
     const [result] = await db
       .insert(combinedPayoutResults)
@@ -682,6 +1206,64 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Courses (course library)
+  async getCourses(userId: string): Promise<Course[]> {
+    // Shared library courses plus the user's own
+    const result = await db.select().from(courses)
+      .where(or(isNull(courses.createdBy), eq(courses.createdBy, userId)))
+      .orderBy(courses.name);
+    return result;
+  }
+
+  async getCourse(id: string): Promise<Course | undefined> {
+    const [course] = await db.select().from(courses).where(eq(courses.id, id));
+    return course;
+  }
+
+  async createCourse(insertCourse: InsertCourse): Promise<Course> {
+    const [course] = await db.insert(courses).values({
+      ...insertCourse,
+      par: insertCourse.par as any,
+      strokeIndex: insertCourse.strokeIndex as any,
+      tees: insertCourse.tees as any
+    }).returning();
+    return course;
+  }
+
+  async updateCourse(id: string, updates: Partial<InsertCourse>): Promise<Course | undefined> {
+    const [course] = await db.update(courses)
+      .set({
+        ...updates,
+        par: updates.par as any,
+        strokeIndex: updates.strokeIndex as any,
+        tees: updates.tees as any,
+        updatedAt: new Date()
+      })
+      .where(eq(courses.id, id))
+      .returning();
+    return course;
+  }
+
+  async deleteCourse(id: string): Promise<boolean> {
+    try {
+      await db.delete(courses).where(eq(courses.id, id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async seedCourses(library: InsertCourse[]): Promise<number> {
+    // Only seed shared library courses that are not already present (matched by name)
+    const existing = await db.select({ name: courses.name }).from(courses).where(isNull(courses.createdBy));
+    const existingNames = new Set(existing.map(c => c.name));
+    const missing = library.filter(c => !existingNames.has(c.name));
+    for (const course of missing) {
+      await this.createCourse({ ...course, createdBy: null });
+    }
+    return missing.length;
+  }
+
 }
 
 export const storage = new DatabaseStorage();
@@ -689,57 +1271,69 @@ export const storage = new DatabaseStorage();
 // Initialize cleanup on startup
 storage.cleanupOldData();
 
-// Utility function to create a deck with exactly one card of each type
-export function createShuffledDeck(group?: any): Card[] {
-  const cards: Card[] = [
-    {
-      id: randomUUID(),
-      type: 'camel',
-      emoji: '🐪'
-    },
-    {
-      id: randomUUID(),
-      type: 'fish',
-      emoji: '🐟'
-    },
-    {
-      id: randomUUID(),
-      type: 'roadrunner',
-      emoji: '🐦'
-    },
-    {
-      id: randomUUID(),
-      type: 'ghost',
-      emoji: '👻'
-    },
-    {
-      id: randomUUID(),
-      type: 'skunk',
-      emoji: '🦨'
-    },
-    {
-      id: randomUUID(),
-      type: 'snake',
-      emoji: '🐍'
-    },
-    {
-      id: randomUUID(),
-      type: 'yeti',
-      emoji: '🌲'
-    }
-  ];
-  
-  // Add custom cards if group is provided
-  if (group?.customCards) {
-    group.customCards.forEach((customCard: any) => {
-      cards.push({
-        id: randomUUID(),
-        type: 'custom',
+// Built-in animal cards; a group's deck config can disable them or change their quantity, emoji and value
+const BUILT_IN_CARDS: Record<BuiltInCardType, { name: string; emoji: string }> = {
+  camel: { name: 'Camel', emoji: '🐫' },
+  fish: { name: 'Fish', emoji: '🐟' },
+  roadrunner: { name: 'Roadrunner', emoji: '🏃' },
+  ghost: { name: 'Ghost', emoji: '👻' },
+  skunk: { name: 'Skunk', emoji: '🦨' },
+  snake: { name: 'Snake', emoji: '🐍' },
+  yeti: { name: 'Yeti', emoji: '☃️' }
+};
+
+// A group's card catalog. Groups without a saved deck config get two of each
+// built-in animal plus their custom cards, valued from cardValues / customCards.
+export function resolveDeckConfig(group: Pick<Group, 'cardValues' | 'customCards' | 'deckConfig'>): DeckConfig {
+  if (group.deckConfig?.cards?.length) return group.deckConfig;
+  return {
+    cards: [
+      ...BUILT_IN_CARD_TYPES.map(type => ({
+        key: type,
+        ...BUILT_IN_CARDS[type],
+        value: group.cardValues?.[type] ?? 2,
+        quantity: 2,
+        enabled: true,
+        builtIn: true
+      })),
+      ...(group.customCards || []).map(customCard => ({
+        key: customCard.id,
+        name: customCard.name,
         emoji: customCard.emoji,
-        name: customCard.name
+        value: customCard.value,
+        quantity: 1,
+        enabled: true,
+        builtIn: false
+      }))
+    ]
+  };
+}
+
+// Card values for a new session: built-ins keyed by type, custom cards by lowercase name (as payouts look them up)
+export function getDeckCardValues(deckConfig: DeckConfig): CardValues {
+  const values: Record<string, number> = {};
+  for (const card of deckConfig.cards) {
+    values[card.builtIn ? card.key : card.name.toLowerCase()] = card.value;
+  }
+  return values as CardValues;
+}
+
+// Deals every enabled card in the group's deck config, one entry per copy
+export function createShuffledDeck(group: Pick<Group, 'cardValues' | 'customCards' | 'deckConfig'>): Card[] {
+  const cards: Card[] = [];
+  for (const entry of resolveDeckConfig(group).cards) {
+    if (!entry.enabled) continue;
+    for (let copy = 1; copy <= entry.quantity; copy++) {
+      cards.push({
+        // Custom cards keep their own ID for the first copy so existing value lookups still match
+        id: entry.builtIn ? `${entry.key}-${copy}` : copy === 1 ? entry.key : `${entry.key}-${copy}`,
+        type: entry.builtIn ? entry.key as BuiltInCardType : 'custom',
+        emoji: entry.emoji,
+        name: entry.name,
+        key: entry.key,
+        ...(entry.rule && { rule: entry.rule })
       });
-    });
+    }
   }
-  
   return cards;
 }
@@ -0,0 +1,1649 @@
+// ============================================================================
+// Canonical, single-source math (NO duplicate implementations anywhere else).
+// Rounds ONLY once in combineGames(); settlement has penny reconciliation.
+// The server's results are authoritative; the client runs the same code for
+// provisional results while offline.
+// ============================================================================
+
+import type { CardAssignment, Player, Card, PointsGameSettings, RoundConfig, NassauPress, WolfHoleData, TeamSettings, DeckConfig, GameState, Group, PointsGame, LiveLeaderboard, League, LeagueGame, LeagueStanding, EventSettings, EventLeaderboard, GameEvent, PointTablePreset, PointTableTies, PointTableRounding } from "./schema";
+
+export interface CardGameResult {
+  totalPot: number;
+  payouts: Array<{
+    playerId: string;
+    playerName: string;
+    debt: number;
+    netPayout: number;
+  }>;
+}
+
+/** Fair "Excess over Minimum" Method - Final algorithm */
+function cardsGameFromDebts(
+  debts: Record<string, number>
+): Record<string, number> {
+  const players = Object.keys(debts);
+  if (players.length === 0) return {};
+
+  // 1) Find the minimum debt b among players
+  const minDebt = Math.min(...players.map(p => debts[p]));
+  
+  // 2) Each player's excess e_i = max(debt_i - b, 0)
+  const excess: Record<string, number> = {};
+  let totalExcess = 0;
+  
+  for (const p of players) {
+    const e = Math.max(debts[p] - minDebt, 0);
+    excess[p] = e;
+    totalExcess += e;
+  }
+
+  // 3) Baseline players (debt == minDebt) split total excess evenly
+  const baseline = players.filter(p => debts[p] === minDebt);
+  const share = baseline.length > 0 ? totalExcess / baseline.length : 0;
+
+  // 4) Baseline players receive E / (#baseline); non-baseline pay exactly their excess
+  const net: Record<string, number> = {};
+  for (const p of players) {
+    net[p] = round2(debts[p] === minDebt ? share : -excess[p]);
+  }
+
+  // 5) Penny reconciliation: ensure exact zero-sum after rounding
+  const sum = round2(Object.values(net).reduce((s, v) => s + v, 0));
+  if (Math.abs(sum) >= 0.01 && baseline.length > 0) {
+    const last = baseline[baseline.length - 1];
+    net[last] = round2(net[last] - sum); // nudge last baseline recipient by residual cents
+  }
+  
+  return net;
+}
+
+/** A) Cards Game (Fair Excess over Minimum) - Exact Implementation */
+export function calculateCardsGame(
+  cardsDebt: Record<string, number>
+): Record<string, number> {
+  return cardsGame(cardsDebt);
+}
+
+function cardsGame(debts: Record<string, number>): Record<string, number> {
+  const result = cardsGameFromDebts(debts);
+  // Round the final results
+  for (const p of Object.keys(result)) {
+    result[p] = round2(result[p]);
+  }
+  return result;
+}
+
+/** Cards details for UI (delegates to same math). */
+export function calculateCardGameDetails(
+  cardHistory: CardAssignment[],
+  players: Player[],
+  cardValues?: Record<string, number>
+): CardGameResult {
+  const latest: Record<string, CardAssignment> = {};
+  for (const a of cardHistory) latest[a.cardId] = a;
+
+  const debts: Record<string, number> = {};
+  for (const p of players) debts[p.id] = 0;
+  for (const a of Object.values(latest)) {
+    if (debts[a.playerId] !== undefined) {
+      // Use current card values if provided, otherwise fall back to stored value
+      let currentCardValue: number;
+      
+      if (a.cardType === 'custom') {
+        // For custom cards, use the card name as the key in cardValues
+        // Try both original case and lowercase for compatibility
+        const cardNameKey = a.cardName?.toLowerCase() || '';
+        currentCardValue = cardValues?.[a.cardName] ?? cardValues?.[cardNameKey] ?? a.cardValue ?? 0;
+      } else {
+        // For default cards, use cardType as the key
+        currentCardValue = cardValues?.[a.cardType] ?? a.cardValue ?? 0;
+      }
+      
+      debts[a.playerId] += currentCardValue;
+    }
+  }
+
+  const netsRaw = cardsGameFromDebts(debts);
+  const totalPot = Object.values(debts).reduce((s, d) => s + d, 0);
+
+  const payouts = players.map(p => {
+    const debt = debts[p.id] ?? 0;
+    const netPayout = netsRaw[p.id] ?? 0;
+    return { playerId: p.id, playerName: p.name, debt, netPayout };
+  });
+
+  return { totalPot, payouts };
+}
+
+/** Points — RAW nets (pairwise). */
+export /** B) Points Game (Pairwise Difference; $/point) - Exact Implementation */
+function calculatePointsGame(
+  pointsScores: Record<string, number>,
+  valuePerPoint: number = 1
+): Record<string, number> {
+  return pointsGame(pointsScores, valuePerPoint);
+}
+
+function pointsGame(points: Record<string, number>, valuePerPoint = 1): Record<string, number> {
+  const players = Object.keys(points);
+  const net: Record<string, number> = Object.fromEntries(players.map(p => [p, 0]));
+
+  for (let i = 0; i < players.length; i++) {
+    for (let j = i + 1; j < players.length; j++) {
+      const a = players[i], b = players[j];
+      const diff = points[a] - points[b];
+      if (diff > 0) { 
+        net[a] += diff * valuePerPoint; 
+        net[b] -= diff * valuePerPoint; 
+      } else if (diff < 0) { 
+        net[b] += -diff * valuePerPoint; 
+        net[a] -= -diff * valuePerPoint; 
+      }
+    }
+  }
+  for (const p of players) net[p] = round2(net[p]);
+  return net;
+}
+
+/** C) Points Game (Nassau: Front / Back / Total; fixed pot/segment) - Exact Implementation */
+export function calculateNassauGame(
+  frontPoints: Record<string, number>,
+  backPoints: Record<string, number>,
+  totalPoints: Record<string, number>,
+  potValue: number = 10
+): Record<string, number> {
+  return nassauGame(frontPoints, backPoints, totalPoints, potValue);
+}
+
+function nassauGame(front: Record<string, number>, back: Record<string, number>, total: Record<string, number>, potValue = 10): Record<string, number> {
+  return nassauSegmentsGame([front, back, total], potValue);
+}
+
+/** Nassau over any number of segments; each segment is its own fixed pot. */
+function nassauSegmentsGame(segments: Record<string, number>[], potValue = 10): Record<string, number> {
+  const allPlayers = Array.from(new Set(segments.flatMap(segment => Object.keys(segment))));
+  const net: Record<string, number> = {};
+  for (const p of allPlayers) net[p] = 0;
+
+  for (const segment of segments) {
+    const segPlayers = Object.keys(segment);
+    if (segPlayers.length === 0) continue;
+    
+    // In 2/9/16 points system, HIGHEST points win (unlike stroke play where lowest wins)
+    const maxPoints = Math.max(...segPlayers.map(p => segment[p]));
+    const winners = segPlayers.filter(p => segment[p] === maxPoints);
+    const losers = segPlayers.filter(p => !winners.includes(p));
+    if (winners.length === segPlayers.length) continue; // all tied
+
+    const winShare = potValue / winners.length;
+    const loseShare = potValue / losers.length;
+    for (const w of winners) net[w] += winShare;
+    for (const l of losers) net[l] -= loseShare;
+  }
+  for (const p of allPlayers) net[p] = round2(net[p]);
+  return net;
+}
+
+/** D) Segmented Nassau: one pot per round segment plus the overall total. */
+export function calculateSegmentedNassauGame(
+  segmentPoints: Record<string, number>[],
+  potValue: number = 10
+): Record<string, number> {
+  return nassauSegmentsGame(segmentPoints, potValue);
+}
+
+// ----------------------------------------------------------------------------
+// Round layout (9 / 18 / 27 / custom holes, shotgun starts)
+// ----------------------------------------------------------------------------
+
+const STANDARD_ROUND_HOLES = Array.from({ length: 18 }, (_, i) => i + 1);
+
+/**
+ * Holes in play order. A shotgun start rotates the hole list so play begins
+ * at startHole and wraps around. No config = standard 18 holes from the 1st.
+ */
+export function getRoundHoles(roundConfig?: RoundConfig | null): number[] {
+  const holes = roundConfig?.holes?.length ? [...roundConfig.holes].sort((a, b) => a - b) : STANDARD_ROUND_HOLES;
+  const start = roundConfig?.startHole ? holes.indexOf(roundConfig.startHole) : -1;
+  return start > 0 ? [...holes.slice(start), ...holes.slice(0, start)] : holes;
+}
+
+// Scoring edits in a round's history. Undo / redo entries and round status changes
+// (finalize, reopen) are recorded alongside them but can't themselves be undone.
+export const isUndoableGameEvent = (event: Pick<GameEvent, 'action'>) =>
+  event.action !== 'undo' && event.action !== 'redo' && event.action !== 'finalize' && event.action !== 'reopen';
+
+/**
+ * Holes of the round a side game hasn't recorded yet. Stroke games (2/9/16, skins, wolf) need
+ * every player's strokes and GIR needs every player marked; a BBB hole only needs its winners.
+ */
+export function findMissingHoles(game: Pick<PointsGame, 'gameType' | 'holes'>, playerIds: string[], roundHoles: number[]): number[] {
+  const holes = (game.holes || {}) as Record<number, any>;
+  return roundHoles.filter(hole => {
+    const entry = holes[hole];
+    if (!entry) return true;
+    if (game.gameType === 'bbb') return false;
+    const recorded: Record<string, unknown> = game.gameType === 'wolf' ? entry.strokes ?? {} : entry;
+    return playerIds.some(playerId => recorded[playerId] === undefined);
+  });
+}
+
+/**
+ * Nassau segments in play order (excluding the overall total).
+ * 18 / 27-hole rounds split into nines; shorter rounds split into halves,
+ * with the extra hole on the front (a 9-hole round plays 5 + 4).
+ */
+export function getNassauSegments(roundConfig?: RoundConfig | null): number[][] {
+  const holes = getRoundHoles(roundConfig);
+  if (holes.length >= 18 && holes.length % 9 === 0) {
+    const nines: number[][] = [];
+    for (let i = 0; i < holes.length; i += 9) nines.push(holes.slice(i, i + 9));
+    return nines;
+  }
+  if (holes.length < 2) return [holes];
+  const half = Math.ceil(holes.length / 2);
+  return [holes.slice(0, half), holes.slice(half)];
+}
+
+/**
+ * Sums per-hole points into one total per segment, followed by the overall
+ * total when there is more than one segment (a single segment IS the total).
+ */
+export function sumPointsBySegment(
+  holePoints: Record<number, Record<string, number>>,
+  playerIds: string[],
+  segments: number[][]
+): Record<string, number>[] {
+  const totals = segments.map(segmentHoles => {
+    const totalsForSegment: Record<string, number> = Object.fromEntries(playerIds.map(id => [id, 0]));
+    for (const hole of segmentHoles) {
+      for (const id of playerIds) totalsForSegment[id] += holePoints[hole]?.[id] || 0;
+    }
+    return totalsForSegment;
+  });
+  if (totals.length > 1) {
+    const overall: Record<string, number> = Object.fromEntries(playerIds.map(id => [id, 0]));
+    for (const segment of totals) {
+      for (const id of playerIds) overall[id] += segment[id];
+    }
+    totals.push(overall);
+  }
+  return totals;
+}
+
+/** Build Nassau nets from pointsGame.points (NOT strokes/holes). */
+export function buildNassauNetsFromPointsGame(
+  groupPlayers: Player[],
+  pointsGame: { points?: Record<number, Record<string, number>> },
+  potValue: number,
+  roundConfig?: RoundConfig | null
+): Record<string, number> {
+  const playerIds = groupPlayers.map(p => p.id);
+  const segments = sumPointsBySegment(pointsGame.points || {}, playerIds, getNassauSegments(roundConfig));
+  return calculateSegmentedNassauGame(segments, potValue); // RAW
+}
+
+// ----------------------------------------------------------------------------
+// Nassau presses (manual and automatic N-down presses)
+// ----------------------------------------------------------------------------
+
+export interface PressOptions {
+  pressValue: number;
+  autoPress?: boolean;
+  pressTrigger?: number; // Holes down needed to press (default 2)
+}
+
+export interface PressResult {
+  id: string;
+  pressedBy: string;
+  opponent: string;
+  startHole: number;
+  endHole: number;
+  auto: boolean;
+  holesUp: number;       // From the presser's side: positive = presser is up
+  winner: string | null; // null while all square
+  value: number;
+}
+
+const DEFAULT_PRESS_TRIGGER = 2;
+
+/** +1 if a won the hole, -1 if b won it, 0 for a halve. Higher hole points win. */
+function holeResult(holePoints: Record<string, number>, a: string, b: string): number {
+  const diff = (holePoints[a] || 0) - (holePoints[b] || 0);
+  return diff > 0 ? 1 : diff < 0 ? -1 : 0;
+}
+
+/** Holes up for player a against b over the played holes in the list. */
+export function getMatchStatus(
+  holePoints: Record<number, Record<string, number>>,
+  a: string,
+  b: string,
+  holes: number[]
+): number {
+  let status = 0;
+  for (const hole of holes) {
+    if (holePoints[hole]) status += holeResult(holePoints[hole], a, b);
+  }
+  return status;
+}
+
+/** Segment (in play order) that contains a hole, or -1 if the hole is not in the round. */
+export function findSegmentIndex(segments: number[][], hole: number): number {
+  return segments.findIndex(segment => segment.includes(hole));
+}
+
+/**
+ * Auto-presses for one pair within one segment. Each time the latest bet
+ * (the original match, then the most recent auto-press) reaches the trigger,
+ * the player who is down presses from the next hole.
+ */
+function autoPressesForPair(
+  holePoints: Record<number, Record<string, number>>,
+  a: string,
+  b: string,
+  segment: number[],
+  trigger: number
+): NassauPress[] {
+  const presses: NassauPress[] = [];
+  let latestStatus = 0; // a's holes up on the latest bet
+  for (let i = 0; i < segment.length - 1; i++) {
+    const hole = segment[i];
+    if (!holePoints[hole]) continue;
+    latestStatus += holeResult(holePoints[hole], a, b);
+    if (Math.abs(latestStatus) >= trigger) {
+      const startHole = segment[i + 1];
+      const [pressedBy, opponent] = latestStatus < 0 ? [a, b] : [b, a];
+      presses.push({ id: `auto-${pressedBy}-${opponent}-${startHole}`, pressedBy, opponent, startHole, createdAt: '' });
+      latestStatus = 0;
+    }
+  }
+  return presses;
+}
+
+/**
+ * Settle Nassau presses. Every press is its own head-to-head match from its
+ * start hole to the end of its segment, won on holes (higher hole points win
+ * the hole). Returns one RAW net per press so presses feed combineGames.
+ */
+export function calculateNassauPresses(
+  holePoints: Record<number, Record<string, number>>,
+  playerIds: string[],
+  segments: number[][],
+  manualPresses: NassauPress[],
+  options: PressOptions
+): { presses: PressResult[]; nets: Record<string, number>[] } {
+  const trigger = options.pressTrigger ?? DEFAULT_PRESS_TRIGGER;
+  const allPresses: Array<NassauPress & { auto: boolean }> = manualPresses
+    .filter(press => playerIds.includes(press.pressedBy) && playerIds.includes(press.opponent))
+    .map(press => ({ ...press, auto: false }));
+
+  if (options.autoPress) {
+    for (const segment of segments) {
+      for (let i = 0; i < playerIds.length; i++) {
+        for (let j = i + 1; j < playerIds.length; j++) {
+          for (const press of autoPressesForPair(holePoints, playerIds[i], playerIds[j], segment, trigger)) {
+            // A manual press already declared for the same pair and hole covers the auto-press
+            const declared = allPresses.some(existing => existing.startHole === press.startHole
+              && [existing.pressedBy, existing.opponent].sort().join() === [press.pressedBy, press.opponent].sort().join());
+            if (!declared) allPresses.push({ ...press, auto: true });
+          }
+        }
+      }
+    }
+  }
+
+  const presses: PressResult[] = [];
+  const nets: Record<string, number>[] = [];
+  for (const press of allPresses) {
+    const segment = segments[findSegmentIndex(segments, press.startHole)];
+    if (!segment) continue;
+    const pressHoles = segment.slice(segment.indexOf(press.startHole));
+    const holesUp = getMatchStatus(holePoints, press.pressedBy, press.opponent, pressHoles);
+    const winner = holesUp > 0 ? press.pressedBy : holesUp < 0 ? press.opponent : null;
+    const loser = winner === press.pressedBy ? press.opponent : press.pressedBy;
+
+    presses.push({
+      id: press.id,
+      pressedBy: press.pressedBy,
+      opponent: press.opponent,
+      startHole: press.startHole,
+      endHole: pressHoles[pressHoles.length - 1],
+      auto: press.auto,
+      holesUp,
+      winner,
+      value: options.pressValue
+    });
+    nets.push(winner
+      ? { [winner]: round2(options.pressValue), [loser]: round2(-options.pressValue) }
+      : { [press.pressedBy]: 0, [press.opponent]: 0 });
+  }
+  return { presses, nets };
+}
+
+/** Per-hole points for any points game type (2/9/16 stores them; BBB and GIR derive them). */
+export function getPointsGameHolePoints(
+  pointsGame: { gameType: string; holes?: Record<number, Record<string, number | string>> | null; points?: Record<number, Record<string, number>> | null; girHoleConfig?: { penalty: number[]; bonus: number[] } | null },
+  playerIds: string[]
+): Record<number, Record<string, number>> {
+  if (pointsGame.gameType === 'bbb') {
+    return calculateBBBHolePoints((pointsGame.holes || {}) as any, playerIds);
+  }
+  if (pointsGame.gameType === 'gir') {
+    return calculateGIRHolePoints((pointsGame.holes || {}) as any, playerIds, pointsGame.girHoleConfig || undefined);
+  }
+  return pointsGame.points || {};
+}
+
+/** Presses for a points game: stored manual presses plus auto-presses when enabled. */
+export function calculatePointsGamePresses(
+  pointsGame: Parameters<typeof getPointsGameHolePoints>[0] & { settings?: PointsGameSettings | null; presses?: NassauPress[] | null },
+  playerIds: string[],
+  nassauValue: number,
+  roundConfig?: RoundConfig | null
+): { presses: PressResult[]; nets: Record<string, number>[] } {
+  const settings = pointsGame.settings || {};
+  return calculateNassauPresses(
+    getPointsGameHolePoints(pointsGame, playerIds),
+    playerIds,
+    getNassauSegments(roundConfig),
+    pointsGame.presses || [],
+    { pressValue: settings.pressValue ?? nassauValue, autoPress: settings.autoPress, pressTrigger: settings.pressTrigger }
+  );
+}
+
+/** Combine nets by KEY (never by index) - Fixed Version */
+export function combineGames(...nets: Record<string, number>[]): Record<string, number> {
+  const combined: Record<string, number> = {};
+  for (const net of nets) {
+    for (const [p, v] of Object.entries(net)) {
+      combined[p] = round2((combined[p] ?? 0) + v);
+    }
+  }
+  
+  // Nets should already be zero-sum; only rounding residue is reconciled below
+  const sum = round2(Object.values(combined).reduce((s, x) => s + x, 0));
+  if (Math.abs(sum) >= 0.02) {
+    // Apply penny reconciliation to fix minor rounding errors
+    if (Math.abs(sum) < 0.05 && Object.keys(combined).length > 0) {
+      // Find the player with the largest positive amount and adjust
+      const sortedPlayers = Object.entries(combined).sort((a, b) => Math.abs(b[1]) - Math.abs(a[1]));
+      if (sortedPlayers.length > 0) {
+        const [playerId, amount] = sortedPlayers[0];
+        combined[playerId] = round2(amount - sum);
+      }
+    } else {
+      throw new Error(`Combined nets not zero-sum (got ${sum}). Upstream bug.`);
+    }
+  }
+  return combined;
+}
+
+function round2(x: number): number { 
+  return Math.round(x * 100) / 100; 
+}
+
+/** Who-owes-who from the combined nets - Fixed Version */
+export function settleWhoOwesWho(net: Record<string, number>): Array<{ from: string; to: string; amount: number }> {
+  const payers = Object.entries(net)
+    .filter(([, amt]) => amt < 0)
+    .map(([p, amt]) => [p, -amt] as [string, number])
+    .sort((a, b) => b[1] - a[1]); // largest owes first
+
+  const receivers = Object.entries(net)
+    .filter(([, amt]) => amt > 0)
+    .map(([p, amt]) => [p, amt] as [string, number])
+    .sort((a, b) => b[1] - a[1]); // largest needs first
+
+  const legs: Array<{ from: string; to: string; amount: number }> = [];
+  let i = 0, j = 0;
+
+  while (i < payers.length && j < receivers.length) {
+    let [from, owe] = payers[i];
+    let [to, need] = receivers[j];
+    const pay = round2(Math.min(owe, need));
+    legs.push({ from, to, amount: pay });
+    owe = round2(owe - pay);
+    need = round2(need - pay);
+    if (owe <= 0.001) i++; else payers[i] = [from, owe];
+    if (need <= 0.001) j++; else receivers[j] = [to, need];
+  }
+
+  // Penny reconciliation: ensure paid = total positive
+  const totalRecv = round2(Object.values(net).filter(x => x > 0).reduce((s, x) => s + x, 0));
+  const totalPaid = round2(legs.reduce((s, leg) => s + leg.amount, 0));
+  const diff = round2(totalRecv - totalPaid);
+  if (Math.abs(diff) >= 0.01 && legs.length > 0) {
+    legs[legs.length - 1].amount = round2(legs[legs.length - 1].amount + diff);
+  }
+  return legs;
+}
+
+// Export aliases for canonical 3-step pipeline
+export const combineTotals = combineGames;
+export const generateSettlement = settleWhoOwesWho;
+
+// ----------------------------------------------------------------------------
+// Settlement ledger (running balances across rounds)
+// ----------------------------------------------------------------------------
+
+export interface LedgerDebt {
+  fromPlayerId: string;
+  toPlayerId: string;
+  amount: number;
+}
+
+/**
+ * Each player's balance over every recorded round: debts owed move money from
+ * `from` to `to`, payments move it back. Positive means the player is owed money.
+ * Feed the result to settleWhoOwesWho for the fewest payments that clear it.
+ */
+export function calculateLedgerBalances(entries: LedgerDebt[], payments: LedgerDebt[]): Record<string, number> {
+  const balances: Record<string, number> = {};
+  const move = (from: string, to: string, amount: number) => {
+    balances[from] = (balances[from] ?? 0) - amount;
+    balances[to] = (balances[to] ?? 0) + amount;
+  };
+  entries.forEach(entry => move(entry.fromPlayerId, entry.toPlayerId, entry.amount));
+  payments.forEach(payment => move(payment.toPlayerId, payment.fromPlayerId, payment.amount));
+  for (const id of Object.keys(balances)) balances[id] = round2(balances[id]);
+  return balances;
+}
+
+// What's still owed on one ledger debt after the payments made against it
+export function calculateOutstanding(amount: number, payments: Array<{ amount: number }>): number {
+  const paid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  return Math.max(0, round2(amount - paid));
+}
+
+/**
+ * Server-side validation of card assignments. With a deck config, cards the
+ * group has since disabled can no longer be assigned.
+ */
+export function validateCardAssignment(
+  cardId: string,
+  playerId: string,
+  deck: Card[],
+  players: Player[],
+  deckConfig?: DeckConfig | null
+): { valid: boolean; error?: string } {
+  // Check if card exists in deck
+  const card = deck.find(card => card.id === cardId);
+  if (!card) {
+    return { valid: false, error: 'Card not found in deck' };
+  }
+
+  const entry = deckConfig?.cards.find(c => c.key === (card.key ?? (card.type === 'custom' ? card.id : card.type)));
+  if (entry && !entry.enabled) {
+    return { valid: false, error: `${entry.name} is disabled in this group's deck` };
+  }
+  
+  // Check if player exists
+  const playerExists = players.some(player => player.id === playerId);
+  if (!playerExists) {
+    return { valid: false, error: 'Player not found' };
+  }
+  
+  return { valid: true };
+}
+
+/**
+ * Default points for each finishing position (best first) in the 2/9/16 family.
+ * 2 players: 2/0 (sum 2); N >= 3 players: odd numbers 2N-1 down to 1 (sum N²),
+ * e.g. 5/3/1 = 9, 7/5/3/1 = 16, 9/7/5/3/1 = 25, 11/9/7/5/3/1 = 36.
+ */
+export function defaultPositionPoints(numPlayers: number): number[] {
+  if (numPlayers === 2) return [2, 0];
+  return Array.from({ length: numPlayers }, (_, i) => 2 * (numPlayers - i) - 1);
+}
+
+/**
+ * Resolves the points-per-position table for a hole with the given number of
+ * scored players: a configured table for that player count, else the default.
+ */
+export function resolvePositionPoints(
+  numPlayers: number,
+  positionPoints?: Record<string, number[]> | null
+): number[] {
+  const configured = positionPoints?.[String(numPlayers)];
+  return configured && configured.length === numPlayers ? configured : defaultPositionPoints(numPlayers);
+}
+
+// A 2/9/16 point-table variant with its presets and defaults filled in
+export interface PointTable {
+  preset: PointTablePreset;
+  tables: Record<string, number[]>; // Player count (1-6) -> points per finishing position, best first
+  ties: PointTableTies;
+  rounding: PointTableRounding;
+}
+
+export const POINT_TABLE_PRESET_RULES: Record<Exclude<PointTablePreset, 'custom'>, { label: string; ties: PointTableTies; rounding: PointTableRounding }> = {
+  standard: { label: 'Standard', ties: 'split', rounding: 'exact' },
+  'ties-carry': { label: 'Ties carry', ties: 'carry', rounding: 'exact' },
+};
+
+/**
+ * The point-table variant a points game plays. Games saved before variants existed keep
+ * their per-game positionPoints tables as a custom variant.
+ */
+export function resolvePointTable(settings?: Pick<PointsGameSettings, 'pointTable' | 'positionPoints'> | null): PointTable {
+  const variant = settings?.pointTable ?? (settings?.positionPoints ? { preset: 'custom' as const, tables: settings.positionPoints } : { preset: 'standard' as const });
+  const customTables = variant.preset === 'custom' ? variant.tables : undefined;
+  const rules = variant.preset === 'custom'
+    ? { ties: variant.ties ?? 'split', rounding: variant.rounding ?? 'exact' }
+    : POINT_TABLE_PRESET_RULES[variant.preset];
+  return {
+    preset: variant.preset,
+    tables: Object.fromEntries([1, 2, 3, 4, 5, 6].map(count => [String(count), resolvePositionPoints(count, customTables)])),
+    ties: rules.ties,
+    rounding: rules.rounding,
+  };
+}
+
+const ROUNDING_STEP: Record<PointTableRounding, number> = { exact: 0, half: 0.5, whole: 1 };
+
+const roundSplitPoints = (points: number, rounding: PointTableRounding) => {
+  const step = ROUNDING_STEP[rounding];
+  return step ? Math.round(points / step) * step : points;
+};
+
+/**
+ * Server-side calculation of 2/9/16 points for one hole with proper tie handling.
+ * Players are ranked by strokes (lowest first) and tied players split the
+ * points of the positions they occupy, so every hole sums to the table total
+ * (2 / 9 / 16 / 25 / 36 with the standard tables). Carried ties are applied
+ * across the round by recalculate2916Points.
+ */
+export function calculate2916Points(
+  holeScores: Record<string, number>,
+  pointTable: PointTable = resolvePointTable()
+): Record<string, number> {
+  const playerIds = Object.keys(holeScores);
+  const table = pointTable.tables[String(playerIds.length)] ?? defaultPositionPoints(playerIds.length);
+  const points: Record<string, number> = {};
+
+  // Group players by their stroke count
+  const strokeGroups: Record<number, string[]> = {};
+  playerIds.forEach(playerId => {
+    const stroke = holeScores[playerId];
+    if (!strokeGroups[stroke]) strokeGroups[stroke] = [];
+    strokeGroups[stroke].push(playerId);
+  });
+
+  const sortedStrokes = Object.keys(strokeGroups).map(Number).sort((a, b) => a - b);
+
+  // Walk positions best to worst; a tie group shares the average of its positions
+  let position = 0;
+  for (const stroke of sortedStrokes) {
+    const group = strokeGroups[stroke];
+    const shared = table.slice(position, position + group.length);
+    const share = roundSplitPoints(shared.reduce((sum, value) => sum + value, 0) / group.length, pointTable.rounding);
+    group.forEach(id => points[id] = share);
+    position += group.length;
+  }
+
+  return points;
+}
+
+// Under 'carry', a hole whose low score is shared awards nothing yet
+const isTiedForLow = (holeScores: Record<string, number>) => {
+  const scores = Object.values(holeScores);
+  const low = Math.min(...scores);
+  return scores.filter(score => score === low).length > 1;
+};
+
+/**
+ * Handicap strokes a player receives on one hole, allocated by stroke index
+ * (1 = hardest). A plus handicap (negative value) gives strokes back on the
+ * easiest holes, so the result is negative there.
+ */
+export function handicapStrokesOnHole(courseHandicap: number, holeStrokeIndex: number, holeCount = 18): number {
+  const handicap = Math.round(courseHandicap);
+  if (handicap >= 0) {
+    return Math.floor(handicap / holeCount) + (holeStrokeIndex <= handicap % holeCount ? 1 : 0);
+  }
+  const plus = -handicap;
+  return -(Math.floor(plus / holeCount) + (holeStrokeIndex > holeCount - (plus % holeCount) ? 1 : 0));
+}
+
+/**
+ * Net strokes for a single hole: gross strokes minus each player's allocated
+ * handicap strokes. Players without a handicap play off scratch.
+ */
+export function calculateNetHoleScores(
+  grossScores: Record<string, number>,
+  players: Player[],
+  hole: number,
+  strokeIndex: number[]
+): Record<string, number> {
+  // Holes 19-27 of a 27-hole day reuse the stroke index of holes 1-9
+  const holeStrokeIndex = strokeIndex[(hole - 1) % 18] ?? hole;
+  const net: Record<string, number> = {};
+  for (const [playerId, gross] of Object.entries(grossScores)) {
+    const handicap = players.find(p => p.id === playerId)?.handicap ?? 0;
+    net[playerId] = gross - handicapStrokesOnHole(handicap, holeStrokeIndex);
+  }
+  return net;
+}
+
+/**
+ * Scores a 2/9/16 hole in the mode configured on the points game.
+ * Net mode ranks players on net strokes; gross mode is unchanged.
+ * `tiedForLow` tells a carrying variant to hold the hole over.
+ */
+export function score2916Hole(
+  grossScores: Record<string, number>,
+  players: Player[],
+  hole: number,
+  settings: PointsGameSettings | null | undefined
+): { points: Record<string, number>; netScores?: Record<string, number>; tiedForLow: boolean } {
+  const pointTable = resolvePointTable(settings);
+  if (settings?.scoringMode === 'net' && settings.strokeIndex) {
+    const netScores = calculateNetHoleScores(grossScores, players, hole, settings.strokeIndex);
+    return { points: calculate2916Points(netScores, pointTable), netScores, tiedForLow: isTiedForLow(netScores) };
+  }
+  return { points: calculate2916Points(grossScores, pointTable), tiedForLow: isTiedForLow(grossScores) };
+}
+
+// Does a hole's score depend on the holes played before it?
+export const scores2916AcrossHoles = (settings: PointsGameSettings | null | undefined) => resolvePointTable(settings).ties === 'carry';
+
+/**
+ * Recomputes every stored 2/9/16 hole, e.g. after handicaps or the scoring
+ * mode change. Returns the per-hole points map to persist on the game.
+ * When ties carry, holes are scored in play order: a hole tied for low
+ * scores 0 for everyone and the next decided hole is worth that many more
+ * holes' points. A carry still pending at the end of the round is not paid.
+ */
+export function recalculate2916Points(
+  holes: Record<number, Record<string, number | string>>,
+  players: Player[],
+  settings: PointsGameSettings | null | undefined,
+  roundHoles?: number[]
+): Record<number, Record<string, number>> {
+  const carries = scores2916AcrossHoles(settings);
+  const playOrder = roundHoles ?? Object.keys(holes || {}).map(Number).sort((a, b) => a - b);
+  const points: Record<number, Record<string, number>> = {};
+  let carried = 0;
+  for (const hole of playOrder) {
+    const grossScores: Record<string, number> = {};
+    for (const [playerId, strokes] of Object.entries(holes?.[hole] || {})) {
+      if (typeof strokes === 'number' && strokes > 0) grossScores[playerId] = strokes;
+    }
+    if (Object.keys(grossScores).length === 0) continue;
+    const scored = score2916Hole(grossScores, players, hole, settings);
+    if (!carries) {
+      points[hole] = scored.points;
+    } else if (scored.tiedForLow) {
+      points[hole] = Object.fromEntries(Object.keys(scored.points).map(playerId => [playerId, 0]));
+      carried++;
+    } else {
+      points[hole] = Object.fromEntries(Object.entries(scored.points).map(([playerId, value]) => [playerId, value * (carried + 1)]));
+      carried = 0;
+    }
+  }
+  return points;
+}
+
+// ----------------------------------------------------------------------------
+// Skins (carryovers, optional birdie validation of carried skins)
+// ----------------------------------------------------------------------------
+
+export interface SkinsHoleResult {
+  hole: number;
+  winner: string | null; // null when the hole is tied or the winner failed validation
+  skins: number;         // Skins won on this hole (1 + carryover), 0 when carried
+  carriedIn: number;     // Skins carried into this hole from earlier holes
+  validated: boolean;    // false when a carried skin needed a birdie and did not get one
+}
+
+export interface SkinsResult {
+  holes: SkinsHoleResult[];
+  skinsWon: Record<string, number>;
+  points: Record<number, Record<string, number>>; // hole -> playerId -> skins won (persisted on the game)
+  carryover: number; // Skins still unclaimed after the last played hole
+}
+
+/**
+ * Skins in play order. The outright low score wins the hole's skin plus any
+ * carryover; ties carry the pot to the next hole. With birdie validation a
+ * carried pot is only won with birdie or better (needs course par; without
+ * par the low score wins as usual). Rounds longer than the course reuse its
+ * par from hole 1, like stroke index. Net mode compares handicap-adjusted scores.
+ * Holes are settled in order, so scoring stops at the first incomplete hole.
+ */
+export function calculateSkins(
+  holes: Record<number, Record<string, number | string>>,
+  players: Player[],
+  roundHoles: number[],
+  settings: PointsGameSettings | null | undefined,
+  par?: number[] | null
+): SkinsResult {
+  const skinsWon: Record<string, number> = Object.fromEntries(players.map(p => [p.id, 0]));
+  const results: SkinsHoleResult[] = [];
+  const points: Record<number, Record<string, number>> = {};
+  let carry = 0;
+
+  for (const hole of roundHoles) {
+    const grossScores: Record<string, number> = {};
+    for (const player of players) {
+      const strokes = holes?.[hole]?.[player.id];
+      if (typeof strokes === 'number' && strokes > 0) grossScores[player.id] = strokes;
+    }
+    if (players.length === 0 || Object.keys(grossScores).length < players.length) break;
+
+    const scores = settings?.scoringMode === 'net' && settings.strokeIndex
+      ? calculateNetHoleScores(grossScores, players, hole, settings.strokeIndex)
+      : grossScores;
+    const low = Math.min(...Object.values(scores));
+    const lowPlayers = Object.keys(scores).filter(id => scores[id] === low);
+    const holePar = par?.length ? par[(hole - 1) % par.length] : undefined;
+    const validated = !(carry > 0 && settings?.skinsValidation === 'birdie' && holePar !== undefined && low > holePar - 1);
+    const pot = 1 + carry;
+
+    points[hole] = Object.fromEntries(players.map(p => [p.id, 0]));
+    if (lowPlayers.length === 1 && validated) {
+      const winner = lowPlayers[0];
+      skinsWon[winner] += pot;
+      points[hole][winner] = pot;
+      results.push({ hole, winner, skins: pot, carriedIn: carry, validated });
+      carry = 0;
+    } else {
+      results.push({ hole, winner: null, skins: 0, carriedIn: carry, validated });
+      carry = pot;
+    }
+  }
+
+  return { holes: results, skinsWon, points, carryover: carry };
+}
+
+/** Skins payouts: every other player pays the winner skinValue per skin (pairwise, like points). */
+export function calculateSkinsGame(skinsWon: Record<string, number>, skinValue: number = 1): Record<string, number> {
+  return pointsGame(skinsWon, skinValue);
+}
+
+// ----------------------------------------------------------------------------
+// Wolf (rotating wolf, partner / lone / blind wolf, best ball)
+// ----------------------------------------------------------------------------
+
+/** Points per hole. "Win" goes to each member of the winning side; halved holes score nothing. */
+export const WOLF_POINTS = {
+  partnerWin: 2,   // Wolf and partner each, when their best ball wins
+  partnerLoss: 3,  // Each opponent, when they beat the wolf and partner
+  loneWin: 4,      // Lone wolf beats everyone
+  loneLoss: 1,     // Each opponent, when the lone wolf loses
+  blindWin: 6,     // Blind wolf (declared before the tee shots) beats everyone
+  blindLoss: 2,    // Each opponent, when the blind wolf loses
+} as const;
+
+/** Wolf tee order: saved order when it covers the group, otherwise the group's player order. */
+export function resolveWolfTeeOrder(playerIds: string[], teeOrder?: string[] | null): string[] {
+  const valid = teeOrder
+    && teeOrder.length === playerIds.length
+    && teeOrder.every(id => playerIds.includes(id));
+  return valid ? teeOrder : playerIds;
+}
+
+/** The wolf rotates through the tee order, one hole at a time in play order. */
+export function getWolfForHole(teeOrder: string[], roundHoles: number[], hole: number): string | undefined {
+  const index = roundHoles.indexOf(hole);
+  if (index < 0 || teeOrder.length === 0) return undefined;
+  return teeOrder[index % teeOrder.length];
+}
+
+/**
+ * Points for one Wolf hole. The wolf side (wolf + partner, or the wolf alone)
+ * plays its best ball against the best ball of everyone else.
+ */
+export function calculateWolfHolePoints(holeData: WolfHoleData, playerIds: string[]): Record<string, number> {
+  const points: Record<string, number> = Object.fromEntries(playerIds.map(id => [id, 0]));
+  const wolfSide = holeData.mode === 'partner' && holeData.partner ? [holeData.wolf, holeData.partner] : [holeData.wolf];
+  const opponents = playerIds.filter(id => !wolfSide.includes(id));
+  if (opponents.length === 0) return points;
+
+  const bestBall = (side: string[]) => Math.min(...side.map(id => holeData.strokes[id] ?? Infinity));
+  const wolfBest = bestBall(wolfSide);
+  const opponentBest = bestBall(opponents);
+  if (wolfBest === opponentBest) return points; // halved
+
+  const wolfWon = wolfBest < opponentBest;
+  const [winPoints, lossPoints] = holeData.mode === 'blind'
+    ? [WOLF_POINTS.blindWin, WOLF_POINTS.blindLoss]
+    : holeData.mode === 'lone'
+      ? [WOLF_POINTS.loneWin, WOLF_POINTS.loneLoss]
+      : [WOLF_POINTS.partnerWin, WOLF_POINTS.partnerLoss];
+
+  for (const id of wolfWon ? wolfSide : opponents) {
+    points[id] = wolfWon ? winPoints : lossPoints;
+  }
+  return points;
+}
+
+/** Wolf point totals across every recorded hole. */
+export function calculateWolfPoints(
+  wolfHoleData: Record<number, WolfHoleData>,
+  playerIds: string[]
+): Record<string, number> {
+  const totals: Record<string, number> = Object.fromEntries(playerIds.map(id => [id, 0]));
+  for (const holeData of Object.values(wolfHoleData || {})) {
+    const holePoints = calculateWolfHolePoints(holeData, playerIds);
+    for (const id of playerIds) totals[id] += holePoints[id];
+  }
+  return totals;
+}
+
+/** Wolf payouts: pairwise point differences, like the 2/9/16 points game. */
+export function calculateWolfPointsGame(
+  wolfHoleData: Record<number, WolfHoleData>,
+  playerIds: string[],
+  valuePerPoint: number = 1
+): Record<string, number> {
+  return calculatePointsGame(calculateWolfPoints(wolfHoleData, playerIds), valuePerPoint);
+}
+
+// ----------------------------------------------------------------------------
+// Stableford (points vs par from the 2/9/16 stroke entry)
+// ----------------------------------------------------------------------------
+
+// Points by score vs par, from double bogey or worse up to albatross or better
+export const STABLEFORD_TABLES = {
+  standard: [0, 1, 2, 3, 4, 5], // double bogey+, bogey, par, birdie, eagle, albatross
+  modified: [-3, -1, 0, 2, 5, 8],
+} as const;
+
+export type StablefordTable = keyof typeof STABLEFORD_TABLES;
+
+export interface StablefordResult {
+  points: Record<number, Record<string, number>>; // hole -> playerId -> Stableford points
+  totals: Record<string, number>;
+}
+
+/** Stableford points for one score on one hole. */
+export function stablefordPointsForScore(strokes: number, par: number, table: StablefordTable = 'standard'): number {
+  const underPar = Math.min(Math.max(par - strokes, -2), 3);
+  return STABLEFORD_TABLES[table][underPar + 2];
+}
+
+/**
+ * Stableford points from 2/9/16 strokes. Needs course par; holes without par
+ * are skipped. Net mode scores handicap-adjusted strokes, like 2/9/16.
+ */
+export function calculateStablefordPoints(
+  holes: Record<number, Record<string, number | string>>,
+  players: Player[],
+  roundHoles: number[],
+  par: number[],
+  settings: PointsGameSettings | null | undefined
+): StablefordResult {
+  const table = settings?.stablefordTable ?? 'standard';
+  const points: Record<number, Record<string, number>> = {};
+  const totals: Record<string, number> = Object.fromEntries(players.map(p => [p.id, 0]));
+
+  for (const hole of roundHoles) {
+    const holePar = par[hole - 1];
+    if (holePar === undefined) continue;
+    const grossScores: Record<string, number> = {};
+    for (const player of players) {
+      const strokes = holes?.[hole]?.[player.id];
+      if (typeof strokes === 'number' && strokes > 0) grossScores[player.id] = strokes;
+    }
+    if (Object.keys(grossScores).length === 0) continue;
+
+    const scores = settings?.scoringMode === 'net' && settings.strokeIndex
+      ? calculateNetHoleScores(grossScores, players, hole, settings.strokeIndex)
+      : grossScores;
+    points[hole] = {};
+    for (const [playerId, strokes] of Object.entries(scores)) {
+      points[hole][playerId] = stablefordPointsForScore(strokes, holePar, table);
+      totals[playerId] += points[hole][playerId];
+    }
+  }
+
+  return { points, totals };
+}
+
+/** Stableford payouts: pairwise point differences, or pay-up-the-ladder when configured. */
+export function calculateStablefordGame(
+  totals: Record<string, number>,
+  valuePerPoint: number = 1,
+  settlement: 'pairwise' | 'ladder' = 'pairwise'
+): Record<string, number> {
+  return settlement === 'ladder'
+    ? calculateLadderSettlement(totals, valuePerPoint)
+    : calculatePointsGame(totals, valuePerPoint);
+}
+
+// ----------------------------------------------------------------------------
+// Team games (best ball / aggregate, fixed sides or partners rotating every 6)
+// ----------------------------------------------------------------------------
+
+export interface TeamBetResult {
+  holes: number[];                 // Holes this bet covers, in play order
+  sides: [string[], string[]];
+  scores: [number, number];        // Team strokes over the completed holes
+  holesPlayed: number;
+  winner: 0 | 1 | null;            // Index of the winning side, null when tied or unplayed
+}
+
+/**
+ * Sides for one hole. Fixed teams never change; 'sixes' rotates a foursome
+ * so A partners B, then C, then D across each block of six holes.
+ */
+export function getTeamsForHole(teams: TeamSettings, roundHoles: number[], hole: number): [string[], string[]] {
+  if (teams.rotation !== 'sixes') return teams.sides;
+  const [[a, b], [c, d]] = teams.sides;
+  const block = Math.floor(Math.max(roundHoles.indexOf(hole), 0) / 6) % 3;
+  if (block === 1) return [[a, c], [b, d]];
+  if (block === 2) return [[a, d], [b, c]];
+  return [[a, b], [c, d]];
+}
+
+/** One side's score on a hole: the low ball, or every partner's strokes added up. */
+export function calculateTeamHoleScore(
+  scores: Record<string, number>,
+  side: string[],
+  scoring: TeamSettings['scoring']
+): number {
+  const sideScores = side.map(id => scores[id]);
+  return scoring === 'aggregate'
+    ? sideScores.reduce((sum, value) => sum + value, 0)
+    : Math.min(...sideScores);
+}
+
+/**
+ * Team bets from per-player strokes. Fixed sides play the Nassau segments plus
+ * the overall total; rotating sides play each six-hole block as its own bet.
+ * Only holes where all players have strokes count. Net mode uses
+ * handicap-adjusted strokes, like 2/9/16.
+ */
+export function calculateTeamBets(
+  holes: Record<number, Record<string, number | string>>,
+  players: Player[],
+  roundHoles: number[],
+  segments: number[][],
+  teams: TeamSettings,
+  settings: PointsGameSettings | null | undefined
+): TeamBetResult[] {
+  const teamPlayers = [...teams.sides[0], ...teams.sides[1]];
+  const betHoles: number[][] = [];
+  if (teams.rotation === 'sixes') {
+    for (let i = 0; i < roundHoles.length; i += 6) betHoles.push(roundHoles.slice(i, i + 6));
+  } else {
+    betHoles.push(...segments);
+    if (segments.length > 1) betHoles.push(segments.flat());
+  }
+
+  return betHoles.map(holesInBet => {
+    const sides = getTeamsForHole(teams, roundHoles, holesInBet[0]);
+    const scores: [number, number] = [0, 0];
+    let holesPlayed = 0;
+    for (const hole of holesInBet) {
+      const grossScores: Record<string, number> = {};
+      for (const id of teamPlayers) {
+        const strokes = holes?.[hole]?.[id];
+        if (typeof strokes === 'number' && strokes > 0) grossScores[id] = strokes;
+      }
+      if (Object.keys(grossScores).length < teamPlayers.length) continue;
+      const holeScores = settings?.scoringMode === 'net' && settings.strokeIndex
+        ? calculateNetHoleScores(grossScores, players, hole, settings.strokeIndex)
+        : grossScores;
+      scores[0] += calculateTeamHoleScore(holeScores, sides[0], teams.scoring);
+      scores[1] += calculateTeamHoleScore(holeScores, sides[1], teams.scoring);
+      holesPlayed++;
+    }
+    const winner = holesPlayed === 0 || scores[0] === scores[1] ? null : scores[0] < scores[1] ? 0 : 1;
+    return { holes: holesInBet, sides, scores, holesPlayed, winner };
+  });
+}
+
+/**
+ * Splits team winnings into individual nets: each player on the losing side
+ * pays value, and the pot is shared evenly by the winning side.
+ */
+export function calculateTeamGame(bets: TeamBetResult[], value: number): Record<string, number> {
+  const net: Record<string, number> = {};
+  for (const bet of bets) {
+    for (const id of bet.sides.flat()) net[id] ??= 0;
+    if (bet.winner === null) continue;
+    const winners = bet.sides[bet.winner];
+    const losers = bet.sides[1 - bet.winner];
+    const share = (value * losers.length) / winners.length;
+    winners.forEach(id => net[id] += share);
+    losers.forEach(id => net[id] -= value);
+  }
+  for (const id of Object.keys(net)) net[id] = round2(net[id]);
+  return net;
+}
+
+/**
+ * Calculate BBB points from hole data
+ * Each hole has 3 categories: firstOn, closestTo, firstIn
+ * Winner of each category gets 1 point
+ */
+export function calculateBBBPoints(
+  bbbHoleData: Record<number, { firstOn?: string; closestTo?: string; firstIn?: string }>,
+  playerIds: string[]
+): Record<string, number> {
+  const points: Record<string, number> = {};
+  playerIds.forEach(id => points[id] = 0);
+
+  Object.entries(bbbHoleData).forEach(([holeStr, holeData]) => {
+    // Award 1 point to winner of each category
+    if (holeData.firstOn && holeData.firstOn !== 'none' && playerIds.includes(holeData.firstOn)) {
+      points[holeData.firstOn] += 1;
+    }
+    if (holeData.closestTo && holeData.closestTo !== 'none' && playerIds.includes(holeData.closestTo)) {
+      points[holeData.closestTo] += 1;
+    }
+    if (holeData.firstIn && holeData.firstIn !== 'none' && playerIds.includes(holeData.firstIn)) {
+      points[holeData.firstIn] += 1;
+    }
+  });
+
+  return points;
+}
+
+/**
+ * BBB Points Game calculation (pairwise comparison like 2/9/16)
+ * Uses same pairwise logic as calculatePointsGame
+ */
+export function calculateBBBPointsGame(
+  bbbHoleData: Record<number, { firstOn?: string; closestTo?: string; firstIn?: string }>,
+  playerIds: string[],
+  valuePerPoint: number = 1
+): Record<string, number> {
+  const bbbPoints = calculateBBBPoints(bbbHoleData, playerIds);
+  return calculatePointsGame(bbbPoints, valuePerPoint);
+}
+
+/** Per-hole BBB points (1 per category won) */
+export function calculateBBBHolePoints(
+  bbbHoleData: Record<number, { firstOn?: string; closestTo?: string; firstIn?: string }>,
+  playerIds: string[]
+): Record<number, Record<string, number>> {
+  const holePoints: Record<number, Record<string, number>> = {};
+  Object.entries(bbbHoleData).forEach(([holeStr, holeData]) => {
+    const hole = parseInt(holeStr, 10);
+    holePoints[hole] = {};
+    for (const winner of [holeData.firstOn, holeData.closestTo, holeData.firstIn]) {
+      if (winner && winner !== 'none' && playerIds.includes(winner)) {
+        holePoints[hole][winner] = (holePoints[hole][winner] || 0) + 1;
+      }
+    }
+  });
+  return holePoints;
+}
+
+/**
+ * BBB Nassau Game calculation (Front/Back/Total like 2/9/16)
+ * Segments follow the round layout (front/back nines for a standard round)
+ */
+export function calculateBBBNassauGame(
+  bbbHoleData: Record<number, { firstOn?: string; closestTo?: string; firstIn?: string }>,
+  playerIds: string[],
+  potValue: number = 10,
+  roundConfig?: RoundConfig | null
+): Record<string, number> {
+  const holePoints = calculateBBBHolePoints(bbbHoleData, playerIds);
+  const segments = sumPointsBySegment(holePoints, playerIds, getNassauSegments(roundConfig));
+  return calculateSegmentedNassauGame(segments, potValue);
+}
+
+/**
+ * Calculate GIR (Green in Regulation) points from hole data
+ * Scoring rules:
+ * - Standard holes: YES = +1, NO = 0
+ * - Penalty holes (user-configured): YES = +1, NO = -1
+ * - Bonus holes (user-configured): YES = +2, NO = 0
+ */
+export function calculateGIRPoints(
+  girHoleData: Record<number, Record<string, boolean>>,
+  playerIds: string[],
+  girHoleConfig: { penalty: number[]; bonus: number[] } = { penalty: [], bonus: [] }
+): Record<string, number> {
+  const points: Record<string, number> = {};
+  playerIds.forEach(id => points[id] = 0);
+
+  const penaltyHoles = new Set(girHoleConfig.penalty);
+  const bonusHoles = new Set(girHoleConfig.bonus);
+
+  Object.entries(girHoleData).forEach(([holeStr, holeData]) => {
+    const hole = parseInt(holeStr, 10);
+    
+    Object.entries(holeData).forEach(([playerId, hitGir]) => {
+      if (!playerIds.includes(playerId)) return;
+      
+      if (penaltyHoles.has(hole)) {
+        // Penalty hole: YES = +1, NO = -1
+        points[playerId] += hitGir ? 1 : -1;
+      } else if (bonusHoles.has(hole)) {
+        // Bonus hole: YES = +2, NO = 0
+        points[playerId] += hitGir ? 2 : 0;
+      } else {
+        // Standard hole: YES = +1, NO = 0
+        points[playerId] += hitGir ? 1 : 0;
+      }
+    });
+  });
+
+  return points;
+}
+
+/**
+ * Pay-up-the-ladder settlement: Each player pays all players above them
+ * based on point differences. Used for GIR and similar games.
+ * 
+ * Example: Points [10, 5, -2, -3] with $1/point
+ * - Player D (-3) owes: C $1, B $8, A $13 
+ * - Player C (-2) owes: B $7, A $12
+ * - Player B (5) owes: A $5
+ */
+export function calculateLadderSettlement(
+  points: Record<string, number>,
+  valuePerPoint: number = 1
+): Record<string, number> {
+  const players = Object.keys(points);
+  const net: Record<string, number> = Object.fromEntries(players.map(p => [p, 0]));
+  
+  // Sort players by points (descending - highest first)
+  const sortedPlayers = players.sort((a, b) => points[b] - points[a]);
+  
+  // Each player pays all players above them
+  for (let i = 0; i < sortedPlayers.length; i++) {
+    for (let j = i + 1; j < sortedPlayers.length; j++) {
+      const higherPlayer = sortedPlayers[i];
+      const lowerPlayer = sortedPlayers[j];
+      
+      const pointDiff = points[higherPlayer] - points[lowerPlayer];
+      const payment = pointDiff * valuePerPoint;
+      
+      // Lower player pays higher player
+      net[higherPlayer] += payment;
+      net[lowerPlayer] -= payment;
+    }
+  }
+  
+  // Round all results
+  for (const p of players) {
+    net[p] = round2(net[p]);
+  }
+  
+  return net;
+}
+
+/**
+ * GIR Points Game calculation using pay-up-the-ladder method
+ */
+export function calculateGIRPointsGame(
+  girHoleData: Record<number, Record<string, boolean>>,
+  playerIds: string[],
+  valuePerPoint: number = 1,
+  girHoleConfig: { penalty: number[]; bonus: number[] } = { penalty: [], bonus: [] }
+): Record<string, number> {
+  const girPoints = calculateGIRPoints(girHoleData, playerIds, girHoleConfig);
+  return calculateLadderSettlement(girPoints, valuePerPoint);
+}
+
+/** Per-hole GIR points (same scoring as calculateGIRPoints, kept per hole) */
+export function calculateGIRHolePoints(
+  girHoleData: Record<number, Record<string, boolean>>,
+  playerIds: string[],
+  girHoleConfig: { penalty: number[]; bonus: number[] } = { penalty: [], bonus: [] }
+): Record<number, Record<string, number>> {
+  const penaltyHoles = new Set(girHoleConfig.penalty);
+  const bonusHoles = new Set(girHoleConfig.bonus);
+
+  const holePoints: Record<number, Record<string, number>> = {};
+  Object.entries(girHoleData).forEach(([holeStr, holeData]) => {
+    const hole = parseInt(holeStr, 10);
+    holePoints[hole] = {};
+
+    Object.entries(holeData).forEach(([playerId, hitGir]) => {
+      if (!playerIds.includes(playerId)) return;
+      
+      if (penaltyHoles.has(hole)) {
+        holePoints[hole][playerId] = hitGir ? 1 : -1;
+      } else if (bonusHoles.has(hole)) {
+        holePoints[hole][playerId] = hitGir ? 2 : 0;
+      } else {
+        holePoints[hole][playerId] = hitGir ? 1 : 0;
+      }
+    });
+  });
+  return holePoints;
+}
+
+/**
+ * GIR Nassau Game calculation (Front/Back/Total like BBB)
+ * Segments follow the round layout (front/back nines for a standard round)
+ * Uses traditional Nassau winner-takes-pot logic (not ladder)
+ */
+export function calculateGIRNassauGame(
+  girHoleData: Record<number, Record<string, boolean>>,
+  playerIds: string[],
+  potValue: number = 10,
+  girHoleConfig: { penalty: number[]; bonus: number[] } = { penalty: [], bonus: [] },
+  roundConfig?: RoundConfig | null
+): Record<string, number> {
+  const holePoints = calculateGIRHolePoints(girHoleData, playerIds, girHoleConfig);
+
+  // Use traditional Nassau pot logic (winner-takes-all per segment)
+  const segments = sumPointsBySegment(holePoints, playerIds, getNassauSegments(roundConfig));
+  return calculateSegmentedNassauGame(segments, potValue);
+}
+
+// ----------------------------------------------------------------------------
+// Round standings (cards + 2/9/16 points + Nassau, projected as if the round ended now)
+// ----------------------------------------------------------------------------
+
+const segmentLabels = (count: number): string[] =>
+  count === 2 ? ['Front', 'Back'] : Array.from({ length: count }, (_, i) => `Nine ${i + 1}`);
+
+/**
+ * Standings for one session from its games. The server builds the live leaderboard
+ * with this; the client uses it for provisional results while offline. Players are
+ * copied field by field so account links never end up in the result.
+ */
+export function calculateRoundStandings(
+  gameState: Pick<GameState, 'name' | 'roundConfig' | 'cardHistory' | 'cardValues' | 'playerCards'>,
+  group: Pick<Group, 'name' | 'players'>,
+  sessionGames: Pick<PointsGame, 'gameType' | 'holes' | 'points' | 'settings' | 'presses'>[]
+): LiveLeaderboard {
+  const playerIds = group.players.map(p => p.id);
+  const roundHoles = getRoundHoles(gameState.roundConfig);
+  const pointsGame = sessionGames.find(game => game.gameType === 'points');
+
+  const nets: Record<string, number>[] = [];
+
+  // Cards held right now, priced with the session's card values
+  const cardGame = calculateCardGameDetails(gameState.cardHistory, group.players, gameState.cardValues || {});
+  nets.push(Object.fromEntries(cardGame.payouts.map(payout => [payout.playerId, payout.netPayout])));
+
+  let totals: Record<string, number> | null = null;
+  let nassau: LiveLeaderboard['nassau'] = null;
+
+  if (pointsGame) {
+    const holePoints = pointsGame.points || {};
+    totals = Object.fromEntries(playerIds.map(id => [id, 0]));
+    for (const hole of roundHoles) {
+      for (const id of playerIds) totals[id] += holePoints[hole]?.[id] || 0;
+    }
+
+    const pointValue = pointsGame.settings?.pointValue ?? 0;
+    if (pointValue > 0) {
+      nets.push(calculatePointsGame(totals, pointValue));
+    }
+
+    const segments = getNassauSegments(gameState.roundConfig);
+    const segmentTotals = sumPointsBySegment(holePoints, playerIds, segments);
+    const labels = segments.length > 1 ? [...segmentLabels(segments.length), 'Total'] : ['Total'];
+    const { presses, nets: pressNets } = calculatePointsGamePresses(pointsGame, playerIds, pointsGame.settings?.nassauValue ?? 0, gameState.roundConfig);
+
+    nassau = {
+      segments: segmentTotals.map((points, i) => {
+        const best = Math.max(...playerIds.map(id => points[id]));
+        const leaders = playerIds.filter(id => points[id] === best);
+        return {
+          label: labels[i],
+          holes: segments[i] ?? roundHoles,
+          points,
+          leaders: leaders.length === playerIds.length ? [] : leaders, // all square
+        };
+      }),
+      presses: presses.map(({ pressedBy, opponent, startHole, endHole, holesUp, winner }) => ({ pressedBy, opponent, startHole, endHole, holesUp, winner })),
+    };
+
+    const nassauValue = pointsGame.settings?.nassauValue ?? 0;
+    if (nassauValue > 0) {
+      nets.push(buildNassauNetsFromPointsGame(group.players, { points: holePoints }, nassauValue, gameState.roundConfig));
+      nets.push(...pressNets);
+    }
+  }
+
+  const projected = combineGames(...nets);
+  const scoredHoles = new Set(sessionGames.flatMap(game => Object.keys(game.holes || {}).map(Number)));
+
+  return {
+    gameName: gameState.name,
+    groupName: group.name,
+    holesPlayed: roundHoles.filter(hole => scoredHoles.has(hole)).length,
+    roundHoles,
+    players: group.players.map(player => ({
+      id: player.id,
+      name: player.name,
+      initials: player.initials,
+      color: player.color,
+      cards: (gameState.playerCards[player.id] || []).map(card => ({ id: card.id, name: card.name || card.type, emoji: card.emoji })),
+      points: totals ? totals[player.id] : null,
+      projected: projected[player.id] ?? 0,
+    })),
+    nassau,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// Leagues
+// ============================================================================
+
+export interface LeagueRound {
+  gameState: Pick<GameState, 'id' | 'roundConfig' | 'cardHistory' | 'cardValues'>;
+  pointsGames: Pick<PointsGame, 'gameType' | 'holes' | 'points' | 'settings' | 'girHoleConfig'>[];
+}
+
+/**
+ * Net money each player made from the games a league counts in one round. Only players
+ * with something recorded in a counted game appear - absent players didn't play the round.
+ */
+export function calculateLeagueRoundNets(round: LeagueRound, players: Player[], countedGames: LeagueGame[]): Record<string, number> {
+  const nets: Record<string, number>[] = [];
+  const played = new Set<string>();
+  const roundHoles = getRoundHoles(round.gameState.roundConfig);
+
+  if (countedGames.includes('points')) {
+    const game = round.pointsGames.find(g => g.gameType === 'points');
+    if (game) {
+      const totals: Record<string, number> = {};
+      for (const hole of roundHoles) {
+        for (const [id, points] of Object.entries(game.points?.[hole] || {})) {
+          totals[id] = (totals[id] ?? 0) + points;
+        }
+      }
+      Object.keys(totals).forEach(id => played.add(id));
+      const pointValue = game.settings?.pointValue ?? 0;
+      if (pointValue > 0) nets.push(calculatePointsGame(totals, pointValue));
+    }
+  }
+
+  if (countedGames.includes('gir')) {
+    const game = round.pointsGames.find(g => g.gameType === 'gir');
+    if (game) {
+      const holes = (game.holes || {}) as unknown as Record<number, Record<string, boolean>>; // GIR holes store playerId -> hit green
+      const ids = players.map(p => p.id).filter(id => Object.values(holes).some(hole => id in hole));
+      ids.forEach(id => played.add(id));
+      const pointValue = game.settings?.pointValue ?? 0;
+      if (pointValue > 0 && ids.length > 0) nets.push(calculateGIRPointsGame(holes, ids, pointValue, game.girHoleConfig || undefined));
+    }
+  }
+
+  if (countedGames.includes('cards') && round.gameState.cardHistory.length > 0) {
+    round.gameState.cardHistory.forEach(assignment => played.add(assignment.playerId));
+    const cardGame = calculateCardGameDetails(round.gameState.cardHistory, players, round.gameState.cardValues || {});
+    nets.push(Object.fromEntries(cardGame.payouts.map(payout => [payout.playerId, payout.netPayout])));
+  }
+
+  const combined = combineGames(...nets);
+  return Object.fromEntries(players.filter(p => played.has(p.id)).map(p => [p.id, combined[p.id] ?? 0]));
+}
+
+/**
+ * League points for one round: players are placed by their round net and take the
+ * points for their position. Tied players share the average of the positions they cover.
+ */
+export function awardLeaguePositionPoints(roundNets: Record<string, number>, positionPoints: number[]): Record<string, number> {
+  const ids = Object.keys(roundNets).sort((a, b) => roundNets[b] - roundNets[a]);
+  const awarded: Record<string, number> = {};
+  let position = 0;
+  while (position < ids.length) {
+    const tied = ids.filter(id => roundNets[id] === roundNets[ids[position]]);
+    const shared = tied.reduce((sum, _, i) => sum + (positionPoints[position + i] ?? 0), 0) / tied.length;
+    tied.forEach(id => awarded[id] = round2(shared));
+    position += tied.length;
+  }
+  return awarded;
+}
+
+/** Season standings: each round scored with the league's method, keeping each player's best N rounds if set */
+export function calculateLeagueStandings(
+  league: Pick<League, 'countedGames' | 'scoring'>,
+  rounds: LeagueRound[],
+  players: Player[]
+): LeagueStanding[] {
+  const roundScores: Record<string, Record<string, number>> = {}; // playerId -> gameStateId -> score
+  for (const round of rounds) {
+    const nets = calculateLeagueRoundNets(round, players, league.countedGames);
+    const scores = league.scoring.method === 'points' ? awardLeaguePositionPoints(nets, league.scoring.positionPoints) : nets;
+    for (const [id, score] of Object.entries(scores)) {
+      if (!roundScores[id]) roundScores[id] = {};
+      roundScores[id][round.gameState.id] = score;
+    }
+  }
+
+  const bestOf = league.scoring.bestOf;
+  return players
+    .filter(player => roundScores[player.id])
+    .map(player => {
+      const scores = roundScores[player.id];
+      const ranked = Object.keys(scores).sort((a, b) => scores[b] - scores[a]);
+      const countedRounds = bestOf ? ranked.slice(0, bestOf) : ranked;
+      return {
+        playerId: player.id,
+        name: player.name,
+        initials: player.initials,
+        color: player.color,
+        roundsPlayed: ranked.length,
+        total: round2(countedRounds.reduce((sum, id) => sum + scores[id], 0)),
+        roundScores: scores,
+        countedRounds,
+      };
+    })
+    .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+}
+
+// ============================================================================
+// Multi-foursome events
+// ============================================================================
+
+export interface EventRound {
+  group: Pick<Group, 'id' | 'name' | 'players'>;
+  gameState: Pick<GameState, 'id' | 'roundConfig'>;
+  pointsGames: Pick<PointsGame, 'gameType' | 'holes' | 'points' | 'girHoleConfig'>[];
+}
+
+/** Participants are told apart by foursome, since each group has its own player ids */
+export const eventParticipantKey = (groupId: string, playerId: string) => `${groupId}:${playerId}`;
+
+/**
+ * Scores an event across every foursome's round and settles it as one pool.
+ * - Skins: all participants' strokes compared hole by hole (in hole-number order, since
+ *   foursomes may start on different tees). A hole is decided once everyone whose round
+ *   includes it has a score, so a foursome still out on the course holds up only the holes
+ *   it hasn't played. The pot of buy-ins is split per skin won.
+ * - GIR: each player's GIR points from their own round, paid up the ladder.
+ * - 2/9/16: a foursome's points add up to a total that depends on its size, so each player's
+ *   total is taken relative to their foursome's average before paying between every pair.
+ */
+export function calculateEventResults(rounds: EventRound[], settings: EventSettings): Omit<EventLeaderboard, 'event' | 'rounds'> {
+  const participants = rounds.flatMap(round => round.group.players.map(player => ({
+    key: eventParticipantKey(round.group.id, player.id),
+    player,
+    round,
+  })));
+  const nets: Record<string, number>[] = [];
+
+  let skins: EventLeaderboard['skins'] = null;
+  let skinsWon: Record<string, number> = {};
+  if (settings.games.includes('skins') && participants.length > 0) {
+    const holeNumbers = Array.from(new Set(rounds.flatMap(round => getRoundHoles(round.gameState.roundConfig)))).sort((a, b) => a - b);
+    const holeResults: NonNullable<EventLeaderboard['skins']>['holes'] = [];
+    skinsWon = Object.fromEntries(participants.map(({ key }) => [key, 0]));
+    let carry = 0;
+    for (const hole of holeNumbers) {
+      const scores: Record<string, number> = {};
+      let waiting = false;
+      for (const { key, player, round } of participants) {
+        if (!getRoundHoles(round.gameState.roundConfig).includes(hole)) continue;
+        const scored = round.pointsGames.find(game => game.gameType === 'skins') ?? round.pointsGames.find(game => game.gameType === 'points');
+        const value = scored?.holes?.[hole]?.[player.id];
+        if (typeof value === 'number' && value > 0) scores[key] = value;
+        else waiting = true;
+      }
+      if (waiting || Object.keys(scores).length === 0) continue;
+
+      const low = Math.min(...Object.values(scores));
+      const lowKeys = Object.keys(scores).filter(key => scores[key] === low);
+      if (lowKeys.length === 1) {
+        skinsWon[lowKeys[0]] += 1 + carry;
+        holeResults.push({ hole, winner: lowKeys[0], skins: 1 + carry });
+        carry = 0;
+      } else {
+        holeResults.push({ hole, winner: null, skins: 0 });
+        carry += 1;
+      }
+    }
+
+    const pot = round2(settings.skinBuyIn * participants.length);
+    const totalSkins = Object.values(skinsWon).reduce((sum, count) => sum + count, 0);
+    skins = { holes: holeResults, carryover: carry, pot };
+    // Nobody has won a skin yet - everyone still has their buy-in
+    if (pot > 0 && totalSkins > 0) {
+      nets.push(Object.fromEntries(participants.map(({ key }) => [key, (skinsWon[key] ?? 0) * pot / totalSkins - settings.skinBuyIn])));
+    }
+  }
+
+  const girPoints: Record<string, number> = {};
+  const points2916: Record<string, number> = {};
+  for (const round of rounds) {
+    const playerIds = round.group.players.map(p => p.id);
+    const girGame = round.pointsGames.find(game => game.gameType === 'gir');
+    if (girGame) {
+      const holes = (girGame.holes || {}) as unknown as Record<number, Record<string, boolean>>; // GIR holes store playerId -> hit green
+      const points = calculateGIRPoints(holes, playerIds, girGame.girHoleConfig || undefined);
+      playerIds.forEach(id => girPoints[eventParticipantKey(round.group.id, id)] = points[id] ?? 0);
+    }
+    const pointsGame = round.pointsGames.find(game => game.gameType === 'points');
+    if (pointsGame && playerIds.length > 0) {
+      const holePoints = pointsGame.points || {};
+      const totals = playerIds.map(id => getRoundHoles(round.gameState.roundConfig)
+        .reduce((sum, hole) => sum + (holePoints[hole]?.[id] || 0), 0));
+      const average = totals.reduce((sum, total) => sum + total, 0) / playerIds.length;
+      playerIds.forEach((id, index) => points2916[eventParticipantKey(round.group.id, id)] = round2(totals[index] - average));
+    }
+  }
+  if (settings.games.includes('gir') && settings.girPointValue > 0 && Object.keys(girPoints).length > 1) {
+    nets.push(calculateLadderSettlement(girPoints, settings.girPointValue));
+  }
+  if (settings.games.includes('points') && settings.pointValue > 0 && Object.keys(points2916).length > 1) {
+    nets.push(calculatePointsGame(points2916, settings.pointValue));
+  }
+
+  const net = combineGames(...nets);
+  const nameOf = (key: string) => participants.find(p => p.key === key)?.player.name ?? 'Unknown';
+
+  return {
+    participants: participants.map(({ key, player, round }) => ({
+      key,
+      playerId: player.id,
+      groupId: round.group.id,
+      groupName: round.group.name,
+      name: player.name,
+      initials: player.initials,
+      color: player.color,
+      skins: skinsWon[key] ?? 0,
+      girPoints: key in girPoints ? girPoints[key] : null,
+      points2916: key in points2916 ? points2916[key] : null,
+      net: net[key] ?? 0,
+    })),
+    skins,
+    settlement: settleWhoOwesWho(net).map(leg => ({ ...leg, fromName: nameOf(leg.from), toName: nameOf(leg.to) })),
+  };
+}
@@ -0,0 +1,32 @@
+import type { PaymentHandles, PaymentOption } from "./schema";
+
+// Pay links for a settlement leg. Venmo, PayPal and Cash App links open the app when it's
+// installed (their website otherwise) with the amount filled in; only Venmo carries the memo.
+
+export function buildPaymentMemo(roundName: string, date: Date): string {
+  return `ForeScore – ${roundName} ${date.getMonth() + 1}/${date.getDate()}`;
+}
+
+export function buildPaymentOptions(handles: PaymentHandles | null | undefined, amount: number, memo: string): PaymentOption[] {
+  if (!handles) return [];
+  const value = amount.toFixed(2);
+  const options: PaymentOption[] = [];
+
+  if (handles.venmo) {
+    const url = `https://venmo.com/${encodeURIComponent(handles.venmo)}?txn=pay&amount=${value}&note=${encodeURIComponent(memo)}`;
+    options.push({ app: 'venmo', label: 'Venmo', handle: `@${handles.venmo}`, url, qrPayload: url });
+  }
+  if (handles.paypal) {
+    const url = `https://paypal.me/${encodeURIComponent(handles.paypal)}/${value}USD`;
+    options.push({ app: 'paypal', label: 'PayPal', handle: handles.paypal, url, qrPayload: url });
+  }
+  if (handles.cashapp) {
+    const url = `https://cash.app/$${encodeURIComponent(handles.cashapp)}/${value}`;
+    options.push({ app: 'cashapp', label: 'Cash App', handle: `$${handles.cashapp}`, url, qrPayload: url });
+  }
+  if (handles.zelle) {
+    // Zelle lives inside each bank's app - the payer needs the recipient's email or phone
+    options.push({ app: 'zelle', label: 'Zelle', handle: handles.zelle, url: null, qrPayload: handles.zelle });
+  }
+  return options;
+}
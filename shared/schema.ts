@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, jsonb, timestamp, integer, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, jsonb, timestamp, integer, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -35,7 +35,7 @@ export const users = pgTable("users", {
   marketingUnsubscribeAt: timestamp("marketing_unsubscribe_at"),
   marketingPreferenceStatus: varchar("marketing_preference_status").$type<'subscribed' | 'unsubscribed'>().default('subscribed'),
   // Manual trial fields for admin-granted trial access
-  manualTrialGrantedBy: varchar("manual_trial_granted_by").references(() => users.id, { onDelete: "set null" }),
+  manualTrialGrantedBy: varchar("manual_trial_granted_by").references((): AnyPgColumn => users.id, { onDelete: "set null" }),
   manualTrialGrantedAt: timestamp("manual_trial_granted_at"),
   manualTrialEndsAt: timestamp("manual_trial_ends_at"),
   manualTrialDays: integer("manual_trial_days"),
@@ -49,6 +49,8 @@ export const users = pgTable("users", {
   // Quick signup fields for QR landing email-only registration
   isQuickSignup: integer("is_quick_signup").notNull().default(0), // 0 = full account, 1 = email-only quick signup
   quickSignupConvertedAt: timestamp("quick_signup_converted_at"), // When user set password and converted to full account
+  // Where other players can pay this user (shown on who-owes-who legs)
+  paymentHandles: jsonb("payment_handles").$type<PaymentHandles>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -57,7 +59,7 @@ export const users = pgTable("users", {
 export const userPreferences = pgTable("user_preferences", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  currentTab: varchar("current_tab").$type<'groups' | 'games' | 'scoreboard' | 'rules'>().default('groups'),
+  currentTab: varchar("current_tab").$type<'groups' | 'games' | 'scoreboard' | 'league' | 'rules'>().default('groups'),
   selectedGroupId: varchar("selected_group_id"), // Persist selected group
   selectedGameId: varchar("selected_game_id"),   // Persist selected game
   createdAt: timestamp("created_at").defaultNow(),
@@ -78,6 +80,7 @@ export const groups = pgTable("groups", {
     yeti: 2
   }),
   customCards: json("custom_cards").$type<CustomCard[]>().notNull().default([]),
+  deckConfig: jsonb("deck_config").$type<DeckConfig>(), // Full card catalog for new sessions (null = built-in animals plus customCards)
   groupPhoto: text("group_photo"), // base64 image data
   createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -96,6 +99,16 @@ export const gameStates = pgTable("game_states", {
   cardValues: json("card_values").$type<CardValues>().notNull().default({
     camel: 2, fish: 2, roadrunner: 2, ghost: 2, skunk: 2, snake: 2, yeti: 2
   }),
+  roundConfig: jsonb("round_config").$type<RoundConfig>(), // Holes in play and shotgun start (null = standard 18 holes)
+  courseId: varchar("course_id").references(() => courses.id, { onDelete: "set null" }), // Course being played (optional)
+  teeName: varchar("tee_name"), // Tee set played from the attached course
+  revision: integer("revision").notNull().default(0), // Bumped on every write; edits send the revision they were based on
+  shareToken: varchar("share_token").unique(), // Read-only spectator link (null = not shared; revoking clears it)
+  leagueId: varchar("league_id").references(() => leagues.id, { onDelete: "set null" }), // Season this round counts toward (optional)
+  eventId: varchar("event_id").references(() => events.id, { onDelete: "set null" }), // Multi-foursome event this round is part of (optional)
+  finalizedAt: timestamp("finalized_at"), // Set while the round is locked - hole and card edits are refused until an owner reopens it
+  finalizedBy: varchar("finalized_by").references(() => users.id, { onDelete: "set null" }),
+  finalSettlement: jsonb("final_settlement").$type<FinalSettlement>(), // Payouts as they stood when the round was finalized
   createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -107,6 +120,7 @@ export const roomStates = pgTable("room_states", {
   gameStateId: varchar("game_state_id").references(() => gameStates.id, { onDelete: "cascade" }),
   pointsGameId: varchar("points_game_id").references(() => pointsGames.id, { onDelete: "cascade" }),
   state: jsonb("state").notNull(), // Current room state for persistence
+  version: integer("version").notNull().default(0), // Bumped for every applied game command
   lastActivity: timestamp("last_activity").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -117,6 +131,8 @@ export interface Player {
   name: string;
   initials: string;
   color: string;
+  handicap?: number; // Course handicap used for net scoring (negative = plus handicap)
+  userId?: string;   // Account this player is linked to (set through the claim / invite flow only)
 }
 
 export interface Card {
@@ -124,6 +140,27 @@ export interface Card {
   type: 'camel' | 'fish' | 'roadrunner' | 'ghost' | 'skunk' | 'snake' | 'yeti' | 'custom';
   emoji: string;
   name?: string; // For custom cards
+  key?: string;  // Deck config entry this card was dealt from
+  rule?: string; // Card-specific rule from the deck config
+}
+
+export const BUILT_IN_CARD_TYPES = ['camel', 'fish', 'roadrunner', 'ghost', 'skunk', 'snake', 'yeti'] as const;
+export type BuiltInCardType = typeof BUILT_IN_CARD_TYPES[number];
+
+// One entry in a group's card catalog
+export interface DeckCardConfig {
+  key: string;       // Built-in card type, or the custom card ID
+  name: string;
+  emoji: string;
+  value: number;     // Default value for new sessions
+  quantity: number;  // Copies dealt into the deck
+  enabled: boolean;
+  builtIn: boolean;
+  rule?: string;     // e.g. "Transfers on the next three-putt"
+}
+
+export interface DeckConfig {
+  cards: DeckCardConfig[];
 }
 
 export interface CustomCard {
@@ -144,6 +181,63 @@ export interface CardValues {
   [key: string]: number; // For custom cards
 }
 
+export const deckCardConfigSchema = z.object({
+  key: z.string().min(1).max(50),
+  name: z.string().min(1).max(30),
+  emoji: z.string().min(1).max(16),
+  value: z.number().min(0),
+  quantity: z.number().int().min(1).max(4),
+  enabled: z.boolean(),
+  builtIn: z.boolean(),
+  rule: z.string().max(200).optional(),
+}).refine(
+  card => !card.builtIn || (BUILT_IN_CARD_TYPES as readonly string[]).includes(card.key),
+  { message: 'Unknown built-in card', path: ['key'] }
+);
+
+export const deckConfigSchema = z.object({
+  cards: z.array(deckCardConfigSchema).min(1).max(30),
+}).refine(
+  deck => new Set(deck.cards.map(card => card.key)).size === deck.cards.length,
+  { message: 'Each card can only appear once in the deck', path: ['cards'] }
+).refine(
+  deck => new Set(deck.cards.map(card => card.name.toLowerCase())).size === deck.cards.length,
+  { message: 'Card names must be unique', path: ['cards'] }
+).refine(
+  deck => deck.cards.some(card => card.enabled),
+  { message: 'At least one card must be enabled', path: ['cards'] }
+);
+
+// Round configuration - which holes are played and where play starts
+export interface RoundConfig {
+  length: 9 | 18 | 27 | 'custom';
+  holes: number[];    // Hole numbers in play (1-27)
+  startHole?: number; // Shotgun start: play begins here and wraps around the hole list
+}
+
+export const MAX_HOLE_NUMBER = 27;
+
+export const roundConfigSchema = z.object({
+  length: z.union([z.literal(9), z.literal(18), z.literal(27), z.literal('custom')]),
+  holes: z.array(z.number().int().min(1).max(MAX_HOLE_NUMBER)).min(1).optional(),
+  startHole: z.number().int().min(1).max(MAX_HOLE_NUMBER).optional(),
+}).transform((config, ctx): RoundConfig => {
+  // Fixed lengths default to holes 1..N; a 9-hole round may name its own nine (e.g. the back nine)
+  const holes = config.holes ?? (config.length === 'custom' ? [] : Array.from({ length: config.length }, (_, i) => i + 1));
+  const sorted = Array.from(new Set(holes)).sort((a, b) => a - b);
+  if (sorted.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['holes'], message: 'Custom rounds must list the holes in play' });
+  } else if (sorted.length !== holes.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['holes'], message: 'Holes must not repeat' });
+  } else if (config.length !== 'custom' && sorted.length !== config.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['holes'], message: `A ${config.length}-hole round needs ${config.length} holes` });
+  }
+  if (config.startHole !== undefined && !sorted.includes(config.startHole)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['startHole'], message: 'Start hole must be one of the holes in play' });
+  }
+  return { length: config.length, holes: sorted, ...(config.startHole !== undefined && { startHole: config.startHole }) };
+});
+
 export interface CardAssignment {
   cardId: string;
   cardType: 'camel' | 'fish' | 'roadrunner' | 'ghost' | 'skunk' | 'snake' | 'yeti' | 'custom';
@@ -164,6 +258,11 @@ export const insertGroupSchema = createInsertSchema(groups).omit({
 
 export const insertGameStateSchema = createInsertSchema(gameStates).omit({
   id: true,
+  revision: true,
+  shareToken: true,
+  finalizedAt: true,
+  finalizedBy: true,
+  finalSettlement: true,
   createdAt: true,
 });
 
@@ -174,8 +273,25 @@ export const playerSchema = z.object({
   name: z.string().min(1, "Name is required"),
   initials: z.string().min(1).max(3),
   color: z.string().default("#0EA5E9"),
+  handicap: z.number().min(-10).max(54).optional(),
+  userId: z.string().optional(),
 });
 
+// Groups support 2-6 players across every game type
+export const MIN_GROUP_PLAYERS = 2;
+export const MAX_GROUP_PLAYERS = 6;
+
+export const groupPlayersSchema = z.array(playerSchema)
+  .min(MIN_GROUP_PLAYERS, `At least ${MIN_GROUP_PLAYERS} players are required`)
+  .max(MAX_GROUP_PLAYERS, `Groups are limited to ${MAX_GROUP_PLAYERS} players`)
+  .refine(
+    players => {
+      const linked = players.map(p => p.userId).filter(Boolean);
+      return new Set(linked).size === linked.length;
+    },
+    { message: 'An account can only be linked to one player per group' }
+  );
+
 export const cardValuesSchema = z.object({
   camel: z.number().min(0),
   fish: z.number().min(0),
@@ -186,11 +302,140 @@ export const cardValuesSchema = z.object({
   yeti: z.number().min(0),
 }).catchall(z.number().min(0)); // Allow custom card values
 
+// Stroke index must rank each of the 18 holes exactly once (1 = hardest hole)
+export function isValidStrokeIndex(strokeIndex: unknown): strokeIndex is number[] {
+  if (!Array.isArray(strokeIndex) || strokeIndex.length !== 18) return false;
+  const sorted = [...strokeIndex].sort((a, b) => a - b);
+  return sorted.every((value, i) => value === i + 1);
+}
+
+// 2/9/16 point-table variants. The presets cover common club rules; 'custom' brings its own tables
+// (any player count it leaves out plays the standard table). Ties either split the points of the
+// positions the tied players share, or - when the low score is tied - carry the hole onto the next.
+export const POINT_TABLE_PRESETS = ['standard', 'ties-carry', 'custom'] as const;
+export type PointTablePreset = typeof POINT_TABLE_PRESETS[number];
+export const POINT_TABLE_TIES = ['split', 'carry'] as const;
+export type PointTableTies = typeof POINT_TABLE_TIES[number];
+export const POINT_TABLE_ROUNDING = ['exact', 'half', 'whole'] as const; // Precision of split points
+export type PointTableRounding = typeof POINT_TABLE_ROUNDING[number];
+
+// Points awarded per hole by player count - the 2 / 9 / 16 the game is named for
+export const POINT_TABLE_TOTALS: Record<string, number> = { '2': 2, '3': 9, '4': 16, '5': 25, '6': 36 };
+
+const ROUNDING_STEPS: Record<PointTableRounding, number> = { exact: 0, half: 0.5, whole: 1 };
+
+// Every run of tied positions must split into shares at the rounding precision, so rounding never changes a hole's total
+const splitsAtPrecision = (table: number[], step: number) =>
+  step === 0 || table.every((_, start) => table.slice(start).every((_, i) => {
+    const run = table.slice(start, start + i + 1);
+    const share = run.reduce((sum, value) => sum + value, 0) / run.length / step;
+    return Math.abs(share - Math.round(share)) < 1e-9;
+  }));
+
+export const pointTableSchema = z.object({
+  preset: z.enum(POINT_TABLE_PRESETS),
+  tables: z.record(
+    z.string().regex(/^[2-6]$/, 'Point tables are keyed by player count (2-6)'),
+    z.array(z.number().min(0))
+  ).optional(),                                  // Custom only: player count -> points per finishing position (best first)
+  ties: z.enum(POINT_TABLE_TIES).optional(),       // Custom only (default split)
+  rounding: z.enum(POINT_TABLE_ROUNDING).optional(), // Custom only (default exact)
+}).superRefine((variant, ctx) => {
+  for (const [count, table] of Object.entries(variant.tables ?? {})) {
+    const path = ['tables', count];
+    const total = table.reduce((sum, value) => sum + value, 0);
+    if (table.length !== Number(count)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `The ${count}-player table needs ${count} values` });
+    } else if (table.some((value, i) => i > 0 && value > table[i - 1])) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `The ${count}-player table must not give more points for a worse finish` });
+    } else if (Math.abs(total - POINT_TABLE_TOTALS[count]) > 1e-9) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `The ${count}-player table must add up to ${POINT_TABLE_TOTALS[count]} points (it adds up to ${total})` });
+    } else if (!splitsAtPrecision(table, ROUNDING_STEPS[variant.rounding ?? 'exact'])) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Ties in the ${count}-player table don't split into ${variant.rounding === 'half' ? 'half' : 'whole'} points` });
+    }
+  }
+});
+
+export type PointTableVariant = z.infer<typeof pointTableSchema>;
+
+// Team games: two sides scored from each player's strokes
+export const teamSettingsSchema = z.object({
+  sides: z.tuple([z.array(z.string().min(1)).min(1), z.array(z.string().min(1)).min(1)]),
+  rotation: z.enum(['fixed', 'sixes']),
+  scoring: z.enum(['bestBall', 'aggregate']),
+  value: z.number().min(0),
+}).refine(
+  teams => teams.sides[0].length === teams.sides[1].length,
+  { message: 'Both sides need the same number of players', path: ['sides'] }
+).refine(
+  teams => new Set([...teams.sides[0], ...teams.sides[1]]).size === teams.sides[0].length + teams.sides[1].length,
+  { message: 'A player can only be on one side', path: ['sides'] }
+).refine(
+  teams => teams.rotation === 'fixed' || teams.sides[0].length === 2,
+  { message: 'Rotating partners every 6 holes needs a foursome', path: ['rotation'] }
+);
+
 export const pointsGameSettingsSchema = z.object({
   pointValue: z.number().min(0).optional(),
   nassauValue: z.number().min(0).optional(),
+  scoringMode: z.enum(['gross', 'net']).optional(),
+  strokeIndex: z.array(z.number().int().min(1).max(18)).refine(isValidStrokeIndex, {
+    message: 'Stroke index must list holes 1-18 exactly once'
+  }).optional(),
+  positionPoints: z.record(
+    z.string().regex(/^[2-6]$/, 'Position points are keyed by player count (2-6)'),
+    z.array(z.number().min(0))
+  ).refine(
+    tables => Object.entries(tables).every(([count, table]) => table.length === Number(count)),
+    { message: 'Each position points table needs one value per player' }
+  ).refine(
+    tables => Object.values(tables).every(table => table.every((value, i) => i === 0 || value <= table[i - 1])),
+    { message: 'Position points must not increase for worse finishes' }
+  ).optional(),                 // Older per-game tables; games with a pointTable ignore this
+  pointTable: pointTableSchema.optional(),
+  autoPress: z.boolean().optional(),
+  pressTrigger: z.number().int().min(1).max(9).optional(),
+  pressValue: z.number().min(0).optional(),
+  skinValue: z.number().min(0).optional(),
+  skinsValidation: z.enum(['none', 'birdie']).optional(),
+  wolfTeeOrder: z.array(z.string().min(1)).min(3).max(MAX_GROUP_PLAYERS).refine(
+    order => new Set(order).size === order.length,
+    { message: 'Wolf tee order must list each player once' }
+  ).optional(),
+  stablefordTable: z.enum(['standard', 'modified']).optional(),
+  stablefordSettlement: z.enum(['pairwise', 'ladder']).optional(),
+  stablefordValue: z.number().min(0).optional(),
+  teams: teamSettingsSchema.optional(),
 });
 
+// Nassau press - a new head-to-head bet from startHole to the end of its Nassau segment
+export interface NassauPress {
+  id: string;
+  pressedBy: string;  // Player ID of the player who is down and presses
+  opponent: string;   // Player ID the press is against
+  startHole: number;
+  createdAt: string;  // ISO timestamp
+}
+
+export const declarePressSchema = z.object({
+  pressedBy: z.string().min(1),
+  opponent: z.string().min(1),
+  startHole: z.number().int().min(1).max(MAX_HOLE_NUMBER),
+}).refine(press => press.pressedBy !== press.opponent, {
+  message: 'A player cannot press against themselves',
+  path: ['opponent']
+});
+
+// Wolf-specific types
+export type WolfMode = 'partner' | 'lone' | 'blind';
+
+export interface WolfHoleData {
+  wolf: string;                   // Player ID of this hole's wolf (from the tee order rotation)
+  mode: WolfMode;                 // Partner picked, lone wolf after the drives, or blind wolf before them
+  partner?: string;               // Player ID, only when mode is 'partner'
+  strokes: Record<string, number>; // playerId -> strokes, best ball decides each side
+}
+
 // BBB-specific types
 export interface BBBHoleData {
   firstOn?: string; // player ID
@@ -214,23 +459,54 @@ export interface GIRHoleConfig {
   bonus: number[];    // Array of hole numbers designated as bonus holes
 }
 
+// Team game configuration (stored on the 2/9/16 game, scored from its strokes)
+export interface TeamSettings {
+  sides: [string[], string[]];      // Player IDs per side (for 'sixes', the pairing for holes 1-6)
+  rotation: 'fixed' | 'sixes';      // 'sixes' rotates partners every 6 holes so each player partners everyone once
+  scoring: 'bestBall' | 'aggregate'; // Team score per hole: low ball or combined strokes
+  value: number;                    // Dollars each player wins or loses per bet
+}
+
+// Points game settings - wager values plus handicap scoring options
+export interface PointsGameSettings {
+  pointValue?: number;
+  nassauValue?: number;
+  scoringMode?: 'gross' | 'net'; // 'net' scores 2/9/16 holes after handicap strokes
+  strokeIndex?: number[];        // Hole handicap for holes 1-18 (index 0 = hole 1)
+  positionPoints?: Record<string, number[]>; // Player count -> points per finishing position (best first); superseded by pointTable
+  pointTable?: PointTableVariant; // 2/9/16 point-table variant (standard when unset)
+  autoPress?: boolean;  // Automatically press whenever the latest bet between two players goes pressTrigger down
+  pressTrigger?: number; // Holes down needed to press (default 2)
+  pressValue?: number;  // Stake per press (defaults to the Nassau value)
+  skinValue?: number;   // Skins: dollars per skin from each other player
+  skinsValidation?: 'none' | 'birdie'; // Skins: 'birdie' = a carried pot is only won with birdie or better
+  wolfTeeOrder?: string[]; // Wolf: player IDs in tee order; the wolf rotates through it hole by hole
+  stablefordTable?: 'standard' | 'modified';    // Stableford: points table (modified = bigger birdie/eagle swings, negatives for bogeys)
+  stablefordSettlement?: 'pairwise' | 'ladder'; // Stableford: pairwise point differences or pay-up-the-ladder
+  stablefordValue?: number;                     // Stableford: dollars per point (0 = not played for money)
+  teams?: TeamSettings; // Team best ball / aggregate bets on the 2/9/16 strokes
+}
+
 // Points Game Tables - Extended to support both 2/9/16 and BBB games
 export const pointsGames = pgTable("points_games", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   groupId: varchar("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
   gameStateId: varchar("game_state_id").references(() => gameStates.id, { onDelete: "cascade" }), // Link to specific card game session
   name: varchar("name").notNull(),
-  gameType: varchar("game_type").$type<'points' | 'bbb' | 'gir'>().notNull().default('points'), // Distinguish between 2/9/16, BBB, and GIR
-  holes: jsonb("holes").$type<Record<number, Record<string, number | string>>>().default({}), // For 2/9/16: hole -> playerId -> strokes; For BBB: hole -> category -> playerId
+  gameType: varchar("game_type").$type<'points' | 'bbb' | 'gir' | 'skins' | 'wolf'>().notNull().default('points'), // Distinguish between 2/9/16, BBB, GIR, Skins, and Wolf
+  holes: jsonb("holes").$type<Record<number, Record<string, number | string>>>().default({}), // For 2/9/16 and Skins: hole -> playerId -> strokes; For BBB: hole -> category -> playerId; For Wolf: hole -> WolfHoleData
   points: jsonb("points").$type<Record<number, Record<string, number>>>().default({}), // hole -> playerId -> points (calculated for both game types)
-  settings: jsonb("settings").$type<{ pointValue?: number; nassauValue?: number }>().default({ pointValue: 1, nassauValue: 10 }), // Point and Nassau values
+  settings: jsonb("settings").$type<PointsGameSettings>().default({ pointValue: 1, nassauValue: 10 }), // Point/Nassau values and scoring options
   girHoleConfig: jsonb("gir_hole_config").$type<GIRHoleConfig>().default({ penalty: [], bonus: [] }), // User-configured penalty/bonus holes for GIR games
+  presses: jsonb("presses").$type<NassauPress[]>().default([]), // Manually declared Nassau presses (auto-presses are derived from scores)
+  revision: integer("revision").notNull().default(0), // Bumped on every write; edits send the revision they were based on
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertPointsGameSchema = createInsertSchema(pointsGames).omit({
   id: true,
+  revision: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -286,6 +562,14 @@ export const insertCombinedPayoutResultSchema = createInsertSchema(combinedPayou
 export type CombinedPayoutResult = typeof combinedPayoutResults.$inferSelect;
 export type InsertCombinedPayoutResult = z.infer<typeof insertCombinedPayoutResultSchema>;
 
+// Snapshot of a round's saved payout result, taken when the round is finalized
+export interface FinalSettlement {
+  payoutResultId: string;
+  selectedGames: string[];
+  transactions: CombinedPayoutResult['calculationResult']['transactions'];
+  summary: Record<string, number>;
+}
+
 // User Preferences Schema
 export const insertUserPreferencesSchema = createInsertSchema(userPreferences).omit({
   id: true,
@@ -372,3 +656,511 @@ export const insertAppleSubscriptionSchema = createInsertSchema(appleSubscriptio
 export type AppleSubscription = typeof appleSubscriptions.$inferSelect;
 export type InsertAppleSubscription = z.infer<typeof insertAppleSubscriptionSchema>;
 
+
+// Courses Table - Course library with par, stroke index and tee data
+export interface CourseTee {
+  name: string;        // e.g. "Blue", "White"
+  rating?: number;     // Course rating
+  slope?: number;      // Slope rating
+  yardage: number[];   // Yards per hole (index 0 = hole 1)
+}
+
+export const courses = pgTable("courses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  location: varchar("location"),
+  holeCount: integer("hole_count").notNull().default(18), // 9 or 18
+  par: jsonb("par").$type<number[]>().notNull(),                 // Par per hole (index 0 = hole 1)
+  strokeIndex: jsonb("stroke_index").$type<number[]>().notNull(), // Hole handicap per hole (1 = hardest)
+  tees: jsonb("tees").$type<CourseTee[]>().notNull().default([]),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "cascade" }), // null = shared library course
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const courseTeeSchema = z.object({
+  name: z.string().min(1, "Tee name is required"),
+  rating: z.number().min(20).max(90).optional(),
+  slope: z.number().int().min(55).max(155).optional(),
+  yardage: z.array(z.number().int().min(0).max(1000)),
+});
+
+export const insertCourseSchema = createInsertSchema(courses).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  holeCount: z.union([z.literal(9), z.literal(18)]).default(18),
+  par: z.array(z.number().int().min(3).max(6)),
+  strokeIndex: z.array(z.number().int().min(1).max(18)),
+  tees: z.array(courseTeeSchema).default([]),
+}).superRefine((course, ctx) => {
+  if (course.par.length !== course.holeCount) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['par'], message: `Par must list ${course.holeCount} holes` });
+  }
+  if (course.strokeIndex.length !== course.holeCount || new Set(course.strokeIndex).size !== course.holeCount) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['strokeIndex'], message: `Stroke index must rank ${course.holeCount} holes with no repeats` });
+  }
+  course.tees.forEach((tee, i) => {
+    if (tee.yardage.length !== course.holeCount) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tees', i, 'yardage'], message: `Yardage must list ${course.holeCount} holes` });
+    }
+  });
+});
+
+export type Course = typeof courses.$inferSelect;
+export type InsertCourse = z.infer<typeof insertCourseSchema>;
+
+// Group Memberships - shared groups with owner / scorer / viewer roles
+// The group creator is always treated as owner, even without a membership row.
+export type GroupRole = 'owner' | 'scorer' | 'viewer';
+
+export const groupMembers = pgTable("group_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: varchar("role").$type<GroupRole>().notNull().default('viewer'),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [uniqueIndex("IDX_group_members_group_user").on(table.groupId, table.userId)]);
+
+export const groupInvitations = pgTable("group_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  code: varchar("code").notNull().unique(),           // Short code shared as a link or typed into "Join Group"
+  email: varchar("email"),                            // Optional - invitation emailed to this address
+  role: varchar("role").$type<Exclude<GroupRole, 'owner'>>().notNull().default('viewer'),
+  playerId: varchar("player_id"),                      // Optional - group player the invitee is linked to on accept
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedBy: varchar("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const createInvitationSchema = z.object({
+  role: z.enum(['scorer', 'viewer']).default('viewer'),
+  email: z.string().email().optional(),
+  playerId: z.string().optional(),
+});
+
+export const linkPlayerSchema = z.object({
+  userId: z.string().min(1),
+});
+
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(['scorer', 'viewer']),
+});
+
+export type GroupMember = typeof groupMembers.$inferSelect;
+export type GroupInvitation = typeof groupInvitations.$inferSelect;
+export type InsertGroupInvitation = typeof groupInvitations.$inferInsert;
+
+export interface GroupMemberWithUser extends GroupMember {
+  name: string;
+  email: string | null;
+}
+
+// A linked player's identity across groups - drives "my games" for the signed-in account
+export interface LinkedPlayerGroup {
+  groupId: string;
+  groupName: string;
+  playerId: string;
+  playerName: string;
+  role: GroupRole;
+  games: Array<{ id: string; name: string; isActive: number; createdAt: Date }>;
+}
+
+// Game Events - append-only audit trail of scoring edits within a round.
+// Edits store the fields they changed before and after, which is what undo / redo restore.
+export type GameEventAction =
+  | 'assign-card'
+  | 'card-values'
+  | 'enter-hole-score'
+  | 'set-gir'
+  | 'set-bbb'
+  | 'skins-hole'
+  | 'wolf-hole'
+  | 'gir-hole-config'
+  | 'game-settings'
+  | 'press'
+  | 'undo'
+  | 'redo'
+  | 'finalize'
+  | 'reopen';
+
+export const gameEvents = pgTable("game_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  gameStateId: varchar("game_state_id").references(() => gameStates.id, { onDelete: "cascade" }), // Round the edit belongs to
+  pointsGameId: varchar("points_game_id").references(() => pointsGames.id, { onDelete: "cascade" }), // Set for side game edits
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  deviceId: varchar("device_id"),                     // Per-browser id sent by the client
+  userAgent: text("user_agent"),
+  action: varchar("action").$type<GameEventAction>().notNull(),
+  summary: text("summary").notNull(),                 // e.g. "Hole 7 scores (2/9/16)"
+  hole: integer("hole"),
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  revertsEventId: varchar("reverts_event_id").references((): AnyPgColumn => gameEvents.id, { onDelete: "set null" }), // undo / redo entries point at the edit
+  undoneAt: timestamp("undone_at"),                    // Set while an edit is undone (cleared again by redo)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_game_events_game_state").on(table.gameStateId, table.createdAt)]);
+
+export const undoEventsSchema = z.object({
+  count: z.number().int().min(1).max(50).default(1),
+});
+
+export type GameEvent = typeof gameEvents.$inferSelect;
+export type InsertGameEvent = typeof gameEvents.$inferInsert;
+
+export interface GameEventWithUser extends GameEvent {
+  userName: string | null;
+}
+
+// Spectator leaderboard served from a game's share token. Only public round data -
+// players carry no account links and nothing identifies the scorers.
+export interface LiveLeaderboardPlayer {
+  id: string;
+  name: string;
+  initials: string;
+  color: string;
+  cards: Array<{ id: string; name: string; emoji: string }>;
+  points: number | null;    // 2/9/16 points so far (null when the round has no 2/9/16 game)
+  projected: number;        // Projected net payout across cards, 2/9/16 points and Nassau
+}
+
+export interface LiveLeaderboard {
+  gameName: string;
+  groupName: string;
+  holesPlayed: number;
+  roundHoles: number[];
+  players: LiveLeaderboardPlayer[];
+  nassau: {
+    segments: Array<{ label: string; holes: number[]; points: Record<string, number>; leaders: string[] }>;
+    presses: Array<{ pressedBy: string; opponent: string; startHole: number; endHole: number; holesUp: number; winner: string | null }>;
+  } | null;
+  updatedAt: string;
+}
+
+// Typed game commands - shared by the room WebSocket and the offline operation queue
+export const GAME_COMMANDS = [
+  'assign-card',
+  'enter-hole-score',
+  'set-gir',
+  'set-bbb',
+  'set-skins-hole',
+  'set-wolf-hole',
+  'set-gir-hole-config',
+  'set-card-values',
+] as const;
+
+export type GameCommand = typeof GAME_COMMANDS[number];
+
+// Offline operations - client-generated op ids the server has seen, so a replayed queue is never applied twice
+export type OfflineOperationStatus = 'processing' | 'applied' | 'rejected';
+
+export const offlineOperations = pgTable("offline_operations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  opId: varchar("op_id").notNull(),                   // Generated on the device when the edit was made
+  command: varchar("command").$type<GameCommand>().notNull(),
+  status: varchar("status").$type<OfflineOperationStatus>().notNull().default('processing'),
+  message: text("message"),                           // Why a rejected operation failed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+}, (table) => [uniqueIndex("IDX_offline_operations_user_op").on(table.userId, table.opId)]);
+
+export const offlineOperationsSchema = z.object({
+  operations: z.array(z.object({
+    opId: z.string().min(8).max(64),
+    command: z.string(),
+    payload: z.unknown(),
+  })).max(100),
+});
+
+export type OfflineOperation = typeof offlineOperations.$inferSelect;
+
+// applied / duplicate: done. rejected: will never apply (validation, access). retry: try again later.
+// skipped: not attempted because an earlier operation has to retry first (the queue stays in order).
+export interface OfflineOperationResult {
+  opId: string;
+  status: 'applied' | 'duplicate' | 'rejected' | 'retry' | 'skipped';
+  message?: string;
+}
+
+// Settlement ledger - each finalized round's transactions and the payments made against them.
+// Unpaid amounts carry forward; running balances are netted across rounds into a minimal set of payments.
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  gameStateId: varchar("game_state_id").references(() => gameStates.id, { onDelete: "set null" }), // Kept if the round is deleted
+  payoutResultId: varchar("payout_result_id").references(() => combinedPayoutResults.id, { onDelete: "set null" }),
+  roundName: varchar("round_name").notNull(),
+  fromPlayerId: varchar("from_player_id").notNull(),
+  fromName: varchar("from_name").notNull(),
+  toPlayerId: varchar("to_player_id").notNull(),
+  toName: varchar("to_name").notNull(),
+  amount: json("amount").$type<number>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_ledger_entries_group").on(table.groupId),
+  index("IDX_ledger_entries_game_state").on(table.gameStateId),
+]);
+
+export const ledgerPayments = pgTable("ledger_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  entryId: varchar("entry_id").references(() => ledgerEntries.id, { onDelete: "cascade" }), // Null for a payment against the netted balance
+  fromPlayerId: varchar("from_player_id").notNull(),
+  toPlayerId: varchar("to_player_id").notNull(),
+  amount: json("amount").$type<number>().notNull(),
+  recordedBy: varchar("recorded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_ledger_payments_group").on(table.groupId)]);
+
+export const recordLedgerRoundSchema = z.object({
+  gameStateId: z.string(),
+});
+
+// With an entryId the payment goes against that debt (players default to the entry's, and
+// omitting the amount pays off what's left). With a gameStateId it confirms a leg of that
+// round's who-owes-who; with neither it pays down the netted balance.
+export const recordLedgerPaymentSchema = z.object({
+  entryId: z.string().optional(),
+  gameStateId: z.string().optional(), // Confirms a who-owes-who leg from this round
+  fromPlayerId: z.string().optional(),
+  toPlayerId: z.string().optional(),
+  amount: z.number().positive().max(100000).optional(),
+}).refine(
+  data => data.entryId || (data.fromPlayerId && data.toPlayerId && data.amount),
+  { message: 'Either an entry or both players and an amount are required' }
+);
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
+export type LedgerPayment = typeof ledgerPayments.$inferSelect;
+export type InsertLedgerPayment = typeof ledgerPayments.$inferInsert;
+
+export interface LedgerEntryWithStatus extends LedgerEntry {
+  paid: number;
+  outstanding: number;
+}
+
+export interface SettlementLedger {
+  rounds: Array<{
+    gameStateId: string | null;
+    roundName: string;
+    recordedAt: string;
+    entries: LedgerEntryWithStatus[];
+  }>;
+  payments: LedgerPayment[];
+  balances: Record<string, number>; // Positive: is owed money across all rounds
+  settlements: Array<{ from: string; fromName: string; to: string; toName: string; amount: number; memo: string; paymentOptions: PaymentOption[] }>;
+  playerNames: Record<string, string>;
+}
+
+// Payment apps - handles on the user's profile turn each who-owes-who leg into pay links
+export const PAYMENT_APPS = ['venmo', 'paypal', 'cashapp', 'zelle'] as const;
+export type PaymentApp = typeof PAYMENT_APPS[number];
+
+export type PaymentHandles = Partial<Record<PaymentApp, string>>;
+
+// Blank fields clear the handle
+const optionalHandle = (schema: z.ZodTypeAny) =>
+  z.preprocess(value => typeof value === 'string' && value.trim() === '' ? undefined : value, schema.optional());
+
+export const paymentHandlesSchema = z.object({
+  venmo: optionalHandle(z.string().trim().regex(/^@?[A-Za-z0-9_-]{5,30}$/, 'Enter a Venmo username').transform(value => value.replace(/^@/, ''))),
+  paypal: optionalHandle(z.string().trim().regex(/^[A-Za-z0-9]{1,20}$/, 'Enter your PayPal.Me name')),
+  cashapp: optionalHandle(z.string().trim().regex(/^\$?[A-Za-z][A-Za-z0-9_-]{0,19}$/, 'Enter a $Cashtag').transform(value => value.replace(/^\$/, ''))),
+  zelle: optionalHandle(z.string().trim().refine(
+    value => z.string().email().safeParse(value).success || /^\+?[0-9\s().-]{10,16}$/.test(value),
+    'Enter the email or phone number registered with Zelle'
+  )),
+});
+
+export interface PaymentOption {
+  app: PaymentApp;
+  label: string;
+  handle: string;
+  url: string | null;   // Opens the app (or its website) with the payment filled in; Zelle has no public link
+  qrPayload: string;    // What the QR code encodes for paying from another phone
+}
+
+export interface WhoOwesWhoLeg {
+  fromPlayerId: string;
+  toPlayerId: string;
+  amount: number;
+  fromPlayerName: string;
+  toPlayerName: string;
+  memo: string;
+  paymentOptions: PaymentOption[];
+}
+
+// Player statistics across stored rounds. Seasons are calendar years; the date range
+// filters every stat except lifetime and season net winnings.
+export const playerStatsQuerySchema = z.object({
+  groupId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  season: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+export const BBB_CATEGORIES = ['firstOn', 'closestTo', 'firstIn'] as const;
+export type BBBCategory = typeof BBB_CATEGORIES[number];
+
+export interface RateStat {
+  count: number;           // Holes hit / categories won
+  opportunities: number;   // Holes recorded for the player
+  rate: number | null;     // count / opportunities (null when there were none)
+}
+
+export interface PlayerStats {
+  key: string;             // Linked account id, or "groupId:playerId" for players without an account
+  userId: string | null;
+  name: string;
+  initials: string;
+  color: string;
+  groupIds: string[];
+  roundsPlayed: number;
+  games2916: number;
+  average2916Points: number | null;   // Per 2/9/16 game played
+  gir: RateStat & { byHole: Record<number, RateStat> };
+  bbb: Record<BBBCategory, RateStat>;
+  cards: Array<{ type: Card['type']; name: string; emoji: string; count: number }>; // Most held first
+  netWinnings: number;     // Saved payouts for rounds in the date range
+  seasonNet: number;
+  lifetimeNet: number;
+}
+
+export interface PlayerStatsReport {
+  groups: Array<{ id: string; name: string }>;
+  from: string | null;
+  to: string | null;
+  season: number;
+  roundsCounted: number;
+  players: PlayerStats[];
+}
+
+// Leagues - a season of rounds within a group. Each round is scored from the games the league
+// counts; standings either award points by finishing position or add up money, optionally
+// keeping only each player's best N rounds.
+export const LEAGUE_GAMES = ['points', 'gir', 'cards'] as const; // 2/9/16 points, GIR, animal cards
+export type LeagueGame = typeof LEAGUE_GAMES[number];
+
+export const leagueScoringSchema = z.object({
+  method: z.enum(['points', 'money']),
+  positionPoints: z.array(z.number().min(0).max(1000)).min(1).max(16).default([10, 7, 5, 3, 1]), // 1st, 2nd, ... (points method)
+  bestOf: z.number().int().min(1).max(100).nullable().default(null), // Count only the best N rounds (null = every round)
+});
+
+export type LeagueScoring = z.infer<typeof leagueScoringSchema>;
+
+export const leagues = pgTable("leagues", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => groups.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  countedGames: jsonb("counted_games").$type<LeagueGame[]>().notNull().default(['points']),
+  scoring: jsonb("scoring").$type<LeagueScoring>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [index("IDX_leagues_group").on(table.groupId)]);
+
+export const insertLeagueSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  countedGames: z.array(z.enum(LEAGUE_GAMES)).min(1),
+  scoring: leagueScoringSchema,
+});
+
+export const updateLeagueSchema = insertLeagueSchema.partial();
+
+export const leagueRoundSchema = z.object({
+  gameStateId: z.string(),
+});
+
+export type League = typeof leagues.$inferSelect;
+export type InsertLeague = typeof leagues.$inferInsert;
+
+export interface LeagueStanding {
+  playerId: string;
+  name: string;
+  initials: string;
+  color: string;
+  roundsPlayed: number;
+  total: number;                        // League points, or net money
+  roundScores: Record<string, number>;  // gameStateId -> score from that round
+  countedRounds: string[];              // Rounds in the total when only the best N count
+}
+
+export interface LeagueStandings {
+  league: League;
+  rounds: Array<{ gameStateId: string; name: string; playedAt: string }>;
+  standings: LeagueStanding[];
+}
+
+// Events - several foursomes (each its own group and round) playing the same day. Games that
+// compare across foursomes are scored over every participant and settled as one event.
+export const EVENT_GAMES = ['skins', 'gir', 'points'] as const; // Skins pot, GIR totals, 2/9/16 point totals
+export type EventGame = typeof EVENT_GAMES[number];
+
+export const eventSettingsSchema = z.object({
+  games: z.array(z.enum(EVENT_GAMES)).default(['skins']),
+  skinBuyIn: z.number().min(0).max(10000).default(0),     // Each player's stake in the skins pot
+  girPointValue: z.number().min(0).max(10000).default(0),  // Per GIR point, paid up the ladder
+  pointValue: z.number().min(0).max(10000).default(0),     // Per 2/9/16 point, between every pair of players
+});
+
+export type EventSettings = z.infer<typeof eventSettingsSchema>;
+
+export const events = pgTable("events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  settings: jsonb("settings").$type<EventSettings>().notNull(),
+  createdBy: varchar("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertEventSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  settings: eventSettingsSchema,
+});
+
+export const updateEventSchema = insertEventSchema.partial();
+
+export const eventRoundSchema = z.object({
+  gameStateId: z.string(),
+});
+
+// Named to stay clear of the DOM's Event
+export type GolfEvent = typeof events.$inferSelect;
+export type InsertGolfEvent = typeof events.$inferInsert;
+
+export interface EventParticipant {
+  key: string;            // "groupId:playerId" - unique across foursomes
+  playerId: string;
+  groupId: string;
+  groupName: string;
+  name: string;
+  initials: string;
+  color: string;
+  skins: number;
+  girPoints: number | null;      // null when their foursome has no GIR game
+  points2916: number | null;     // 2/9/16 total relative to their foursome's average; null when it has no 2/9/16 game
+  net: number;                   // Event settlement across the counted games
+}
+
+export interface EventLeaderboard {
+  event: GolfEvent;
+  rounds: Array<{ gameStateId: string; name: string; groupId: string; groupName: string }>;
+  participants: EventParticipant[];
+  skins: {
+    holes: Array<{ hole: number; winner: string | null; skins: number }>;
+    carryover: number;
+    pot: number;
+  } | null;
+  settlement: Array<{ from: string; fromName: string; to: string; toName: string; amount: number }>;
+}